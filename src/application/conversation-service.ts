@@ -6,7 +6,13 @@
  * 2. Process user input → embed → store
  * 3. Assemble context within token budget (fetching from storage)
  * 4. Call provider for completion (streaming)
- * 5. Store agent response
+ * 5. Store agent response, with its token usage and cost
+ * 6. Run any tools it called, store the calls and results, and go back
+ *    to step 3 until it answers without calling one. Calls whose tool
+ *    needs approval wait for resolveToolApproval() before they run.
+ *
+ * In compare mode, step 4 goes to several providers at once and the
+ * user picks which answer to store; the rest are kept as alternates.
  *
  * This is a stateless coordinator — all artifacts live in storage.
  */
@@ -16,13 +22,34 @@ import type {
   SessionArtifact,
   UserInput,
   AgentResponse,
+  AlternateResponse,
+  ToolUse,
+  ToolResult,
+  CompletionStatus,
+  CompletionUsage,
+  ImageAttachment,
+  ImageMediaType,
 } from "@/domain/session.ts"
-import type { Provider, StreamChunk } from "@/domain/provider.ts"
-import type { Context, ContextAssemblyOptions } from "@/domain/context.ts"
+import { addUsage, IMAGE_MEDIA_TYPES } from "@/domain/session.ts"
+import type { Provider, ProviderInfo, StreamChunk, FinishReason, ToolDefinition } from "@/domain/provider.ts"
+import { calculateCost } from "@/domain/provider.ts"
+import type { Context, ContextItem, ContextAssemblyOptions, ContextResource } from "@/domain/context.ts"
 import type { ProjectStorage } from "@/infrastructure/persistence/index.ts"
 import type { Embedder } from "@/infrastructure/embedding/types.ts"
 import type { ContextAssembler as ContextAssemblerPort } from "@/domain/ports/index.ts"
 import { ContextAssembler, createContextAssembler } from "@/infrastructure/context/index.ts"
+import { getTokenizer } from "@/infrastructure/tokenizer/index.ts"
+import { approvalPolicy, type ToolApprovalConfig, type ToolApprovalDecision, type ToolRegistry } from "@/tools/index.ts"
+
+/** Sent (but not stored) when resuming a truncated response */
+const CONTINUE_PROMPT =
+  "Your previous response was cut off. Continue exactly where it ended, without repeating anything."
+
+/** Completions per send() when tools are available (default) */
+const DEFAULT_MAX_TOOL_ITERATIONS = 10
+
+/** Most context tokens for external resources (default) */
+const DEFAULT_RESOURCE_RESERVE = 4000
 
 /**
  * Configuration for a conversation service.
@@ -54,18 +81,107 @@ export interface ConversationServiceConfig {
 
   /** Tokens to reserve for response (default: 1024) */
   responseReserve?: number
+
+  /** Send stored reasoning back to the model in later turns (default: false) */
+  includeReasoning?: boolean
+
+  /** Tools the model may call; only offered to providers that support tools */
+  tools?: ToolRegistry
+
+  /** Most completions one send() makes while the model keeps calling tools (default: 10) */
+  maxToolIterations?: number
+
+  /** Which tools run without asking, never run, or wait for the user (default: all run) */
+  toolApproval?: ToolApprovalConfig
+
+  /** External content (MCP resources) to add to context, read once per send */
+  resources?: () => Promise<ContextResource[]>
+
+  /** Most context tokens for resources (default: 4000) */
+  resourceReserve?: number
+}
+
+/**
+ * A tool call as the provider streamed it.
+ */
+type ToolCall = NonNullable<StreamChunk["toolUse"]>
+
+/**
+ * An image to attach to a user message.
+ */
+export interface ImageInput {
+  data: Uint8Array
+  mediaType: ImageMediaType
+  name?: string
+}
+
+/**
+ * Per-call options for send().
+ */
+export interface SendOptions {
+  /**
+   * Interrupts generation. Whatever was streamed so far is stored
+   * as an AgentResponse with status "user_interrupted".
+   */
+  signal?: AbortSignal
+
+  /** Images to attach to the message; the provider must support vision */
+  images?: ImageInput[]
+}
+
+/**
+ * One provider's answer in a comparison.
+ */
+export interface ComparisonCandidate {
+  provider: string
+  model: string
+  content: string
+  reasoning: string
+  /** How the answer completed, or "error" if the provider failed */
+  status: CompletionStatus | "error"
+  usage?: CompletionUsage
+  /** Time from request to the last chunk */
+  latencyMs: number
+  /** Why the provider failed to answer, if it did */
+  error?: string
+}
+
+/**
+ * Several providers' answers to one prompt, waiting for the user to keep one.
+ */
+export interface Comparison {
+  id: string
+  candidates: ComparisonCandidate[]
 }
 
 /**
  * Events emitted during session processing.
+ * A tool call is announced (tool_use) before it runs and its result
+ * follows when it finishes; tool_limit means the model wanted more
+ * tools after the last allowed completion, and those calls are stored
+ * with a "not run" error result. tool_approval_required
+ * means send() is paused until the user approves, edits or denies the
+ * call with resolveToolApproval().
+ * Compare events carry the index of the provider they belong to.
  */
 export type SessionEvent =
   | { type: "user_input"; artifact: UserInput }
   | { type: "context_assembled"; context: Context }
   | { type: "stream_start" }
   | { type: "stream_chunk"; content: string }
-  | { type: "stream_end"; usage?: StreamChunk["usage"] }
+  | { type: "reasoning_chunk"; content: string }
+  | { type: "stream_end"; usage?: StreamChunk["usage"]; finishReason?: FinishReason }
   | { type: "agent_response"; artifact: AgentResponse }
+  | { type: "session_usage"; usage: CompletionUsage }
+  | { type: "tool_use"; artifact: ToolUse }
+  | { type: "tool_result"; artifact: ToolResult }
+  | { type: "tool_limit"; iterations: number }
+  | { type: "tool_approval_required"; toolUseId: string; toolName: string; input: unknown }
+  | { type: "compare_start"; comparisonId: string; providers: ProviderInfo[] }
+  | { type: "compare_chunk"; index: number; content: string }
+  | { type: "compare_reasoning_chunk"; index: number; content: string }
+  | { type: "compare_end"; index: number; candidate: ComparisonCandidate }
+  | { type: "comparison"; comparison: Comparison }
   | { type: "error"; error: Error }
 
 /**
@@ -85,8 +201,18 @@ export class ConversationService {
   private workingDirectory: string
   private maxContextTokens: number
   private responseReserve: number
+  private includeReasoning: boolean
+  private tools: ToolRegistry | undefined
+  private maxToolIterations: number
+  private toolApproval: ToolApprovalConfig | undefined
+  private resources: (() => Promise<ContextResource[]>) | undefined
+  private resourceReserve: number
 
   private session: Session | null = null
+  /** Calls waiting for the user, by tool use ID */
+  private pendingApprovals = new Map<string, (decision: ToolApprovalDecision) => void>()
+  /** The latest comparison, until one of its answers is kept or the dialogue moves on */
+  private comparison: Comparison | null = null
 
   constructor(config: ConversationServiceConfig) {
     this.projectId = config.projectId
@@ -102,6 +228,12 @@ export class ConversationService {
     this.maxContextTokens =
       config.maxContextTokens ?? config.provider.info.capabilities.maxContextTokens
     this.responseReserve = config.responseReserve ?? 1024
+    this.includeReasoning = config.includeReasoning ?? false
+    this.tools = config.tools
+    this.maxToolIterations = config.maxToolIterations ?? DEFAULT_MAX_TOOL_ITERATIONS
+    this.toolApproval = config.toolApproval
+    this.resources = config.resources
+    this.resourceReserve = config.resourceReserve ?? DEFAULT_RESOURCE_RESERVE
   }
 
   /**
@@ -221,52 +353,552 @@ export class ConversationService {
    * Send user input and get a streaming response.
    * Yields SessionEvents as processing progresses.
    */
-  async *send(userInput: string): AsyncIterable<SessionEvent> {
+  async *send(userInput: string, options: SendOptions = {}): AsyncIterable<SessionEvent> {
+    const { signal, images = [] } = options
+
     if (!this.session) {
       await this.start()
     }
+    this.comparison = null
 
     try {
       // 1. Process user input
-      const userArtifact = await this.addUserInput(userInput)
+      const attachments = await this.storeImages(images)
+      const userArtifact = await this.addUserInput(userInput, attachments)
       yield { type: "user_input", artifact: userArtifact }
 
-      // 2. Assemble context (fetches from storage)
+      const tools = this.toolDefinitions()
+      // Resources are read once per send, not again for every tool round
+      const resources = this.resources && (await this.resources())
+      for (let iteration = 1; ; iteration++) {
+        // 2. Assemble context (fetches from storage, so it includes earlier tool results)
+        const context = await this.assembleContext(this.maxContextTokens, tools, resources)
+        yield { type: "context_assembled", context }
+
+        // 3. Stream completion
+        const { content, reasoning, status, source, usage, toolUses } =
+          yield* this.streamCompletion(context, signal, this.provider, tools)
+
+        // 4. Store agent response
+        if (content) {
+          const agentArtifact = await this.addAgentResponse(content, reasoning, status, source, usage)
+          yield { type: "agent_response", artifact: agentArtifact }
+        }
+        if (usage) {
+          yield { type: "session_usage", usage: await this.addSessionUsage(usage) }
+        }
+
+        // 5. Run the tools it called, then let it continue
+        if (toolUses.length === 0 || signal?.aborted) break
+        if (iteration >= this.maxToolIterations) {
+          yield* this.skipTools(toolUses, `Not run: reached the limit of ${this.maxToolIterations} tool iterations`)
+          yield { type: "tool_limit", iterations: iteration }
+          break
+        }
+        yield* this.runTools(toolUses, signal)
+        if (signal?.aborted) break
+      }
+    } catch (error) {
+      yield { type: "error", error: error as Error }
+    }
+  }
+
+  /**
+   * Send user input to several providers at once and stream their answers
+   * side by side. The same assembled context goes to each, sized for the
+   * smallest context window.
+   *
+   * Nothing is stored for the answers until keepCandidate() picks one;
+   * the usage of every answer counts toward the session totals.
+   */
+  async *compare(
+    userInput: string,
+    providers: Provider[],
+    options: SendOptions = {}
+  ): AsyncIterable<SessionEvent> {
+    const { signal, images = [] } = options
+
+    if (!this.session) {
+      await this.start()
+    }
+    this.comparison = null
+
+    try {
+      if (providers.length < 2) {
+        throw new Error("Comparing needs at least two providers")
+      }
+
+      const attachments = await this.storeImages(images, providers)
+      const userArtifact = await this.addUserInput(userInput, attachments)
+      yield { type: "user_input", artifact: userArtifact }
+
+      const maxTokens = Math.min(...providers.map((p) => p.info.capabilities.maxContextTokens))
+      const context = await this.assembleContext(Math.min(maxTokens, this.maxContextTokens))
+      yield { type: "context_assembled", context }
+
+      const comparisonId = crypto.randomUUID()
+      yield { type: "compare_start", comparisonId, providers: providers.map((p) => p.info) }
+
+      // Interleave the providers' streams as their chunks arrive
+      const runs = providers.map((provider, index) => this.streamCandidate(context, provider, index, signal))
+      const candidates: ComparisonCandidate[] = []
+      const pending = new Map<number, Promise<{ index: number; result: IteratorResult<SessionEvent, ComparisonCandidate> }>>()
+      const pull = (index: number) =>
+        pending.set(index, runs[index]!.next().then((result) => ({ index, result })))
+      runs.forEach((_, index) => pull(index))
+
+      while (pending.size > 0) {
+        const { index, result } = await Promise.race(pending.values())
+        if (result.done) {
+          pending.delete(index)
+          candidates[index] = result.value
+          yield { type: "compare_end", index, candidate: result.value }
+        } else {
+          pull(index)
+          yield result.value
+        }
+      }
+
+      this.comparison = { id: comparisonId, candidates }
+      yield { type: "comparison", comparison: this.comparison }
+
+      const usages = candidates.flatMap((candidate) => (candidate.usage ? [candidate.usage] : []))
+      if (usages.length > 0) {
+        yield { type: "session_usage", usage: await this.addSessionUsage(usages.reduce((a, b) => addUsage(a, b))) }
+      }
+    } catch (error) {
+      yield { type: "error", error: error as Error }
+    }
+  }
+
+  /**
+   * Keep one answer from the latest comparison as the AgentResponse,
+   * storing the others on it as alternates.
+   */
+  async keepCandidate(comparisonId: string, index: number): Promise<AgentResponse> {
+    const comparison = this.comparison
+    if (!comparison || comparison.id !== comparisonId) {
+      throw new Error("Comparison not found; only the latest one can be kept")
+    }
+
+    const chosen = comparison.candidates[index]
+    if (!chosen) {
+      throw new Error(`Invalid candidate index: ${index}`)
+    }
+    if (chosen.status === "error" || !chosen.content) {
+      throw new Error("Can't keep an answer that failed")
+    }
+
+    const alternates = comparison.candidates
+      .filter((candidate) => candidate !== chosen)
+      .map(({ reasoning, error, ...candidate }): AlternateResponse => ({
+        ...candidate,
+        ...(reasoning && { reasoning }),
+        ...(error && { error }),
+      }))
+
+    const artifact = await this.addAgentResponse(
+      chosen.content,
+      chosen.reasoning,
+      chosen.status,
+      { providerId: chosen.provider, model: chosen.model },
+      chosen.usage,
+      { latencyMs: chosen.latencyMs, alternates }
+    )
+    this.comparison = null
+    return artifact
+  }
+
+  /**
+   * Answer a tool call waiting for approval, resuming the send() that
+   * is paused on it.
+   */
+  resolveToolApproval(toolUseId: string, decision: ToolApprovalDecision): void {
+    const resolve = this.pendingApprovals.get(toolUseId)
+    if (!resolve) {
+      throw new Error(`No tool call waiting for approval: ${toolUseId}`)
+    }
+    resolve(decision)
+  }
+
+  /**
+   * Stream one provider's answer for a comparison, tagging its events
+   * with the provider's index. A failure becomes the candidate's error
+   * rather than ending the comparison.
+   */
+  private async *streamCandidate(
+    context: Context,
+    provider: Provider,
+    index: number,
+    signal?: AbortSignal
+  ): AsyncGenerator<SessionEvent, ComparisonCandidate> {
+    const started = performance.now()
+    const elapsed = () => Math.round(performance.now() - started)
+
+    try {
+      const stream = this.streamCompletion(context, signal, provider)
+      while (true) {
+        const next = await stream.next()
+        if (next.done) {
+          const { content, reasoning, status, source, usage } = next.value
+          return {
+            provider: source?.providerId ?? provider.info.id,
+            model: source?.model ?? provider.info.model,
+            content,
+            reasoning,
+            status,
+            usage,
+            latencyMs: elapsed(),
+          }
+        }
+
+        const event = next.value
+        if (event.type === "stream_chunk") {
+          yield { type: "compare_chunk", index, content: event.content }
+        } else if (event.type === "reasoning_chunk") {
+          yield { type: "compare_reasoning_chunk", index, content: event.content }
+        }
+      }
+    } catch (error) {
+      return {
+        provider: provider.info.id,
+        model: provider.info.model,
+        content: "",
+        reasoning: "",
+        status: "error",
+        latencyMs: elapsed(),
+        error: (error as Error).message,
+      }
+    }
+  }
+
+  /**
+   * Resume a truncated agent response and append to it.
+   * Defaults to the latest artifact, which must be an AgentResponse that
+   * didn't complete (hit the token limit or was interrupted).
+   * Yields the same events as send(), ending with the updated artifact.
+   */
+  async *continueResponse(
+    artifactId?: string,
+    options: SendOptions = {}
+  ): AsyncIterable<SessionEvent> {
+    const { signal } = options
+
+    try {
+      if (!this.session) {
+        throw new Error("No active session")
+      }
+      this.comparison = null
+
+      const artifacts = await this.storage.getArtifacts(this.session.id)
+      const latest = artifacts[artifacts.length - 1]
+      const target = artifactId ? artifacts.find((a) => a.id === artifactId) : latest
+
+      if (!target || target.kind !== "agent_response") {
+        throw new Error("No agent response to continue")
+      }
+      if (target.status === "complete") {
+        throw new Error("Response is already complete")
+      }
+      if (target !== latest) {
+        throw new Error("Only the latest response can be continued")
+      }
+
       const context = await this.assembleContext()
+      context.items.push(this.continuationItem(target))
       yield { type: "context_assembled", context }
 
-      // 3. Stream completion
-      yield { type: "stream_start" }
+      const { content, reasoning, status, usage } = yield* this.streamCompletion(context, signal)
+      if (content) {
+        const combined = target.content + content
+        const updated = await this.storage.updateArtifact(target.id, {
+          content: combined,
+          reasoning: reasoning ? (target.reasoning ?? "") + reasoning : undefined,
+          tokens: await this.countTokens(combined),
+          embedding: await this.embedder.embed(combined),
+          status,
+          usage: usage ? addUsage(target.usage, usage) : undefined,
+        })
+        if (updated?.kind === "agent_response") {
+          yield { type: "agent_response", artifact: updated }
+        }
+      }
+      if (usage) {
+        yield { type: "session_usage", usage: await this.addSessionUsage(usage) }
+      }
+    } catch (error) {
+      yield { type: "error", error: error as Error }
+    }
+  }
+
+  /**
+   * Stream a completion, yielding stream events.
+   * Returns the generated text and reasoning, the status it should be stored
+   * with, the priced usage if the provider reported it and, for composite
+   * providers, which provider actually answered.
+   */
+  private async *streamCompletion(
+    context: Context,
+    signal?: AbortSignal,
+    provider: Provider = this.provider,
+    tools?: ToolDefinition[]
+  ): AsyncGenerator<
+    SessionEvent,
+    {
+      content: string
+      reasoning: string
+      status: CompletionStatus
+      source?: StreamChunk["source"]
+      usage?: CompletionUsage
+      toolUses: ToolCall[]
+    }
+  > {
+    yield { type: "stream_start" }
 
-      let fullContent = ""
-      let usage: StreamChunk["usage"] | undefined
+    let content = ""
+    let reasoning = ""
+    let usage: StreamChunk["usage"] | undefined
+    let finishReason: FinishReason | undefined
+    let source: StreamChunk["source"]
+    const toolUses: ToolCall[] = []
 
-      for await (const chunk of this.provider.complete(context)) {
+    try {
+      for await (const chunk of provider.complete(context, { signal, tools })) {
+        // Providers that ignore the signal are cut off here
+        if (signal?.aborted) break
+
+        source = chunk.source ?? source
+        if (chunk.reasoning) {
+          reasoning += chunk.reasoning
+          yield { type: "reasoning_chunk", content: chunk.reasoning }
+        }
         if (chunk.content) {
-          fullContent += chunk.content
+          content += chunk.content
           yield { type: "stream_chunk", content: chunk.content }
         }
-        if (chunk.done && chunk.usage) {
-          usage = chunk.usage
+        if (chunk.toolUse) {
+          toolUses.push(chunk.toolUse)
+        }
+        if (chunk.done) {
+          usage = chunk.usage ?? usage
+          finishReason = chunk.finishReason
         }
       }
+    } catch (error) {
+      // An aborted fetch surfaces as an error; keep the partial response
+      if (!signal?.aborted) throw error
+    }
+
+    yield { type: "stream_end", usage, finishReason }
+
+    const status: CompletionStatus = signal?.aborted
+      ? "user_interrupted"
+      : finishReason === "length"
+        ? "token_limit"
+        : "complete"
+
+    return {
+      content,
+      reasoning,
+      status,
+      source,
+      usage: usage && this.priceUsage(usage, source, provider),
+      // A cut-off response's calls can't be trusted to be whole
+      toolUses: status === "complete" ? toolUses : [],
+    }
+  }
 
-      yield { type: "stream_end", usage }
+  /**
+   * The tools to offer the provider, if it can use them.
+   */
+  private toolDefinitions(): ToolDefinition[] | undefined {
+    if (!this.tools?.size || !this.provider.info.capabilities.tools) return undefined
+    const definitions = this.tools
+      .definitions()
+      .filter((definition) => approvalPolicy(this.toolApproval, definition.name) !== "never")
+    return definitions.length > 0 ? definitions : undefined
+  }
 
-      // 4. Store agent response
-      if (fullContent) {
-        const agentArtifact = await this.addAgentResponse(fullContent, "complete")
-        yield { type: "agent_response", artifact: agentArtifact }
+  /**
+   * Run the model's tool calls. Calls that need approval wait for the
+   * user first, in order, and are stored with the input the user
+   * approved; a denied call is stored with the user's reason as an
+   * error result, and a call whose arguments couldn't be read with why.
+   * Every call is stored before any runs, so the calls replay as the
+   * one turn the model made them in, then each runs in order.
+   * If the user stops while a call waits for approval nothing is
+   * stored; calls not yet run when they stop are answered as stopped,
+   * so every stored call has a result.
+   */
+  private async *runTools(toolUses: ToolCall[], signal?: AbortSignal): AsyncGenerator<SessionEvent> {
+    const decided: Array<{ call: ToolCall; input: unknown; denial: unknown }> = []
+    for (const call of toolUses) {
+      if (signal?.aborted) return
+
+      let input = call.input
+      let denial: unknown = call.inputError
+      // A call with unreadable input never runs, so there's nothing to approve
+      switch (call.inputError ? "always" : approvalPolicy(this.toolApproval, call.name)) {
+        case "never":
+          denial = `Tool not allowed: ${call.name}`
+          break
+        case "ask": {
+          const answer = this.waitForApproval(call.id, signal)
+          yield { type: "tool_approval_required", toolUseId: call.id, toolName: call.name, input }
+          const decision = await answer
+          if (!decision) return
+          if (decision.action === "edit") input = decision.input
+          if (decision.action === "deny") {
+            denial = { error: "Denied by the user", ...(decision.reason && { reason: decision.reason }) }
+          }
+          break
+        }
       }
-    } catch (error) {
-      yield { type: "error", error: error as Error }
+      decided.push({ call, input, denial })
+    }
+
+    const stored: ToolUse[] = []
+    for (const { call, input } of decided) {
+      const toolUse = await this.addToolUse({ ...call, input })
+      stored.push(toolUse)
+      yield { type: "tool_use", artifact: toolUse }
+    }
+
+    for (const [i, { call, input, denial }] of decided.entries()) {
+      const { result, isError } =
+        signal?.aborted ? { result: "Not run: stopped by the user", isError: true }
+        : denial !== undefined ? { result: denial, isError: true }
+        : this.tools ? await this.tools.execute(call.name, input, { workingDirectory: this.workingDirectory, signal })
+        : { result: `Unknown tool: ${call.name}`, isError: true }
+      const toolResult = await this.addToolResult(stored[i]!.toolUseId, result, isError)
+      yield { type: "tool_result", artifact: toolResult }
+    }
+  }
+
+  /**
+   * Store calls that won't run, each with an error result saying why,
+   * so the model sees every call it made answered.
+   */
+  private async *skipTools(toolUses: ToolCall[], reason: string): AsyncGenerator<SessionEvent> {
+    const stored: ToolUse[] = []
+    for (const call of toolUses) {
+      const toolUse = await this.addToolUse(call)
+      stored.push(toolUse)
+      yield { type: "tool_use", artifact: toolUse }
+    }
+    for (const toolUse of stored) {
+      const toolResult = await this.addToolResult(toolUse.toolUseId, reason, true)
+      yield { type: "tool_result", artifact: toolResult }
+    }
+  }
+
+  /**
+   * Wait for the user's answer to a call, or null if they stop
+   * generation first.
+   */
+  private waitForApproval(toolUseId: string, signal?: AbortSignal): Promise<ToolApprovalDecision | null> {
+    return new Promise((resolve) => {
+      const settle = (decision: ToolApprovalDecision | null) => {
+        this.pendingApprovals.delete(toolUseId)
+        signal?.removeEventListener("abort", onAbort)
+        resolve(decision)
+      }
+      const onAbort = () => settle(null)
+
+      if (signal?.aborted) return settle(null)
+      signal?.addEventListener("abort", onAbort)
+      this.pendingApprovals.set(toolUseId, settle)
+    })
+  }
+
+  /**
+   * Attach cost to reported usage, at the answering provider's pricing.
+   */
+  private priceUsage(
+    usage: NonNullable<StreamChunk["usage"]>,
+    source?: StreamChunk["source"],
+    provider: Provider = this.provider
+  ): CompletionUsage {
+    const { promptTokens, completionTokens } = usage
+    // A fallback chain prices each answer at the member that gave it
+    const pricing = source ? source.pricing : provider.info.capabilities.pricing
+    return {
+      promptTokens,
+      completionTokens,
+      ...(pricing && { cost: calculateCost(pricing, usage) }),
+    }
+  }
+
+  /**
+   * Add usage to the session's running totals. Returns the new totals.
+   */
+  private async addSessionUsage(usage: CompletionUsage): Promise<CompletionUsage> {
+    if (!this.session) {
+      throw new Error("No active session")
+    }
+
+    const totals = addUsage(this.session.metadata?.usage, usage)
+    const updated = await this.storage.updateSession(this.session.id, {
+      metadata: { ...this.session.metadata, usage: totals },
+    })
+    this.session = updated ?? this.session
+    return totals
+  }
+
+  /**
+   * A transient user turn asking the model to pick up where it stopped.
+   * Not stored — only the appended text is persisted.
+   */
+  private continuationItem(target: AgentResponse): ContextItem {
+    const artifact: UserInput = {
+      id: `continue-${target.id}`,
+      sessionId: target.sessionId,
+      kind: "user_input",
+      content: CONTINUE_PROMPT,
+      tokens: (this.provider.tokenizer ?? getTokenizer("heuristic")).count(CONTINUE_PROMPT),
+      embedding: target.embedding,
+      timestamp: new Date(),
     }
+
+    return {
+      id: artifact.id,
+      type: "artifact",
+      content: artifact.content,
+      tokens: artifact.tokens,
+      priority: "critical",
+      source: { type: "artifact", artifact },
+    }
+  }
+
+  /**
+   * Store images as blobs, refusing them up front if a provider
+   * can't see them.
+   */
+  private async storeImages(
+    images: ImageInput[],
+    providers: Provider[] = [this.provider]
+  ): Promise<ImageAttachment[]> {
+    if (images.length === 0) return []
+
+    const blind = providers.find((provider) => !provider.info.capabilities.vision)
+    if (blind) {
+      throw new Error(`${blind.info.name} doesn't support image input`)
+    }
+
+    return Promise.all(
+      images.map(async ({ data, mediaType, name }) => {
+        if (!IMAGE_MEDIA_TYPES.includes(mediaType)) {
+          throw new Error(`Unsupported image type: ${mediaType}`)
+        }
+        return { blobId: await this.storage.putBlob(data), mediaType, name }
+      })
+    )
   }
 
   /**
    * Add a user input artifact.
    */
-  private async addUserInput(content: string): Promise<UserInput> {
+  private async addUserInput(content: string, attachments: ImageAttachment[] = []): Promise<UserInput> {
     if (!this.session) {
       throw new Error("No active session")
     }
@@ -277,6 +909,7 @@ export class ConversationService {
     const artifact = await this.storage.addArtifact<UserInput>(this.session.id, {
       kind: "user_input",
       content,
+      attachments: attachments.length > 0 ? attachments : undefined,
       embedding,
       tokens,
     })
@@ -289,7 +922,11 @@ export class ConversationService {
    */
   private async addAgentResponse(
     content: string,
-    status: "complete" | "token_limit" | "user_interrupted"
+    reasoning: string,
+    status: CompletionStatus,
+    source?: StreamChunk["source"],
+    usage?: CompletionUsage,
+    comparison?: Pick<AgentResponse, "latencyMs" | "alternates">
   ): Promise<AgentResponse> {
     if (!this.session) {
       throw new Error("No active session")
@@ -301,9 +938,12 @@ export class ConversationService {
     const artifact = await this.storage.addArtifact<AgentResponse>(this.session.id, {
       kind: "agent_response",
       content,
-      provider: this.provider.info.id,
-      model: this.provider.info.model,
+      provider: source?.providerId ?? this.provider.info.id,
+      model: source?.model ?? this.provider.info.model,
       status,
+      usage,
+      reasoning: reasoning || undefined,
+      ...comparison,
       embedding,
       tokens,
     })
@@ -312,30 +952,110 @@ export class ConversationService {
   }
 
   /**
-   * Assemble context from stored artifacts.
+   * Add a tool use artifact for one of the model's calls.
+   */
+  private async addToolUse(call: ToolCall): Promise<ToolUse> {
+    if (!this.session) {
+      throw new Error("No active session")
+    }
+
+    const text = `[Tool Call: ${call.name}] ${JSON.stringify(call.input)}`
+    const artifact = await this.storage.addArtifact<ToolUse>(this.session.id, {
+      kind: "tool_use",
+      toolUseId: call.id,
+      toolId: call.name,
+      toolName: call.name,
+      input: call.input,
+      reasoningBlocks: call.reasoningBlocks,
+      embedding: await this.embedder.embed(text),
+      tokens: await this.countTokens(text),
+    })
+
+    return artifact as ToolUse
+  }
+
+  /**
+   * Add a tool result artifact, linked to its call.
+   */
+  private async addToolResult(toolUseId: string, result: unknown, isError: boolean): Promise<ToolResult> {
+    if (!this.session) {
+      throw new Error("No active session")
+    }
+
+    const text = typeof result === "string" ? result : JSON.stringify(result) ?? ""
+    const artifact = await this.storage.addArtifact<ToolResult>(this.session.id, {
+      kind: "tool_result",
+      toolUseId,
+      result,
+      isError,
+      embedding: await this.embedder.embed(text),
+      tokens: await this.countTokens(text),
+    })
+
+    return artifact as ToolResult
+  }
+
+  /**
+   * Assemble context from stored artifacts, plus any resources.
    * Uses assembleWithRetrieval if the assembler supports it (preferred),
-   * otherwise falls back to manual fetch + assemble.
+   * otherwise falls back to manual fetch + assemble. Pass the tools
+   * being offered so their definitions are budgeted for, and resources
+   * already read to save reading them again.
    */
-  private async assembleContext(): Promise<Context> {
+  private async assembleContext(
+    maxTokens = this.maxContextTokens,
+    tools?: ToolDefinition[],
+    resources?: ContextResource[]
+  ): Promise<Context> {
     const options: ContextAssemblyOptions = {
-      maxTokens: this.maxContextTokens,
+      maxTokens,
       systemPrompt: this.buildSystemPrompt(),
+      tokenizer: this.provider.tokenizer,
+      includeReasoning: this.includeReasoning,
+      resources: resources ?? (this.resources && (await this.resources())),
       reservations: {
         response: this.responseReserve,
+        // Definitions of the tools offered go with every request
+        tools: tools ? await this.countTokens(JSON.stringify(tools)) : 0,
+        resources: this.resourceReserve,
       },
     }
 
     // Prefer assembleWithRetrieval if available (fetches its own artifacts)
-    if (this.assembler.assembleWithRetrieval) {
-      return this.assembler.assembleWithRetrieval({
-        ...options,
-        sessionId: this.session!.id,
-      })
-    }
+    const context = this.assembler.assembleWithRetrieval
+      ? await this.assembler.assembleWithRetrieval({
+          ...options,
+          sessionId: this.session!.id,
+        })
+      : // Fallback: manual fetch + assemble
+        this.assembler.assemble(await this.storage.getArtifacts(this.session!.id), options)
 
-    // Fallback: manual fetch + assemble
-    const artifacts = await this.storage.getArtifacts(this.session!.id)
-    return this.assembler.assemble(artifacts, options)
+    await this.loadImages(context)
+    return context
+  }
+
+  /**
+   * Load attachment blobs into the context items that reference them.
+   * Missing blobs are skipped; the provider decides how to render the rest.
+   */
+  private async loadImages(context: Context): Promise<void> {
+    for (const item of context.items) {
+      if (item.source.type !== "artifact" || item.source.artifact.kind !== "user_input") continue
+      const attachments = item.source.artifact.attachments ?? []
+      if (attachments.length === 0) continue
+
+      const images = await Promise.all(
+        attachments.map(async ({ blobId, mediaType, name }) => {
+          const data = await this.storage.getBlob(blobId)
+          if (!data) {
+            console.warn(`[ConversationService] Missing image blob ${blobId}`)
+            return null
+          }
+          return { mediaType, name, data: Buffer.from(data).toString("base64") }
+        })
+      )
+      item.images = images.filter((image) => image !== null)
+    }
   }
 
   /**
@@ -345,8 +1065,7 @@ export class ConversationService {
     try {
       return await this.provider.countTokens(text)
     } catch {
-      // Fallback: ~4 chars per token
-      return Math.ceil(text.length / 4)
+      return getTokenizer("heuristic").count(text)
     }
   }
 }
@@ -4,3 +4,4 @@
 
 export * from "./conversation-service.ts"
 export * from "./session-manager.ts"
+export * from "./mcp-server.ts"
@@ -0,0 +1,102 @@
+/**
+ * Project MCP Server
+ *
+ * Shares a project's memory with other agents over MCP: the memory
+ * tools, and each session as a resource holding its transcript.
+ */
+
+import type { Session, SessionArtifact } from "@/domain/session.ts"
+import type { ProjectStorage } from "@/infrastructure/persistence/index.ts"
+import type { Embedder } from "@/infrastructure/embedding/types.ts"
+import { McpServer, type McpResource, type McpToolResult } from "@/infrastructure/mcp/index.ts"
+import { createMemoryTools, createToolRegistry, type ToolOutcome } from "@/tools/index.ts"
+
+const SESSION_URI_PREFIX = "tinker://sessions/"
+
+/** Session ids are UUIDs; anything else can't name a session */
+const SESSION_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export interface ProjectMcpServerOptions {
+  /** Project root, the tools' working directory */
+  root: string
+  storage: ProjectStorage
+  embedder: Embedder
+}
+
+/**
+ * Create an MCP server for a project's knowledge base and sessions.
+ */
+export function createProjectMcpServer({ root, storage, embedder }: ProjectMcpServerOptions): McpServer {
+  const registry = createToolRegistry(createMemoryTools({ storage, embedder }))
+
+  return new McpServer({
+    name: "tinker",
+    version: "0.1.0",
+    instructions:
+      "Tinker's memory of this project: a searchable knowledge base, and the sessions worked in it. " +
+      "Search knowledge before starting on something, and add what later work should know.",
+    tools: {
+      list: () => registry.definitions(),
+      async call(name, args, signal) {
+        return toolResult(await registry.execute(name, args, { workingDirectory: root, signal }))
+      },
+    },
+    resources: {
+      async list() {
+        const sessions = await storage.listSessions()
+        return sessions.map(sessionResource)
+      },
+      async read(uri) {
+        const id = uri.startsWith(SESSION_URI_PREFIX) ? uri.slice(SESSION_URI_PREFIX.length) : ""
+        if (!SESSION_ID.test(id)) return null
+        const session = await storage.getSession(id)
+        if (!session) return null
+        const artifacts = await storage.getArtifacts(id)
+        return [{ uri, mimeType: "text/markdown", text: sessionTranscript(session, artifacts) }]
+      },
+    },
+  })
+}
+
+function toolResult({ result, isError }: ToolOutcome): McpToolResult {
+  const text = typeof result === "string" ? result : JSON.stringify(result, null, 2)
+  return { content: [{ type: "text", text }], isError }
+}
+
+function sessionResource(session: Session): McpResource {
+  return {
+    uri: SESSION_URI_PREFIX + session.id,
+    name: session.title,
+    description: `Session updated ${session.updatedAt.toISOString()}`,
+    mimeType: "text/markdown",
+  }
+}
+
+/**
+ * A session as Markdown: its title, then each artifact under a heading.
+ */
+function sessionTranscript(session: Session, artifacts: SessionArtifact[]): string {
+  const sections = artifacts.map((artifact) => {
+    switch (artifact.kind) {
+      case "user_input":
+        return `## User\n\n${artifact.content}`
+      case "agent_response":
+        return `## Assistant (${artifact.model})\n\n${artifact.content}`
+      case "system_instruction":
+        return `## System\n\n${artifact.content}`
+      case "knowledge_reference":
+        return `## Knowledge\n\n${artifact.content}`
+      case "tool_use":
+        return `## Tool call: ${artifact.toolName}\n\n${jsonBlock(artifact.input)}`
+      case "tool_result":
+        return `## Tool ${artifact.isError ? "error" : "result"}\n\n${
+          typeof artifact.result === "string" ? artifact.result : jsonBlock(artifact.result)
+        }`
+    }
+  })
+  return [`# ${session.title}`, ...sections].join("\n\n") + "\n"
+}
+
+function jsonBlock(value: unknown): string {
+  return "```json\n" + JSON.stringify(value, null, 2) + "\n```"
+}
@@ -15,6 +15,8 @@ import type { ProjectStorage } from "@/infrastructure/persistence/project-storag
 import type { Provider } from "@/domain/provider.ts"
 import type { Embedder } from "@/infrastructure/embedding/index.ts"
 import type { Session } from "@/domain/session.ts"
+import type { ToolApprovalConfig, ToolRegistry } from "@/tools/index.ts"
+import type { ContextResource } from "@/domain/context.ts"
 
 export interface SessionManagerConfig {
   /** The project ID for session association */
@@ -34,6 +36,21 @@ export interface SessionManagerConfig {
 
   /** Tokens to reserve for response (default: 1024) */
   responseReserve?: number
+
+  /** Tools the model may call in every session */
+  tools?: ToolRegistry
+
+  /** Most completions per message while the model keeps calling tools (default: 10) */
+  maxToolIterations?: number
+
+  /** Which tools run without asking, never run, or wait for the user */
+  toolApproval?: ToolApprovalConfig
+
+  /** External content (MCP resources) to add to every session's context */
+  resources?: () => Promise<ContextResource[]>
+
+  /** Most context tokens for resources (default: 4000) */
+  resourceReserve?: number
 }
 
 export class SessionManager {
@@ -164,6 +181,11 @@ export class SessionManager {
       systemPrompt: this.config.systemPrompt,
       workingDirectory: this.config.workingDirectory,
       responseReserve: this.config.responseReserve,
+      tools: this.config.tools,
+      maxToolIterations: this.config.maxToolIterations,
+      toolApproval: this.config.toolApproval,
+      resources: this.config.resources,
+      resourceReserve: this.config.resourceReserve,
     }
 
     return new ConversationService(serviceConfig)
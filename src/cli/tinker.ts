@@ -0,0 +1,76 @@
+#!/usr/bin/env bun
+/**
+ * Tinker CLI
+ *
+ * Usage:
+ *   tinker mcp                    Serve this project's memory over MCP (stdio)
+ *   tinker mcp --project ../app   Serve another project's
+ */
+
+import { parseArgs } from "util"
+import * as path from "node:path"
+import { createProjectMcpServer } from "@/application/mcp-server.ts"
+import { detectProject } from "@/infrastructure/project/index.ts"
+import { getDefaultEmbedder } from "@/infrastructure/embedding/index.ts"
+import { ProjectStorage } from "@/infrastructure/persistence/index.ts"
+
+const HELP = `
+Tinker
+
+Usage:
+  tinker <command> [options]
+
+Commands:
+  mcp                    Serve the project's knowledge base and sessions as an
+                         MCP server over stdio, for other agents to use
+
+Options:
+  -p, --project <dir>    Project root (default: the current directory)
+  -h, --help             Show this help
+
+Example MCP client config:
+  { "command": "tinker", "args": ["mcp", "--project", "/path/to/project"] }
+`
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      project: { type: "string", short: "p" },
+      help: { type: "boolean", short: "h" },
+    },
+    allowPositionals: true,
+  })
+
+  const [command] = positionals
+  if (values.help || !command) {
+    console.log(HELP)
+    process.exit(0)
+  }
+
+  switch (command) {
+    case "mcp":
+      return serveMcp(path.resolve(values.project ?? process.cwd()))
+    default:
+      console.error(`Unknown command: ${command}\n${HELP}`)
+      process.exit(1)
+  }
+}
+
+async function serveMcp(root: string) {
+  // stdout carries the protocol; anything logged goes to stderr instead
+  console.log = console.info = console.debug = console.error
+
+  const project = await detectProject(root)
+  const storage = await ProjectStorage.open(project.root)
+  const server = createProjectMcpServer({ root: project.root, storage, embedder: getDefaultEmbedder() })
+  console.error(`[MCP] Serving ${project.name} (${project.id.slice(0, 8)}) on stdio`)
+
+  await server.serve(Bun.stdin.stream(), (line) => process.stdout.write(line))
+  storage.close()
+}
+
+main().catch((error: unknown) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -23,6 +23,28 @@ export type ArtifactKind =
  */
 export type CompletionStatus = "complete" | "token_limit" | "user_interrupted"
 
+/**
+ * Token usage of a completion, or running totals over several.
+ */
+export interface CompletionUsage {
+  promptTokens: number
+  completionTokens: number
+  /** USD; absent when the model's pricing is unknown */
+  cost?: number
+}
+
+/**
+ * Sum two usages. Cost stays unknown only if neither side knows it.
+ */
+export function addUsage(a: CompletionUsage | undefined, b: CompletionUsage): CompletionUsage {
+  const cost = a?.cost === undefined && b.cost === undefined ? undefined : (a?.cost ?? 0) + (b.cost ?? 0)
+  return {
+    promptTokens: (a?.promptTokens ?? 0) + b.promptTokens,
+    completionTokens: (a?.completionTokens ?? 0) + b.completionTokens,
+    ...(cost !== undefined && { cost }),
+  }
+}
+
 /**
  * Base properties shared by all session artifacts.
  */
@@ -41,12 +63,30 @@ interface ArtifactBase {
 
 // ─── Conversation Artifacts ─────────────────────────────────────────────────
 
+/** Image formats accepted as attachments (supported by every vision API we target) */
+export const IMAGE_MEDIA_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"] as const
+
+export type ImageMediaType = (typeof IMAGE_MEDIA_TYPES)[number]
+
+/**
+ * An image attached to a user message.
+ * The bytes live in the project's blob store, keyed by content hash.
+ */
+export interface ImageAttachment {
+  blobId: string
+  mediaType: ImageMediaType
+  /** Original file name, when known */
+  name?: string
+}
+
 /**
  * User input — what the human said/asked.
  */
 export interface UserInput extends ArtifactBase {
   kind: "user_input"
   content: string
+  /** Images sent with the message */
+  attachments?: ImageAttachment[]
 }
 
 /**
@@ -61,6 +101,32 @@ export interface AgentResponse extends ArtifactBase {
   model: string
   /** How the response completed */
   status: CompletionStatus
+  /** Tokens and cost, when the provider reported usage */
+  usage?: CompletionUsage
+  /** The model's reasoning before it answered; not sent back in context by default */
+  reasoning?: string
+  /** Time from request to the last chunk, when measured (compare mode) */
+  latencyMs?: number
+  /** Other models' answers to the same prompt, when chosen from a comparison */
+  alternates?: AlternateResponse[]
+}
+
+/**
+ * Another model's answer to the same context, kept on the AgentResponse
+ * that was chosen over it. Never sent back to the model.
+ */
+export interface AlternateResponse {
+  content: string
+  provider: string
+  model: string
+  /** How the answer completed, or "error" if the model failed to give one */
+  status: CompletionStatus | "error"
+  usage?: CompletionUsage
+  reasoning?: string
+  /** Time from request to the last chunk */
+  latencyMs: number
+  /** Why the model failed to answer, if it did */
+  error?: string
 }
 
 // ─── Context Artifacts ──────────────────────────────────────────────────────
@@ -100,8 +166,18 @@ export interface ToolUse extends ArtifactBase {
   toolName: string
   /** Input provided to the tool */
   input: unknown
+  /** The model's signed reasoning before the call, sent back with it while thinking is on */
+  reasoningBlocks?: ReasoningBlock[]
 }
 
+/**
+ * A reasoning block as the provider returned it, with the signature
+ * that lets it be sent back. Redacted blocks carry only opaque data.
+ */
+export type ReasoningBlock =
+  | { type: "thinking"; thinking: string; signature: string }
+  | { type: "redacted_thinking"; data: string }
+
 /**
  * Tool result — the outcome of a tool invocation.
  * Links back to the ToolUse that triggered it.
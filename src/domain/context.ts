@@ -1,5 +1,6 @@
-import type { SessionArtifact } from "./session.ts"
+import type { SessionArtifact, ImageMediaType } from "./session.ts"
 import type { Knowledge } from "./knowledge.ts"
+import type { Tokenizer } from "./ports/tokenizer.ts"
 
 /**
  * Maximum token reservations for different context slots.
@@ -112,6 +113,9 @@ export interface ContextItem {
   priority: ContextPriority
   relevanceScore?: number // From RAG similarity search
 
+  /** Attached images, loaded from the blob store for the provider */
+  images?: ContextImage[]
+
   // Source reference
   source:
     | { type: "artifact"; artifact: SessionArtifact }
@@ -122,6 +126,37 @@ export interface ContextItem {
     | { type: "summary"; artifactCount: number; startDate: Date; endDate: Date }
 }
 
+/**
+ * External text to put in context, such as an MCP resource.
+ */
+export interface ContextResource {
+  uri: string
+  mimeType?: string
+  text: string
+}
+
+/**
+ * An image ready to send: base64 data with its media type.
+ */
+export interface ContextImage {
+  mediaType: ImageMediaType
+  /** Base64-encoded bytes */
+  data: string
+  name?: string
+}
+
+/**
+ * An item's text with a note standing in for each of its images,
+ * for providers that can't view them.
+ */
+export function withImagePlaceholders(item: ContextItem): string {
+  if (!item.images?.length) return item.content
+  const notes = item.images.map(
+    (image) => `[Image attached: ${image.name ?? image.mediaType} — not shown, this model doesn't support images]`
+  )
+  return [item.content, ...notes].filter(Boolean).join("\n\n")
+}
+
 /**
  * Strategy for filtering artifacts before RAG.
  * Different strategies can prioritize recency, pinned artifacts, etc.
@@ -187,6 +222,12 @@ export interface ContextAssemblyOptions {
   /** Token reservations for each slot */
   reservations?: Partial<TokenReservations>
 
+  /**
+   * External content to include, in order, while it fits in
+   * reservations.resources; what it doesn't use goes to messages.
+   */
+  resources?: ContextResource[]
+
   /** System prompt to include */
   systemPrompt?: string
 
@@ -198,4 +239,10 @@ export interface ContextAssemblyOptions {
 
   /** Whether to include pinned artifacts regardless of relevance */
   alwaysIncludePinned?: boolean
+
+  /** Tokenizer for estimating system prompt and knowledge (default: chars/4) */
+  tokenizer?: Tokenizer
+
+  /** Send agent responses' stored reasoning back to the model (default: false) */
+  includeReasoning?: boolean
 }
@@ -0,0 +1,21 @@
+/**
+ * BlobStore Port — Contract for binary attachment storage.
+ *
+ * Blobs are content-addressed: storing the same bytes twice
+ * returns the same ID and keeps one copy.
+ */
+
+/**
+ * Store for binary data such as image attachments.
+ */
+export interface BlobStore {
+  /**
+   * Store bytes and return their ID (a content hash).
+   */
+  putBlob(data: Uint8Array): Promise<string>
+
+  /**
+   * Read stored bytes, or null if the ID is unknown.
+   */
+  getBlob(id: string): Promise<Uint8Array<ArrayBuffer> | null>
+}
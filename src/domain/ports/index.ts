@@ -10,12 +10,18 @@
 // Embedder port
 export type { Embedder } from "./embedder.ts"
 
+// Tokenizer port
+export type { Tokenizer } from "./tokenizer.ts"
+
 // Session and artifact repository ports
 export type {
   SessionRepository,
   ArtifactRepository,
 } from "./session-repository.ts"
 
+// Blob store port
+export type { BlobStore } from "./blob-store.ts"
+
 // Knowledge repository port
 export type { KnowledgeRepository } from "./knowledge-repository.ts"
 
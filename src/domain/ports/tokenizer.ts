@@ -0,0 +1,22 @@
+/**
+ * Tokenizer Port — Contract for counting model tokens.
+ *
+ * Token budgets are only as good as the counts that fill them,
+ * so each provider supplies a tokenizer matching its model family.
+ */
+
+/**
+ * Core tokenizer interface.
+ * Synchronous so the context assembler can budget without awaiting.
+ */
+export interface Tokenizer {
+  /**
+   * Identifier for this tokenizer (e.g., "o200k", "llama3").
+   */
+  readonly name: string
+
+  /**
+   * Count tokens in a string.
+   */
+  count(text: string): number
+}
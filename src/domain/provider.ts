@@ -1,5 +1,15 @@
 import type { Context } from "./context.ts"
-import type { ArtifactKind } from "./session.ts"
+import type { ArtifactKind, ReasoningBlock } from "./session.ts"
+import type { Tokenizer } from "./ports/tokenizer.ts"
+
+/**
+ * Why generation stopped.
+ * - stop: natural end of turn or a stop sequence
+ * - length: hit maxTokens — the response is truncated
+ * - tool_use: the model is waiting on a tool result
+ * - content_filter: cut off by provider moderation
+ */
+export type FinishReason = "stop" | "length" | "tool_use" | "content_filter"
 
 /**
  * A chunk of streamed response.
@@ -8,9 +18,15 @@ export interface StreamChunk {
   /** The text content of this chunk */
   content: string
 
+  /** Reasoning ("thinking") text, streamed separately from the answer */
+  reasoning?: string
+
   /** Whether this is the final chunk */
   done: boolean
 
+  /** Why generation stopped (only present on final chunk, when known) */
+  finishReason?: FinishReason
+
   /** Token usage (only present on final chunk) */
   usage?: {
     promptTokens: number
@@ -18,11 +34,25 @@ export interface StreamChunk {
     totalTokens: number
   }
 
+  /** Provider that produced this chunk, when it isn't Provider.info (e.g. after failover) */
+  source?: {
+    providerId: string
+    model: string
+    pricing?: ModelPricing
+  }
+
+  /** The validated response object (final chunk of a structured completion) */
+  parsed?: unknown
+
   /** Tool use request (if the model wants to use a tool) */
   toolUse?: {
     id: string
     name: string
     input: unknown
+    /** Signed reasoning that came before the call, to send back with it */
+    reasoningBlocks?: ReasoningBlock[]
+    /** Why the input couldn't be read, when the model sent malformed arguments; the call isn't run */
+    inputError?: string
   }
 }
 
@@ -44,6 +74,30 @@ export interface CompletionOptions {
 
   /** Available tools */
   tools?: ToolDefinition[]
+
+  /** Aborts the in-flight request; the stream ends early or throws */
+  signal?: AbortSignal
+
+  /** Answer with JSON matching a schema, validated before it's returned */
+  responseFormat?: ResponseFormat
+}
+
+/**
+ * A JSON response shape for structured output.
+ * Build one from a zod schema with zodResponseFormat().
+ */
+export interface ResponseFormat {
+  /** Schema name; some APIs require one (letters, digits, _ and -) */
+  name: string
+
+  /** JSON Schema the response must match */
+  schema: Record<string, unknown>
+
+  /**
+   * Check a parsed response, returning the problems found.
+   * Defaults to validating against `schema`.
+   */
+  validate?: (value: unknown) => string[]
 }
 
 /**
@@ -64,6 +118,24 @@ export interface ToolExecutionResult {
   isError?: boolean
 }
 
+/**
+ * Model pricing in USD per token.
+ */
+export interface ModelPricing {
+  prompt: number
+  completion: number
+}
+
+/**
+ * Cost in USD of a completion at the given pricing.
+ */
+export function calculateCost(
+  pricing: ModelPricing,
+  usage: { promptTokens: number; completionTokens: number }
+): number {
+  return usage.promptTokens * pricing.prompt + usage.completionTokens * pricing.completion
+}
+
 /**
  * Provider capability flags.
  */
@@ -80,11 +152,17 @@ export interface ProviderCapabilities {
   /** Supports system prompts */
   systemPrompt: boolean
 
+  /** Constrains output to a JSON Schema itself; otherwise the schema goes in the prompt */
+  structuredOutput?: boolean
+
   /** Maximum context window size */
   maxContextTokens: number
 
   /** Maximum output tokens */
   maxOutputTokens: number
+
+  /** Token pricing, when the provider publishes it */
+  pricing?: ModelPricing
 }
 
 /**
@@ -105,6 +183,12 @@ export interface Provider {
   /** Provider information */
   readonly info: ProviderInfo
 
+  /**
+   * Tokenizer matching the provider's model.
+   * Used for synchronous budgeting; countTokens() should agree with it.
+   */
+  readonly tokenizer?: Tokenizer
+
   /**
    * Stream a completion response.
    * Returns an async iterator of chunks.
@@ -141,6 +225,11 @@ export interface ProviderFactory {
  */
 export type LocalRuntime = "ollama" | "lmstudio" | "llamacpp" | "other"
 
+/**
+ * Prompt template for raw-completion runtimes (llama.cpp /completion).
+ */
+export type ChatTemplateName = "chatml" | "llama3" | "mistral" | "gemma"
+
 /**
  * Retry configuration for transient failures (rate limits, timeouts).
  */
@@ -160,7 +249,14 @@ export type ProviderConfig =
   | {
       type: "claude-code"
       model: string
+      /** Defaults to ANTHROPIC_API_KEY from the environment */
+      apiKey?: string
+      baseUrl?: string
       retry?: RetryConfig
+      /** Token pricing, for cost accounting */
+      pricing?: ModelPricing
+      /** Enable extended thinking with this many budget tokens */
+      thinkingBudget?: number
     }
   | {
       type: "openrouter"
@@ -168,11 +264,39 @@ export type ProviderConfig =
       apiKey: string
       baseUrl?: string
       retry?: RetryConfig
+      /** Override capabilities reported by the model registry */
+      capabilities?: Partial<ProviderCapabilities>
+    }
+  | {
+      type: "openai-compatible"
+      model: string
+      /** API root, e.g. "http://localhost:8000/v1" */
+      baseUrl: string
+      /** Bearer token; "$NAME" reads it from the environment */
+      apiKey?: string
+      /** Extra request headers; values may also be "$NAME" */
+      headers?: Record<string, string>
+      /** Display name, e.g. "Groq" (default: "OpenAI-compatible") */
+      name?: string
+      /** Capabilities the server doesn't report: context window, tools, vision... */
+      capabilities?: Partial<ProviderCapabilities>
+      retry?: RetryConfig
     }
   | {
       type: "local"
       model: string
       baseUrl: string
       runtime: LocalRuntime
+      /** Override the model's context window (Ollama: num_ctx, else the model's own up to 8192) */
+      contextLength?: number
+      /** Prompt template for llamacpp (detected from the model if omitted) */
+      template?: ChatTemplateName
       retry?: RetryConfig
     }
+  | {
+      type: "fallback"
+      /** Providers to try in order; later entries are used when earlier ones fail */
+      providers: ProviderConfig[]
+      /** Move on if a provider hasn't started streaming within this many ms (default: 30000) */
+      timeoutMs?: number
+    }
@@ -3,11 +3,16 @@ export type {
   SessionArtifact,
   ArtifactKind,
   CompletionStatus,
+  CompletionUsage,
+  ImageAttachment,
+  ImageMediaType,
   UserInput,
   AgentResponse,
+  AlternateResponse,
   SystemInstruction,
   KnowledgeReference,
   ToolUse,
+  ReasoningBlock,
   ToolResult,
 } from "./artifact.ts"
 
@@ -15,14 +20,20 @@ export {
   isConversationArtifact,
   isContextArtifact,
   isActionArtifact,
+  addUsage,
+  IMAGE_MEDIA_TYPES,
 } from "./artifact.ts"
 
+import type { CompletionUsage } from "./artifact.ts"
+
 /**
  * Session metadata — tracks context about how/where the session was created.
  */
 export interface SessionMetadata {
   provider?: string
   model?: string
+  /** Running totals over every agent response in the session */
+  usage?: CompletionUsage
 }
 
 /**
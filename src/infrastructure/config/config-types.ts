@@ -12,6 +12,20 @@ import type { ProviderConfig } from "@/domain/provider.ts"
 export interface Config {
   provider: ProviderConfig
 
+  /** Providers to answer side by side in compare mode */
+  compare?: ProviderConfig[]
+
+  /** Tools the agent may call */
+  tools?: {
+    shell?: ShellToolConfig
+    files?: FileToolsConfig
+    search?: SearchToolsConfig
+    approval?: ToolApprovalConfig
+  }
+
+  /** MCP servers whose tools and resources the agent may use */
+  mcp?: McpConfig
+
   theme: {
     name: string // e.g., "dark", "light"
   }
@@ -22,6 +36,60 @@ export interface Config {
   }
 }
 
+/**
+ * Shell tool settings. Patterns match a whole command, or its start up to
+ * a space ("bun test" allows "bun test --watch"); `*` matches anything.
+ * Chained commands (&&, ||, ;, |) are checked part by part. With any
+ * patterns set, command substitution ($(…), backticks) is refused.
+ */
+export interface ShellToolConfig {
+  /** Offer the shell tool to the model (default: false) */
+  enabled?: boolean
+
+  /** Commands the agent may run; when set, anything else is refused */
+  allow?: string[]
+
+  /** Commands the agent may never run; checked before allow */
+  deny?: string[]
+
+  /** Wall-clock limit per command in ms (default: 120000) */
+  timeoutMs?: number
+
+  /** Most bytes kept of stdout, and of stderr (default: 30000) */
+  maxOutputBytes?: number
+
+  /**
+   * Sandbox to run commands in (default: "none"). bubblewrap makes
+   * everything outside the project read-only; unshare cuts off the
+   * network. "auto" uses bubblewrap, then unshare, if installed.
+   */
+  isolation?: "auto" | "bubblewrap" | "unshare" | "none"
+}
+
+/**
+ * File tool settings. The file tools read, write, edit and list files
+ * inside the project, skipping anything git ignores.
+ */
+export interface FileToolsConfig {
+  /** Offer the file tools to the model (default: false) */
+  enabled?: boolean
+
+  /** Lines read_file returns when no range is given (default: 2000) */
+  maxReadLines?: number
+}
+
+/**
+ * Search tool settings. The search tools (glob, grep, file_tree and
+ * find_symbol) look inside the project, skipping anything git ignores.
+ */
+export interface SearchToolsConfig {
+  /** Offer the search tools to the model (default: false) */
+  enabled?: boolean
+
+  /** Files, matches or tree lines per page of results (default: 100) */
+  pageSize?: number
+}
+
 /**
  * Default configuration — uses Claude Code token by default.
  */
@@ -38,3 +106,56 @@ export const DEFAULT_CONFIG: Config = {
     insertSpaces: true,
   },
 }
+
+/**
+ * When a tool may run: "always" without asking, "never" at all, or
+ * "ask" the user to approve each call first.
+ */
+export type ToolApprovalPolicy = "always" | "never" | "ask"
+
+/**
+ * Approval policies for the agent's tools.
+ */
+export interface ToolApprovalConfig {
+  /** Policy for tools not listed in `tools` (default: "always") */
+  default?: ToolApprovalPolicy
+
+  /** Policy per tool name, e.g. { "shell": "ask", "read_file": "always" } */
+  tools?: Record<string, ToolApprovalPolicy>
+}
+
+/**
+ * Model Context Protocol servers. Each one is started over stdio with
+ * the project; its tools join the agent's tools, named
+ * `<server>__<tool>`, and its resources are added to context.
+ */
+export interface McpConfig {
+  /** Servers by name */
+  servers: Record<string, McpServerConfig>
+
+  /** Most tokens of context for resources, across servers (default: 4000) */
+  resourceTokens?: number
+}
+
+export interface McpServerConfig {
+  /** Executable to start, e.g. "npx" or "uvx" */
+  command: string
+
+  /** Arguments to the command */
+  args?: string[]
+
+  /** Environment variables to add */
+  env?: Record<string, string>
+
+  /** Directory to start in, relative to the project root (default: the root) */
+  cwd?: string
+
+  /** Leave the server configured but don't start it (default: false) */
+  disabled?: boolean
+
+  /** Add the server's resources to context (default: true) */
+  resources?: boolean
+
+  /** How long to wait for each request in ms (default: 60000) */
+  timeoutMs?: number
+}
@@ -3,6 +3,7 @@ import type {
   Context,
   ContextItem,
   ContextAssemblyOptions,
+  ContextResource,
 } from "@/domain/context.ts"
 import { createTokenBudget, consumeTokens } from "@/domain/context.ts"
 import type {
@@ -12,6 +13,8 @@ import type {
   KnowledgeRepository,
 } from "@/domain/ports/index.ts"
 import type { Knowledge } from "@/domain/knowledge.ts"
+import type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+import { getTokenizer } from "@/infrastructure/tokenizer/index.ts"
 
 /**
  * Dependencies for context assembler with retrieval capabilities.
@@ -70,16 +73,22 @@ export class ContextAssembler implements KnowledgeAwareAssembler {
     knowledge: Knowledge[],
     options: ContextAssemblyOptions
   ): Context {
+    const tokenizer = options.tokenizer ?? getTokenizer("heuristic")
+
     // Calculate system prompt tokens if not explicitly reserved
     const systemTokens =
       options.reservations?.system ??
-      (options.systemPrompt ? this.estimateSystemPromptTokens(options.systemPrompt) : 0)
+      (options.systemPrompt ? tokenizer.count(options.systemPrompt) : 0)
 
-    // Reserve tokens for knowledge (estimate ~4 chars per token)
-    const knowledgeTokens = knowledge.reduce(
-      (sum, k) => sum + Math.ceil(k.content.length / 4),
-      0
-    )
+    // Convert knowledge to context items (high priority)
+    const knowledgeItems = knowledge.map((k) => this.knowledgeToContextItem(k, tokenizer))
+
+    // Reserve tokens for knowledge
+    const knowledgeTokens = knowledgeItems.reduce((sum, item) => sum + item.tokens, 0)
+
+    // Resources take what they need of their reservation
+    const resourceItems = this.resourcesToContextItems(options, tokenizer)
+    const resourceTokens = resourceItems.reduce((sum, item) => sum + item.tokens, 0)
 
     // Initialize budget with reservations
     let budget = createTokenBudget({
@@ -87,33 +96,24 @@ export class ContextAssembler implements KnowledgeAwareAssembler {
       reserved: {
         ...options.reservations,
         system: systemTokens,
+        resources: resourceTokens,
         knowledge: knowledgeTokens,
       },
     })
 
     // Convert artifacts to context items
-    const artifactItems = artifacts.map((artifact) => this.artifactToContextItem(artifact))
-
-    // Convert knowledge to context items (high priority)
-    const knowledgeItems = knowledge.map((k) => this.knowledgeToContextItem(k))
+    const artifactItems = artifacts.map((artifact) =>
+      this.artifactToContextItem(artifact, options, tokenizer)
+    )
 
     // Simple strategy: keep as many recent artifacts as fit
-    const includedArtifactItems: ContextItem[] = []
-    let tokensUsed = 0
-
-    for (let i = artifactItems.length - 1; i >= 0; i--) {
-      const item = artifactItems[i]!
-      if (tokensUsed + item.tokens <= budget.available) {
-        includedArtifactItems.unshift(item)
-        tokensUsed += item.tokens
-      }
-    }
+    const { included: includedArtifactItems, tokensUsed } = fitRecent(artifactItems, budget.available)
 
-    // Combine: knowledge first (context), then artifacts (conversation)
-    const includedItems = [...knowledgeItems, ...includedArtifactItems]
+    // Combine: resources and knowledge first (context), then artifacts (conversation)
+    const includedItems = [...resourceItems, ...knowledgeItems, ...includedArtifactItems]
 
     // Update budget with actual usage
-    budget = consumeTokens(budget, tokensUsed + knowledgeTokens)
+    budget = consumeTokens(budget, tokensUsed + resourceTokens + knowledgeTokens)
 
     return {
       systemPrompt: options.systemPrompt,
@@ -133,10 +133,16 @@ export class ContextAssembler implements KnowledgeAwareAssembler {
    * Artifacts should be in chronological order (oldest first).
    */
   assemble(artifacts: SessionArtifact[], options: ContextAssemblyOptions): Context {
+    const tokenizer = options.tokenizer ?? getTokenizer("heuristic")
+
     // Calculate system prompt tokens if not explicitly reserved
     const systemTokens =
       options.reservations?.system ??
-      (options.systemPrompt ? this.estimateSystemPromptTokens(options.systemPrompt) : 0)
+      (options.systemPrompt ? tokenizer.count(options.systemPrompt) : 0)
+
+    // Resources take what they need of their reservation
+    const resourceItems = this.resourcesToContextItems(options, tokenizer)
+    const resourceTokens = resourceItems.reduce((sum, item) => sum + item.tokens, 0)
 
     // Initialize budget with reservations
     let budget = createTokenBudget({
@@ -144,32 +150,24 @@ export class ContextAssembler implements KnowledgeAwareAssembler {
       reserved: {
         ...options.reservations,
         system: systemTokens,
+        resources: resourceTokens,
       },
     })
 
     // Convert artifacts to context items
-    const allItems = artifacts.map((artifact) => this.artifactToContextItem(artifact))
+    const allItems = artifacts.map((artifact) =>
+      this.artifactToContextItem(artifact, options, tokenizer)
+    )
 
     // Simple strategy: keep as many recent artifacts as fit
-    // Start from the end (most recent) and work backwards
-    const includedItems: ContextItem[] = []
-    let tokensUsed = 0
-
-    for (let i = allItems.length - 1; i >= 0; i--) {
-      const item = allItems[i]!
-      if (tokensUsed + item.tokens <= budget.available) {
-        includedItems.unshift(item) // Add to front to maintain order
-        tokensUsed += item.tokens
-      }
-      // If it doesn't fit, skip it (simple truncation)
-    }
+    const { included: includedItems, tokensUsed } = fitRecent(allItems, budget.available)
 
     // Update budget with actual usage
-    budget = consumeTokens(budget, tokensUsed)
+    budget = consumeTokens(budget, tokensUsed + resourceTokens)
 
     return {
       systemPrompt: options.systemPrompt,
-      items: includedItems,
+      items: [...resourceItems, ...includedItems],
       budget,
       metadata: {
         artifactsIncluded: includedItems.length,
@@ -183,15 +181,24 @@ export class ContextAssembler implements KnowledgeAwareAssembler {
   /**
    * Convert a SessionArtifact to a ContextItem.
    */
-  private artifactToContextItem(artifact: SessionArtifact): ContextItem {
+  private artifactToContextItem(
+    artifact: SessionArtifact,
+    options: ContextAssemblyOptions,
+    tokenizer: Tokenizer
+  ): ContextItem {
     // Extract content based on artifact kind
     let content: string
+    let tokens = artifact.tokens
     if (artifact.kind === "tool_use") {
       const tool = artifact as ToolUse
       content = `[Tool Call: ${tool.toolName}] ${JSON.stringify(tool.input)}`
     } else if (artifact.kind === "tool_result") {
       const tool = artifact as ToolResult
       content = `[Tool Result] ${JSON.stringify(tool.result)}`
+    } else if (artifact.kind === "agent_response" && artifact.reasoning && options.includeReasoning) {
+      const thinking = `<thinking>\n${artifact.reasoning}\n</thinking>\n\n`
+      content = thinking + artifact.content
+      tokens += tokenizer.count(thinking)
     } else {
       content = (artifact as { content: string }).content
     }
@@ -200,33 +207,99 @@ export class ContextAssembler implements KnowledgeAwareAssembler {
       id: artifact.id,
       type: "artifact",
       content,
-      tokens: artifact.tokens,
+      tokens,
       priority: artifact.pinned ? "high" : "medium",
       source: { type: "artifact", artifact },
     }
   }
 
+  /**
+   * Convert resources to ContextItems, in order, while they fit in the
+   * resources reservation.
+   */
+  private resourcesToContextItems(options: ContextAssemblyOptions, tokenizer: Tokenizer): ContextItem[] {
+    const limit = options.reservations?.resources ?? Infinity
+    const items: ContextItem[] = []
+    let tokensUsed = 0
+
+    for (const resource of options.resources ?? []) {
+      const item = this.resourceToContextItem(resource, tokenizer)
+      if (tokensUsed + item.tokens > limit) continue
+      items.push(item)
+      tokensUsed += item.tokens
+    }
+    return items
+  }
+
+  private resourceToContextItem(resource: ContextResource, tokenizer: Tokenizer): ContextItem {
+    return {
+      id: `resource:${resource.uri}`,
+      type: "resource",
+      content: resource.text,
+      tokens: tokenizer.count(resource.text),
+      priority: "high",
+      source: { type: "resource", uri: resource.uri, mimeType: resource.mimeType },
+    }
+  }
+
   /**
    * Convert a Knowledge item to a ContextItem.
    */
-  private knowledgeToContextItem(knowledge: Knowledge): ContextItem {
+  private knowledgeToContextItem(knowledge: Knowledge, tokenizer: Tokenizer): ContextItem {
     return {
       id: knowledge.id,
       type: "knowledge",
       content: knowledge.content,
-      tokens: Math.ceil(knowledge.content.length / 4), // Estimate
+      tokens: tokenizer.count(knowledge.content),
       priority: "high", // Knowledge is high priority context
       source: { type: "knowledge", knowledge },
     }
   }
+}
 
-  /**
-   * Estimate tokens in system prompt.
-   * Simple heuristic: ~4 chars per token.
-   */
-  private estimateSystemPromptTokens(prompt: string): number {
-    return Math.ceil(prompt.length / 4)
+/**
+ * Keep the most recent items that fit, working back from the newest and
+ * skipping any that don't (simple truncation). A turn's tool calls and
+ * their results are kept or dropped together: providers reject a call
+ * without its result, or a result without its call.
+ */
+function fitRecent(items: ContextItem[], available: number): { included: ContextItem[]; tokensUsed: number } {
+  // Group each result with its call, and calls stored back to back (one
+  // turn's) with each other; everything else stands alone
+  const groups: number[][] = []
+  const callGroups = new Map<string, number[]>()
+  let turn: number[] | undefined
+  items.forEach((item, i) => {
+    const artifact = item.source.type === "artifact" ? item.source.artifact : undefined
+    const call = artifact?.kind === "tool_result" ? callGroups.get(artifact.toolUseId) : undefined
+    if (call) {
+      call.push(i)
+      turn = undefined
+      return
+    }
+    const group = artifact?.kind === "tool_use" && turn ? turn : []
+    if (group.length === 0) groups.push(group)
+    group.push(i)
+    turn = undefined
+    if (artifact?.kind === "tool_use") {
+      callGroups.set(artifact.toolUseId, group)
+      turn = group
+    }
+  })
+
+  const kept = new Set<number>()
+  let tokensUsed = 0
+  // A group is as recent as its last item
+  groups.sort((a, b) => b.at(-1)! - a.at(-1)!)
+  for (const group of groups) {
+    const tokens = group.reduce((sum, i) => sum + items[i]!.tokens, 0)
+    if (tokensUsed + tokens <= available) {
+      group.forEach((i) => kept.add(i))
+      tokensUsed += tokens
+    }
   }
+
+  return { included: items.filter((_, i) => kept.has(i)), tokensUsed }
 }
 
 /**
@@ -0,0 +1,369 @@
+/**
+ * MCP Client
+ *
+ * Talks to one Model Context Protocol server over stdio: newline-delimited
+ * JSON-RPC 2.0 on the server's stdin and stdout. The server starts on
+ * first use. If it exits, the requests in flight fail and the next
+ * request starts it again, unless it keeps crashing.
+ */
+
+import type { Subprocess } from "bun"
+import * as path from "node:path"
+import { z } from "zod"
+import type { McpServerConfig } from "@/infrastructure/config/index.ts"
+import { createError } from "@/util/error.ts"
+import {
+  PROTOCOL_VERSION,
+  METHOD_NOT_FOUND,
+  type JsonRpcMessage,
+  type McpResource,
+  type McpResourceContents,
+  type McpTool,
+  type McpToolResult,
+} from "./protocol.ts"
+
+const DEFAULT_TIMEOUT_MS = 60_000
+
+/** Crashes within RESTART_WINDOW_MS after which a server isn't restarted */
+const MAX_CRASHES = 3
+const RESTART_WINDOW_MS = 60_000
+
+/** How much of the server's stderr to keep, for explaining crashes */
+const STDERR_TAIL_BYTES = 2000
+
+/** How long to wait for the rest of stderr once the server exits */
+const STDERR_DRAIN_MS = 100
+
+/**
+ * Thrown when an MCP server can't be started, crashes, times out or
+ * answers with an error.
+ */
+export const McpError = createError(
+  "McpError",
+  z.object({
+    server: z.string(),
+    /** JSON-RPC error code, when the server sent one */
+    code: z.number().optional(),
+  })
+)
+
+export interface McpClientOptions extends Omit<McpServerConfig, "disabled" | "resources"> {
+  /** The server's name in config; prefixes its tools */
+  name: string
+
+  /** Project root, which cwd is relative to (default: the process's cwd) */
+  root?: string
+}
+
+interface PendingRequest {
+  resolve(result: unknown): void
+  reject(error: Error): void
+}
+
+type ServerProcess = Subprocess<"pipe", "pipe", "pipe">
+
+/**
+ * McpClient — one MCP server, started on demand and restarted after crashes.
+ */
+export class McpClient {
+  readonly name: string
+  private options: McpClientOptions
+  private process: ServerProcess | null = null
+  private connecting: Promise<void> | null = null
+  private pending = new Map<number, PendingRequest>()
+  private nextId = 1
+  private crashes: number[] = []
+  private stderrTail = ""
+  private closed = false
+  private capabilities: Record<string, unknown> = {}
+
+  constructor(options: McpClientOptions) {
+    this.name = options.name
+    this.options = options
+  }
+
+  /**
+   * Start the server and complete the handshake, unless it's running.
+   */
+  async connect(): Promise<void> {
+    if (this.closed) {
+      throw new McpError(`MCP server ${this.name} is closed`, { server: this.name })
+    }
+    this.connecting ??= this.start().catch((error: unknown) => {
+      this.connecting = null
+      this.process?.kill()
+      throw error
+    })
+    return this.connecting
+  }
+
+  /**
+   * The tools the server offers.
+   */
+  async listTools(): Promise<McpTool[]> {
+    if (!(await this.supports("tools"))) return []
+    return this.paginate<McpTool>("tools/list", "tools")
+  }
+
+  /**
+   * Call one of the server's tools. Aborting cancels the call on the server.
+   */
+  async callTool(name: string, args: unknown, signal?: AbortSignal): Promise<McpToolResult> {
+    await this.connect()
+    return this.send<McpToolResult>("tools/call", { name, arguments: args ?? {} }, signal)
+  }
+
+  /**
+   * The resources the server offers.
+   */
+  async listResources(): Promise<McpResource[]> {
+    if (!(await this.supports("resources"))) return []
+    return this.paginate<McpResource>("resources/list", "resources")
+  }
+
+  /**
+   * Read a resource's contents.
+   */
+  async readResource(uri: string): Promise<McpResourceContents[]> {
+    await this.connect()
+    const result = await this.send<{ contents?: McpResourceContents[] }>("resources/read", { uri })
+    return result.contents ?? []
+  }
+
+  /**
+   * Stop the server for good; later requests fail.
+   */
+  async close(): Promise<void> {
+    this.closed = true
+    const server = this.process
+    if (!server) return
+
+    this.failPending(new McpError(`MCP server ${this.name} is closed`, { server: this.name }))
+    server.stdin.end()
+    server.kill()
+    await server.exited
+  }
+
+  // ─── Connection ─────────────────────────────────────────────
+
+  private async start(): Promise<void> {
+    this.crashes = this.crashes.filter((time) => Date.now() - time < RESTART_WINDOW_MS)
+    if (this.crashes.length >= MAX_CRASHES) {
+      throw new McpError(
+        `MCP server ${this.name} crashed ${this.crashes.length} times in the last minute; not restarting it`,
+        { server: this.name }
+      )
+    }
+
+    const { command, args = [], env, cwd, root = process.cwd() } = this.options
+    let server: ServerProcess
+    try {
+      server = Bun.spawn([command, ...args], {
+        cwd: path.resolve(root, cwd ?? "."),
+        env: { ...process.env, ...env },
+        stdin: "pipe",
+        stdout: "pipe",
+        stderr: "pipe",
+      })
+    } catch (error) {
+      throw new McpError(`Couldn't start MCP server ${this.name}: ${(error as Error).message}`, {
+        server: this.name,
+      })
+    }
+
+    this.process = server
+    this.stderrTail = ""
+    void this.readMessages(server)
+    // Let stderr drain before reporting an exit, so the report can quote it
+    const stderrDrained = this.readStderr(server)
+    void server.exited.then(async (code) => {
+      await Promise.race([stderrDrained, Bun.sleep(STDERR_DRAIN_MS)])
+      this.handleExit(server, code)
+    })
+
+    const result = await this.send<{ capabilities?: Record<string, unknown> }>("initialize", {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: "tinker", version: "0.1.0" },
+    })
+    this.capabilities = result.capabilities ?? {}
+    this.write({ jsonrpc: "2.0", method: "notifications/initialized" })
+  }
+
+  /**
+   * Fail what's in flight when the server exits. Unless we closed it,
+   * that's a crash: the next request restarts it.
+   */
+  private handleExit(server: ServerProcess, code: number): void {
+    if (this.process !== server) return
+    this.process = null
+    this.connecting = null
+
+    const lastLine = this.stderrTail.trim().split("\n").at(-1)
+    const error = new McpError(
+      `MCP server ${this.name} exited with code ${code}${lastLine ? `: ${lastLine}` : ""}`,
+      { server: this.name }
+    )
+    this.failPending(error)
+
+    if (!this.closed) {
+      this.crashes.push(Date.now())
+      console.warn(`[MCP] ${error.message}; restarting it on next use`)
+    }
+  }
+
+  private async supports(capability: string): Promise<boolean> {
+    await this.connect()
+    return capability in this.capabilities
+  }
+
+  // ─── Messages ───────────────────────────────────────────────
+
+  /**
+   * Send a request and wait for its response.
+   */
+  private send<T>(method: string, params?: unknown, signal?: AbortSignal): Promise<T> {
+    const id = this.nextId++
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+
+    return new Promise<T>((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer)
+        signal?.removeEventListener("abort", onAbort)
+        this.pending.delete(id)
+      }
+      const fail = (error: Error) => {
+        settle()
+        reject(error)
+      }
+      const onAbort = () => {
+        this.notify("notifications/cancelled", { requestId: id, reason: "Stopped by the user" })
+        fail(new Error("Stopped by the user"))
+      }
+      const timer = setTimeout(
+        () => fail(new McpError(`MCP server ${this.name} didn't answer ${method} within ${timeoutMs}ms`, {
+          server: this.name,
+        })),
+        timeoutMs
+      )
+
+      if (signal?.aborted) return fail(new Error("Stopped by the user"))
+      signal?.addEventListener("abort", onAbort)
+      this.pending.set(id, {
+        resolve: (result) => {
+          settle()
+          resolve(result as T)
+        },
+        reject: fail,
+      })
+
+      try {
+        this.write({ jsonrpc: "2.0", id, method, ...(params !== undefined && { params }) })
+      } catch (error) {
+        fail(error as Error)
+      }
+    })
+  }
+
+  private notify(method: string, params?: unknown): void {
+    try {
+      this.write({ jsonrpc: "2.0", method, ...(params !== undefined && { params }) })
+    } catch {
+      // The server is gone; there's no one to tell
+    }
+  }
+
+  private write(message: JsonRpcMessage): void {
+    if (!this.process) {
+      throw new McpError(`MCP server ${this.name} isn't running`, { server: this.name })
+    }
+    this.process.stdin.write(JSON.stringify(message) + "\n")
+    this.process.stdin.flush()
+  }
+
+  /**
+   * Fetch every page of a list method.
+   */
+  private async paginate<T>(method: string, key: string): Promise<T[]> {
+    const items: T[] = []
+    let cursor: string | undefined
+    do {
+      const page = await this.send<Record<string, unknown>>(method, cursor ? { cursor } : undefined)
+      items.push(...((page[key] as T[] | undefined) ?? []))
+      cursor = typeof page.nextCursor === "string" ? page.nextCursor : undefined
+    } while (cursor)
+    return items
+  }
+
+  private async readMessages(server: ServerProcess): Promise<void> {
+    const decoder = new TextDecoder()
+    let buffer = ""
+    try {
+      const reader = server.stdout.getReader()
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        buffer += decoder.decode(value, { stream: true })
+        let newline: number
+        while ((newline = buffer.indexOf("\n")) >= 0) {
+          const line = buffer.slice(0, newline).trim()
+          buffer = buffer.slice(newline + 1)
+          if (line) this.handleMessage(line)
+        }
+      }
+    } catch {
+      // The stream ends with the process; handleExit reports it
+    }
+  }
+
+  private async readStderr(server: ServerProcess): Promise<void> {
+    const decoder = new TextDecoder()
+    try {
+      const reader = server.stderr.getReader()
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        this.stderrTail = (this.stderrTail + decoder.decode(value, { stream: true })).slice(-STDERR_TAIL_BYTES)
+      }
+    } catch {
+      // As above
+    }
+  }
+
+  private handleMessage(line: string): void {
+    let message: JsonRpcMessage
+    try {
+      message = JSON.parse(line) as JsonRpcMessage
+    } catch {
+      console.warn(`[MCP] ${this.name} wrote a line that isn't JSON-RPC: ${line.slice(0, 200)}`)
+      return
+    }
+
+    // Requests from the server: answer pings, decline the rest
+    if (message.method !== undefined) {
+      if (message.id === undefined) return
+      this.write(
+        message.method === "ping"
+          ? { jsonrpc: "2.0", id: message.id, result: {} }
+          : {
+              jsonrpc: "2.0",
+              id: message.id,
+              error: { code: METHOD_NOT_FOUND, message: `Not supported: ${message.method}` },
+            }
+      )
+      return
+    }
+
+    const pending = typeof message.id === "number" ? this.pending.get(message.id) : undefined
+    if (!pending) return
+    if (message.error) {
+      pending.reject(new McpError(message.error.message, { server: this.name, code: message.error.code }))
+    } else {
+      pending.resolve(message.result)
+    }
+  }
+
+  private failPending(error: Error): void {
+    for (const pending of [...this.pending.values()]) pending.reject(error)
+  }
+}
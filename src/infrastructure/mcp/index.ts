@@ -0,0 +1,10 @@
+export { McpClient, McpError, type McpClientOptions } from "./client.ts"
+export { McpServer, type McpServerOptions } from "./server.ts"
+export { readMcpResources } from "./resources.ts"
+export type {
+  McpTool,
+  McpResource,
+  McpResourceContents,
+  McpContent,
+  McpToolResult,
+} from "./protocol.ts"
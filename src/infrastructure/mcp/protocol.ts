@@ -0,0 +1,64 @@
+/**
+ * MCP Protocol
+ *
+ * The Model Context Protocol's messages and shapes, shared by the client
+ * and the server.
+ */
+
+export const PROTOCOL_VERSION = "2025-06-18"
+
+/** JSON-RPC's "method not found" */
+export const METHOD_NOT_FOUND = -32601
+
+/** JSON-RPC's "invalid params" */
+export const INVALID_PARAMS = -32602
+
+/** MCP's "resource not found" */
+export const RESOURCE_NOT_FOUND = -32002
+
+/** A tool the server offers */
+export interface McpTool {
+  name: string
+  description?: string
+  /** JSON Schema for the tool's arguments */
+  inputSchema: Record<string, unknown>
+}
+
+/** A resource the server offers */
+export interface McpResource {
+  uri: string
+  name: string
+  description?: string
+  mimeType?: string
+}
+
+/** A resource's contents: text, or base64 `blob` for binary data */
+export interface McpResourceContents {
+  uri: string
+  mimeType?: string
+  text?: string
+  blob?: string
+}
+
+/** One part of a tool result */
+export type McpContent =
+  | { type: "text"; text: string }
+  | { type: "image" | "audio"; data: string; mimeType: string }
+  | { type: "resource"; resource: McpResourceContents }
+  | { type: "resource_link"; uri: string; name?: string; mimeType?: string }
+
+export interface McpToolResult {
+  content: McpContent[]
+  structuredContent?: unknown
+  isError?: boolean
+}
+
+export interface JsonRpcMessage {
+  jsonrpc: "2.0"
+  /** null only in the error answering a message that wasn't a request */
+  id?: number | string | null
+  method?: string
+  params?: unknown
+  result?: unknown
+  error?: { code: number; message: string; data?: unknown }
+}
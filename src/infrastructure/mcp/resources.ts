@@ -0,0 +1,37 @@
+/**
+ * MCP Resources
+ *
+ * Reads the resources MCP servers offer, for adding to context.
+ */
+
+import type { ContextResource } from "@/domain/context.ts"
+import type { McpClient } from "./client.ts"
+
+/**
+ * Every text resource the servers offer, server by server. Binary
+ * resources are left out; a server that fails is skipped with a warning
+ * so it can't hold up the conversation.
+ */
+export async function readMcpResources(clients: McpClient[]): Promise<ContextResource[]> {
+  const perServer = await Promise.all(
+    clients.map(async (client) => {
+      try {
+        const resources = await client.listResources()
+        const read = await Promise.all(
+          resources.map(async (resource) =>
+            (await client.readResource(resource.uri)).flatMap((contents) =>
+              contents.text === undefined
+                ? []
+                : [{ uri: contents.uri, mimeType: contents.mimeType ?? resource.mimeType, text: contents.text }]
+            )
+          )
+        )
+        return read.flat()
+      } catch (error) {
+        console.warn(`[MCP] Couldn't read resources from ${client.name}: ${(error as Error).message}`)
+        return []
+      }
+    })
+  )
+  return perServer.flat()
+}
@@ -0,0 +1,201 @@
+/**
+ * MCP Server
+ *
+ * Serves tools and resources to MCP clients over stdio: newline-delimited
+ * JSON-RPC 2.0, requests on stdin and responses on stdout. Requests are
+ * answered concurrently, and a client can cancel one in flight.
+ */
+
+import {
+  PROTOCOL_VERSION,
+  METHOD_NOT_FOUND,
+  INVALID_PARAMS,
+  RESOURCE_NOT_FOUND,
+  type JsonRpcMessage,
+  type McpResource,
+  type McpResourceContents,
+  type McpTool,
+  type McpToolResult,
+} from "./protocol.ts"
+
+/** JSON-RPC's "invalid request" */
+const INVALID_REQUEST = -32600
+
+/** JSON-RPC's "internal error" */
+const INTERNAL_ERROR = -32603
+
+/**
+ * What an McpServer offers. Leave out tools or resources to not offer them.
+ */
+export interface McpServerOptions {
+  name: string
+  version: string
+
+  /** Shown to clients after the handshake, to explain the server to their models */
+  instructions?: string
+
+  tools?: {
+    list(): McpTool[] | Promise<McpTool[]>
+    call(name: string, args: Record<string, unknown>, signal: AbortSignal): Promise<McpToolResult>
+  }
+
+  resources?: {
+    list(): Promise<McpResource[]>
+    /** The resource's contents, or null if there's no such resource */
+    read(uri: string): Promise<McpResourceContents[] | null>
+  }
+}
+
+/**
+ * An error to answer a request with, carrying its JSON-RPC code.
+ */
+class RequestError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message)
+  }
+}
+
+/**
+ * McpServer — answers one client's requests.
+ */
+export class McpServer {
+  private options: McpServerOptions
+  private inFlight = new Map<number | string, AbortController>()
+
+  constructor(options: McpServerOptions) {
+    this.options = options
+  }
+
+  /**
+   * Read requests from `input` until it ends, writing each response as a
+   * line with `write`. Resolves once every request has been answered.
+   */
+  async serve(input: ReadableStream<Uint8Array>, write: (line: string) => void): Promise<void> {
+    const answering = new Set<Promise<void>>()
+    const decoder = new TextDecoder()
+    const reader = input.getReader()
+    let buffer = ""
+
+    const answer = (line: string) => {
+      const done = this.handleLine(line).then((response) => {
+        if (response) write(JSON.stringify(response) + "\n")
+      })
+      answering.add(done)
+      void done.finally(() => answering.delete(done))
+    }
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      let newline: number
+      while ((newline = buffer.indexOf("\n")) >= 0) {
+        const line = buffer.slice(0, newline).trim()
+        buffer = buffer.slice(newline + 1)
+        if (line) answer(line)
+      }
+    }
+    if (buffer.trim()) answer(buffer.trim())
+
+    await Promise.all(answering)
+  }
+
+  /**
+   * Answer one message. Notifications get no response: null.
+   */
+  async handle(message: JsonRpcMessage): Promise<JsonRpcMessage | null> {
+    const { id, method } = message
+    if (method === undefined) return null // A response; we never send requests
+
+    if (id === undefined || id === null) {
+      this.handleNotification(method, message.params)
+      return null
+    }
+
+    const controller = new AbortController()
+    this.inFlight.set(id, controller)
+    try {
+      const result = await this.handleRequest(method, asParams(message.params), controller.signal)
+      return { jsonrpc: "2.0", id, result }
+    } catch (error) {
+      const code = error instanceof RequestError ? error.code : INTERNAL_ERROR
+      return { jsonrpc: "2.0", id, error: { code, message: (error as Error).message } }
+    } finally {
+      this.inFlight.delete(id)
+    }
+  }
+
+  private async handleLine(line: string): Promise<JsonRpcMessage | null> {
+    let message: unknown
+    try {
+      message = JSON.parse(line)
+    } catch {
+      console.warn(`[MCP] Ignoring a line that isn't JSON-RPC: ${line.slice(0, 200)}`)
+      return null
+    }
+    // JSON, but not a message: e.g. null, a number or a batch, which we don't take
+    if (typeof message !== "object" || message === null || Array.isArray(message)) {
+      return { jsonrpc: "2.0", id: null, error: { code: INVALID_REQUEST, message: "Expected a JSON-RPC message object" } }
+    }
+    return this.handle(message as JsonRpcMessage)
+  }
+
+  private handleNotification(method: string, params: unknown): void {
+    if (method === "notifications/cancelled") {
+      const { requestId } = asParams(params)
+      if (typeof requestId === "number" || typeof requestId === "string") {
+        this.inFlight.get(requestId)?.abort()
+      }
+    }
+  }
+
+  private async handleRequest(
+    method: string,
+    params: Record<string, unknown>,
+    signal: AbortSignal
+  ): Promise<unknown> {
+    const { tools, resources } = this.options
+
+    switch (method) {
+      case "initialize":
+        return {
+          // We speak one version; clients that can't are expected to disconnect
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: { ...(tools && { tools: {} }), ...(resources && { resources: {} }) },
+          serverInfo: { name: this.options.name, version: this.options.version },
+          ...(this.options.instructions && { instructions: this.options.instructions }),
+        }
+      case "ping":
+        return {}
+      case "tools/list":
+        if (!tools) break
+        return { tools: await tools.list() }
+      case "tools/call": {
+        if (!tools) break
+        if (typeof params.name !== "string") {
+          throw new RequestError(INVALID_PARAMS, "tools/call needs a tool name")
+        }
+        return tools.call(params.name, asParams(params.arguments), signal)
+      }
+      case "resources/list":
+        if (!resources) break
+        return { resources: await resources.list() }
+      case "resources/read": {
+        if (!resources) break
+        if (typeof params.uri !== "string") {
+          throw new RequestError(INVALID_PARAMS, "resources/read needs a uri")
+        }
+        const contents = await resources.read(params.uri)
+        if (!contents) throw new RequestError(RESOURCE_NOT_FOUND, `Resource not found: ${params.uri}`)
+        return { contents }
+      }
+    }
+    throw new RequestError(METHOD_NOT_FOUND, `Not supported: ${method}`)
+  }
+}
+
+function asParams(params: unknown): Record<string, unknown> {
+  return params && typeof params === "object" && !Array.isArray(params)
+    ? (params as Record<string, unknown>)
+    : {}
+}
@@ -21,6 +21,7 @@ export {
   // Shared
   type Embedding,
   type SearchResult,
+  type ArtifactUpdates,
   DEFAULT_EMBEDDING_DIMENSIONS,
 } from "./types.ts"
 
@@ -1,6 +1,7 @@
 import { connect, type Connection, type Table, type IntoSql } from "@lancedb/lancedb"
 import { join } from "node:path"
 import { mkdirSync, existsSync, rmSync } from "node:fs"
+import { mkdir } from "node:fs/promises"
 
 import { sessionsSchema, artifactsSchema, knowledgeSchema } from "./schema.ts"
 import type {
@@ -14,19 +15,27 @@ import type {
   KnowledgeReference,
   ToolUse,
   ToolResult,
+  ImageAttachment,
   Knowledge,
   KnowledgeSource,
   KnowledgeSourceMetadata,
   Embedding,
   SearchResult,
+  ArtifactUpdates,
 } from "./types.ts"
 
 /** Metadata stored in entry records for type-specific fields */
 interface EntryRecordMetadata {
+  // For UserInput
+  attachments?: ImageAttachment[]
   // For AgentResponse
   model?: string
   provider?: string
   status?: string
+  usage?: AgentResponse["usage"]
+  reasoning?: string
+  latencyMs?: number
+  alternates?: AgentResponse["alternates"]
   // For SystemInstruction
   priority?: number
   // For KnowledgeReference
@@ -37,6 +46,7 @@ interface EntryRecordMetadata {
   toolId?: string
   toolName?: string
   input?: unknown
+  reasoningBlocks?: ToolUse["reasoningBlocks"]
   // For ToolResult
   result?: unknown
   isError?: boolean
@@ -44,6 +54,10 @@ interface EntryRecordMetadata {
 
 const STORAGE_DIR = ".tinker"
 const DB_DIR = "lancedb"
+const BLOB_DIR = "blobs"
+
+/** Blob IDs are sha256 hex digests */
+const BLOB_ID = /^[0-9a-f]{64}$/
 
 function generateId(): string {
   return crypto.randomUUID()
@@ -77,16 +91,16 @@ function fromJson<T>(json: string | null | undefined): T | undefined {
   }
 }
 
-/** Extract vector from Arrow result */
-function extractVector(value: unknown): number[] {
+/** Extract a list column (a vector, tags) from an Arrow result */
+function extractList<T = number>(value: unknown): T[] {
   if (Array.isArray(value)) return value
   if (value && typeof value === "object" && "toArray" in value) {
-    return Array.from((value as { toArray: () => number[] }).toArray())
+    return Array.from((value as { toArray: () => T[] }).toArray())
   }
   if (value && typeof value === "object" && "length" in value && "get" in value) {
-    const arr: number[] = []
+    const arr: T[] = []
     const len = (value as { length: number }).length
-    const get = (value as { get: (i: number) => number }).get
+    const get = (value as { get: (i: number) => T }).get
     for (let i = 0; i < len; i++) {
       arr.push(get(i))
     }
@@ -187,12 +201,16 @@ function entryToRecord(entry: SessionArtifact): EntryRecord {
   const metadata: EntryRecordMetadata = {}
   switch (entry.kind) {
     case "user_input":
-      // No additional metadata needed
+      if (entry.attachments?.length) metadata.attachments = entry.attachments
       break
     case "agent_response":
       metadata.model = entry.model
       metadata.provider = entry.provider
       metadata.status = entry.status
+      if (entry.usage) metadata.usage = entry.usage
+      if (entry.reasoning) metadata.reasoning = entry.reasoning
+      if (entry.latencyMs !== undefined) metadata.latencyMs = entry.latencyMs
+      if (entry.alternates?.length) metadata.alternates = entry.alternates
       break
     case "system_instruction":
       if (entry.priority !== undefined) metadata.priority = entry.priority
@@ -205,6 +223,7 @@ function entryToRecord(entry: SessionArtifact): EntryRecord {
       metadata.toolId = entry.toolId
       metadata.toolName = entry.toolName
       metadata.input = entry.input
+      if (entry.reasoningBlocks?.length) metadata.reasoningBlocks = entry.reasoningBlocks
       break
     case "tool_result":
       metadata.toolUseId = entry.toolUseId
@@ -231,7 +250,7 @@ function entryToRecord(entry: SessionArtifact): EntryRecord {
 
 function recordToEntry(record: EntryRecord): SessionArtifact {
   const embedding: Embedding = {
-    vector: extractVector(record.embedding_vector),
+    vector: extractList(record.embedding_vector),
     model: record.embedding_model,
     dimensions: record.embedding_dimensions,
     createdAt: timestampToDate(record.embedding_created_at),
@@ -251,7 +270,12 @@ function recordToEntry(record: EntryRecord): SessionArtifact {
 
   switch (kind) {
     case "user_input":
-      return { ...base, kind: "user_input", content: record.content } as UserInput
+      return {
+        ...base,
+        kind: "user_input",
+        content: record.content,
+        attachments: metadata.attachments,
+      } as UserInput
     case "agent_response":
       return {
         ...base,
@@ -260,6 +284,10 @@ function recordToEntry(record: EntryRecord): SessionArtifact {
         model: metadata.model ?? "unknown",
         provider: metadata.provider ?? "unknown",
         status: (metadata.status as AgentResponse["status"]) ?? "complete",
+        usage: metadata.usage,
+        reasoning: metadata.reasoning,
+        latencyMs: metadata.latencyMs,
+        alternates: metadata.alternates,
       } as AgentResponse
     case "system_instruction":
       return {
@@ -282,6 +310,7 @@ function recordToEntry(record: EntryRecord): SessionArtifact {
         toolId: metadata.toolId ?? "",
         toolName: metadata.toolName ?? "",
         input: metadata.input,
+        reasoningBlocks: metadata.reasoningBlocks,
       } as ToolUse
     case "tool_result":
       return {
@@ -319,7 +348,7 @@ function knowledgeToRecord(knowledge: Knowledge): KnowledgeRecord {
 
 function recordToKnowledge(record: KnowledgeRecord): Knowledge {
   const embedding: Embedding = {
-    vector: extractVector(record.embedding_vector),
+    vector: extractList(record.embedding_vector),
     model: record.embedding_model,
     dimensions: record.embedding_dimensions,
     createdAt: timestampToDate(record.embedding_created_at),
@@ -331,7 +360,7 @@ function recordToKnowledge(record: KnowledgeRecord): Knowledge {
     embedding,
     source: record.source as KnowledgeSource,
     sourceMetadata: JSON.parse(record.source_metadata) as KnowledgeSourceMetadata,
-    tags: Array.isArray(record.tags) ? record.tags : [],
+    tags: extractList<string>(record.tags),
     createdAt: timestampToDate(record.created_at),
     updatedAt: timestampToDate(record.updated_at),
   }
@@ -341,7 +370,7 @@ function recordToKnowledge(record: KnowledgeRecord): Knowledge {
 
 /**
  * ProjectStorage — per-project storage for sessions, artifacts, and knowledge.
- * Stored in {project}/.tinker/lancedb/
+ * Stored in {project}/.tinker/lancedb/, with attachment blobs in {project}/.tinker/blobs/
  *
  * Handles serialization between domain types (Date, Embedding interface)
  * and storage format (timestamps, flat vectors).
@@ -351,9 +380,11 @@ export class ProjectStorage {
   private sessions: Table | null = null
   private messages: Table | null = null
   private knowledge: Table | null = null
+  private blobDir: string
 
-  private constructor(db: Connection) {
+  private constructor(db: Connection, blobDir: string) {
     this.db = db
+    this.blobDir = blobDir
   }
 
   /**
@@ -367,7 +398,7 @@ export class ProjectStorage {
     }
 
     const db = await connect(dbPath)
-    const storage = new ProjectStorage(db)
+    const storage = new ProjectStorage(db, join(projectRoot, STORAGE_DIR, BLOB_DIR))
     await storage.ensureTables()
     return storage
   }
@@ -380,7 +411,7 @@ export class ProjectStorage {
     const tempDir = join("/tmp", `tinker-test-${crypto.randomUUID()}`)
     mkdirSync(tempDir, { recursive: true })
     const db = await connect(tempDir)
-    const storage = new ProjectStorage(db)
+    const storage = new ProjectStorage(db, join(tempDir, BLOB_DIR))
     storage._tempDir = tempDir
     await storage.ensureTables()
     return storage
@@ -456,7 +487,12 @@ export class ProjectStorage {
       updated_at: Date.now(),
     }
     if (updates.title !== undefined) values.title = updates.title
-    if (updates.metadata !== undefined) values.metadata = toJson(updates.metadata)
+    if (updates.metadata !== undefined) {
+      // projectId lives in the metadata JSON too, so carry it over
+      const existing = await this.getSession(id)
+      if (!existing) return null
+      values.metadata = toJson({ ...updates.metadata, projectId: existing.projectId })
+    }
 
     await this.sessions!.update({
       where: `id = '${id}'`,
@@ -562,10 +598,32 @@ export class ProjectStorage {
 
   async updateEntry(
     id: string,
-    updates: { pinned?: boolean }
+    updates: ArtifactUpdates
   ): Promise<SessionArtifact | null> {
     const values: Record<string, IntoSql> = {}
     if (updates.pinned !== undefined) values.pinned = updates.pinned
+    if (updates.content !== undefined) values.content = updates.content
+    if (updates.tokens !== undefined) values.tokens = updates.tokens
+    if (updates.embedding !== undefined) {
+      values.embedding_vector = updates.embedding.vector as IntoSql
+      values.embedding_model = updates.embedding.model
+      values.embedding_dimensions = updates.embedding.dimensions
+      values.embedding_created_at = dateToTimestamp(updates.embedding.createdAt)
+    }
+
+    // Status, usage and reasoning live in the metadata JSON, so rewrite it from the merged entry
+    if (updates.status !== undefined || updates.usage !== undefined || updates.reasoning !== undefined) {
+      const existing = await this.getEntry(id)
+      if (!existing) return null
+      if (existing.kind === "agent_response") {
+        values.metadata = entryToRecord({
+          ...existing,
+          status: updates.status ?? existing.status,
+          usage: updates.usage ?? existing.usage,
+          reasoning: updates.reasoning ?? existing.reasoning,
+        }).metadata
+      }
+    }
 
     if (Object.keys(values).length > 0) {
       await this.messages!.update({
@@ -678,7 +736,7 @@ export class ProjectStorage {
    */
   async updateArtifact(
     id: string,
-    updates: { pinned?: boolean }
+    updates: ArtifactUpdates
   ): Promise<SessionArtifact | null> {
     return this.updateEntry(id, updates)
   }
@@ -847,6 +905,28 @@ export class ProjectStorage {
     return this.knowledge!.countRows()
   }
 
+  // ─── Blobs ─────────────────────────────────────────────────────
+
+  /**
+   * Store bytes under their sha256; identical blobs are stored once.
+   */
+  async putBlob(data: Uint8Array): Promise<string> {
+    const id = new Bun.CryptoHasher("sha256").update(data).digest("hex")
+    const path = join(this.blobDir, id)
+    if (!(await Bun.file(path).exists())) {
+      await mkdir(this.blobDir, { recursive: true })
+      await Bun.write(path, data)
+    }
+    return id
+  }
+
+  async getBlob(id: string): Promise<Uint8Array<ArrayBuffer> | null> {
+    if (!BLOB_ID.test(id)) return null
+    const file = Bun.file(join(this.blobDir, id))
+    if (!(await file.exists())) return null
+    return new Uint8Array(await file.arrayBuffer())
+  }
+
   // ─── Lifecycle ─────────────────────────────────────────────────
 
   close(): void {
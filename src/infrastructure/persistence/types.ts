@@ -1,3 +1,6 @@
+import type { CompletionStatus, CompletionUsage } from "@/domain/session.ts"
+import type { Embedding } from "@/domain/shared.ts"
+
 // Re-export domain types for convenience
 export type {
   Session,
@@ -5,12 +8,15 @@ export type {
   SessionArtifact,
   ArtifactKind,
   CompletionStatus,
+  CompletionUsage,
   UserInput,
   AgentResponse,
+  AlternateResponse,
   SystemInstruction,
   KnowledgeReference,
   ToolUse,
   ToolResult,
+  ImageAttachment,
 } from "@/domain/session.ts"
 
 export type {
@@ -21,3 +27,20 @@ export type {
 
 export type { Embedding, SearchResult } from "@/domain/shared.ts"
 export { DEFAULT_EMBEDDING_DIMENSIONS } from "@/domain/shared.ts"
+
+/**
+ * Mutable fields of a stored artifact.
+ * When replacing content, pass the new tokens and embedding too.
+ */
+export interface ArtifactUpdates {
+  pinned?: boolean
+  content?: string
+  tokens?: number
+  embedding?: Embedding
+  /** AgentResponse only */
+  status?: CompletionStatus
+  /** AgentResponse only */
+  usage?: CompletionUsage
+  /** AgentResponse only */
+  reasoning?: string
+}
@@ -0,0 +1,502 @@
+import Anthropic from "@anthropic-ai/sdk"
+import type {
+  MessageParam,
+  ContentBlockParam,
+  Tool as AnthropicTool,
+  RawMessageStreamEvent,
+} from "@anthropic-ai/sdk/resources/messages"
+import type {
+  Provider,
+  ProviderInfo,
+  CompletionOptions,
+  StreamChunk,
+  ToolDefinition,
+  FinishReason,
+} from "@/domain/provider.ts"
+import type { ArtifactKind, ReasoningBlock } from "@/domain/session.ts"
+import type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+import { getTokenizer } from "@/infrastructure/tokenizer/index.ts"
+import type { Context, ContextItem } from "@/domain/context.ts"
+import type { AnthropicConfig } from "./types.ts"
+import { streamStructured } from "./structured.ts"
+import { statusError, parseRetryAfter, parseToolInput } from "./errors.ts"
+import { ConfigError, NetworkError } from "@/util/error.ts"
+
+/**
+ * Map Messages API stop_reason to our FinishReason.
+ */
+function toFinishReason(stopReason: string | null): FinishReason | undefined {
+  switch (stopReason) {
+    case "end_turn":
+    case "stop_sequence":
+    case "pause_turn":
+      return "stop"
+    case "max_tokens":
+      return "length"
+    case "tool_use":
+      return "tool_use"
+    case "refusal":
+      return "content_filter"
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Capability presets for Claude model families, matched by prefix.
+ * All current Claude models share the 200k window, tools and vision.
+ */
+const MODEL_OUTPUT_LIMITS: Array<[prefix: string, maxOutput: number]> = [
+  ["claude-opus-4", 32000],
+  ["claude-sonnet-4", 64000],
+  ["claude-3-7-sonnet", 64000],
+  ["claude-3-5-haiku", 8192],
+  ["claude-3-5-sonnet", 8192],
+  ["claude-haiku-4", 64000],
+]
+
+const DEFAULT_MAX_CONTEXT = 200000
+const DEFAULT_MAX_OUTPUT = 8192
+
+/** Default retry settings */
+const DEFAULT_MAX_ATTEMPTS = 5
+
+/** Statuses for error events that arrive mid-stream, which carry only a type */
+const STREAM_ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+}
+
+/**
+ * Typed errors for SDK failures.
+ * Aborts pass through untouched so callers can tell them apart.
+ */
+function toProviderError(error: unknown): unknown {
+  if (error instanceof Anthropic.APIUserAbortError || !(error instanceof Anthropic.APIError)) {
+    return error
+  }
+  if (error instanceof Anthropic.APIConnectionError) {
+    return new NetworkError(`Anthropic network error: ${error.message}`, { provider: "Anthropic" })
+  }
+
+  const type = (error.error as { error?: { type?: string } } | undefined)?.error?.type
+  const status = error.status ?? (type ? STREAM_ERROR_STATUS[type] : undefined)
+  if (!status) return new Error(`Anthropic error: ${error.message}`)
+  return statusError("Anthropic", status, error.message, parseRetryAfter(error.headers?.get("retry-after") ?? null))
+}
+
+/**
+ * The SDK client's credentials, from the config or its environment;
+ * never left for the SDK to find in process.env itself.
+ */
+function clientCredentials(config: Pick<AnthropicConfig, "apiKey" | "env">): { apiKey: string | null; authToken: string | null } {
+  const { env = process.env } = config
+  return {
+    apiKey: config.apiKey ?? env.ANTHROPIC_API_KEY ?? null,
+    authToken: env.ANTHROPIC_AUTH_TOKEN ?? null,
+  }
+}
+
+/**
+ * Anthropic provider implementation.
+ * Talks to the native Messages API via @anthropic-ai/sdk.
+ */
+export class AnthropicProvider implements Provider {
+  readonly info: ProviderInfo
+  readonly tokenizer: Tokenizer
+
+  private config: AnthropicConfig
+  private client: Anthropic
+
+  constructor(config: AnthropicConfig) {
+    this.config = config
+    this.client = new Anthropic({
+      ...clientCredentials(config),
+      baseURL: config.baseUrl,
+      // The SDK retries 429/5xx itself; maxAttempts includes the first try
+      maxRetries: Math.max(0, (config.retry?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS) - 1),
+    })
+
+    const maxOutput =
+      MODEL_OUTPUT_LIMITS.find(([prefix]) => config.model.startsWith(prefix))?.[1] ??
+      DEFAULT_MAX_OUTPUT
+
+    this.tokenizer = getTokenizer("claude")
+
+    this.info = {
+      id: `anthropic:${config.model}`,
+      name: `Anthropic (${config.model})`,
+      model: config.model,
+      capabilities: {
+        streaming: true,
+        tools: true,
+        vision: true,
+        systemPrompt: true,
+        maxContextTokens: DEFAULT_MAX_CONTEXT,
+        maxOutputTokens: maxOutput,
+        pricing: config.pricing,
+      },
+    }
+  }
+
+  /**
+   * Stream a completion response.
+   * Structured completions are buffered and validated by streamStructured().
+   */
+  async *complete(
+    context: Context,
+    options?: CompletionOptions
+  ): AsyncIterable<StreamChunk> {
+    if (options?.responseFormat) {
+      yield* streamStructured(
+        context,
+        { ...options, responseFormat: options.responseFormat },
+        (c, o) => this.stream(c, o),
+        { native: this.info.capabilities.structuredOutput, tokenizer: this.tokenizer }
+      )
+      return
+    }
+    yield* this.stream(context, options)
+  }
+
+  /**
+   * Stream a completion from the API.
+   */
+  private async *stream(
+    context: Context,
+    options?: CompletionOptions
+  ): AsyncIterable<StreamChunk> {
+    const { system, messages } = this.contextToMessages(context)
+    const tools = options?.tools ? this.toolsToAnthropic(options.tools) : undefined
+
+    // Extended thinking doesn't allow sampling overrides, and its budget counts toward max_tokens
+    const maxTokens = options?.maxTokens ?? this.info.capabilities.maxOutputTokens
+    const thinking = this.config.thinkingBudget
+      ? { type: "enabled" as const, budget_tokens: this.config.thinkingBudget }
+      : undefined
+    if (thinking && thinking.budget_tokens >= maxTokens) {
+      throw new ConfigError(
+        `Anthropic thinkingBudget (${thinking.budget_tokens}) must be less than max_tokens (${maxTokens})`,
+        { key: "thinkingBudget" }
+      )
+    }
+
+    let stream: AsyncIterable<RawMessageStreamEvent>
+    try {
+      stream = await this.client.messages.create({
+        model: this.config.model,
+        system,
+        messages,
+        stream: true,
+        max_tokens: maxTokens,
+        thinking,
+        temperature: thinking ? undefined : options?.temperature,
+        top_p: thinking ? undefined : options?.topP,
+        stop_sequences: options?.stopSequences,
+        tools: tools?.length ? tools : undefined,
+      }, { signal: options?.signal })
+    } catch (error) {
+      throw toProviderError(error)
+    }
+
+    try {
+      yield* this.parseEventStream(stream)
+    } catch (error) {
+      throw toProviderError(error)
+    }
+  }
+
+  /**
+   * Count tokens with the model's tokenizer.
+   */
+  async countTokens(text: string): Promise<number> {
+    return this.tokenizer.count(text)
+  }
+
+  /**
+   * Translate domain ArtifactKind to Anthropic role.
+   * The Messages API has no system or tool roles: system content is
+   * lifted into the top-level `system` param, and tool results are
+   * sent back as user content blocks.
+   */
+  translateArtifactKind(kind: ArtifactKind): string {
+    switch (kind) {
+      case "user_input":
+        return "user"
+      case "agent_response":
+        return "assistant"
+      case "system_instruction":
+        return "system"
+      case "knowledge_reference":
+        return "system"
+      case "tool_use":
+        return "assistant"
+      case "tool_result":
+        return "user"
+      default:
+        return "user"
+    }
+  }
+
+  /**
+   * Convert our Context to the Messages API shape.
+   * System-role items are collected into the system param; consecutive
+   * items with the same role are merged, since the API expects turns
+   * to alternate between user and assistant. Thinking blocks move to
+   * the start of their merged assistant turn, where the API wants them.
+   */
+  private contextToMessages(context: Context): {
+    system: string | undefined
+    messages: MessageParam[]
+  } {
+    const systemParts: string[] = []
+    const messages: MessageParam[] = []
+
+    if (context.systemPrompt) {
+      systemParts.push(context.systemPrompt)
+    }
+
+    for (const item of context.items) {
+      if (item.source.type === "knowledge") {
+        systemParts.push(`[Knowledge] ${item.content}`)
+        continue
+      }
+      if (item.source.type === "resource") {
+        systemParts.push(`[Resource: ${item.source.uri}]\n${item.content}`)
+        continue
+      }
+      if (item.source.type === "system") {
+        systemParts.push(item.content)
+        continue
+      }
+
+      const converted = this.contextItemToBlock(item)
+      if (!converted) continue
+
+      if (converted.role === "system") {
+        systemParts.push(item.content)
+        continue
+      }
+
+      const last = messages[messages.length - 1]
+      if (last && last.role === converted.role && Array.isArray(last.content)) {
+        const reasoning = converted.blocks.filter(isReasoningBlock)
+        const rest = converted.blocks.filter((block) => !isReasoningBlock(block))
+        const at = last.content.findIndex((block) => !isReasoningBlock(block))
+        last.content.splice(at === -1 ? last.content.length : at, 0, ...reasoning)
+        last.content.push(...rest)
+      } else {
+        messages.push({ role: converted.role, content: converted.blocks })
+      }
+    }
+
+    return {
+      system: systemParts.length > 0 ? systemParts.join("\n\n") : undefined,
+      messages,
+    }
+  }
+
+  /**
+   * Convert a single artifact ContextItem to content blocks and their role.
+   * Attached images come before the text, as the API recommends.
+   */
+  private contextItemToBlock(
+    item: ContextItem
+  ): { role: "user" | "assistant" | "system"; blocks: ContentBlockParam[] } | null {
+    if (item.source.type !== "artifact") return null
+
+    const artifact = item.source.artifact
+    const role = this.translateArtifactKind(artifact.kind) as "user" | "assistant" | "system"
+
+    if (artifact.kind === "tool_use") {
+      // With thinking on, the turn that made a call must open with its signed reasoning
+      const reasoning = this.config.thinkingBudget ? (artifact.reasoningBlocks ?? []) : []
+      return {
+        role: "assistant",
+        blocks: [
+          ...reasoning,
+          {
+            type: "tool_use",
+            id: artifact.toolUseId,
+            name: artifact.toolName,
+            input: artifact.input ?? {},
+          },
+        ],
+      }
+    }
+
+    if (artifact.kind === "tool_result") {
+      return {
+        role: "user",
+        blocks: [
+          {
+            type: "tool_result",
+            tool_use_id: artifact.toolUseId,
+            content:
+              typeof artifact.result === "string"
+                ? artifact.result
+                : JSON.stringify(artifact.result),
+            is_error: artifact.isError || undefined,
+          },
+        ],
+      }
+    }
+
+    if (!item.images?.length) {
+      return { role, blocks: [{ type: "text", text: item.content }] }
+    }
+
+    const blocks: ContentBlockParam[] = item.images.map((image) => ({
+      type: "image",
+      source: { type: "base64", media_type: image.mediaType, data: image.data },
+    }))
+    if (item.content) blocks.push({ type: "text", text: item.content })
+    return { role, blocks }
+  }
+
+  /**
+   * Convert our ToolDefinition to Anthropic tool format.
+   */
+  private toolsToAnthropic(tools: ToolDefinition[]): AnthropicTool[] {
+    return tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.inputSchema as AnthropicTool["input_schema"],
+    }))
+  }
+
+  /**
+   * Translate raw Messages API stream events into StreamChunks.
+   */
+  private async *parseEventStream(
+    stream: AsyncIterable<RawMessageStreamEvent>
+  ): AsyncIterable<StreamChunk> {
+    let promptTokens = 0
+    let completionTokens = 0
+    let finishReason: FinishReason | undefined
+
+    // Tool use blocks accumulate their JSON input across deltas
+    const toolBlocks: Map<number, { id: string; name: string; json: string }> = new Map()
+    // Thinking blocks accumulate their text and signature, and go out with the first tool call
+    const thinkingBlocks: Map<number, ReasoningBlock> = new Map()
+    let reasoningBlocks: ReasoningBlock[] = []
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case "message_start":
+          promptTokens = event.message.usage.input_tokens
+          completionTokens = event.message.usage.output_tokens
+          break
+
+        case "content_block_start":
+          if (event.content_block.type === "tool_use") {
+            toolBlocks.set(event.index, {
+              id: event.content_block.id,
+              name: event.content_block.name,
+              json: "",
+            })
+          } else if (event.content_block.type === "thinking") {
+            thinkingBlocks.set(event.index, { type: "thinking", thinking: "", signature: "" })
+          } else if (event.content_block.type === "redacted_thinking") {
+            thinkingBlocks.set(event.index, { type: "redacted_thinking", data: event.content_block.data })
+          }
+          break
+
+        case "content_block_delta":
+          if (event.delta.type === "text_delta" && event.delta.text) {
+            yield { content: event.delta.text, done: false }
+          } else if (event.delta.type === "thinking_delta" && event.delta.thinking) {
+            const block = thinkingBlocks.get(event.index)
+            if (block?.type === "thinking") block.thinking += event.delta.thinking
+            yield { content: "", done: false, reasoning: event.delta.thinking }
+          } else if (event.delta.type === "signature_delta") {
+            const block = thinkingBlocks.get(event.index)
+            if (block?.type === "thinking") block.signature += event.delta.signature
+          } else if (event.delta.type === "input_json_delta") {
+            const block = toolBlocks.get(event.index)
+            if (block) block.json += event.delta.partial_json
+          }
+          break
+
+        case "content_block_stop": {
+          const reasoning = thinkingBlocks.get(event.index)
+          if (reasoning) {
+            thinkingBlocks.delete(event.index)
+            reasoningBlocks.push(reasoning)
+          }
+
+          const block = toolBlocks.get(event.index)
+          if (block) {
+            toolBlocks.delete(event.index)
+            yield {
+              content: "",
+              done: false,
+              toolUse: {
+                id: block.id,
+                name: block.name,
+                ...parseToolInput(block.name, block.json),
+                ...(reasoningBlocks.length > 0 && { reasoningBlocks }),
+              },
+            }
+            reasoningBlocks = []
+          }
+          break
+        }
+
+        case "message_delta":
+          completionTokens = event.usage.output_tokens
+          finishReason = toFinishReason(event.delta.stop_reason)
+          break
+
+        case "message_stop":
+          yield {
+            content: "",
+            done: true,
+            finishReason,
+            usage: {
+              promptTokens,
+              completionTokens,
+              totalTokens: promptTokens + completionTokens,
+            },
+          }
+          return
+      }
+    }
+  }
+}
+
+function isReasoningBlock(block: ContentBlockParam): boolean {
+  return block.type === "thinking" || block.type === "redacted_thinking"
+}
+
+/**
+ * List the models available to an API key, newest first.
+ */
+export async function listAnthropicModels(
+  config: Pick<AnthropicConfig, "apiKey" | "baseUrl" | "env"> = {}
+): Promise<Array<{ id: string; name: string }>> {
+  const client = new Anthropic({
+    ...clientCredentials(config),
+    baseURL: config.baseUrl,
+  })
+  const models: Array<{ id: string; name: string }> = []
+  try {
+    for await (const model of client.models.list()) {
+      models.push({ id: model.id, name: model.display_name })
+    }
+  } catch (error) {
+    throw toProviderError(error)
+  }
+  return models
+}
+
+/**
+ * Create an Anthropic provider from config.
+ */
+export function createAnthropicProvider(config: AnthropicConfig): AnthropicProvider {
+  return new AnthropicProvider(config)
+}
@@ -0,0 +1,305 @@
+import * as path from "node:path"
+import { mkdir } from "node:fs/promises"
+import type {
+  Provider,
+  ProviderInfo,
+  CompletionOptions,
+  StreamChunk,
+} from "@/domain/provider.ts"
+import type { ArtifactKind } from "@/domain/session.ts"
+import type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+import { tokenizerForModel } from "@/infrastructure/tokenizer/index.ts"
+import type { Context } from "@/domain/context.ts"
+
+const CASSETTE_VERSION = 1
+
+/** ISO-8601 timestamps, e.g. the current time in the system prompt */
+const ISO_TIMESTAMP = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?/g
+
+// ─── Cassette Format ────────────────────────────────────────────
+
+/**
+ * Context reduced to what the model sees: no IDs, timestamps,
+ * token counts or budgets, so re-assembled contexts hash the same.
+ */
+export interface CassetteContext {
+  systemPrompt?: string
+  items: Array<{
+    type: string
+    kind?: ArtifactKind
+    content: string
+    /** A tool call's input */
+    input?: unknown
+    /** A tool result's payload */
+    result?: unknown
+    /** Attached images, as hashes of their data */
+    images?: string[]
+  }>
+}
+
+/**
+ * CompletionOptions without the per-call abort signal.
+ */
+export type CassetteOptions = Omit<CompletionOptions, "signal">
+
+/**
+ * One recorded completion.
+ */
+export interface CassetteEntry {
+  key: string
+  context: CassetteContext
+  options: CassetteOptions
+  chunks: StreamChunk[]
+}
+
+/**
+ * A recording of one provider's completions.
+ */
+export interface Cassette {
+  version: number
+  provider: ProviderInfo
+  entries: CassetteEntry[]
+}
+
+/**
+ * Normalize a context for recording and matching: item text, plus tool
+ * calls' input, results' payloads and attached images, which the text
+ * may not show.
+ * Line endings, surrounding whitespace, timestamps and the working
+ * directory don't affect the key, so cassettes replay across runs and machines.
+ */
+export function normalizeContext(context: Context): CassetteContext {
+  return {
+    systemPrompt: context.systemPrompt ? normalizeText(context.systemPrompt) : undefined,
+    items: context.items.map((item) => {
+      const artifact = item.source.type === "artifact" ? item.source.artifact : undefined
+      return {
+        type: item.type,
+        kind: artifact?.kind,
+        content: normalizeText(item.content),
+        ...(artifact?.kind === "tool_use" && { input: normalizeValue(artifact.input) }),
+        ...(artifact?.kind === "tool_result" && { result: normalizeValue(artifact.result) }),
+        ...(item.images?.length && { images: item.images.map((image) => hashText(image.data)) }),
+      }
+    }),
+  }
+}
+
+/**
+ * Hash a normalized context and its options into a cassette key.
+ */
+export function cassetteKey(context: CassetteContext, options: CassetteOptions = {}): string {
+  return hashText(JSON.stringify({ context, options }))
+}
+
+/**
+ * Read a cassette file.
+ */
+export async function loadCassette(cassettePath: string): Promise<Cassette> {
+  const file = Bun.file(cassettePath)
+  if (!(await file.exists())) {
+    throw new Error(`Cassette not found: ${cassettePath}`)
+  }
+  const cassette = (await file.json()) as Cassette
+  if (cassette.version !== CASSETTE_VERSION) {
+    throw new Error(`Unsupported cassette version ${cassette.version} in ${cassettePath}`)
+  }
+  return cassette
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n/g, "\n")
+    .replace(ISO_TIMESTAMP, "<timestamp>")
+    .replaceAll(process.cwd(), "<cwd>")
+    .trim()
+}
+
+function hashText(text: string): string {
+  const hash = new Bun.CryptoHasher("sha256")
+  hash.update(text)
+  return hash.digest("hex").slice(0, 16)
+}
+
+/**
+ * Normalize every string in a JSON value, e.g. a tool call's input.
+ */
+function normalizeValue(value: unknown): unknown {
+  if (typeof value === "string") return normalizeText(value)
+  if (Array.isArray(value)) return value.map(normalizeValue)
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, normalizeValue(child)]))
+  }
+  return value
+}
+
+function toCassetteOptions(options?: CompletionOptions): CassetteOptions {
+  const { signal: _signal, ...rest } = options ?? {}
+  return rest
+}
+
+// ─── Recording ──────────────────────────────────────────────────
+
+/**
+ * RecordingProvider — passes completions through to a real provider
+ * and saves each context, options and chunk sequence to a cassette.
+ *
+ * Only completions that stream to the end are recorded; errors and
+ * aborted streams are left out. The file is rewritten after every
+ * entry so a crashed run keeps what it recorded.
+ */
+export class RecordingProvider implements Provider {
+  readonly info: ProviderInfo
+  readonly tokenizer?: Tokenizer
+
+  private inner: Provider
+  private cassettePath: string
+  private cassette: Cassette
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(inner: Provider, cassettePath: string, existing?: Cassette) {
+    this.inner = inner
+    this.cassettePath = cassettePath
+    this.info = inner.info
+    this.tokenizer = inner.tokenizer
+    this.cassette = {
+      version: CASSETTE_VERSION,
+      provider: inner.info,
+      entries: existing?.entries ?? [],
+    }
+  }
+
+  /**
+   * Stream from the wrapped provider, recording as it goes.
+   */
+  async *complete(
+    context: Context,
+    options?: CompletionOptions
+  ): AsyncIterable<StreamChunk> {
+    const chunks: StreamChunk[] = []
+    for await (const chunk of this.inner.complete(context, options)) {
+      chunks.push(chunk)
+      yield chunk
+    }
+
+    if (options?.signal?.aborted) return
+
+    const normalized = normalizeContext(context)
+    const cassetteOptions = toCassetteOptions(options)
+    this.cassette.entries.push({
+      key: cassetteKey(normalized, cassetteOptions),
+      context: normalized,
+      options: cassetteOptions,
+      chunks,
+    })
+    await this.save()
+  }
+
+  /**
+   * Count tokens with the wrapped provider.
+   */
+  async countTokens(text: string): Promise<number> {
+    return this.inner.countTokens(text)
+  }
+
+  /**
+   * Translate artifact kinds with the wrapped provider.
+   */
+  translateArtifactKind(kind: ArtifactKind): string {
+    return this.inner.translateArtifactKind(kind)
+  }
+
+  private save(): Promise<void> {
+    const json = JSON.stringify(this.cassette, null, 2) + "\n"
+    this.writing = this.writing.then(async () => {
+      await mkdir(path.dirname(this.cassettePath), { recursive: true })
+      await Bun.write(this.cassettePath, json)
+    })
+    return this.writing
+  }
+}
+
+// ─── Replay ─────────────────────────────────────────────────────
+
+/**
+ * ReplayProvider — serves recorded completions from a cassette,
+ * matched by the normalized context and options. No network.
+ *
+ * Identical requests replay their recordings in order, repeating the
+ * last one once exhausted. An unrecorded request is an error.
+ */
+export class ReplayProvider implements Provider {
+  readonly info: ProviderInfo
+  readonly tokenizer: Tokenizer
+
+  private entries = new Map<string, CassetteEntry[]>()
+  private played = new Map<string, number>()
+
+  constructor(cassette: Cassette) {
+    this.info = cassette.provider
+    this.tokenizer = tokenizerForModel(cassette.provider.model)
+
+    for (const entry of cassette.entries) {
+      const list = this.entries.get(entry.key) ?? []
+      list.push(entry)
+      this.entries.set(entry.key, list)
+    }
+  }
+
+  /**
+   * Replay the recorded chunks for this context.
+   */
+  async *complete(
+    context: Context,
+    options?: CompletionOptions
+  ): AsyncIterable<StreamChunk> {
+    const key = cassetteKey(normalizeContext(context), toCassetteOptions(options))
+    const recorded = this.entries.get(key)
+    if (!recorded) {
+      throw new Error(`No cassette entry for context ${key} (${this.info.id})`)
+    }
+
+    const index = this.played.get(key) ?? 0
+    this.played.set(key, index + 1)
+    const entry = recorded[Math.min(index, recorded.length - 1)]!
+
+    for (const chunk of entry.chunks) {
+      if (options?.signal?.aborted) return
+      yield chunk
+    }
+  }
+
+  /**
+   * Count tokens with the recorded model's tokenizer.
+   */
+  async countTokens(text: string): Promise<number> {
+    return this.tokenizer.count(text)
+  }
+
+  /**
+   * Translate artifact kinds to roles.
+   */
+  translateArtifactKind(kind: ArtifactKind): string {
+    return kind // Roles were resolved by the recorded provider
+  }
+}
+
+/**
+ * Wrap a provider to record into a cassette, appending to it if it exists.
+ */
+export async function createRecordingProvider(
+  inner: Provider,
+  cassettePath: string
+): Promise<RecordingProvider> {
+  const existing = (await Bun.file(cassettePath).exists())
+    ? await loadCassette(cassettePath)
+    : undefined
+  return new RecordingProvider(inner, cassettePath, existing)
+}
+
+/**
+ * Create a provider that replays a cassette file.
+ */
+export async function createReplayProvider(cassettePath: string): Promise<ReplayProvider> {
+  return new ReplayProvider(await loadCassette(cassettePath))
+}
@@ -5,6 +5,8 @@ import type {
   StreamChunk,
 } from "@/domain/provider.ts"
 import type { ArtifactKind } from "@/domain/session.ts"
+import type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+import { getTokenizer } from "@/infrastructure/tokenizer/index.ts"
 import type { Context } from "@/domain/context.ts"
 
 const DEFAULT_PORT = 7331
@@ -27,6 +29,7 @@ export interface DebugProviderConfig {
  */
 export class DebugProvider implements Provider {
   readonly info: ProviderInfo
+  readonly tokenizer: Tokenizer
 
   private baseUrl: string
 
@@ -35,6 +38,8 @@ export class DebugProvider implements Provider {
     const port = config.port ?? DEFAULT_PORT
     this.baseUrl = `http://${host}:${port}`
 
+    this.tokenizer = getTokenizer("heuristic")
+
     this.info = {
       id: "debug",
       name: "Debug Provider",
@@ -96,6 +101,7 @@ export class DebugProvider implements Provider {
           temperature: options?.temperature,
         },
       }),
+      signal: options?.signal,
     })
 
     if (!response.ok) {
@@ -121,10 +127,10 @@ export class DebugProvider implements Provider {
   }
 
   /**
-   * Simple token estimation.
+   * Simple token estimation — there's no model behind this provider.
    */
   async countTokens(text: string): Promise<number> {
-    return Math.ceil(text.length / 4)
+    return this.tokenizer.count(text)
   }
 
   /**
@@ -0,0 +1,243 @@
+import type { LocalRuntime, ProviderCapabilities, ProviderConfig } from "@/domain/provider.ts"
+import type { Context } from "@/domain/context.ts"
+import type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+import { getTokenizer } from "@/infrastructure/tokenizer/index.ts"
+import { createTokenBudget } from "@/domain/context.ts"
+import { AnthropicProvider, listAnthropicModels } from "./anthropic.ts"
+import { createOllamaProvider, listOllamaModels } from "./ollama.ts"
+import { createLlamaCppProvider } from "./llamacpp.ts"
+import { listOpenAICompatibleModels } from "./openai-compatible.ts"
+import { ModelRegistry, toCapabilities } from "./model-registry.ts"
+import { withMiddleware, timeout } from "./middleware.ts"
+import { createProvider, type ProviderOptions } from "./factory.ts"
+
+/** The connection test's whole prompt */
+const TEST_PROMPT = "Reply with just the word OK."
+
+/** Tokens the test reply may take */
+const TEST_MAX_TOKENS = 16
+
+/**
+ * A kind of provider that can be set up from the settings dialog.
+ */
+export interface ProviderKind {
+  type: Exclude<ProviderConfig["type"], "fallback">
+  name: string
+  description: string
+  /** Config fields to ask for, besides the model */
+  fields: Array<"baseUrl" | "apiKey" | "runtime">
+  /** Local runtimes and where they usually listen */
+  runtimes?: Array<{ runtime: LocalRuntime; name: string; defaultBaseUrl?: string }>
+}
+
+/**
+ * Every provider kind, in the order the settings dialog offers them.
+ */
+export const PROVIDER_KINDS: ProviderKind[] = [
+  {
+    type: "local",
+    name: "Local",
+    description: "A model server on this machine or network",
+    fields: ["runtime", "baseUrl"],
+    runtimes: [
+      { runtime: "ollama", name: "Ollama", defaultBaseUrl: "http://localhost:11434" },
+      { runtime: "lmstudio", name: "LM Studio", defaultBaseUrl: "http://localhost:1234/v1" },
+      { runtime: "llamacpp", name: "llama.cpp", defaultBaseUrl: "http://localhost:8080" },
+      { runtime: "other", name: "Other (OpenAI-compatible)" },
+    ],
+  },
+  {
+    type: "openrouter",
+    name: "OpenRouter",
+    description: "Hosted models from many labs behind one API key",
+    fields: ["baseUrl", "apiKey"],
+  },
+  {
+    type: "openai-compatible",
+    name: "OpenAI-compatible",
+    description: "Any /v1/chat/completions server: vLLM, Groq, LiteLLM...",
+    fields: ["baseUrl", "apiKey"],
+  },
+  {
+    type: "claude-code",
+    name: "Anthropic",
+    description: "Claude models; the API key defaults to ANTHROPIC_API_KEY",
+    fields: ["apiKey"],
+  },
+]
+
+/**
+ * A model a provider offers.
+ */
+export interface ModelListing {
+  id: string
+  /** Display name, when the provider has one */
+  name?: string
+  /** Extra detail, e.g. parameter size and quantization */
+  description?: string
+  /** What's known about the model; unknown fields are omitted */
+  capabilities: Partial<ProviderCapabilities>
+}
+
+/**
+ * List the models a provider offers. The config's model is ignored.
+ */
+export async function listModels(config: ProviderConfig, options: ProviderOptions = {}): Promise<ModelListing[]> {
+  switch (config.type) {
+    case "claude-code": {
+      const models = await listAnthropicModels({ ...config, env: options.env })
+      return models.map(({ id, name }) => ({
+        id,
+        name,
+        capabilities: new AnthropicProvider({ model: id }).info.capabilities,
+      }))
+    }
+
+    case "openrouter": {
+      const registry = new ModelRegistry({ baseUrl: config.baseUrl, apiKey: config.apiKey, cacheDir: options.modelCacheDir })
+      await registry.load()
+      return registry
+        .list()
+        .map((model) => ({ id: model.id, name: model.name, capabilities: toCapabilities(model) }))
+        .sort((a, b) => a.id.localeCompare(b.id))
+    }
+
+    case "openai-compatible": {
+      const models = await listOpenAICompatibleModels({ ...config, env: options.env })
+      return models.map(({ id, contextLength }) => ({
+        id,
+        capabilities: { ...(contextLength && { maxContextTokens: contextLength }), ...config.capabilities },
+      }))
+    }
+
+    case "local":
+      return listLocalModels(config)
+
+    case "fallback":
+      throw new Error("Fallback chains don't list models; list each provider in the chain instead")
+  }
+}
+
+/**
+ * List a local runtime's models, reading capabilities the way its provider does.
+ */
+async function listLocalModels(config: Extract<ProviderConfig, { type: "local" }>): Promise<ModelListing[]> {
+  switch (config.runtime) {
+    case "ollama": {
+      const models = await listOllamaModels(config.baseUrl)
+      return Promise.all(
+        models.map(async (model) => {
+          const provider = await createOllamaProvider({ model: model.name, baseUrl: config.baseUrl })
+          const detail = [model.parameterSize, model.quantization].filter(Boolean).join(", ")
+          return {
+            id: model.name,
+            ...(detail && { description: detail }),
+            capabilities: provider.info.capabilities,
+          }
+        })
+      )
+    }
+
+    case "llamacpp": {
+      // llama.cpp serves one model, listed on its OpenAI-compatible routes
+      const root = config.baseUrl.replace(/\/+$/, "").replace(/\/v1$/, "")
+      const models = await listOpenAICompatibleModels({ name: "llama.cpp", baseUrl: `${root}/v1` })
+      return Promise.all(
+        models.map(async ({ id }) => {
+          const provider = await createLlamaCppProvider({ model: id, baseUrl: config.baseUrl })
+          return { id, capabilities: provider.info.capabilities }
+        })
+      )
+    }
+
+    case "lmstudio":
+    case "other": {
+      const name = config.runtime === "lmstudio" ? "LM Studio" : "Local"
+      const models = await listOpenAICompatibleModels({ name, baseUrl: config.baseUrl })
+      return models.map(({ id, contextLength }) => ({
+        id,
+        capabilities: contextLength ? { maxContextTokens: contextLength } : {},
+      }))
+    }
+  }
+}
+
+/**
+ * The outcome of a connection test.
+ */
+export type ConnectionTestResult =
+  | { ok: true; latencyMs: number; reply: string; model: string; capabilities: ProviderCapabilities }
+  | { ok: false; latencyMs: number; error: Error }
+
+/**
+ * Check a config works end to end: create the provider and run a tiny
+ * completion. Makes a single attempt, so a bad key fails fast.
+ */
+export async function testConnection(
+  config: ProviderConfig,
+  options: ProviderOptions & { timeoutMs?: number } = {}
+): Promise<ConnectionTestResult> {
+  const { timeoutMs = 30000, ...providerOptions } = options
+  const started = performance.now()
+  const elapsed = () => Math.round(performance.now() - started)
+
+  try {
+    const single: ProviderConfig = config.type === "fallback" ? config : { ...config, retry: { maxAttempts: 1 } }
+    const provider = withMiddleware(await createProvider(single, providerOptions), [timeout(timeoutMs)])
+
+    let reply = ""
+    for await (const chunk of provider.complete(testContext(provider.tokenizer ?? getTokenizer("heuristic")), { maxTokens: testMaxTokens(config), temperature: 0 })) {
+      reply += chunk.content
+    }
+    return {
+      ok: true,
+      latencyMs: elapsed(),
+      reply: reply.trim(),
+      model: provider.info.model,
+      capabilities: provider.info.capabilities,
+    }
+  } catch (error) {
+    return { ok: false, latencyMs: elapsed(), error: error as Error }
+  }
+}
+
+/**
+ * Room for the test reply. Thinking budgets count toward max_tokens,
+ * so a provider that thinks gets its budget on top.
+ */
+function testMaxTokens(config: ProviderConfig): number {
+  if (config.type === "fallback") return Math.max(...config.providers.map(testMaxTokens))
+  return TEST_MAX_TOKENS + (config.type === "claude-code" ? (config.thinkingBudget ?? 0) : 0)
+}
+
+/**
+ * A context holding only the test prompt, as a user turn.
+ */
+function testContext(tokenizer: Tokenizer): Context {
+  const tokens = tokenizer.count(TEST_PROMPT)
+  return {
+    items: [
+      {
+        id: "connection-test",
+        type: "artifact",
+        content: TEST_PROMPT,
+        tokens,
+        priority: "critical",
+        source: {
+          type: "artifact",
+          artifact: {
+            id: "connection-test",
+            sessionId: "",
+            kind: "user_input",
+            content: TEST_PROMPT,
+            tokens,
+            embedding: { vector: [], model: "none", dimensions: 0, createdAt: new Date() },
+            timestamp: new Date(),
+          },
+        },
+      },
+    ],
+    budget: createTokenBudget({ total: 1024 }),
+    metadata: { artifactsIncluded: 1, artifactsFiltered: 0, knowledgeIncluded: 0, assembledAt: new Date() },
+  }
+}
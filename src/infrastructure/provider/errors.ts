@@ -0,0 +1,116 @@
+import {
+  AuthError,
+  ContextLengthError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+} from "@/util/error.ts"
+
+/** How APIs word "the prompt doesn't fit the model's window" */
+const CONTEXT_LENGTH = /context (length|window)|maximum context|prompt is too long|too many tokens|exceeds? the (available )?context/i
+
+/**
+ * A typed error for a failed API call, keeping the
+ * "<Name> API error (status): text" message callers already match on.
+ * Statuses without a more specific meaning stay plain Errors.
+ */
+export function statusError(
+  provider: string,
+  status: number,
+  text: string,
+  retryAfterMs?: number
+): Error {
+  const message = `${provider} API error (${status}): ${text}`
+  const data = { provider, status, retryAfterMs }
+
+  if (status === 401 || status === 403) return new AuthError(message, data)
+  if (status === 429) return new RateLimitError(message, data)
+  if ((status === 400 || status === 413) && CONTEXT_LENGTH.test(text)) {
+    return new ContextLengthError(message, data)
+  }
+  if (status === 408 || status === 409 || status >= 500) return new ServerError(message, data)
+  return new Error(message)
+}
+
+/**
+ * Read a failed response into a typed error, honoring Retry-After.
+ */
+export async function responseError(provider: string, response: Response): Promise<Error> {
+  return statusError(
+    provider,
+    response.status,
+    await response.text(),
+    parseRetryAfter(response.headers.get("retry-after"))
+  )
+}
+
+/**
+ * An error reported inside an otherwise successful stream.
+ * Only context-length problems get a type; the rest are the model's own failures.
+ */
+export function streamError(provider: string, message: string): Error {
+  const text = `${provider} error: ${message}`
+  return CONTEXT_LENGTH.test(message) ? new ContextLengthError(text, { provider }) : new Error(text)
+}
+
+/**
+ * Wrap fetch() network failures (connection refused, DNS, reset) as
+ * NetworkErrors; aborts and everything else pass through untouched.
+ */
+export function networkError(provider: string, error: unknown): unknown {
+  if (error instanceof TypeError && "code" in error) {
+    return new NetworkError(`${provider} network error: ${error.message}`, { provider })
+  }
+  return error
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header: delay-seconds or an HTTP date.
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Read the next piece of a response body; a dropped connection
+ * becomes a NetworkError.
+ */
+export async function readBody(
+  provider: string,
+  reader: ReadableStreamDefaultReader<Uint8Array>
+): ReturnType<ReadableStreamDefaultReader<Uint8Array>["read"]> {
+  try {
+    return await reader.read()
+  } catch (error) {
+    throw networkError(provider, error)
+  }
+}
+
+/**
+ * Parse a tool call's JSON arguments. Malformed arguments are the
+ * model's mistake, not the server's: they come back as an input error
+ * for the call's result, the way invalid input is reported to the model.
+ */
+export function parseToolInput(name: string, json: string): { input: unknown; inputError?: string } {
+  try {
+    return { input: JSON.parse(json || "{}") }
+  } catch (error) {
+    return { input: {}, inputError: `Invalid input for ${name}: arguments aren't valid JSON (${(error as Error).message})` }
+  }
+}
+
+/**
+ * Parse one streamed JSON payload. Garbage from the server is a
+ * ServerError rather than something to skip past.
+ */
+export function parseStreamData<T>(provider: string, data: string): T {
+  try {
+    return JSON.parse(data) as T
+  } catch {
+    throw new ServerError(`${provider} sent malformed stream data: ${data.slice(0, 200)}`, { provider })
+  }
+}
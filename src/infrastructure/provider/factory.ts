@@ -0,0 +1,117 @@
+import type { Provider, ProviderConfig } from "@/domain/provider.ts"
+import { createOpenRouterProvider } from "./openrouter.ts"
+import { OpenAICompatibleProvider } from "./openai-compatible.ts"
+import { AnthropicProvider } from "./anthropic.ts"
+import { createOllamaProvider } from "./ollama.ts"
+import { createLlamaCppProvider } from "./llamacpp.ts"
+import { FallbackProvider } from "./fallback.ts"
+import { withMiddleware, retry, timeout } from "./middleware.ts"
+import { ModelRegistry } from "./model-registry.ts"
+
+/** Fail a response that stalls mid-stream for this long (slow first tokens are fine) */
+const IDLE_TIMEOUT_MS = 120000
+
+/**
+ * What providers may use besides their config, given by the caller.
+ */
+export interface ProviderOptions {
+  /** Directory to cache model listings in, e.g. {project}/.tinker/cache/models; not cached without it */
+  modelCacheDir?: string
+  /** Where default API keys and "$NAME" references are read from (default: process.env) */
+  env?: Record<string, string | undefined>
+}
+
+/**
+ * Create a provider instance from config.
+ */
+export async function createProvider(config: ProviderConfig, options: ProviderOptions = {}): Promise<Provider> {
+  switch (config.type) {
+    case "openrouter": {
+      const provider = await createOpenRouterProvider(
+        {
+          apiKey: config.apiKey,
+          model: config.model,
+          baseUrl: config.baseUrl,
+          capabilities: config.capabilities,
+          env: options.env,
+        },
+        new ModelRegistry({ baseUrl: config.baseUrl, apiKey: config.apiKey, cacheDir: options.modelCacheDir })
+      )
+      return withMiddleware(provider, [retry(config.retry), timeout({ idleMs: IDLE_TIMEOUT_MS })])
+    }
+
+    case "openai-compatible": {
+      const provider = new OpenAICompatibleProvider({
+        model: config.model,
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        headers: config.headers,
+        name: config.name,
+        capabilities: config.capabilities,
+        env: options.env,
+      })
+      return withMiddleware(provider, [retry(config.retry), timeout({ idleMs: IDLE_TIMEOUT_MS })])
+    }
+
+    case "local":
+      return withMiddleware(await createLocalProvider(config), [
+        retry(config.retry),
+        timeout({ idleMs: IDLE_TIMEOUT_MS }),
+      ])
+
+    case "claude-code": {
+      // The SDK retries on its own
+      const provider = new AnthropicProvider({
+        model: config.model,
+        apiKey: config.apiKey,
+        baseUrl: config.baseUrl,
+        retry: config.retry,
+        pricing: config.pricing,
+        thinkingBudget: config.thinkingBudget,
+        env: options.env,
+      })
+      return withMiddleware(provider, [timeout({ idleMs: IDLE_TIMEOUT_MS })])
+    }
+
+    case "fallback": {
+      const providers = await Promise.all(config.providers.map((p) => createProvider(failFast(p), options)))
+      return new FallbackProvider(providers, { timeoutMs: config.timeoutMs })
+    }
+  }
+}
+
+/**
+ * Create a provider for a local runtime.
+ */
+async function createLocalProvider(config: Extract<ProviderConfig, { type: "local" }>): Promise<Provider> {
+  if (config.runtime === "ollama") {
+    return createOllamaProvider({
+      model: config.model,
+      baseUrl: config.baseUrl,
+      contextLength: config.contextLength,
+    })
+  }
+  if (config.runtime === "llamacpp") {
+    return createLlamaCppProvider({
+      model: config.model,
+      baseUrl: config.baseUrl,
+      template: config.template,
+      contextLength: config.contextLength,
+    })
+  }
+  return new OpenAICompatibleProvider({
+    name: config.runtime === "lmstudio" ? "LM Studio" : "Local",
+    model: config.model,
+    baseUrl: config.baseUrl,
+    capabilities: config.contextLength ? { maxContextTokens: config.contextLength } : undefined,
+  })
+}
+
+/**
+ * Inside a fallback chain, fail over instead of backing off:
+ * members make a single attempt unless their config says otherwise.
+ */
+function failFast(config: ProviderConfig): ProviderConfig {
+  if (config.type === "fallback" || config.retry) return config
+  return { ...config, retry: { maxAttempts: 1 } }
+}
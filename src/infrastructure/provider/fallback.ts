@@ -0,0 +1,161 @@
+import type {
+  Provider,
+  ProviderInfo,
+  ProviderCapabilities,
+  CompletionOptions,
+  StreamChunk,
+} from "@/domain/provider.ts"
+import type { ArtifactKind } from "@/domain/session.ts"
+import type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+import type { Context } from "@/domain/context.ts"
+import { RateLimitError, ServerError, NetworkError, TimeoutError } from "@/util/error.ts"
+
+const DEFAULT_TIMEOUT_MS = 30000
+
+/** HTTP statuses worth trying another provider for, as they appear in "<Name> API error (status)" */
+const RETRYABLE_STATUS = /API error \((408|409|429|5\d\d)\)/
+
+/**
+ * Fallback provider configuration.
+ */
+export interface FallbackProviderOptions {
+  /** Move on if a provider hasn't started streaming within this many ms (default: 30000) */
+  timeoutMs?: number
+}
+
+/**
+ * Whether a failed completion should be retried on the next provider:
+ * rate limits, server errors, network failures and timeouts.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false
+  if ([RateLimitError, ServerError, NetworkError, TimeoutError].some((type) => type.is(error))) return true
+  // Untyped errors from other code paths, by their message
+  if (RETRYABLE_STATUS.test(error.message)) return true
+  // fetch() network failures (connection refused, DNS, reset)
+  return error instanceof TypeError && "code" in error
+}
+
+/**
+ * FallbackProvider — tries an ordered list of providers until one answers.
+ *
+ * A provider is skipped when it fails with a retryable error or doesn't
+ * start streaming within the timeout. Once a provider has streamed
+ * output, its errors are final: the partial response can't be replayed.
+ * Chunks carry `source` so callers can record who actually answered
+ * and price the response at that provider's rates.
+ */
+export class FallbackProvider implements Provider {
+  readonly info: ProviderInfo
+  readonly tokenizer?: Tokenizer
+
+  private providers: Provider[]
+  private timeoutMs: number
+
+  constructor(providers: Provider[], options: FallbackProviderOptions = {}) {
+    const primary = providers[0]
+    if (!primary) {
+      throw new Error("FallbackProvider needs at least one provider")
+    }
+
+    this.providers = providers
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    this.tokenizer = primary.tokenizer
+
+    this.info = {
+      id: `fallback:${providers.map((p) => p.info.id).join(",")}`,
+      name: `Fallback (${providers.map((p) => p.info.name).join(" → ")})`,
+      model: primary.info.model,
+      capabilities: sharedCapabilities(providers),
+    }
+  }
+
+  /**
+   * Stream from the first provider that answers.
+   */
+  async *complete(
+    context: Context,
+    options?: CompletionOptions
+  ): AsyncIterable<StreamChunk> {
+    const signal = options?.signal
+    let lastError: unknown
+
+    for (const provider of this.providers) {
+      const { pricing } = provider.info.capabilities
+      const source = { providerId: provider.info.id, model: provider.info.model, ...(pricing && { pricing }) }
+
+      // Per-attempt controller: aborted by the caller or by the first-chunk timeout
+      const controller = new AbortController()
+      const onAbort = () => controller.abort(signal?.reason)
+      signal?.addEventListener("abort", onAbort, { once: true })
+
+      let timedOut = false
+      const timer = setTimeout(() => {
+        timedOut = true
+        controller.abort(
+          new TimeoutError(`${provider.info.name} timed out after ${this.timeoutMs}ms`, {
+            provider: provider.info.id,
+            ms: this.timeoutMs,
+            stage: "start",
+          })
+        )
+      }, this.timeoutMs)
+
+      let started = false
+      try {
+        for await (const chunk of provider.complete(context, { ...options, signal: controller.signal })) {
+          if (!started) {
+            started = true
+            clearTimeout(timer)
+          }
+          yield { ...chunk, source }
+        }
+        // Some providers end quietly when aborted instead of throwing
+        if (timedOut && !started) throw controller.signal.reason
+        return
+      } catch (error) {
+        if (started || signal?.aborted || !(timedOut || isRetryableError(error))) {
+          throw error
+        }
+        lastError = timedOut ? controller.signal.reason : error
+        console.warn(`[Fallback] ${provider.info.name} failed:`, (lastError as Error).message)
+      } finally {
+        clearTimeout(timer)
+        signal?.removeEventListener("abort", onAbort)
+      }
+    }
+
+    throw lastError
+  }
+
+  /**
+   * Count tokens with the primary provider.
+   */
+  async countTokens(text: string): Promise<number> {
+    return this.providers[0]!.countTokens(text)
+  }
+
+  /**
+   * Translate artifact kinds with the primary provider.
+   */
+  translateArtifactKind(kind: ArtifactKind): string {
+    return this.providers[0]!.translateArtifactKind(kind)
+  }
+}
+
+/**
+ * Capabilities every provider in the chain supports, so a context
+ * assembled for the primary still fits whichever provider answers.
+ */
+function sharedCapabilities(providers: Provider[]): ProviderCapabilities {
+  const all = providers.map((p) => p.info.capabilities)
+  return {
+    streaming: all.every((c) => c.streaming),
+    tools: all.every((c) => c.tools),
+    vision: all.every((c) => c.vision),
+    systemPrompt: all.every((c) => c.systemPrompt),
+    structuredOutput: all.every((c) => c.structuredOutput ?? false),
+    maxContextTokens: Math.min(...all.map((c) => c.maxContextTokens)),
+    maxOutputTokens: Math.min(...all.map((c) => c.maxOutputTokens)),
+  }
+}
@@ -1,14 +1,99 @@
 // Types
 export type {
   OpenAIMessage,
+  OpenAIContentPart,
   OpenAIToolCall,
   OpenAITool,
   OpenAIChatRequest,
   OpenAIStreamChunk,
+  OpenAICompatibleConfig,
+  OpenAIModelsResponse,
   OpenRouterConfig,
+  OpenRouterModel,
+  OpenRouterModelsResponse,
+  AnthropicConfig,
+  OllamaMessage,
+  OllamaChatRequest,
+  OllamaChatChunk,
+  OllamaConfig,
+  LlamaCppCompletionRequest,
+  LlamaCppCompletionChunk,
+  LlamaCppConfig,
 } from "./types.ts"
 export type { DebugProviderConfig } from "./debug.ts"
+export type { ModelRegistryOptions } from "./model-registry.ts"
+export type { FallbackProviderOptions } from "./fallback.ts"
+export type {
+  CompletionHandler,
+  ProviderMiddleware,
+  LoggingOptions,
+  RedactSecretsOptions,
+  RetryOptions,
+  TimeoutOptions,
+} from "./middleware.ts"
+export type { Cassette, CassetteEntry, CassetteContext, CassetteOptions } from "./cassette.ts"
+export type { OllamaModel } from "./ollama.ts"
+export type { OpenAICompatibleModel } from "./openai-compatible.ts"
+export type { ProviderKind, ModelListing, ConnectionTestResult } from "./discovery.ts"
+export type { ChatTemplate, TemplateTurn } from "./templates.ts"
 
 // Implementations
+export {
+  OpenAICompatibleProvider,
+  createOpenAICompatibleProvider,
+  listOpenAICompatibleModels,
+} from "./openai-compatible.ts"
 export { OpenRouterProvider, createOpenRouterProvider } from "./openrouter.ts"
+export { AnthropicProvider, createAnthropicProvider, listAnthropicModels } from "./anthropic.ts"
+export { OllamaProvider, createOllamaProvider, listOllamaModels } from "./ollama.ts"
+export { LlamaCppProvider, createLlamaCppProvider } from "./llamacpp.ts"
 export { DebugProvider, createDebugProvider } from "./debug.ts"
+export { FallbackProvider, isRetryableError } from "./fallback.ts"
+
+// Middleware
+export {
+  MiddlewareProvider,
+  withMiddleware,
+  logging,
+  redactSecrets,
+  retry,
+  timeout,
+} from "./middleware.ts"
+
+// Errors
+export { statusError, responseError, streamError, networkError, parseRetryAfter } from "./errors.ts"
+
+// Factory
+export { createProvider, type ProviderOptions } from "./factory.ts"
+
+// Discovery
+export { PROVIDER_KINDS, listModels, testConnection } from "./discovery.ts"
+
+// Record/replay
+export {
+  RecordingProvider,
+  ReplayProvider,
+  createRecordingProvider,
+  createReplayProvider,
+  loadCassette,
+  normalizeContext,
+  cassetteKey,
+} from "./cassette.ts"
+
+// Structured output
+export {
+  StructuredOutputError,
+  streamStructured,
+  type StructuredSettings,
+  completeStructured,
+  zodResponseFormat,
+  validateJsonSchema,
+  parseJsonResponse,
+  structuredOutputInstructions,
+} from "./structured.ts"
+
+// Model metadata
+export { ModelRegistry, toCapabilities } from "./model-registry.ts"
+
+// Templates
+export { CHAT_TEMPLATES, detectChatTemplate } from "./templates.ts"
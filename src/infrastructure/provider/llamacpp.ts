@@ -0,0 +1,424 @@
+import type {
+  Provider,
+  ProviderInfo,
+  CompletionOptions,
+  StreamChunk,
+  ToolDefinition,
+  ChatTemplateName,
+} from "@/domain/provider.ts"
+import type { ArtifactKind } from "@/domain/session.ts"
+import type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+import { tokenizerForModel } from "@/infrastructure/tokenizer/index.ts"
+import type { Context, ContextItem } from "@/domain/context.ts"
+import { withImagePlaceholders } from "@/domain/context.ts"
+import type {
+  LlamaCppCompletionRequest,
+  LlamaCppCompletionChunk,
+  LlamaCppPropsResponse,
+  LlamaCppConfig,
+} from "./types.ts"
+import { CHAT_TEMPLATES, detectChatTemplate, type TemplateTurn } from "./templates.ts"
+import { streamStructured } from "./structured.ts"
+import { statusError, responseError, networkError, readBody, parseStreamData } from "./errors.ts"
+
+const DEFAULT_BASE_URL = "http://localhost:8080"
+const DEFAULT_TEMPLATE: ChatTemplateName = "chatml"
+
+/** Used until /props has been read (or when it can't be) */
+const DEFAULT_CAPABILITIES = { maxContext: 4096, maxOutput: 2048 }
+
+/** Tool calls are prompted for and parsed from text (Hermes-style tags) */
+const TOOL_CALL_OPEN = "<tool_call>"
+const TOOL_CALL_CLOSE = "</tool_call>"
+
+/**
+ * Length of the longest suffix of `text` that is a prefix of `tag`.
+ * That much text must be held back in case the tag is still arriving.
+ */
+function partialTagLength(text: string, tag: string): number {
+  for (let len = Math.min(text.length, tag.length - 1); len > 0; len--) {
+    if (tag.startsWith(text.slice(-len))) return len
+  }
+  return 0
+}
+
+/**
+ * llama.cpp provider implementation.
+ * Renders Context into a chat template itself and streams from the raw
+ * /completion endpoint, for models whose server-side templating is wrong
+ * or missing.
+ */
+export class LlamaCppProvider implements Provider {
+  readonly info: ProviderInfo
+  readonly tokenizer: Tokenizer
+
+  private config: LlamaCppConfig
+  private baseUrl: string
+  private template: ChatTemplateName
+
+  constructor(config: LlamaCppConfig) {
+    this.config = config
+    this.baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "").replace(/\/v1$/, "")
+    this.template = config.template ?? DEFAULT_TEMPLATE
+
+    this.tokenizer = tokenizerForModel(config.model)
+
+    this.info = {
+      id: `llamacpp:${config.model}`,
+      name: `llama.cpp (${config.model})`,
+      model: config.model,
+      capabilities: {
+        streaming: true,
+        tools: true, // Prompted, not native
+        vision: false,
+        systemPrompt: true,
+        structuredOutput: true, // Schema-constrained sampling
+        maxContextTokens: config.contextLength ?? DEFAULT_CAPABILITIES.maxContext,
+        maxOutputTokens: DEFAULT_CAPABILITIES.maxOutput,
+      },
+    }
+  }
+
+  /**
+   * The chat template in use.
+   */
+  get templateName(): ChatTemplateName {
+    return this.template
+  }
+
+  /**
+   * Read context size and chat template from /props.
+   * Configured values take precedence over what the server reports.
+   */
+  async loadModelInfo(): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/props`)
+    if (!response.ok) {
+      throw await responseError("llama.cpp", response)
+    }
+
+    const props = (await response.json()) as LlamaCppPropsResponse
+
+    if (!this.config.template && props.chat_template) {
+      this.template = detectChatTemplate(props.chat_template) ?? DEFAULT_TEMPLATE
+    }
+
+    const nCtx = props.default_generation_settings?.n_ctx
+    if (!this.config.contextLength && nCtx) {
+      this.info.capabilities = { ...this.info.capabilities, maxContextTokens: nCtx }
+    }
+  }
+
+  /**
+   * Render a context into a raw prompt using the active template.
+   */
+  renderPrompt(context: Context, tools?: ToolDefinition[]): string {
+    const turns: TemplateTurn[] = []
+
+    if (context.systemPrompt) {
+      turns.push({ role: "system", content: context.systemPrompt })
+    }
+    if (tools?.length) {
+      turns.push({ role: "system", content: this.toolInstructions(tools) })
+    }
+
+    for (const item of context.items) {
+      const turn = this.contextItemToTurn(item)
+      if (turn) turns.push(turn)
+    }
+
+    return CHAT_TEMPLATES[this.template].render(turns)
+  }
+
+  /**
+   * Stream a completion response.
+   * Structured completions are buffered and validated by streamStructured().
+   */
+  async *complete(
+    context: Context,
+    options?: CompletionOptions
+  ): AsyncIterable<StreamChunk> {
+    if (options?.responseFormat) {
+      yield* streamStructured(
+        context,
+        { ...options, responseFormat: options.responseFormat },
+        (c, o) => this.stream(c, o),
+        { native: this.info.capabilities.structuredOutput, tokenizer: this.tokenizer }
+      )
+      return
+    }
+    yield* this.stream(context, options)
+  }
+
+  /**
+   * Stream a completion from the API.
+   */
+  private async *stream(
+    context: Context,
+    options?: CompletionOptions
+  ): AsyncIterable<StreamChunk> {
+    const template = CHAT_TEMPLATES[this.template]
+    const tools = options?.tools?.length ? options.tools : undefined
+
+    // Template turn boundaries always stop generation; one tool call per turn
+    const stop = [
+      ...template.stop,
+      ...(tools ? [TOOL_CALL_CLOSE] : []),
+      ...(options?.stopSequences ?? []),
+    ]
+
+    const request: LlamaCppCompletionRequest = {
+      prompt: this.renderPrompt(context, tools),
+      stream: true,
+      n_predict: options?.maxTokens ?? this.info.capabilities.maxOutputTokens,
+      temperature: options?.temperature,
+      top_p: options?.topP,
+      stop,
+      cache_prompt: true,
+      json_schema: options?.responseFormat?.schema,
+    }
+
+    const response = await fetch(`${this.baseUrl}/completion`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+      signal: options?.signal,
+    }).catch((error: unknown) => {
+      throw networkError("llama.cpp", error)
+    })
+
+    if (!response.ok) {
+      throw await responseError("llama.cpp", response)
+    }
+
+    if (!response.body) {
+      throw new Error("No response body from llama.cpp")
+    }
+
+    yield* this.parseToolCalls(this.parseSSEStream(response.body), Boolean(tools))
+  }
+
+  /**
+   * Count tokens with the model's tokenizer.
+   */
+  async countTokens(text: string): Promise<number> {
+    return this.tokenizer.count(text)
+  }
+
+  /**
+   * Translate domain ArtifactKind to template role.
+   * Tool results are fed back as user turns.
+   */
+  translateArtifactKind(kind: ArtifactKind): string {
+    switch (kind) {
+      case "user_input":
+        return "user"
+      case "agent_response":
+        return "assistant"
+      case "system_instruction":
+        return "system"
+      case "knowledge_reference":
+        return "system"
+      case "tool_use":
+        return "assistant"
+      case "tool_result":
+        return "user"
+      default:
+        return "user"
+    }
+  }
+
+  /**
+   * Convert a single ContextItem to a template turn.
+   */
+  private contextItemToTurn(item: ContextItem): TemplateTurn | null {
+    switch (item.source.type) {
+      case "artifact": {
+        const artifact = item.source.artifact
+        const role = this.translateArtifactKind(artifact.kind) as TemplateTurn["role"]
+
+        if (artifact.kind === "tool_use") {
+          const call = JSON.stringify({ name: artifact.toolName, arguments: artifact.input ?? {} })
+          return { role, content: `${TOOL_CALL_OPEN}\n${call}\n${TOOL_CALL_CLOSE}` }
+        }
+
+        if (artifact.kind === "tool_result") {
+          const result =
+            typeof artifact.result === "string" ? artifact.result : JSON.stringify(artifact.result)
+          return { role, content: `<tool_response>\n${result}\n</tool_response>` }
+        }
+
+        // Raw prompt templates are text-only
+        return { role, content: withImagePlaceholders(item) }
+      }
+
+      case "knowledge":
+        return { role: "system", content: `[Knowledge] ${item.content}` }
+
+      case "resource":
+        return { role: "system", content: `[Resource: ${item.source.uri}]\n${item.content}` }
+
+      case "system":
+        return { role: "system", content: item.content }
+
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Describe available tools and the call format in the system prompt.
+   */
+  private toolInstructions(tools: ToolDefinition[]): string {
+    const definitions = tools
+      .map((t) =>
+        JSON.stringify({ name: t.name, description: t.description, parameters: t.inputSchema })
+      )
+      .join("\n")
+
+    return [
+      "# Tools",
+      "",
+      "You may call one of the following tools. Each is described by a JSON Schema:",
+      "<tools>",
+      definitions,
+      "</tools>",
+      "",
+      `To call a tool, reply with a JSON object inside ${TOOL_CALL_OPEN}${TOOL_CALL_CLOSE} tags:`,
+      TOOL_CALL_OPEN,
+      '{"name": "<tool name>", "arguments": {<arguments>}}',
+      TOOL_CALL_CLOSE,
+    ].join("\n")
+  }
+
+  /**
+   * Split `<tool_call>` blocks out of the text stream into toolUse chunks.
+   * Text that might be the start of the tag is held back until resolved.
+   */
+  private async *parseToolCalls(
+    chunks: AsyncIterable<StreamChunk>,
+    enabled: boolean
+  ): AsyncIterable<StreamChunk> {
+    if (!enabled) {
+      yield* chunks
+      return
+    }
+
+    let pending = ""
+    let toolBuffer: string | null = null
+
+    for await (const chunk of chunks) {
+      if (toolBuffer !== null) {
+        toolBuffer += chunk.content
+      } else {
+        pending += chunk.content
+        const open = pending.indexOf(TOOL_CALL_OPEN)
+        if (open >= 0) {
+          const before = pending.slice(0, open)
+          if (before) yield { content: before, done: false }
+          toolBuffer = pending.slice(open + TOOL_CALL_OPEN.length)
+          pending = ""
+        } else {
+          const hold = partialTagLength(pending, TOOL_CALL_OPEN)
+          const ready = pending.slice(0, pending.length - hold)
+          pending = pending.slice(pending.length - hold)
+          if (ready) yield { content: ready, done: false }
+        }
+      }
+
+      if (!chunk.done) continue
+
+      if (toolBuffer !== null) {
+        const raw = toolBuffer.replace(TOOL_CALL_CLOSE, "").trim()
+        try {
+          const call = JSON.parse(raw) as { name: string; arguments?: unknown }
+          yield {
+            content: "",
+            done: false,
+            toolUse: { id: `call_${crypto.randomUUID()}`, name: call.name, input: call.arguments ?? {} },
+          }
+          yield { ...chunk, content: pending, finishReason: "tool_use" }
+          return
+        } catch {
+          // Not a valid call — surface it as text rather than dropping it
+          pending = `${TOOL_CALL_OPEN}${toolBuffer}`
+        }
+      }
+
+      yield { ...chunk, content: pending }
+      return
+    }
+  }
+
+  /**
+   * Parse Server-Sent Events stream from /completion.
+   */
+  private async *parseSSEStream(
+    body: ReadableStream<Uint8Array>
+  ): AsyncIterable<StreamChunk> {
+    const reader = body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ""
+
+    try {
+      while (true) {
+        const { done, value } = await readBody("llama.cpp", reader)
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split("\n")
+        buffer = lines.pop() ?? "" // Keep incomplete line in buffer
+
+        for (const line of lines) {
+          if (!line.startsWith("data: ")) continue
+
+          const chunk = parseStreamData<LlamaCppCompletionChunk>("llama.cpp", line.slice(6))
+
+          // Failures after the response started arrive in-band
+          if (chunk.error) {
+            throw statusError("llama.cpp", chunk.error.code, chunk.error.message)
+          }
+
+          if (chunk.stop) {
+            const promptTokens = chunk.tokens_evaluated ?? 0
+            const completionTokens = chunk.tokens_predicted ?? 0
+            yield {
+              content: chunk.content,
+              done: true,
+              // "eos" and "word" (stop sequence) both end the turn normally
+              finishReason: chunk.stop_type === "limit" ? "length" : "stop",
+              usage: {
+                promptTokens,
+                completionTokens,
+                totalTokens: promptTokens + completionTokens,
+              },
+            }
+            return
+          }
+
+          if (chunk.content) {
+            yield { content: chunk.content, done: false }
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock()
+    }
+
+    // Stream closed without a stop chunk
+    yield { content: "", done: true }
+  }
+}
+
+/**
+ * Create a llama.cpp provider and load its model metadata.
+ * Falls back to the configured/default template if /props is unreachable.
+ */
+export async function createLlamaCppProvider(config: LlamaCppConfig): Promise<LlamaCppProvider> {
+  const provider = new LlamaCppProvider(config)
+  try {
+    await provider.loadModelInfo()
+  } catch (error) {
+    console.warn(`[llama.cpp] Could not load model info for ${config.model}:`, (error as Error).message)
+  }
+  return provider
+}
@@ -0,0 +1,321 @@
+import type {
+  Provider,
+  ProviderInfo,
+  CompletionOptions,
+  RetryConfig,
+  StreamChunk,
+} from "@/domain/provider.ts"
+import type { ArtifactKind, SessionArtifact } from "@/domain/session.ts"
+import type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+import type { Context, ContextItem } from "@/domain/context.ts"
+import { TimeoutError } from "@/util/error.ts"
+import { isRetryableError } from "./fallback.ts"
+
+/** Default retry settings */
+const DEFAULT_RETRY = {
+  maxAttempts: 5,
+  initialDelayMs: 2000,
+  maxDelayMs: 32000,
+}
+
+/** Common credential shapes: private keys, API keys and tokens */
+const SECRET_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  /\bsk-(?:ant-|or-|proj-)?[A-Za-z0-9_-]{20,}/g, // OpenAI, Anthropic, OpenRouter
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g, // GitHub
+  /\bAKIA[0-9A-Z]{16}\b/g, // AWS access key IDs
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g, // Slack
+  /\bBearer\s+[A-Za-z0-9._~+/-]{20,}=*/g,
+]
+
+// ─── Pipeline ───────────────────────────────────────────────────
+
+/**
+ * The rest of the pipeline: later middleware, then the provider itself.
+ */
+export type CompletionHandler = (
+  context: Context,
+  options: CompletionOptions
+) => AsyncIterable<StreamChunk>
+
+/**
+ * Wraps Provider.complete. A middleware can rewrite the context and
+ * options before calling `next`, and inspect, transform or drop the
+ * chunks it streams back — or not call `next` at all.
+ */
+export type ProviderMiddleware = (
+  context: Context,
+  options: CompletionOptions,
+  next: CompletionHandler,
+  provider: ProviderInfo
+) => AsyncIterable<StreamChunk>
+
+/**
+ * MiddlewareProvider — runs completions through a middleware pipeline
+ * before reaching the wrapped provider.
+ *
+ * Middleware run in list order: the first sees the request first and
+ * the chunks last. Info is shared with the wrapped provider, so model
+ * info loaded later shows through.
+ */
+export class MiddlewareProvider implements Provider {
+  readonly info: ProviderInfo
+  readonly tokenizer?: Tokenizer
+
+  private inner: Provider
+  private handler: CompletionHandler
+
+  constructor(inner: Provider, middleware: ProviderMiddleware[]) {
+    this.inner = inner
+    this.info = inner.info
+    this.tokenizer = inner.tokenizer
+    this.handler = middleware.reduceRight<CompletionHandler>(
+      (next, run) => (context, options) => run(context, options, next, inner.info),
+      (context, options) => inner.complete(context, options)
+    )
+  }
+
+  /**
+   * Stream a completion through the pipeline.
+   */
+  complete(context: Context, options?: CompletionOptions): AsyncIterable<StreamChunk> {
+    return this.handler(context, options ?? {})
+  }
+
+  /**
+   * Count tokens with the wrapped provider.
+   */
+  async countTokens(text: string): Promise<number> {
+    return this.inner.countTokens(text)
+  }
+
+  /**
+   * Translate artifact kinds with the wrapped provider.
+   */
+  translateArtifactKind(kind: ArtifactKind): string {
+    return this.inner.translateArtifactKind(kind)
+  }
+}
+
+/**
+ * Wrap a provider in middleware, e.g.
+ * `withMiddleware(provider, [logging(), redactSecrets(), retry(), timeout(30000)])`.
+ */
+export function withMiddleware(provider: Provider, middleware: ProviderMiddleware[]): Provider {
+  return middleware.length ? new MiddlewareProvider(provider, middleware) : provider
+}
+
+// ─── Logging ────────────────────────────────────────────────────
+
+export interface LoggingOptions {
+  /** Where log lines go (default: console.log) */
+  log?: (message: string) => void
+}
+
+/**
+ * Log each request's size and how it finished: reason, usage and duration.
+ */
+export function logging(options: LoggingOptions = {}): ProviderMiddleware {
+  const log = options.log ?? console.log
+  return async function* (context, completionOptions, next, provider) {
+    const started = performance.now()
+    const elapsed = () => `${Math.round(performance.now() - started)}ms`
+    const tokens = context.items.reduce((sum, item) => sum + item.tokens, 0)
+    log(`[${provider.name}] request: ${context.items.length} items, ${tokens} tokens`)
+
+    try {
+      for await (const chunk of next(context, completionOptions)) {
+        if (chunk.done) {
+          const usage = chunk.usage
+            ? `, ${chunk.usage.promptTokens} prompt + ${chunk.usage.completionTokens} completion tokens`
+            : ""
+          log(`[${provider.name}] ${chunk.finishReason ?? "done"} in ${elapsed()}${usage}`)
+        }
+        yield chunk
+      }
+    } catch (error) {
+      log(`[${provider.name}] failed after ${elapsed()}: ${(error as Error).message}`)
+      throw error
+    }
+  }
+}
+
+// ─── Redaction ──────────────────────────────────────────────────
+
+export interface RedactSecretsOptions {
+  /** Patterns to redact, replacing the built-in credential patterns */
+  patterns?: RegExp[]
+  /** Replacement text (default: "[REDACTED]") */
+  replacement?: string
+}
+
+/**
+ * Strip credentials from the context before it leaves the machine:
+ * the system prompt, item text and tool results.
+ */
+export function redactSecrets(options: RedactSecretsOptions = {}): ProviderMiddleware {
+  const patterns = options.patterns ?? SECRET_PATTERNS
+  const replacement = options.replacement ?? "[REDACTED]"
+  const redact = (text: string) =>
+    patterns.reduce((out, pattern) => out.replace(pattern, replacement), text)
+
+  return (context, completionOptions, next) =>
+    next(
+      {
+        ...context,
+        systemPrompt: context.systemPrompt && redact(context.systemPrompt),
+        items: context.items.map((item) => redactItem(item, redact)),
+      },
+      completionOptions
+    )
+}
+
+function redactItem(item: ContextItem, redact: (text: string) => string): ContextItem {
+  const redacted = { ...item, content: redact(item.content) }
+  if (item.source.type !== "artifact") return redacted
+
+  // Some providers send the artifact itself (e.g. tool results) rather than item text
+  const artifact = { ...item.source.artifact } as SessionArtifact & Record<string, unknown>
+  for (const field of ["content", "result"]) {
+    if (typeof artifact[field] === "string") artifact[field] = redact(artifact[field])
+  }
+  return { ...redacted, source: { type: "artifact", artifact } }
+}
+
+// ─── Retry ──────────────────────────────────────────────────────
+
+export interface RetryOptions extends RetryConfig {
+  /** Which errors to retry (default: rate limits, server and network errors, timeouts) */
+  retryable?: (error: unknown) => boolean
+  /** Randomize each backoff between half and all of it, so clients don't retry in lockstep (default: true) */
+  jitter?: boolean
+  /** Where backoff notices go (default: console.log) */
+  log?: (message: string) => void
+}
+
+/**
+ * Retry failed completions with exponential backoff.
+ * Only failures before the first chunk are retried; once output has
+ * streamed, a retry would repeat it.
+ *
+ * A server-specified wait (Retry-After) replaces the backoff. One longer
+ * than maxDelayMs fails immediately rather than stalling the caller.
+ */
+export function retry(options: RetryOptions = {}): ProviderMiddleware {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_RETRY.maxAttempts
+  const initialDelayMs = options.initialDelayMs ?? DEFAULT_RETRY.initialDelayMs
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_RETRY.maxDelayMs
+  const retryable = options.retryable ?? isRetryableError
+  const jitter = options.jitter ?? true
+  const log = options.log ?? console.log
+
+  return async function* (context, completionOptions, next, provider) {
+    const signal = completionOptions.signal
+    for (let attempt = 1; ; attempt++) {
+      let started = false
+      try {
+        for await (const chunk of next(context, completionOptions)) {
+          started = true
+          yield chunk
+        }
+        return
+      } catch (error) {
+        if (started || signal?.aborted || attempt >= maxAttempts || !retryable(error)) {
+          throw error
+        }
+        const requested = retryAfterMs(error)
+        if (requested !== undefined && requested > maxDelayMs) throw error
+
+        const backoff = Math.min(initialDelayMs * Math.pow(2, attempt - 1), maxDelayMs)
+        const delay = requested ?? (jitter ? Math.round(backoff / 2 + (Math.random() * backoff) / 2) : backoff)
+        log(
+          `[${provider.name}] ${(error as Error).message}, retrying in ${delay / 1000}s ` +
+            `(attempt ${attempt}/${maxAttempts})`
+        )
+        await sleep(delay, signal)
+      }
+    }
+  }
+}
+
+/**
+ * The wait a provider error asked for, from its Retry-After header.
+ */
+function retryAfterMs(error: unknown): number | undefined {
+  if (!(error instanceof Error) || !("data" in error)) return undefined
+  const data = error.data as { retryAfterMs?: number } | undefined
+  return data?.retryAfterMs
+}
+
+/**
+ * Wait between retries; rejects early if the request is aborted.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer)
+        reject(signal.reason)
+      },
+      { once: true }
+    )
+  })
+}
+
+// ─── Timeout ────────────────────────────────────────────────────
+
+export interface TimeoutOptions {
+  /** Give up if streaming hasn't started within this many ms */
+  firstChunkMs?: number
+  /** Give up if a started stream goes quiet for this many ms */
+  idleMs?: number
+}
+
+/**
+ * Abort a completion that doesn't start streaming in time, or stalls
+ * partway through, failing it with a TimeoutError. A bare number is
+ * the first-chunk timeout.
+ */
+export function timeout(options: number | TimeoutOptions): ProviderMiddleware {
+  const { firstChunkMs, idleMs } = typeof options === "number" ? { firstChunkMs: options } : options
+
+  return async function* (context, completionOptions, next, provider) {
+    const signal = completionOptions.signal
+    const controller = new AbortController()
+    const onAbort = () => controller.abort(signal?.reason)
+    signal?.addEventListener("abort", onAbort, { once: true })
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let error: InstanceType<typeof TimeoutError> | undefined
+    const arm = (ms: number | undefined, stage: "start" | "idle") => {
+      clearTimeout(timer)
+      if (ms === undefined) return
+      timer = setTimeout(() => {
+        const message =
+          stage === "start"
+            ? `${provider.name} timed out after ${ms}ms`
+            : `${provider.name} stopped responding for ${ms}ms mid-stream`
+        error = new TimeoutError(message, { provider: provider.id, ms, stage })
+        controller.abort(error)
+      }, ms)
+    }
+
+    arm(firstChunkMs, "start")
+    try {
+      for await (const chunk of next(context, { ...completionOptions, signal: controller.signal })) {
+        arm(idleMs, "idle")
+        yield chunk
+      }
+      // Some providers end quietly when aborted instead of throwing
+      if (error) throw error
+    } catch (caught) {
+      throw error ?? caught
+    } finally {
+      clearTimeout(timer)
+      signal?.removeEventListener("abort", onAbort)
+    }
+  }
+}
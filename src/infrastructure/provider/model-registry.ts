@@ -0,0 +1,187 @@
+import * as path from "node:path"
+import { mkdir } from "node:fs/promises"
+import type { ProviderCapabilities, ModelPricing } from "@/domain/provider.ts"
+import type { OpenRouterModel, OpenRouterModelsResponse } from "./types.ts"
+
+const DEFAULT_BASE_URL = "https://openrouter.ai/api/v1"
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * On-disk cache of a /models listing.
+ */
+interface ModelCache {
+  fetchedAt: number
+  models: OpenRouterModel[]
+}
+
+/**
+ * Model registry configuration.
+ */
+export interface ModelRegistryOptions {
+  /** OpenAI-compatible API root serving /models (default: OpenRouter) */
+  baseUrl?: string
+  apiKey?: string
+  /** Directory to cache the listing in, as {host}.json */
+  cacheDir?: string
+  /** Cache file, instead of one in cacheDir. Without either the listing is only kept in memory */
+  cachePath?: string
+  /** How long a cached listing stays fresh (default: 24h) */
+  ttlMs?: number
+}
+
+/**
+ * ModelRegistry — model metadata from the OpenRouter /models endpoint.
+ *
+ * The listing is fetched at most once per TTL and cached on disk, so
+ * providers start without a network round-trip and keep working offline
+ * from a stale cache when the endpoint is unreachable.
+ */
+export class ModelRegistry {
+  private baseUrl: string
+  private apiKey?: string
+  private cachePath?: string
+  private ttlMs: number
+
+  private models = new Map<string, OpenRouterModel>()
+  private fetchedAt = 0
+  private cacheRead = false
+
+  constructor(options: ModelRegistryOptions = {}) {
+    this.baseUrl = options.baseUrl ?? DEFAULT_BASE_URL
+    this.apiKey = options.apiKey
+    this.cachePath =
+      options.cachePath ??
+      (options.cacheDir ? path.join(options.cacheDir, `${new URL(this.baseUrl).host}.json`) : undefined)
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS
+  }
+
+  /**
+   * Make sure the listing is loaded and fresh.
+   * Reads the cache first; fetches only when it's missing, stale or `refresh` is set.
+   * A failed fetch keeps whatever the cache had.
+   */
+  async load(options: { refresh?: boolean } = {}): Promise<void> {
+    if (!this.cacheRead) {
+      await this.readCache()
+      this.cacheRead = true
+    }
+
+    if (!options.refresh && this.isFresh()) return
+
+    try {
+      const models = await this.fetchModels()
+      this.setModels(models, Date.now())
+      await this.writeCache()
+    } catch (error) {
+      if (this.models.size === 0) throw error
+      console.warn("[ModelRegistry] Using cached model list:", (error as Error).message)
+    }
+  }
+
+  /**
+   * Whether the loaded listing is within the TTL.
+   */
+  isFresh(): boolean {
+    return this.models.size > 0 && Date.now() - this.fetchedAt < this.ttlMs
+  }
+
+  /**
+   * Look up a model by ID.
+   * Variant suffixes (":free", ":beta") fall back to the base model.
+   */
+  get(modelId: string): OpenRouterModel | undefined {
+    return this.models.get(modelId) ?? this.models.get(modelId.split(":")[0]!)
+  }
+
+  /**
+   * All known models.
+   */
+  list(): OpenRouterModel[] {
+    return [...this.models.values()]
+  }
+
+  /**
+   * Capabilities the registry knows for a model; fields it doesn't know are omitted.
+   */
+  capabilities(modelId: string): Partial<ProviderCapabilities> | undefined {
+    const model = this.get(modelId)
+    return model ? toCapabilities(model) : undefined
+  }
+
+  // ─── Private Methods ─────────────────────────────────────────────────────
+
+  private setModels(models: OpenRouterModel[], fetchedAt: number): void {
+    this.models = new Map(models.map((m) => [m.id, m]))
+    this.fetchedAt = fetchedAt
+  }
+
+  private async fetchModels(): Promise<OpenRouterModel[]> {
+    const headers: Record<string, string> = {}
+    if (this.apiKey) {
+      headers["Authorization"] = `Bearer ${this.apiKey}`
+    }
+
+    const response = await fetch(`${this.baseUrl}/models`, { headers })
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(`OpenRouter API error (${response.status}): ${error}`)
+    }
+
+    const body = (await response.json()) as OpenRouterModelsResponse
+    return body.data ?? []
+  }
+
+  private async readCache(): Promise<void> {
+    if (!this.cachePath) return
+    try {
+      const file = Bun.file(this.cachePath)
+      if (await file.exists()) {
+        const cache = (await file.json()) as ModelCache
+        this.setModels(cache.models, cache.fetchedAt)
+      }
+    } catch (error) {
+      console.warn("[ModelRegistry] Ignoring unreadable cache:", (error as Error).message)
+    }
+  }
+
+  private async writeCache(): Promise<void> {
+    if (!this.cachePath) return
+    const cache: ModelCache = { fetchedAt: this.fetchedAt, models: this.list() }
+    try {
+      await mkdir(path.dirname(this.cachePath), { recursive: true })
+      await Bun.write(this.cachePath, JSON.stringify(cache))
+    } catch (error) {
+      console.warn("[ModelRegistry] Failed to write cache:", (error as Error).message)
+    }
+  }
+}
+
+/**
+ * Map an OpenRouter model entry to provider capabilities.
+ */
+export function toCapabilities(model: OpenRouterModel): Partial<ProviderCapabilities> {
+  const capabilities: Partial<ProviderCapabilities> = {
+    tools: model.supported_parameters?.includes("tools") ?? false,
+    structuredOutput: model.supported_parameters?.includes("structured_outputs") ?? false,
+    vision: model.architecture?.input_modalities?.includes("image") ?? false,
+  }
+
+  const maxContext = model.top_provider?.context_length ?? model.context_length
+  if (maxContext) capabilities.maxContextTokens = maxContext
+
+  const maxOutput = model.top_provider?.max_completion_tokens
+  if (maxOutput) capabilities.maxOutputTokens = maxOutput
+
+  const pricing = toPricing(model.pricing)
+  if (pricing) capabilities.pricing = pricing
+
+  return capabilities
+}
+
+function toPricing(pricing: OpenRouterModel["pricing"]): ModelPricing | undefined {
+  const prompt = Number(pricing?.prompt)
+  const completion = Number(pricing?.completion)
+  // Missing, malformed or negative (variable-price routers) — unknown
+  if (!(prompt >= 0) || !(completion >= 0)) return undefined
+  return { prompt, completion }
+}
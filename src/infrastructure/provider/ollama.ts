@@ -0,0 +1,430 @@
+import type {
+  Provider,
+  ProviderInfo,
+  CompletionOptions,
+  StreamChunk,
+  ToolDefinition,
+  FinishReason,
+} from "@/domain/provider.ts"
+import type { ArtifactKind } from "@/domain/session.ts"
+import type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+import { tokenizerForModel } from "@/infrastructure/tokenizer/index.ts"
+import type { Context, ContextItem } from "@/domain/context.ts"
+import { withImagePlaceholders } from "@/domain/context.ts"
+import type {
+  OllamaMessage,
+  OllamaChatRequest,
+  OllamaChatChunk,
+  OllamaShowResponse,
+  OllamaTagsResponse,
+  OpenAITool,
+  OllamaConfig,
+} from "./types.ts"
+import { streamStructured } from "./structured.ts"
+import { responseError, streamError, networkError, readBody, parseStreamData } from "./errors.ts"
+
+const DEFAULT_BASE_URL = "http://localhost:11434"
+
+/** Used until /api/show has been read (or when it can't be) */
+const DEFAULT_CAPABILITIES = { maxContext: 4096, maxOutput: 2048, tools: false, vision: false }
+
+/**
+ * Largest window used without a configured contextLength. Ollama
+ * allocates the whole num_ctx up front, and a model's full window
+ * (often 128k) can take more memory than the machine has.
+ */
+const MAX_DEFAULT_CONTEXT = 8192
+
+/**
+ * An installed Ollama model, as listed by /api/tags.
+ */
+export interface OllamaModel {
+  name: string
+  /** Size on disk in bytes */
+  size: number
+  family?: string
+  parameterSize?: string
+  quantization?: string
+}
+
+/**
+ * Normalize a configured base URL to the Ollama API root.
+ * Accepts the OpenAI-compatible "/v1" form people often paste in.
+ */
+function normalizeBaseUrl(baseUrl?: string): string {
+  return (baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "").replace(/\/v1$/, "")
+}
+
+/**
+ * List models installed in an Ollama instance.
+ */
+export async function listOllamaModels(baseUrl?: string): Promise<OllamaModel[]> {
+  const response = await fetch(`${normalizeBaseUrl(baseUrl)}/api/tags`).catch((error: unknown) => {
+    throw networkError("Ollama", error)
+  })
+  if (!response.ok) {
+    throw await responseError("Ollama", response)
+  }
+
+  const data = (await response.json()) as OllamaTagsResponse
+  return data.models.map((m) => ({
+    name: m.name,
+    size: m.size,
+    family: m.details?.family,
+    parameterSize: m.details?.parameter_size,
+    quantization: m.details?.quantization_level,
+  }))
+}
+
+/**
+ * Ollama provider implementation.
+ * Uses the native /api/chat endpoint (NDJSON streaming) rather than
+ * the OpenAI-compatible shim, so model metadata from /api/show is available.
+ */
+export class OllamaProvider implements Provider {
+  readonly info: ProviderInfo
+  readonly tokenizer: Tokenizer
+
+  private config: OllamaConfig
+  private baseUrl: string
+
+  constructor(config: OllamaConfig) {
+    this.config = config
+    this.baseUrl = normalizeBaseUrl(config.baseUrl)
+
+    this.tokenizer = tokenizerForModel(config.model)
+
+    this.info = {
+      id: `ollama:${config.model}`,
+      name: `Ollama (${config.model})`,
+      model: config.model,
+      capabilities: {
+        streaming: true,
+        tools: DEFAULT_CAPABILITIES.tools,
+        vision: DEFAULT_CAPABILITIES.vision,
+        systemPrompt: true,
+        structuredOutput: true, // Schema-constrained sampling
+        maxContextTokens: config.contextLength ?? DEFAULT_CAPABILITIES.maxContext,
+        maxOutputTokens: DEFAULT_CAPABILITIES.maxOutput,
+      },
+    }
+  }
+
+  /**
+   * Read context length and capabilities from /api/show.
+   * A configured contextLength takes precedence over the model's own,
+   * which is capped at MAX_DEFAULT_CONTEXT.
+   */
+  async loadModelInfo(): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/show`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: this.config.model }),
+    })
+
+    if (!response.ok) {
+      throw await responseError("Ollama", response)
+    }
+
+    const show = (await response.json()) as OllamaShowResponse
+    const capabilities = show.capabilities ?? []
+
+    // Context length is keyed by architecture, e.g. "qwen2.context_length"
+    const modelInfo = show.model_info ?? {}
+    const arch = modelInfo["general.architecture"]
+    const contextLength =
+      typeof arch === "string" ? modelInfo[`${arch}.context_length`] : undefined
+
+    this.info.capabilities = {
+      ...this.info.capabilities,
+      tools: capabilities.includes("tools"),
+      vision: capabilities.includes("vision"),
+      maxContextTokens:
+        this.config.contextLength ??
+        (typeof contextLength === "number"
+          ? Math.min(contextLength, MAX_DEFAULT_CONTEXT)
+          : DEFAULT_CAPABILITIES.maxContext),
+    }
+  }
+
+  /**
+   * Stream a completion response.
+   * Structured completions are buffered and validated by streamStructured().
+   */
+  async *complete(
+    context: Context,
+    options?: CompletionOptions
+  ): AsyncIterable<StreamChunk> {
+    if (options?.responseFormat) {
+      yield* streamStructured(
+        context,
+        { ...options, responseFormat: options.responseFormat },
+        (c, o) => this.stream(c, o),
+        { native: this.info.capabilities.structuredOutput, tokenizer: this.tokenizer }
+      )
+      return
+    }
+    yield* this.stream(context, options)
+  }
+
+  /**
+   * Stream a completion from the API.
+   */
+  private async *stream(
+    context: Context,
+    options?: CompletionOptions
+  ): AsyncIterable<StreamChunk> {
+    const tools = options?.tools ? this.toolsToOllama(options.tools) : undefined
+
+    const request: OllamaChatRequest = {
+      model: this.config.model,
+      messages: this.contextToMessages(context),
+      stream: true,
+      tools: tools?.length ? tools : undefined,
+      format: options?.responseFormat?.schema,
+      options: {
+        // Ollama silently truncates to its own default window otherwise; this
+        // is the configured contextLength or the capped model window
+        num_ctx: this.info.capabilities.maxContextTokens,
+        num_predict: options?.maxTokens,
+        temperature: options?.temperature,
+        top_p: options?.topP,
+        stop: options?.stopSequences,
+      },
+    }
+
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+      signal: options?.signal,
+    }).catch((error: unknown) => {
+      throw networkError("Ollama", error)
+    })
+
+    if (!response.ok) {
+      throw await responseError("Ollama", response)
+    }
+
+    if (!response.body) {
+      throw new Error("No response body from Ollama")
+    }
+
+    yield* this.parseNDJSONStream(response.body)
+  }
+
+  /**
+   * Count tokens with the model's tokenizer.
+   */
+  async countTokens(text: string): Promise<number> {
+    return this.tokenizer.count(text)
+  }
+
+  /**
+   * Translate domain ArtifactKind to Ollama role.
+   */
+  translateArtifactKind(kind: ArtifactKind): string {
+    switch (kind) {
+      case "user_input":
+        return "user"
+      case "agent_response":
+        return "assistant"
+      case "system_instruction":
+        return "system"
+      case "knowledge_reference":
+        return "system"
+      case "tool_use":
+        return "assistant"
+      case "tool_result":
+        return "tool"
+      default:
+        return "user"
+    }
+  }
+
+  /**
+   * Convert our Context to Ollama message format.
+   */
+  private contextToMessages(context: Context): OllamaMessage[] {
+    const messages: OllamaMessage[] = []
+
+    if (context.systemPrompt) {
+      messages.push({ role: "system", content: context.systemPrompt })
+    }
+
+    for (const item of context.items) {
+      const message = this.contextItemToMessage(item)
+      // Calls made in one turn go back as one assistant message
+      const previous = messages.at(-1)
+      if (message?.tool_calls && previous?.tool_calls) {
+        previous.tool_calls.push(...message.tool_calls)
+      } else if (message) {
+        messages.push(message)
+      }
+    }
+
+    return messages
+  }
+
+  /**
+   * Convert a single ContextItem to an Ollama message.
+   */
+  private contextItemToMessage(item: ContextItem): OllamaMessage | null {
+    switch (item.source.type) {
+      case "artifact": {
+        const artifact = item.source.artifact
+
+        if (artifact.kind === "tool_use") {
+          return {
+            role: "assistant",
+            content: "",
+            tool_calls: [
+              {
+                function: {
+                  name: artifact.toolName,
+                  arguments: (artifact.input ?? {}) as Record<string, unknown>,
+                },
+              },
+            ],
+          }
+        }
+
+        if (artifact.kind === "tool_result") {
+          return {
+            role: "tool",
+            content:
+              typeof artifact.result === "string"
+                ? artifact.result
+                : JSON.stringify(artifact.result),
+          }
+        }
+
+        const role = this.translateArtifactKind(artifact.kind) as OllamaMessage["role"]
+        if (item.images?.length && !this.info.capabilities.vision) {
+          return { role, content: withImagePlaceholders(item) }
+        }
+        return {
+          role,
+          content: item.content,
+          images: item.images?.map((image) => image.data),
+        }
+      }
+
+      case "knowledge":
+        return { role: "system", content: `[Knowledge] ${item.content}` }
+
+      case "resource":
+        return { role: "system", content: `[Resource: ${item.source.uri}]\n${item.content}` }
+
+      case "system":
+        return { role: "system", content: item.content }
+
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Convert our ToolDefinition to Ollama tool format (OpenAI-shaped).
+   */
+  private toolsToOllama(tools: ToolDefinition[]): OpenAITool[] {
+    return tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.inputSchema,
+      },
+    }))
+  }
+
+  /**
+   * Parse newline-delimited JSON stream from /api/chat.
+   */
+  private async *parseNDJSONStream(
+    body: ReadableStream<Uint8Array>
+  ): AsyncIterable<StreamChunk> {
+    const reader = body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ""
+    let sawToolCall = false
+
+    try {
+      while (true) {
+        const { done, value } = await readBody("Ollama", reader)
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split("\n")
+        buffer = lines.pop() ?? "" // Keep incomplete line in buffer
+
+        for (const line of lines) {
+          if (!line.trim()) continue
+
+          const chunk = parseStreamData<OllamaChatChunk>("Ollama", line)
+          if (chunk.error) {
+            throw streamError("Ollama", chunk.error)
+          }
+
+          // Ollama emits complete tool calls (no deltas) and no call IDs
+          for (const call of chunk.message?.tool_calls ?? []) {
+            sawToolCall = true
+            yield {
+              content: "",
+              done: false,
+              toolUse: {
+                id: `call_${crypto.randomUUID()}`,
+                name: call.function.name,
+                input: call.function.arguments,
+              },
+            }
+          }
+
+          const content = chunk.message?.content ?? ""
+          if (chunk.message?.thinking) {
+            yield { content: "", done: false, reasoning: chunk.message.thinking }
+          }
+
+          if (chunk.done) {
+            const promptTokens = chunk.prompt_eval_count ?? 0
+            const completionTokens = chunk.eval_count ?? 0
+            // done_reason is "stop" even after a tool call
+            const finishReason: FinishReason =
+              chunk.done_reason === "length" ? "length" : sawToolCall ? "tool_use" : "stop"
+            yield {
+              content,
+              done: true,
+              finishReason,
+              usage: {
+                promptTokens,
+                completionTokens,
+                totalTokens: promptTokens + completionTokens,
+              },
+            }
+            return
+          }
+
+          if (content) {
+            yield { content, done: false }
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock()
+    }
+  }
+}
+
+/**
+ * Create an Ollama provider and load its model metadata.
+ * Falls back to default capabilities if /api/show is unreachable.
+ */
+export async function createOllamaProvider(config: OllamaConfig): Promise<OllamaProvider> {
+  const provider = new OllamaProvider(config)
+  try {
+    await provider.loadModelInfo()
+  } catch (error) {
+    console.warn(`[Ollama] Could not load model info for ${config.model}:`, (error as Error).message)
+  }
+  return provider
+}
@@ -0,0 +1,518 @@
+import type {
+  Provider,
+  ProviderInfo,
+  ProviderCapabilities,
+  CompletionOptions,
+  StreamChunk,
+  ToolDefinition,
+  FinishReason,
+} from "@/domain/provider.ts"
+import type { ArtifactKind, ToolUse, ToolResult } from "@/domain/session.ts"
+import type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+import { tokenizerForModel } from "@/infrastructure/tokenizer/index.ts"
+import type { Context, ContextItem } from "@/domain/context.ts"
+import { withImagePlaceholders } from "@/domain/context.ts"
+import { ConfigError } from "@/util/error.ts"
+import type {
+  OpenAIMessage,
+  OpenAIContentPart,
+  OpenAIChatRequest,
+  OpenAIStreamChunk,
+  OpenAITool,
+  OpenAICompatibleConfig,
+  OpenAIModelsResponse,
+} from "./types.ts"
+import { streamStructured } from "./structured.ts"
+import {
+  statusError,
+  responseError,
+  streamError,
+  networkError,
+  readBody,
+  parseStreamData,
+  parseToolInput,
+} from "./errors.ts"
+
+/** Used when the server doesn't say and config doesn't override */
+const DEFAULT_CAPABILITIES: ProviderCapabilities = {
+  streaming: true,
+  tools: false,
+  vision: false,
+  systemPrompt: true,
+  maxContextTokens: 32000,
+  maxOutputTokens: 4096,
+}
+
+/** "$NAME" or "${NAME}": read the value from the environment */
+const ENV_REFERENCE = /^\$\{?([A-Za-z_][A-Za-z0-9_]*)\}?$/
+
+/**
+ * Resolve an environment reference in a config value; other values pass through.
+ */
+function resolveEnv(value: string, key: string, env: Record<string, string | undefined>): string {
+  const name = ENV_REFERENCE.exec(value)?.[1]
+  if (!name) return value
+
+  const resolved = env[name]
+  if (resolved === undefined) {
+    throw new ConfigError(`Environment variable ${name} (for ${key}) is not set`, { key })
+  }
+  return resolved
+}
+
+/**
+ * Request headers for a server: JSON, the bearer token if any, then custom headers.
+ */
+function requestHeaders(config: Pick<OpenAICompatibleConfig, "apiKey" | "headers" | "env">): Record<string, string> {
+  const { env = process.env } = config
+  const apiKey = config.apiKey && resolveEnv(config.apiKey, "apiKey", env)
+  return {
+    "Content-Type": "application/json",
+    ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+    ...Object.fromEntries(
+      Object.entries(config.headers ?? {}).map(([name, value]) => [name, resolveEnv(value, `headers.${name}`, env)])
+    ),
+  }
+}
+
+/**
+ * A model served by an OpenAI-compatible server, as listed by /models.
+ */
+export interface OpenAICompatibleModel {
+  id: string
+  /** Context window, for servers that report one (vLLM, Groq, Together) */
+  contextLength?: number
+}
+
+/**
+ * List the models an OpenAI-compatible server offers.
+ */
+export async function listOpenAICompatibleModels(
+  config: Pick<OpenAICompatibleConfig, "baseUrl" | "apiKey" | "headers" | "name" | "env">
+): Promise<OpenAICompatibleModel[]> {
+  const label = config.name ?? "OpenAI-compatible"
+  const response = await fetch(`${config.baseUrl.replace(/\/$/, "")}/models`, {
+    headers: requestHeaders(config),
+  }).catch((error: unknown) => {
+    throw networkError(label, error)
+  })
+  if (!response.ok) {
+    throw await responseError(label, response)
+  }
+
+  const body = (await response.json()) as OpenAIModelsResponse
+  return (body.data ?? []).map((m) => ({
+    id: m.id,
+    contextLength: m.max_model_len ?? m.context_window ?? m.context_length,
+  }))
+}
+
+/**
+ * Map OpenAI-style finish_reason to our FinishReason.
+ */
+function toFinishReason(reason: string | null): FinishReason | undefined {
+  switch (reason) {
+    case "stop":
+      return "stop"
+    case "length":
+      return "length"
+    case "tool_calls":
+    case "function_call":
+      return "tool_use"
+    case "content_filter":
+      return "content_filter"
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Provider for any server speaking the OpenAI /chat/completions API:
+ * vLLM, LM Studio, Groq, LiteLLM and the like.
+ */
+export class OpenAICompatibleProvider implements Provider {
+  readonly info: ProviderInfo
+  readonly tokenizer: Tokenizer
+
+  /** Names the provider in errors */
+  protected readonly label: string
+  private config: OpenAICompatibleConfig
+  private headers: Record<string, string>
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = config
+    this.label = config.name ?? "OpenAI-compatible"
+    this.tokenizer = tokenizerForModel(config.model)
+
+    this.headers = requestHeaders(config)
+
+    this.info = {
+      id: `${this.label.toLowerCase().replace(/[^a-z0-9]+/g, "-")}:${config.model}`,
+      name: `${this.label} (${config.model})`,
+      model: config.model,
+      capabilities: { ...DEFAULT_CAPABILITIES, ...config.capabilities },
+    }
+  }
+
+  /**
+   * Stream a completion response.
+   * Structured completions are buffered and validated by streamStructured().
+   */
+  async *complete(
+    context: Context,
+    options?: CompletionOptions
+  ): AsyncIterable<StreamChunk> {
+    if (options?.responseFormat) {
+      yield* streamStructured(
+        context,
+        { ...options, responseFormat: options.responseFormat },
+        (c, o) => this.stream(c, o),
+        { native: this.info.capabilities.structuredOutput, tokenizer: this.tokenizer }
+      )
+      return
+    }
+    yield* this.stream(context, options)
+  }
+
+  /**
+   * Stream a completion from the API.
+   */
+  private async *stream(
+    context: Context,
+    options?: CompletionOptions
+  ): AsyncIterable<StreamChunk> {
+    const messages = this.contextToMessages(context)
+    const tools = options?.tools ? this.toolsToOpenAI(options.tools) : undefined
+
+    const request: OpenAIChatRequest = {
+      model: this.config.model,
+      messages,
+      stream: true,
+      stream_options: { include_usage: true },
+      max_tokens: options?.maxTokens ?? this.info.capabilities.maxOutputTokens,
+      temperature: options?.temperature,
+      top_p: options?.topP,
+      stop: options?.stopSequences,
+      tools: tools?.length ? tools : undefined,
+      response_format: options?.responseFormat && {
+        type: "json_schema",
+        json_schema: { name: options.responseFormat.name, schema: options.responseFormat.schema },
+      },
+    }
+
+    const response = await this.post(request, options?.signal)
+
+    if (!response.body) {
+      throw new Error(`No response body from ${this.label}`)
+    }
+
+    // Parse SSE stream
+    yield* this.parseSSEStream(response.body)
+  }
+
+  /**
+   * POST a chat completion request.
+   */
+  private async post(request: OpenAIChatRequest, signal?: AbortSignal): Promise<Response> {
+    let response: Response
+    try {
+      response = await fetch(`${this.config.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: this.headers,
+        body: JSON.stringify(request),
+        signal,
+      })
+    } catch (error) {
+      throw networkError(this.label, error)
+    }
+
+    if (!response.ok) {
+      throw await responseError(this.label, response)
+    }
+    return response
+  }
+
+  /**
+   * Count tokens with the model's tokenizer.
+   */
+  async countTokens(text: string): Promise<number> {
+    return this.tokenizer.count(text)
+  }
+
+  /**
+   * Translate domain ArtifactKind to OpenAI role.
+   */
+  translateArtifactKind(kind: ArtifactKind): string {
+    switch (kind) {
+      case "user_input":
+        return "user"
+      case "agent_response":
+        return "assistant"
+      case "system_instruction":
+        return "system"
+      case "knowledge_reference":
+        // Knowledge gets injected as system context
+        return "system"
+      case "tool_use":
+        // Tool uses are from assistant
+        return "assistant"
+      case "tool_result":
+        // Tool results go back as tool role
+        return "tool"
+      default:
+        return "user"
+    }
+  }
+
+  /**
+   * Convert our Context to OpenAI message format.
+   */
+  private contextToMessages(context: Context): OpenAIMessage[] {
+    const messages: OpenAIMessage[] = []
+
+    // Add system prompt if present
+    if (context.systemPrompt) {
+      messages.push({
+        role: "system",
+        content: context.systemPrompt,
+      })
+    }
+
+    // Convert context items to messages
+    for (const item of context.items) {
+      const message = this.contextItemToMessage(item)
+      // Calls made in one turn go back as one assistant message
+      const previous = messages.at(-1)
+      if (message?.tool_calls && previous?.tool_calls) {
+        previous.tool_calls.push(...message.tool_calls)
+      } else if (message) {
+        messages.push(message)
+      }
+    }
+
+    return messages
+  }
+
+  /**
+   * Convert a single ContextItem to an OpenAI message.
+   */
+  private contextItemToMessage(item: ContextItem): OpenAIMessage | null {
+    switch (item.source.type) {
+      case "artifact": {
+        const artifact = item.source.artifact
+        const role = this.translateArtifactKind(artifact.kind) as OpenAIMessage["role"]
+
+        // Handle tool_use artifacts
+        if (artifact.kind === "tool_use") {
+          const toolUse = artifact as ToolUse
+          return {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              {
+                id: toolUse.toolUseId,
+                type: "function",
+                function: {
+                  name: toolUse.toolName,
+                  arguments: JSON.stringify(toolUse.input),
+                },
+              },
+            ],
+          }
+        }
+
+        // Handle tool_result artifacts
+        if (artifact.kind === "tool_result") {
+          const toolResult = artifact as ToolResult
+          return {
+            role: "tool",
+            content: typeof toolResult.result === "string"
+              ? toolResult.result
+              : JSON.stringify(toolResult.result),
+            tool_call_id: toolResult.toolUseId,
+          }
+        }
+
+        return {
+          role,
+          content: this.messageContent(item),
+        }
+      }
+
+      case "knowledge": {
+        // Knowledge items are injected as system context
+        return {
+          role: "system",
+          content: `[Knowledge] ${item.content}`,
+        }
+      }
+
+      case "resource": {
+        return {
+          role: "system",
+          content: `[Resource: ${item.source.uri}]\n${item.content}`,
+        }
+      }
+
+      case "system": {
+        return {
+          role: "system",
+          content: item.content,
+        }
+      }
+
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Message content for an item: multimodal parts when it has images
+   * and the model can see them, plain text otherwise.
+   */
+  private messageContent(item: ContextItem): string | OpenAIContentPart[] {
+    if (!item.images?.length) return item.content
+    if (!this.info.capabilities.vision) return withImagePlaceholders(item)
+
+    const parts: OpenAIContentPart[] = item.images.map((image) => ({
+      type: "image_url",
+      image_url: { url: `data:${image.mediaType};base64,${image.data}` },
+    }))
+    if (item.content) parts.unshift({ type: "text", text: item.content })
+    return parts
+  }
+
+  /**
+   * Convert our ToolDefinition to OpenAI tool format.
+   */
+  private toolsToOpenAI(tools: ToolDefinition[]): OpenAITool[] {
+    return tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.inputSchema,
+      },
+    }))
+  }
+
+  /**
+   * Parse the Server-Sent Events stream.
+   * The final chunk is held back until [DONE]: usage arrives in its own
+   * chunk after the one carrying finish_reason.
+   */
+  private async *parseSSEStream(
+    body: ReadableStream<Uint8Array>
+  ): AsyncIterable<StreamChunk> {
+    const reader = body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ""
+
+    // Track accumulated tool calls across chunks
+    const toolCalls: Map<number, { id: string; name: string; arguments: string }> = new Map()
+    let final: StreamChunk | undefined
+    let usage: StreamChunk["usage"]
+
+    try {
+      while (true) {
+        const { done, value } = await readBody(this.label, reader)
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split("\n")
+        buffer = lines.pop() ?? "" // Keep incomplete line in buffer
+
+        for (const line of lines) {
+          if (!line.startsWith("data: ")) continue
+
+          const data = line.slice(6).trim()
+          if (data === "[DONE]") {
+            // Final chunk
+            yield { ...(final ?? { content: "", done: true }), usage }
+            return
+          }
+
+          const chunk = parseStreamData<OpenAIStreamChunk>(this.label, data)
+
+          // Failures after the response started arrive in-band
+          if (chunk.error) {
+            const { code, message } = chunk.error
+            throw typeof code === "number"
+              ? statusError(this.label, code, message)
+              : streamError(this.label, message)
+          }
+
+          if (chunk.usage) {
+            usage = {
+              promptTokens: chunk.usage.prompt_tokens,
+              completionTokens: chunk.usage.completion_tokens,
+              totalTokens: chunk.usage.total_tokens,
+            }
+          }
+
+          const choice = chunk.choices?.[0]
+          if (!choice || final) continue
+
+          // Handle content delta
+          const content = choice.delta.content ?? ""
+
+          // Reasoning streams ahead of the answer, on its own channel
+          const reasoning = choice.delta.reasoning ?? choice.delta.reasoning_content
+          if (reasoning) {
+            yield { content: "", done: false, reasoning }
+          }
+
+          // Handle tool call deltas
+          if (choice.delta.tool_calls) {
+            for (const tc of choice.delta.tool_calls) {
+              const existing = toolCalls.get(tc.index) ?? { id: "", name: "", arguments: "" }
+              if (tc.id) existing.id = tc.id
+              if (tc.function?.name) existing.name = tc.function.name
+              if (tc.function?.arguments) existing.arguments += tc.function.arguments
+              toolCalls.set(tc.index, existing)
+            }
+          }
+
+          // Check if we're done
+          if (choice.finish_reason) {
+            // If we have tool calls, emit them
+            if (toolCalls.size > 0) {
+              for (const [, tc] of toolCalls) {
+                yield {
+                  content: "",
+                  done: false,
+                  toolUse: { id: tc.id, name: tc.name, ...parseToolInput(tc.name, tc.arguments) },
+                }
+              }
+            }
+
+            // Hold the final chunk until the usage chunk has arrived
+            final = {
+              content,
+              done: true,
+              finishReason: toFinishReason(choice.finish_reason),
+            }
+            continue
+          }
+
+          // Emit content chunk
+          if (content) {
+            yield { content, done: false }
+          }
+        }
+      }
+
+      // Stream closed without [DONE]
+      if (final) yield { ...final, usage }
+    } finally {
+      reader.releaseLock()
+    }
+  }
+}
+
+/**
+ * Create a provider for an OpenAI-compatible server.
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider(config)
+}
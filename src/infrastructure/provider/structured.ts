@@ -0,0 +1,357 @@
+import { z } from "zod"
+import type {
+  Provider,
+  CompletionOptions,
+  ResponseFormat,
+  StreamChunk,
+} from "@/domain/provider.ts"
+import type { Context, ContextItem } from "@/domain/context.ts"
+import type { UserInput, AgentResponse } from "@/domain/session.ts"
+import type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+import { getTokenizer } from "@/infrastructure/tokenizer/index.ts"
+import { createError } from "@/util/error.ts"
+
+/** First try plus two corrections */
+const DEFAULT_ATTEMPTS = 3
+
+/**
+ * Thrown when a structured completion never produced a valid response.
+ */
+export const StructuredOutputError = createError(
+  "StructuredOutputError",
+  z.object({
+    format: z.string(),
+    attempts: z.number(),
+    issues: z.array(z.string()),
+  })
+)
+
+// ─── Response Formats ───────────────────────────────────────────
+
+/**
+ * A ResponseFormat from a zod schema, validated with the schema itself.
+ */
+export function zodResponseFormat(name: string, schema: z.ZodType): ResponseFormat {
+  const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema) as Record<string, unknown>
+  return {
+    name,
+    schema: jsonSchema,
+    validate(value) {
+      const result = schema.safeParse(value)
+      if (result.success) return []
+      return result.error.issues.map((issue) => `${formatPath(issue.path)}: ${issue.message}`)
+    },
+  }
+}
+
+/**
+ * Parse a model's JSON answer, tolerating a surrounding code fence.
+ */
+export function parseJsonResponse(text: string): unknown {
+  const trimmed = text.trim()
+  const fenced = /^```(?:json)?\s*\n([\s\S]*?)\n?```$/.exec(trimmed)
+  return JSON.parse(fenced ? fenced[1]! : trimmed)
+}
+
+/**
+ * Validate a value against the common subset of JSON Schema:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * anyOf/oneOf and length/range bounds. Other keywords are ignored.
+ * Returns the problems found, empty when the value matches.
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: Record<string, unknown>,
+  path = "$"
+): string[] {
+  const issues: string[] = []
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some((type) => matchesType(value, type as string))) {
+      return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`]
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => Bun.deepEquals(option, value))) {
+    issues.push(`${path}: must be one of ${schema.enum.map((o) => JSON.stringify(o)).join(", ")}`)
+  }
+  if ("const" in schema && !Bun.deepEquals(schema.const, value)) {
+    issues.push(`${path}: must be ${JSON.stringify(schema.const)}`)
+  }
+
+  const alternatives = (schema.anyOf ?? schema.oneOf) as Record<string, unknown>[] | undefined
+  if (alternatives && !alternatives.some((option) => validateJsonSchema(value, option, path).length === 0)) {
+    issues.push(`${path}: doesn't match any allowed shape`)
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      issues.push(`${path}: must be at least ${schema.minLength} characters`)
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      issues.push(`${path}: must be at most ${schema.maxLength} characters`)
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      issues.push(`${path}: must be >= ${schema.minimum}`)
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      issues.push(`${path}: must be <= ${schema.maximum}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      issues.push(`${path}: must have at least ${schema.minItems} items`)
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      issues.push(`${path}: must have at most ${schema.maxItems} items`)
+    }
+    if (isObject(schema.items)) {
+      const items = schema.items
+      value.forEach((item, i) => issues.push(...validateJsonSchema(item, items, `${path}[${i}]`)))
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>
+    for (const key of (schema.required ?? []) as string[]) {
+      if (!(key in value)) issues.push(`${path}.${key}: required`)
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema = properties[key]
+      if (propertySchema) {
+        issues.push(...validateJsonSchema(child, propertySchema, `${path}.${key}`))
+      } else if (schema.additionalProperties === false) {
+        issues.push(`${path}.${key}: unexpected property`)
+      } else if (isObject(schema.additionalProperties)) {
+        issues.push(...validateJsonSchema(child, schema.additionalProperties, `${path}.${key}`))
+      }
+    }
+  }
+
+  return issues
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value)
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+    case "object":
+      return isObject(value)
+    case "array":
+      return Array.isArray(value)
+    case "null":
+      return value === null
+    default:
+      return typeof value === type
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null"
+  return Array.isArray(value) ? "array" : typeof value
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>(
+    (out, key) => (typeof key === "number" ? `${out}[${key}]` : `${out}.${String(key)}`),
+    "$"
+  )
+}
+
+// ─── Structured Completion ──────────────────────────────────────
+
+/**
+ * How streamStructured() treats a provider.
+ */
+export interface StructuredSettings {
+  /** The provider constrains output to the format itself (default: false) */
+  native?: boolean
+  /** Counts the tokens of retry turns (default: the heuristic tokenizer) */
+  tokenizer?: Tokenizer
+  /** Answers to try before giving up (default: 3) */
+  maxAttempts?: number
+}
+
+/**
+ * Run a structured completion over a provider's raw stream.
+ *
+ * Providers that constrain output natively (`native`) get the response
+ * format passed through; the rest get the schema as instructions in the
+ * system prompt. Either way each answer is parsed and validated, and an
+ * invalid one is sent back with its problems for another try.
+ *
+ * Answers are buffered rather than streamed, since an attempt may be
+ * discarded: the final chunk carries the whole text, the parsed object
+ * and the usage summed across attempts. Reasoning streams as it comes.
+ * Throws StructuredOutputError once the attempts run out.
+ */
+export async function* streamStructured(
+  context: Context,
+  options: CompletionOptions & { responseFormat: ResponseFormat },
+  stream: (context: Context, options: CompletionOptions) => AsyncIterable<StreamChunk>,
+  settings: StructuredSettings = {}
+): AsyncIterable<StreamChunk> {
+  const { native = false, tokenizer = getTokenizer("heuristic"), maxAttempts = DEFAULT_ATTEMPTS } = settings
+  const format = options.responseFormat
+  const request = native ? options : { ...options, responseFormat: undefined }
+  let attemptContext = native ? context : withInstructions(context, format)
+  let usage: StreamChunk["usage"]
+  let issues: string[] = []
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let content = ""
+    let final: StreamChunk | undefined
+    for await (const chunk of stream(attemptContext, request)) {
+      content += chunk.content
+      if (chunk.reasoning) yield { content: "", done: false, reasoning: chunk.reasoning }
+      if (chunk.done) final = chunk
+    }
+    if (options.signal?.aborted) return
+
+    usage = addStreamUsage(usage, final?.usage)
+    const result = checkResponse(content, format)
+    if (result.ok) {
+      yield {
+        content,
+        done: true,
+        finishReason: final?.finishReason,
+        usage,
+        source: final?.source,
+        parsed: result.value,
+      }
+      return
+    }
+
+    issues = result.issues
+    attemptContext = withCorrection(attemptContext, content, issues, tokenizer)
+  }
+
+  throw new StructuredOutputError(
+    `No valid ${format.name} response after ${maxAttempts} attempts: ${issues.join("; ")}`,
+    { format: format.name, attempts: maxAttempts, issues }
+  )
+}
+
+/**
+ * Complete with a response format and return the validated object
+ * alongside the text — for internal callers that don't need streaming.
+ */
+export async function completeStructured<T = unknown>(
+  provider: Provider,
+  context: Context,
+  responseFormat: ResponseFormat,
+  options: CompletionOptions = {}
+): Promise<{ content: string; value: T; usage?: StreamChunk["usage"] }> {
+  for await (const chunk of provider.complete(context, { ...options, responseFormat })) {
+    if (chunk.done && chunk.parsed !== undefined) {
+      return { content: chunk.content, value: chunk.parsed as T, usage: chunk.usage }
+    }
+  }
+  throw new StructuredOutputError(`${provider.info.name} returned no ${responseFormat.name} response`, {
+    format: responseFormat.name,
+    attempts: 0,
+    issues: [],
+  })
+}
+
+/**
+ * Prompt text asking for JSON matching a format, for providers
+ * without native structured output.
+ */
+export function structuredOutputInstructions(format: ResponseFormat): string {
+  return (
+    `Respond with only a JSON value matching this JSON Schema (${format.name}) — ` +
+    `no prose, no code fences:\n${JSON.stringify(format.schema, null, 2)}`
+  )
+}
+
+function checkResponse(
+  content: string,
+  format: ResponseFormat
+): { ok: true; value: unknown } | { ok: false; issues: string[] } {
+  let value: unknown
+  try {
+    value = parseJsonResponse(content)
+  } catch (error) {
+    return { ok: false, issues: [`not valid JSON (${(error as Error).message})`] }
+  }
+  const issues = format.validate ? format.validate(value) : validateJsonSchema(value, format.schema)
+  return issues.length ? { ok: false, issues } : { ok: true, value }
+}
+
+function withInstructions(context: Context, format: ResponseFormat): Context {
+  const instructions = structuredOutputInstructions(format)
+  return {
+    ...context,
+    systemPrompt: context.systemPrompt ? `${context.systemPrompt}\n\n${instructions}` : instructions,
+  }
+}
+
+/**
+ * The context plus the rejected answer and a request to fix it.
+ */
+function withCorrection(context: Context, rejected: string, issues: string[], tokenizer: Tokenizer): Context {
+  const correction =
+    `That response was rejected:\n${issues.map((issue) => `- ${issue}`).join("\n")}\n` +
+    `Reply again with only JSON matching the schema.`
+  return {
+    ...context,
+    items: [
+      ...context.items,
+      transientItem({
+        ...transientFields(rejected, tokenizer),
+        kind: "agent_response",
+        provider: "",
+        model: "",
+        status: "complete",
+      }),
+      transientItem({ ...transientFields(correction, tokenizer), kind: "user_input" }),
+    ],
+  }
+}
+
+/** Artifact fields for turns that exist only within one completion */
+function transientFields(content: string, tokenizer: Tokenizer) {
+  return {
+    id: `structured-${crypto.randomUUID()}`,
+    sessionId: "",
+    content,
+    tokens: tokenizer.count(content),
+    embedding: { vector: [], model: "none", dimensions: 0, createdAt: new Date() },
+    timestamp: new Date(),
+  }
+}
+
+function transientItem(artifact: UserInput | AgentResponse): ContextItem {
+  return {
+    id: artifact.id,
+    type: "artifact",
+    content: artifact.content,
+    tokens: artifact.tokens,
+    priority: "critical",
+    source: { type: "artifact", artifact },
+  }
+}
+
+function addStreamUsage(
+  a: StreamChunk["usage"],
+  b: StreamChunk["usage"]
+): StreamChunk["usage"] {
+  if (!a || !b) return a ?? b
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  }
+}
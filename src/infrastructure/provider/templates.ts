@@ -0,0 +1,132 @@
+import type { ChatTemplateName } from "@/domain/provider.ts"
+
+/**
+ * A single conversational turn, ready for template rendering.
+ * Tool calls and results are already folded into text by the caller.
+ */
+export interface TemplateTurn {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+/**
+ * A prompt template for raw-completion models.
+ */
+export interface ChatTemplate {
+  name: ChatTemplateName
+  /** Tokens that end an assistant turn — always sent as stop sequences */
+  stop: string[]
+  /**
+   * Render turns into a prompt that ends with an open assistant turn.
+   * BOS is omitted: llama.cpp adds it when tokenizing.
+   */
+  render(turns: TemplateTurn[]): string
+}
+
+/**
+ * Merge consecutive turns with the same role.
+ * Mistral and Gemma reject non-alternating conversations.
+ */
+function mergeTurns(turns: TemplateTurn[]): TemplateTurn[] {
+  const merged: TemplateTurn[] = []
+  for (const turn of turns) {
+    const last = merged[merged.length - 1]
+    if (last && last.role === turn.role) {
+      last.content += `\n\n${turn.content}`
+    } else {
+      merged.push({ ...turn })
+    }
+  }
+  return merged
+}
+
+/**
+ * Fold system turns into the first user turn, for templates
+ * without a system role.
+ */
+function foldSystemIntoUser(turns: TemplateTurn[]): TemplateTurn[] {
+  const system = turns.filter((t) => t.role === "system").map((t) => t.content)
+  const rest = mergeTurns(turns.filter((t) => t.role !== "system"))
+  if (system.length === 0) return rest
+
+  const prefix = system.join("\n\n")
+  const first = rest[0]
+  if (first && first.role === "user") {
+    return [{ role: "user", content: `${prefix}\n\n${first.content}` }, ...rest.slice(1)]
+  }
+  return [{ role: "user", content: prefix }, ...rest]
+}
+
+// ─── Templates ──────────────────────────────────────────────────
+
+const chatml: ChatTemplate = {
+  name: "chatml",
+  stop: ["<|im_end|>", "<|im_start|>"],
+  render(turns) {
+    const body = mergeTurns(turns)
+      .map((t) => `<|im_start|>${t.role}\n${t.content}<|im_end|>\n`)
+      .join("")
+    return `${body}<|im_start|>assistant\n`
+  },
+}
+
+const llama3: ChatTemplate = {
+  name: "llama3",
+  stop: ["<|eot_id|>", "<|end_of_text|>"],
+  render(turns) {
+    const body = mergeTurns(turns)
+      .map((t) => `<|start_header_id|>${t.role}<|end_header_id|>\n\n${t.content}<|eot_id|>`)
+      .join("")
+    return `${body}<|start_header_id|>assistant<|end_header_id|>\n\n`
+  },
+}
+
+const mistral: ChatTemplate = {
+  name: "mistral",
+  stop: ["</s>", "[INST]"],
+  render(turns) {
+    let prompt = ""
+    for (const turn of foldSystemIntoUser(turns)) {
+      prompt += turn.role === "user"
+        ? `[INST] ${turn.content} [/INST]`
+        : `${turn.content}</s>`
+    }
+    return prompt
+  },
+}
+
+const gemma: ChatTemplate = {
+  name: "gemma",
+  stop: ["<end_of_turn>", "<start_of_turn>"],
+  render(turns) {
+    const body = foldSystemIntoUser(turns)
+      .map((t) => {
+        const role = t.role === "assistant" ? "model" : "user"
+        return `<start_of_turn>${role}\n${t.content}<end_of_turn>\n`
+      })
+      .join("")
+    return `${body}<start_of_turn>model\n`
+  },
+}
+
+/**
+ * All supported chat templates, by name.
+ */
+export const CHAT_TEMPLATES: Record<ChatTemplateName, ChatTemplate> = {
+  chatml,
+  llama3,
+  mistral,
+  gemma,
+}
+
+/**
+ * Detect a template from a model's embedded Jinja chat template
+ * (GGUF `tokenizer.chat_template`), by its distinctive markers.
+ */
+export function detectChatTemplate(jinja: string): ChatTemplateName | undefined {
+  if (jinja.includes("<|im_start|>")) return "chatml"
+  if (jinja.includes("<|start_header_id|>")) return "llama3"
+  if (jinja.includes("<start_of_turn>")) return "gemma"
+  if (jinja.includes("[INST]")) return "mistral"
+  return undefined
+}
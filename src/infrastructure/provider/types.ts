@@ -1,15 +1,24 @@
+import type { ChatTemplateName, ModelPricing, ProviderCapabilities } from "@/domain/provider.ts"
+
 /**
  * OpenAI-compatible message format.
  * Used by OpenRouter and other OpenAI-compatible APIs.
  */
 export interface OpenAIMessage {
   role: "system" | "user" | "assistant" | "tool"
-  content: string | null
+  content: string | OpenAIContentPart[] | null
   name?: string
   tool_calls?: OpenAIToolCall[]
   tool_call_id?: string
 }
 
+/**
+ * OpenAI multimodal content part. Images are sent inline as data URLs.
+ */
+export type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+
 /**
  * OpenAI tool call format.
  */
@@ -47,6 +56,13 @@ export interface OpenAIChatRequest {
   stop?: string[]
   tools?: OpenAITool[]
   tool_choice?: "auto" | "none" | { type: "function"; function: { name: string } }
+  /** include_usage adds a final chunk with token usage (and no choices) */
+  stream_options?: { include_usage: boolean }
+  /** Constrain the answer to a JSON Schema (models with structured_outputs) */
+  response_format?: {
+    type: "json_schema"
+    json_schema: { name: string; schema: Record<string, unknown>; strict?: boolean }
+  }
 }
 
 /**
@@ -62,6 +78,10 @@ export interface OpenAIStreamChunk {
     delta: {
       role?: string
       content?: string | null
+      /** OpenRouter's normalized reasoning tokens */
+      reasoning?: string | null
+      /** DeepSeek and llama.cpp server's name for the same */
+      reasoning_content?: string | null
       tool_calls?: Array<{
         index: number
         id?: string
@@ -79,6 +99,44 @@ export interface OpenAIStreamChunk {
     completion_tokens: number
     total_tokens: number
   }
+  /** Sent in place of choices when the request fails after streaming began */
+  error?: { code: number | string; message: string }
+}
+
+/**
+ * Response from an OpenAI-compatible /models endpoint.
+ * Context window fields are server-specific extensions.
+ */
+export interface OpenAIModelsResponse {
+  data?: Array<{
+    id: string
+    /** vLLM */
+    max_model_len?: number
+    /** Groq */
+    context_window?: number
+    /** Together, OpenRouter */
+    context_length?: number
+  }>
+}
+
+/**
+ * Configuration for any OpenAI-compatible server.
+ * apiKey and header values may be "$NAME" to read them from the environment.
+ */
+export interface OpenAICompatibleConfig {
+  model: string
+  /** API root, e.g. "http://localhost:8000/v1"; /chat/completions is appended */
+  baseUrl: string
+  /** Sent as a bearer token when set */
+  apiKey?: string
+  /** Extra request headers */
+  headers?: Record<string, string>
+  /** Names the provider in its info and errors (default: "OpenAI-compatible") */
+  name?: string
+  /** Capabilities the server doesn't report: context window, tools, vision... */
+  capabilities?: Partial<ProviderCapabilities>
+  /** Where "$NAME" references are read from (default: process.env) */
+  env?: Record<string, string | undefined>
 }
 
 /**
@@ -90,9 +148,218 @@ export interface OpenRouterConfig {
   baseUrl?: string
   siteUrl?: string // For HTTP-Referer header
   siteName?: string // For X-Title header
+  /** Override capabilities reported by the model registry */
+  capabilities?: Partial<ProviderCapabilities>
+  /** Where a "$NAME" apiKey is read from (default: process.env) */
+  env?: Record<string, string | undefined>
+}
+
+/**
+ * Model entry from the OpenRouter /models endpoint.
+ * Prices are USD-per-token decimal strings ("-1" for variable-price routers).
+ */
+export interface OpenRouterModel {
+  id: string
+  name?: string
+  context_length?: number
+  architecture?: {
+    input_modalities?: string[]
+    output_modalities?: string[]
+  }
+  pricing?: {
+    prompt?: string
+    completion?: string
+  }
+  top_provider?: {
+    context_length?: number | null
+    max_completion_tokens?: number | null
+  }
+  supported_parameters?: string[]
+}
+
+/**
+ * OpenRouter /models response.
+ */
+export interface OpenRouterModelsResponse {
+  data: OpenRouterModel[]
+}
+
+/**
+ * Anthropic-specific configuration.
+ * Falls back to ANTHROPIC_API_KEY from the environment when no key is given.
+ */
+export interface AnthropicConfig {
+  model: string
+  apiKey?: string
+  baseUrl?: string
   retry?: {
     maxAttempts?: number // default: 5
-    initialDelayMs?: number // default: 2000
-    maxDelayMs?: number // default: 32000
   }
+  /** Token pricing, for cost accounting */
+  pricing?: ModelPricing
+  /** Enable extended thinking with this many budget tokens */
+  thinkingBudget?: number
+  /** Where ANTHROPIC_API_KEY and ANTHROPIC_AUTH_TOKEN are read from (default: process.env) */
+  env?: Record<string, string | undefined>
+}
+
+// ─── Ollama ─────────────────────────────────────────────────────
+
+/**
+ * Ollama chat message format (/api/chat).
+ * Tool call arguments are objects, not JSON strings, and carry no IDs.
+ */
+export interface OllamaMessage {
+  role: "system" | "user" | "assistant" | "tool"
+  content: string
+  images?: string[] // base64-encoded
+  tool_calls?: OllamaToolCall[]
+  tool_name?: string
+}
+
+/**
+ * Ollama tool call format.
+ */
+export interface OllamaToolCall {
+  function: {
+    name: string
+    arguments: Record<string, unknown>
+  }
+}
+
+/**
+ * Ollama chat request (/api/chat).
+ */
+export interface OllamaChatRequest {
+  model: string
+  messages: OllamaMessage[]
+  stream: boolean
+  tools?: OpenAITool[]
+  /** JSON Schema the answer must match */
+  format?: Record<string, unknown>
+  options?: {
+    num_ctx?: number
+    num_predict?: number
+    temperature?: number
+    top_p?: number
+    stop?: string[]
+  }
+}
+
+/**
+ * Ollama streaming chunk — one NDJSON line of a /api/chat response.
+ */
+export interface OllamaChatChunk {
+  model: string
+  created_at: string
+  message?: {
+    role: string
+    content: string
+    /** Reasoning of thinking models, kept out of content */
+    thinking?: string
+    tool_calls?: OllamaToolCall[]
+  }
+  done: boolean
+  done_reason?: string
+  prompt_eval_count?: number
+  eval_count?: number
+  error?: string
+}
+
+/**
+ * Ollama model details (/api/show).
+ */
+export interface OllamaShowResponse {
+  details?: {
+    family?: string
+    parameter_size?: string
+    quantization_level?: string
+  }
+  /** Architecture-prefixed GGUF metadata, e.g. "llama.context_length" */
+  model_info?: Record<string, unknown>
+  /** e.g. ["completion", "tools", "vision"] */
+  capabilities?: string[]
+}
+
+/**
+ * Ollama installed models (/api/tags).
+ */
+export interface OllamaTagsResponse {
+  models: Array<{
+    name: string
+    model: string
+    modified_at: string
+    size: number
+    digest: string
+    details?: {
+      family?: string
+      parameter_size?: string
+      quantization_level?: string
+    }
+  }>
+}
+
+/**
+ * Ollama-specific configuration.
+ */
+export interface OllamaConfig {
+  model: string
+  baseUrl?: string // default: http://localhost:11434
+  /** Context window to use (sent as num_ctx); without it the model's own, at most 8192 */
+  contextLength?: number
+}
+
+// ─── llama.cpp ──────────────────────────────────────────────────
+
+/**
+ * llama.cpp server raw completion request (/completion).
+ */
+export interface LlamaCppCompletionRequest {
+  prompt: string
+  stream: boolean
+  n_predict?: number
+  temperature?: number
+  top_p?: number
+  stop?: string[]
+  cache_prompt?: boolean
+  /** Constrain sampling to a JSON Schema (compiled to a grammar by the server) */
+  json_schema?: Record<string, unknown>
+}
+
+/**
+ * llama.cpp streaming chunk (SSE data from /completion).
+ */
+export interface LlamaCppCompletionChunk {
+  content: string
+  stop: boolean
+  /** "eos" | "limit" | "word" | "none" on the final chunk */
+  stop_type?: string
+  tokens_evaluated?: number
+  tokens_predicted?: number
+  /** Sent instead of content when generation fails (e.g. the prompt exceeds n_ctx) */
+  error?: { code: number; message: string; type?: string }
+}
+
+/**
+ * llama.cpp server properties (/props), including GGUF metadata.
+ */
+export interface LlamaCppPropsResponse {
+  /** Jinja template from GGUF `tokenizer.chat_template` */
+  chat_template?: string
+  model_path?: string
+  default_generation_settings?: {
+    n_ctx?: number
+  }
+}
+
+/**
+ * llama.cpp-specific configuration.
+ */
+export interface LlamaCppConfig {
+  model: string
+  baseUrl?: string // default: http://localhost:8080
+  /** Prompt template (detected from /props if omitted) */
+  template?: ChatTemplateName
+  /** Override the context window reported by the server */
+  contextLength?: number
 }
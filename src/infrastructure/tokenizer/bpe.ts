@@ -0,0 +1,68 @@
+import type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+import { lazy } from "@/util/lazy.ts"
+
+// Vocabularies are several MB each and take hundreds of ms to build,
+// so they're loaded on first count. require() keeps loading synchronous,
+// which the Tokenizer contract needs.
+const o200k = lazy(
+  () => require("gpt-tokenizer/encoding/o200k_base") as typeof import("gpt-tokenizer/encoding/o200k_base")
+)
+const cl100k = lazy(
+  () => require("gpt-tokenizer/encoding/cl100k_base") as typeof import("gpt-tokenizer/encoding/cl100k_base")
+)
+const llama3 = lazy(
+  () => (require("llama3-tokenizer-js") as typeof import("llama3-tokenizer-js")).default
+)
+
+/** Count special-token markup (e.g. "<|endoftext|>") as ordinary text instead of throwing */
+const PLAIN_TEXT = { disallowedSpecial: new Set<string>() }
+
+/** Claude tokens per cl100k token, on mixed prose and code */
+const CLAUDE_CL100K_RATIO = 1.1
+
+/**
+ * o200k_base — GPT-4o, GPT-4.1, GPT-5 and the o-series.
+ */
+export class O200kTokenizer implements Tokenizer {
+  readonly name = "o200k"
+
+  count(text: string): number {
+    return o200k().countTokens(text, PLAIN_TEXT)
+  }
+}
+
+/**
+ * cl100k_base — GPT-4 and GPT-3.5.
+ * Also the closest general-purpose fit for unknown BPE models.
+ */
+export class Cl100kTokenizer implements Tokenizer {
+  readonly name = "cl100k"
+
+  count(text: string): number {
+    return cl100k().countTokens(text, PLAIN_TEXT)
+  }
+}
+
+/**
+ * Llama 3 (128k vocabulary), covering Llama 3.x and its fine-tunes.
+ */
+export class Llama3Tokenizer implements Tokenizer {
+  readonly name = "llama3"
+
+  count(text: string): number {
+    return llama3().encode(text, { bos: false, eos: false }).length
+  }
+}
+
+/**
+ * Claude approximation.
+ * Anthropic's tokenizer isn't published; Claude 3+ yields more tokens
+ * than cl100k, so scale up to stay on the safe side of the budget.
+ */
+export class ClaudeTokenizer implements Tokenizer {
+  readonly name = "claude"
+
+  count(text: string): number {
+    return Math.ceil(cl100k().countTokens(text, PLAIN_TEXT) * CLAUDE_CL100K_RATIO)
+  }
+}
@@ -0,0 +1,14 @@
+import type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+
+/**
+ * Character-count estimate: ~4 chars per token for English text.
+ * Undercounts code and non-Latin scripts; use only when no
+ * tokenizer for the model family is available.
+ */
+export class HeuristicTokenizer implements Tokenizer {
+  readonly name = "heuristic"
+
+  count(text: string): number {
+    return Math.ceil(text.length / 4)
+  }
+}
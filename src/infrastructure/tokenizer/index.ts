@@ -0,0 +1,10 @@
+// Types
+export type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+export type { TokenizerFamily } from "./resolve.ts"
+
+// Implementations
+export { HeuristicTokenizer } from "./heuristic.ts"
+export { O200kTokenizer, Cl100kTokenizer, Llama3Tokenizer, ClaudeTokenizer } from "./bpe.ts"
+
+// Resolution
+export { getTokenizer, tokenizerForModel, tokenizerFamilyForModel } from "./resolve.ts"
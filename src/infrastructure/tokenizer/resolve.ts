@@ -0,0 +1,68 @@
+import type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+import { HeuristicTokenizer } from "./heuristic.ts"
+import { O200kTokenizer, Cl100kTokenizer, Llama3Tokenizer, ClaudeTokenizer } from "./bpe.ts"
+
+/**
+ * Tokenizer families with an offline implementation.
+ */
+export type TokenizerFamily = "o200k" | "cl100k" | "llama3" | "claude" | "heuristic"
+
+/**
+ * Model ID patterns, checked in order. Matched against the model name
+ * with any vendor prefix ("openai/", "meta-llama/") removed.
+ */
+const MODEL_FAMILIES: Array<[pattern: RegExp, family: TokenizerFamily]> = [
+  [/claude/, "claude"],
+  [/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|chatgpt|o\d)/, "o200k"],
+  [/^(gpt-4|gpt-3\.5|text-embedding)/, "cl100k"],
+  [/llama-?3/, "llama3"],
+]
+
+/** Tokenizers are stateless; share one per family */
+const instances = new Map<TokenizerFamily, Tokenizer>()
+
+/**
+ * Get the tokenizer for a family.
+ */
+export function getTokenizer(family: TokenizerFamily): Tokenizer {
+  let tokenizer = instances.get(family)
+  if (!tokenizer) {
+    tokenizer = createTokenizer(family)
+    instances.set(family, tokenizer)
+  }
+  return tokenizer
+}
+
+/**
+ * Pick a tokenizer for a model ID.
+ * Unknown models get cl100k — closer than chars/4 for most BPE vocabularies.
+ */
+export function tokenizerForModel(model: string): Tokenizer {
+  return getTokenizer(tokenizerFamilyForModel(model))
+}
+
+/**
+ * Resolve a model ID to its tokenizer family.
+ */
+export function tokenizerFamilyForModel(model: string): TokenizerFamily {
+  const name = model.toLowerCase().split("/").pop() ?? ""
+  for (const [pattern, family] of MODEL_FAMILIES) {
+    if (pattern.test(name)) return family
+  }
+  return "cl100k"
+}
+
+function createTokenizer(family: TokenizerFamily): Tokenizer {
+  switch (family) {
+    case "o200k":
+      return new O200kTokenizer()
+    case "cl100k":
+      return new Cl100kTokenizer()
+    case "llama3":
+      return new Llama3Tokenizer()
+    case "claude":
+      return new ClaudeTokenizer()
+    case "heuristic":
+      return new HeuristicTokenizer()
+  }
+}
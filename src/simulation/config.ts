@@ -37,6 +37,14 @@ export interface SimulationConfig {
      * participants build context and persist artifacts.
      */
     dualSession?: boolean
+    /**
+     * Record session providers to cassettes, or replay them without network.
+     * Writes {dir}/llm.json (and {dir}/human.json with dualSession).
+     */
+    cassette?: {
+      dir: string
+      mode: "record" | "replay"
+    }
   }
 
   output?: {
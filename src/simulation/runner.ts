@@ -6,6 +6,7 @@
 import type { SimulationConfig } from "./config.ts"
 import type { SessionArtifact } from "@/domain/artifact.ts"
 import type { Context } from "@/domain/context.ts"
+import type { Provider } from "@/domain/provider.ts"
 
 interface Message {
   role: "user" | "assistant"
@@ -377,6 +378,8 @@ export async function runIntegratedSimulation(config: SimulationConfig): Promise
   const { ProjectStorage } = await import("@/infrastructure/persistence/project-storage.ts")
   const { getDefaultEmbedder } = await import("@/infrastructure/embedding/index.ts")
   const { OpenRouterProvider } = await import("@/infrastructure/provider/openrouter.ts")
+  const { createRecordingProvider, createReplayProvider } = await import("@/infrastructure/provider/cassette.ts")
+  const { withMiddleware, retry } = await import("@/infrastructure/provider/middleware.ts")
   const { detectProject } = await import("@/infrastructure/project/project.ts")
 
   const projectDir = config.integrate?.projectDir ?? process.cwd()
@@ -398,12 +401,21 @@ export async function runIntegratedSimulation(config: SimulationConfig): Promise
   const embedder = await getDefaultEmbedder()
   const maxContextTokens = config.integrate?.maxContextTokens ?? 4000
 
+  // Wrap session providers for record/replay when a cassette is configured
+  const cassette = config.integrate?.cassette
+  async function sessionProvider(side: "llm" | "human", model: string): Promise<Provider> {
+    if (cassette?.mode === "replay") {
+      return createReplayProvider(`${cassette.dir}/${side}.json`)
+    }
+    const provider = withMiddleware(
+      new OpenRouterProvider({ model, apiKey: process.env.OPENROUTER_API_KEY! }),
+      [retry({ maxAttempts: 5, initialDelayMs: 2000, maxDelayMs: 32000 })]
+    )
+    return cassette ? createRecordingProvider(provider, `${cassette.dir}/${side}.json`) : provider
+  }
+
   // Create llm provider and session (with retry for rate limits)
-  const llmProvider = new OpenRouterProvider({
-    model: config.llm.model,
-    apiKey: process.env.OPENROUTER_API_KEY!,
-    retry: { maxAttempts: 5, initialDelayMs: 2000, maxDelayMs: 32000 },
-  })
+  const llmProvider = await sessionProvider("llm", config.llm.model)
 
   const llmSession = new ActiveSession({
     projectId: project.id,
@@ -419,11 +431,7 @@ export async function runIntegratedSimulation(config: SimulationConfig): Promise
   // Create human session if dual mode
   let humanSession: InstanceType<typeof ActiveSession> | null = null
   if (dualSession) {
-    const humanProvider = new OpenRouterProvider({
-      model: config.human.model,
-      apiKey: process.env.OPENROUTER_API_KEY!,
-      retry: { maxAttempts: 5, initialDelayMs: 2000, maxDelayMs: 32000 },
-    })
+    const humanProvider = await sessionProvider("human", config.human.model)
 
     humanSession = new ActiveSession({
       projectId: project.id,
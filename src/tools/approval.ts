@@ -0,0 +1,26 @@
+/**
+ * Tool Approval
+ *
+ * Which tool calls need the user's go-ahead before they run, and what
+ * the user can answer.
+ */
+
+import type { ToolApprovalConfig, ToolApprovalPolicy } from "@/infrastructure/config/index.ts"
+
+export type { ToolApprovalConfig, ToolApprovalPolicy }
+
+/**
+ * The user's answer to a call waiting for approval: run it as the model
+ * asked, run it with different input, or refuse it.
+ */
+export type ToolApprovalDecision =
+  | { action: "approve" }
+  | { action: "edit"; input: unknown }
+  | { action: "deny"; reason?: string }
+
+/**
+ * The policy for one tool: its own setting, else the default, else "always".
+ */
+export function approvalPolicy(config: ToolApprovalConfig | undefined, toolName: string): ToolApprovalPolicy {
+  return config?.tools?.[toolName] ?? config?.default ?? "always"
+}
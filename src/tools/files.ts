@@ -0,0 +1,263 @@
+/**
+ * File Tools
+ *
+ * Read, write, edit and list files in the project. Paths are relative
+ * to the project root and can't leave it, even through symlinks; files
+ * git ignores are off limits, and binary files can't be read or changed.
+ * Every change comes back with a unified diff of what it did.
+ */
+
+import { $ } from "bun"
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import { z } from "zod"
+import type { FileToolsConfig } from "@/infrastructure/config/index.ts"
+import { createError } from "@/util/error.ts"
+import { unifiedDiff } from "@/util/diff.ts"
+import { defineTool, type Tool } from "./registry.ts"
+
+/** Lines read_file returns when no range is given (default) */
+const DEFAULT_MAX_READ_LINES = 2000
+
+/** How much of a file to look at when deciding if it's binary, as git does */
+const BINARY_SNIFF_BYTES = 8000
+
+/**
+ * Thrown when a file tool refuses a path or can't apply an edit.
+ */
+export const FileToolError = createError(
+  "FileToolError",
+  z.object({
+    path: z.string(),
+    reason: z.enum([
+      "outside_project",
+      "ignored",
+      "binary",
+      "not_found",
+      "not_a_file",
+      "not_a_directory",
+      "no_match",
+      "ambiguous_match",
+    ]),
+  })
+)
+
+export interface FileToolOptions extends Omit<FileToolsConfig, "enabled"> {
+  /** Project root; every path resolves inside it */
+  root: string
+}
+
+/** A project path, resolved and checked */
+export interface ProjectPath {
+  absolute: string
+  /** Relative to the root, with forward slashes; "." for the root itself */
+  relative: string
+}
+
+/**
+ * Create the file tools for a project: read_file, write_file, edit_file
+ * and list_directory.
+ */
+export function createFileTools(options: FileToolOptions): Tool[] {
+  const { root } = options
+  const maxReadLines = options.maxReadLines ?? DEFAULT_MAX_READ_LINES
+  const pathInput = z.string().min(1).describe("Path relative to the project root")
+
+  const readFile = defineTool({
+    name: "read_file",
+    description:
+      `Read a text file in the project. Returns up to ${maxReadLines} lines unless a range is given; ` +
+      "line numbers start at 1 and the range is inclusive.",
+    input: z.object({
+      path: pathInput,
+      startLine: z.number().int().min(1).optional().describe("First line to read"),
+      endLine: z.number().int().min(1).optional().describe("Last line to read"),
+    }),
+    async execute({ path: target, startLine = 1, endLine }) {
+      const file = await resolvePath(root, target)
+      const text = await readText(root, file)
+      const lines = text.split("\n")
+      if (lines[lines.length - 1] === "") lines.pop()
+
+      const last = Math.min(lines.length, endLine ?? startLine + maxReadLines - 1)
+      return {
+        path: file.relative,
+        startLine,
+        endLine: last,
+        totalLines: lines.length,
+        content: lines.slice(startLine - 1, last).join("\n"),
+      }
+    },
+  })
+
+  const writeFile = defineTool({
+    name: "write_file",
+    description:
+      "Create a file in the project, or replace all of an existing one. Creates missing directories. " +
+      "Prefer edit_file for changing part of a file.",
+    input: z.object({
+      path: pathInput,
+      content: z.string().describe("The file's full new content"),
+    }),
+    async execute({ path: target, content }) {
+      const file = await resolvePath(root, target)
+      const before = await readText(root, file).catch((error: unknown) => {
+        if (FileToolError.is(error) && error.data?.reason === "not_found") return null
+        throw error
+      })
+
+      await fs.mkdir(path.dirname(file.absolute), { recursive: true })
+      await Bun.write(file.absolute, content)
+      return { path: file.relative, created: before === null, diff: unifiedDiff(file.relative, before, content) }
+    },
+  })
+
+  const editFile = defineTool({
+    name: "edit_file",
+    description:
+      "Replace text in a file in the project. oldText must match the file exactly, including " +
+      "whitespace, and only once unless replaceAll is set; include surrounding lines to make it unique.",
+    input: z.object({
+      path: pathInput,
+      oldText: z.string().min(1).describe("The exact text to replace"),
+      newText: z.string().describe("What to replace it with"),
+      replaceAll: z.boolean().optional().describe("Replace every occurrence instead of exactly one"),
+    }),
+    async execute({ path: target, oldText, newText, replaceAll = false }) {
+      const file = await resolvePath(root, target)
+      const before = await readText(root, file)
+
+      const replacements = before.split(oldText).length - 1
+      if (replacements === 0) {
+        throw new FileToolError(`oldText not found in ${file.relative}`, { path: file.relative, reason: "no_match" })
+      }
+      if (replacements > 1 && !replaceAll) {
+        throw new FileToolError(
+          `oldText appears ${replacements} times in ${file.relative}; add surrounding lines to pick one, or set replaceAll`,
+          { path: file.relative, reason: "ambiguous_match" }
+        )
+      }
+
+      const after = before.split(oldText).join(newText)
+      await Bun.write(file.absolute, after)
+      return { path: file.relative, replacements, diff: unifiedDiff(file.relative, before, after) }
+    },
+  })
+
+  const listDirectory = defineTool({
+    name: "list_directory",
+    description: "List a directory in the project, leaving out files git ignores. Directories end with /.",
+    input: z.object({
+      path: z.string().optional().describe("Directory relative to the project root (default: the root)"),
+    }),
+    async execute({ path: target = "." }) {
+      const directory = await resolvePath(root, target)
+      await checkIgnored(root, directory)
+      const stat = await fs.stat(directory.absolute).catch(() => null)
+      if (!stat) {
+        throw new FileToolError(`No such directory: ${directory.relative}`, { path: directory.relative, reason: "not_found" })
+      }
+      if (!stat.isDirectory()) {
+        throw new FileToolError(`Not a directory: ${directory.relative}`, { path: directory.relative, reason: "not_a_directory" })
+      }
+
+      const dirents = await fs.readdir(directory.absolute, { withFileTypes: true })
+      const entries = dirents.map((dirent) => ({
+        name: dirent.isDirectory() ? `${dirent.name}/` : dirent.name,
+        path: directory.relative === "." ? dirent.name : `${directory.relative}/${dirent.name}`,
+      }))
+      const ignored = await ignoredPaths(root, entries.map((entry) => entry.path))
+
+      return {
+        path: directory.relative,
+        entries: entries
+          .filter((entry) => !ignored.has(entry.path))
+          .map((entry) => entry.name)
+          .sort((a, b) => Number(b.endsWith("/")) - Number(a.endsWith("/")) || a.localeCompare(b)),
+      }
+    },
+  })
+
+  return [readFile, writeFile, editFile, listDirectory]
+}
+
+// ─── Paths ──────────────────────────────────────────────────────
+
+/**
+ * Resolve a path against the root, following symlinks as far as the
+ * path exists, and refuse it if it ends up outside.
+ */
+export async function resolvePath(root: string, target: string): Promise<ProjectPath> {
+  const realRoot = await fs.realpath(root)
+  const absolute = await realpathExisting(path.resolve(realRoot, target))
+
+  const relative = path.relative(realRoot, absolute)
+  if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new FileToolError(`${target} is outside the project`, { path: target, reason: "outside_project" })
+  }
+  return { absolute, relative: relative.split(path.sep).join("/") || "." }
+}
+
+async function realpathExisting(target: string): Promise<string> {
+  try {
+    return await fs.realpath(target)
+  } catch {
+    const parent = path.dirname(target)
+    if (parent === target) return target
+    return path.join(await realpathExisting(parent), path.basename(target))
+  }
+}
+
+/**
+ * Read a project file as text, refusing ignored, missing and binary files.
+ */
+async function readText(root: string, file: ProjectPath): Promise<string> {
+  await checkIgnored(root, file)
+
+  const stat = await fs.stat(file.absolute).catch(() => null)
+  if (!stat) {
+    throw new FileToolError(`No such file: ${file.relative}`, { path: file.relative, reason: "not_found" })
+  }
+  if (!stat.isFile()) {
+    throw new FileToolError(`Not a file: ${file.relative}`, { path: file.relative, reason: "not_a_file" })
+  }
+
+  const bytes = await Bun.file(file.absolute).bytes()
+  if (isBinary(bytes)) {
+    throw new FileToolError(`${file.relative} is a binary file`, { path: file.relative, reason: "binary" })
+  }
+  return new TextDecoder().decode(bytes)
+}
+
+/** Whether a file's bytes look binary: a NUL near the start, as git decides */
+export function isBinary(bytes: Uint8Array): boolean {
+  return bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0)
+}
+
+// ─── Ignored Files ──────────────────────────────────────────────
+
+export async function checkIgnored(root: string, file: ProjectPath): Promise<void> {
+  if ((await ignoredPaths(root, [file.relative])).has(file.relative)) {
+    throw new FileToolError(`${file.relative} is ignored by git`, { path: file.relative, reason: "ignored" })
+  }
+}
+
+/**
+ * Which of these project paths git ignores. Git's own directory always
+ * counts as ignored; outside a git repository, nothing else does.
+ */
+async function ignoredPaths(root: string, relatives: string[]): Promise<Set<string>> {
+  const ignored = new Set(relatives.filter((p) => p === ".git" || p.startsWith(".git/")))
+  const rest = relatives.filter((p) => p !== "." && !ignored.has(p))
+  if (rest.length === 0) return ignored
+
+  const input = new Response(rest.join("\0"))
+  const result = await $`git -C ${root} check-ignore -z --stdin < ${input}`.nothrow().quiet()
+  // 0: some are ignored, 1: none are, 128: not a git repository
+  if (result.exitCode === 0) {
+    for (const ignoredPath of result.stdout.toString().split("\0")) {
+      if (ignoredPath) ignored.add(ignoredPath)
+    }
+  }
+  return ignored
+}
@@ -0,0 +1,31 @@
+export {
+  ToolRegistry,
+  createToolRegistry,
+  defineTool,
+  type Tool,
+  type ToolContext,
+  type ToolOutcome,
+} from "./registry.ts"
+
+export {
+  createShellTool,
+  checkCommand,
+  CommandDeniedError,
+  type ShellToolOptions,
+  type ShellResult,
+} from "./shell.ts"
+
+export { createFileTools, FileToolError, type FileToolOptions } from "./files.ts"
+
+export { createSearchTools, type SearchToolOptions } from "./search.ts"
+
+export {
+  approvalPolicy,
+  type ToolApprovalConfig,
+  type ToolApprovalPolicy,
+  type ToolApprovalDecision,
+} from "./approval.ts"
+
+export { createMcpTools, mcpToolName } from "./mcp.ts"
+
+export { createMemoryTools, type MemoryToolOptions } from "./memory.ts"
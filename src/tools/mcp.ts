@@ -0,0 +1,66 @@
+/**
+ * MCP Tools
+ *
+ * Offers an MCP server's tools to the agent. Each is named after its
+ * server, as `<server>__<tool>`, so tools from different servers and
+ * the built-in ones can't clash. The server checks the input itself.
+ */
+
+import { z } from "zod"
+import { McpError, type McpClient, type McpContent } from "@/infrastructure/mcp/index.ts"
+import { defineTool, type Tool } from "./registry.ts"
+
+/** Longest tool name providers accept */
+const MAX_TOOL_NAME_LENGTH = 64
+
+/**
+ * Create tools for everything an MCP server offers. Starts the server.
+ */
+export async function createMcpTools(client: McpClient): Promise<Tool[]> {
+  const tools = await client.listTools()
+
+  return tools.map((tool) => defineTool({
+    name: mcpToolName(client.name, tool.name),
+    description: tool.description ?? `${tool.name}, from the ${client.name} MCP server`,
+    input: z.record(z.string(), z.unknown()),
+    inputSchema: tool.inputSchema,
+    async execute(input, context) {
+      const result = await client.callTool(tool.name, input, context.signal)
+      const text = result.content.map(describeContent).join("\n")
+      if (result.isError) {
+        throw new McpError(text || `${tool.name} failed`, { server: client.name })
+      }
+      return result.structuredContent ?? text
+    },
+  }))
+}
+
+/**
+ * The name an MCP tool goes by: `<server>__<tool>`, with characters
+ * providers don't accept replaced by _. A name that had to change could
+ * then match another ("a.b" and "a_b", or two long names cut short), so
+ * it ends with a short hash of the original to keep it unique.
+ */
+export function mcpToolName(server: string, tool: string): string {
+  const name = `${server}__${tool}`
+  const safe = name.replace(/[^a-zA-Z0-9_-]/g, "_")
+  if (safe === name && name.length <= MAX_TOOL_NAME_LENGTH) return name
+
+  const hash = new Bun.CryptoHasher("sha256").update(`${server}\n${tool}`).digest("hex").slice(0, 8)
+  return `${safe.slice(0, MAX_TOOL_NAME_LENGTH - hash.length - 1)}_${hash}`
+}
+
+/** A tool result part as text; what the model can't read is described */
+function describeContent(content: McpContent): string {
+  switch (content.type) {
+    case "text":
+      return content.text
+    case "image":
+    case "audio":
+      return `[${content.type}: ${content.mimeType}]`
+    case "resource":
+      return content.resource.text ?? `[resource: ${content.resource.uri}]`
+    case "resource_link":
+      return `[resource: ${content.uri}]`
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Memory Tools
+ *
+ * The project's memory as tools: search and add to the knowledge base,
+ * list sessions and search what was said in them. Queries are embedded
+ * with the project's embedder and matched by vector similarity.
+ */
+
+import { z } from "zod"
+import type { SessionArtifact } from "@/domain/session.ts"
+import type { ProjectStorage } from "@/infrastructure/persistence/index.ts"
+import type { Embedder } from "@/infrastructure/embedding/types.ts"
+import { defineTool, type Tool } from "./registry.ts"
+
+/** Results a search returns when no limit is given */
+const DEFAULT_SEARCH_LIMIT = 10
+
+/** Most results a search or listing returns */
+const MAX_LIMIT = 100
+
+export interface MemoryToolOptions {
+  storage: ProjectStorage
+  embedder: Embedder
+}
+
+const limit = z.number().int().min(1).max(MAX_LIMIT).optional()
+const knowledgeSource = z.enum(["conversation", "user", "code", "system"])
+
+/**
+ * Create the memory tools: searchKnowledge, addKnowledge,
+ * listSessions and searchArtifacts.
+ */
+export function createMemoryTools({ storage, embedder }: MemoryToolOptions): Tool[] {
+  const searchKnowledge = defineTool({
+    name: "searchKnowledge",
+    description:
+      "Search the project's knowledge base: notes, decisions and facts saved from earlier work. " +
+      "Returns the closest matches first; lower distance is closer.",
+    input: z.object({
+      query: z.string().min(1).describe("What to look for, in plain words"),
+      limit: limit.describe(`Most results to return (default ${DEFAULT_SEARCH_LIMIT})`),
+      source: knowledgeSource.optional().describe("Only knowledge from this source"),
+    }),
+    async execute({ query, limit = DEFAULT_SEARCH_LIMIT, source }) {
+      const { vector } = await embedder.embed(query)
+      const results = await storage.searchKnowledge(vector, { limit, source })
+      return results.map(({ item, distance }) => ({
+        id: item.id,
+        content: item.content,
+        source: item.source,
+        tags: item.tags,
+        updatedAt: item.updatedAt.toISOString(),
+        distance,
+      }))
+    },
+  })
+
+  const addKnowledge = defineTool({
+    name: "addKnowledge",
+    description:
+      "Save something worth remembering about the project to its knowledge base, " +
+      "where later sessions and other agents can find it.",
+    input: z.object({
+      content: z.string().min(1).describe("The knowledge, self-contained"),
+      source: knowledgeSource.default("user").describe("Where it came from (default user)"),
+      tags: z.array(z.string()).optional().describe("Tags to file it under"),
+      filePath: z.string().optional().describe("The file it's about, if any"),
+    }),
+    async execute({ content, source, tags, filePath }) {
+      const embedding = await embedder.embed(content)
+      const knowledge = await storage.addKnowledge(content, embedding, source, filePath ? { filePath } : {}, tags)
+      return { id: knowledge.id }
+    },
+  })
+
+  const listSessions = defineTool({
+    name: "listSessions",
+    description: "List the project's sessions, most recently updated first.",
+    input: z.object({
+      limit: limit.describe("Most sessions to return (default all)"),
+    }),
+    async execute({ limit }) {
+      const sessions = await storage.listSessions()
+      return sessions.slice(0, limit).map((session) => ({
+        id: session.id,
+        title: session.title,
+        createdAt: session.createdAt.toISOString(),
+        updatedAt: session.updatedAt.toISOString(),
+      }))
+    },
+  })
+
+  const searchArtifacts = defineTool({
+    name: "searchArtifacts",
+    description:
+      "Search what was said and done in the project's sessions: messages, tool calls and their results. " +
+      "Returns the closest matches first; lower distance is closer.",
+    input: z.object({
+      query: z.string().min(1).describe("What to look for, in plain words"),
+      limit: limit.describe(`Most results to return (default ${DEFAULT_SEARCH_LIMIT})`),
+      // Storage filters by id in a query string, so only ids that look like ours get there
+      sessionId: z.uuid().optional().describe("Only search this session"),
+    }),
+    async execute({ query, limit = DEFAULT_SEARCH_LIMIT, sessionId }) {
+      const { vector } = await embedder.embed(query)
+      const results = await storage.searchArtifacts(vector, limit, sessionId)
+      return results.map(({ item, distance }) => ({
+        id: item.id,
+        sessionId: item.sessionId,
+        kind: item.kind,
+        content: artifactText(item),
+        timestamp: item.timestamp.toISOString(),
+        distance,
+      }))
+    },
+  })
+
+  return [searchKnowledge, addKnowledge, listSessions, searchArtifacts]
+}
+
+/** An artifact's content as text; tool calls and results as JSON */
+function artifactText(artifact: SessionArtifact): string {
+  switch (artifact.kind) {
+    case "tool_use":
+      return `${artifact.toolName} ${JSON.stringify(artifact.input)}`
+    case "tool_result":
+      return typeof artifact.result === "string" ? artifact.result : JSON.stringify(artifact.result)
+    default:
+      return artifact.content
+  }
+}
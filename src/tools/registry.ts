@@ -0,0 +1,152 @@
+/**
+ * Tool Registry
+ *
+ * The tools an agent may call: each declares a zod input schema, which
+ * is sent to the model as JSON Schema and checked before the tool runs.
+ */
+
+import { z } from "zod"
+import type { ToolDefinition } from "@/domain/provider.ts"
+
+/**
+ * What a tool gets to work with besides its input.
+ */
+export interface ToolContext {
+  /** The session's working directory */
+  workingDirectory: string
+
+  /** Aborts the call when the user stops generation */
+  signal?: AbortSignal
+}
+
+/**
+ * A tool the model can call.
+ */
+export interface Tool<Input = unknown> {
+  /** Identifier the model calls it by (letters, digits, _ and -) */
+  name: string
+
+  /** What it does and when to use it, for the model */
+  description: string
+
+  /** Shape of the input; calls that don't match fail without running */
+  input: z.ZodType<Input>
+
+  /** JSON Schema to send the model instead of `input`'s, for tools described elsewhere (MCP) */
+  inputSchema?: Record<string, unknown>
+
+  /**
+   * Run the tool. The result goes back to the model as-is if it's a
+   * string, as JSON otherwise. Throwing reports the message as a failed call.
+   */
+  execute(input: Input, context: ToolContext): Promise<unknown>
+}
+
+/**
+ * The outcome of a tool call, as stored in a ToolResult.
+ */
+export interface ToolOutcome {
+  result: unknown
+  isError: boolean
+}
+
+/**
+ * Define a tool, inferring its input type from the schema.
+ */
+export function defineTool<Input>(tool: Tool<Input>): Tool<Input> {
+  return tool
+}
+
+/**
+ * ToolRegistry — looks up tools by name and runs the model's calls.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, Tool>()
+
+  constructor(tools: Tool[] = []) {
+    for (const tool of tools) this.register(tool)
+  }
+
+  /**
+   * Add a tool. Names must be unique.
+   */
+  register(tool: Tool): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`)
+    }
+    this.tools.set(tool.name, tool)
+    return this
+  }
+
+  /**
+   * Get a tool by name.
+   */
+  get(name: string): Tool | undefined {
+    return this.tools.get(name)
+  }
+
+  /**
+   * All registered tools, in registration order.
+   */
+  list(): Tool[] {
+    return [...this.tools.values()]
+  }
+
+  get size(): number {
+    return this.tools.size
+  }
+
+  /**
+   * The tools as the model sees them.
+   */
+  definitions(): ToolDefinition[] {
+    return this.list().map((tool) => {
+      const { $schema: _dialect, ...inputSchema } = tool.inputSchema ?? (z.toJSONSchema(tool.input) as Record<string, unknown>)
+      return { name: tool.name, description: tool.description, inputSchema }
+    })
+  }
+
+  /**
+   * Run one call from the model. Unknown tools, invalid input and
+   * thrown errors all come back as error results for the model to read.
+   */
+  async execute(name: string, input: unknown, context: ToolContext): Promise<ToolOutcome> {
+    const tool = this.tools.get(name)
+    if (!tool) {
+      return { result: `Unknown tool: ${name}`, isError: true }
+    }
+
+    const parsed = tool.input.safeParse(input)
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => {
+        const path = issue.path.join(".")
+        return path ? `${path}: ${issue.message}` : issue.message
+      })
+      return { result: `Invalid input for ${name}: ${issues.join("; ")}`, isError: true }
+    }
+
+    try {
+      return { result: await tool.execute(parsed.data, context), isError: false }
+    } catch (error) {
+      return { result: errorResult(error), isError: true }
+    }
+  }
+}
+
+/**
+ * A failed call's result: its message, or for errors that carry data
+ * (see createError) an object with the message, error type and data,
+ * so the model and the UI can tell refusals apart.
+ */
+function errorResult(error: unknown): unknown {
+  const { name, message } = error as Error
+  const data = (error as { data?: unknown }).data
+  return data && typeof data === "object" ? { error: message, type: name, ...data } : message
+}
+
+/**
+ * Create a tool registry holding the given tools.
+ */
+export function createToolRegistry(tools: Tool[] = []): ToolRegistry {
+  return new ToolRegistry(tools)
+}
@@ -0,0 +1,332 @@
+/**
+ * Search Tools
+ *
+ * Find files by glob, search their contents by regex, outline the file
+ * tree and look up where symbols are declared. Like the file tools they
+ * stay inside the project root and skip whatever git ignores. Results
+ * come in pages: each carries its total and, when there's more, the
+ * offset to ask for next.
+ */
+
+import { $ } from "bun"
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import { z } from "zod"
+import type { SearchToolsConfig } from "@/infrastructure/config/index.ts"
+import { defineTool, type Tool } from "./registry.ts"
+import { checkIgnored, FileToolError, isBinary, resolvePath, type ProjectPath } from "./files.ts"
+
+/** Files, matches or tree lines per page (default) */
+const DEFAULT_PAGE_SIZE = 100
+
+/** Files larger than this aren't searched */
+const MAX_SEARCH_FILE_BYTES = 1_000_000
+
+/** Longest line returned as is; longer ones are cut */
+const MAX_LINE_LENGTH = 300
+
+/** Most context lines grep returns around a match */
+const MAX_CONTEXT_LINES = 10
+
+/** Levels file_tree shows by default, and at most */
+const DEFAULT_TREE_DEPTH = 3
+const MAX_TREE_DEPTH = 10
+
+export interface SearchToolOptions extends Omit<SearchToolsConfig, "enabled"> {
+  /** Project root; every search stays inside it */
+  root: string
+}
+
+/** A line that matched, with the lines around it when asked for */
+interface Match {
+  path: string
+  line: number
+  text: string
+  before?: string[]
+  after?: string[]
+}
+
+/** Where a page sits in all the results */
+interface Page {
+  total: number
+  offset: number
+  /** Offset of the next page, if there is one */
+  nextOffset?: number
+}
+
+/**
+ * Create the search tools for a project: glob, grep, file_tree and
+ * find_symbol.
+ */
+export function createSearchTools(options: SearchToolOptions): Tool[] {
+  const { root } = options
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE
+  const pathInput = z.string().optional().describe("Directory to search, relative to the project root (default: the root)")
+  const offsetInput = z.number().int().min(0).optional().describe("Where to start, from the last page's nextOffset")
+  const includeInput = z.string().optional().describe('Only search files matching this glob, relative to the searched directory, e.g. "**/*.ts"')
+
+  const glob = defineTool({
+    name: "glob",
+    description:
+      `Find files in the project whose paths match a glob, such as "src/**/*.test.ts". ` +
+      `Paths are relative to the project root. Returns ${pageSize} per page.`,
+    input: z.object({
+      pattern: z.string().min(1).describe("Glob relative to the searched directory: *, **, ?, [abc] and {a,b}"),
+      path: pathInput,
+      offset: offsetInput,
+    }),
+    async execute({ pattern, path: target = ".", offset = 0 }) {
+      const directory = await searchDirectory(root, target)
+      const matcher = new Bun.Glob(pattern)
+      const files = (await projectFiles(root, directory)).filter((file) =>
+        matcher.match(relativeTo(directory, file))
+      )
+      return { pattern, files: files.slice(offset, offset + pageSize), ...page(files.length, offset, pageSize) }
+    },
+  })
+
+  const grep = defineTool({
+    name: "grep",
+    description:
+      "Search the contents of the project's text files with a regular expression (JavaScript syntax). " +
+      `Returns matching lines with their line numbers, ${pageSize} matches per page.`,
+    input: z.object({
+      pattern: z.string().min(1).describe("Regular expression to look for in each line"),
+      path: pathInput,
+      include: includeInput,
+      ignoreCase: z.boolean().optional().describe("Match regardless of case"),
+      context: z.number().int().min(0).max(MAX_CONTEXT_LINES).optional().describe("Lines to show before and after each match"),
+      offset: offsetInput,
+    }),
+    async execute({ pattern, path: target = ".", include, ignoreCase = false, context = 0, offset = 0 }) {
+      const regex = new RegExp(pattern, ignoreCase ? "i" : "")
+      const directory = await searchDirectory(root, target)
+      const { matches, total } = await searchFiles(root, directory, regex, { include, context, offset, pageSize })
+      return { pattern, matches, ...page(total, offset, pageSize) }
+    },
+  })
+
+  const fileTree = defineTool({
+    name: "file_tree",
+    description:
+      "Outline the project's files as an indented tree; directories end with /. " +
+      "Directories deeper than depth show how many files they hold instead. " +
+      `Returns ${pageSize} lines per page.`,
+    input: z.object({
+      path: z.string().optional().describe("Directory to outline, relative to the project root (default: the root)"),
+      depth: z.number().int().min(1).max(MAX_TREE_DEPTH).optional()
+        .describe(`Levels to show (default ${DEFAULT_TREE_DEPTH})`),
+      offset: offsetInput,
+    }),
+    async execute({ path: target = ".", depth = DEFAULT_TREE_DEPTH, offset = 0 }) {
+      const directory = await searchDirectory(root, target)
+      const files = await projectFiles(root, directory)
+      const lines = treeLines(files.map((file) => relativeTo(directory, file)), depth)
+      return {
+        path: directory.relative,
+        tree: lines.slice(offset, offset + pageSize).join("\n"),
+        ...page(lines.length, offset, pageSize),
+      }
+    },
+  })
+
+  const findSymbol = defineTool({
+    name: "find_symbol",
+    description:
+      "Find where a function, class, interface, type, variable or method is declared in the project, " +
+      "by looking for declaration keywords before its name. Returns the declaring lines.",
+    input: z.object({
+      symbol: z.string().regex(/^[A-Za-z_$][\w$]*$/, "must be an identifier").describe("The symbol's name"),
+      path: pathInput,
+      include: includeInput,
+      offset: offsetInput,
+    }),
+    async execute({ symbol, path: target = ".", include, offset = 0 }) {
+      const directory = await searchDirectory(root, target)
+      const regex = declarationPattern(symbol)
+      const { matches, total } = await searchFiles(root, directory, regex, { include, context: 0, offset, pageSize })
+      return { symbol, matches, ...page(total, offset, pageSize) }
+    },
+  })
+
+  return [glob, grep, fileTree, findSymbol]
+}
+
+// ─── Files ──────────────────────────────────────────────────────
+
+/**
+ * Resolve a directory to search, refusing ones outside the project,
+ * ignored or missing.
+ */
+async function searchDirectory(root: string, target: string): Promise<ProjectPath> {
+  const directory = await resolvePath(root, target)
+  await checkIgnored(root, directory)
+  const stat = await fs.stat(directory.absolute).catch(() => null)
+  if (!stat) {
+    throw new FileToolError(`No such directory: ${directory.relative}`, { path: directory.relative, reason: "not_found" })
+  }
+  if (!stat.isDirectory()) {
+    throw new FileToolError(`Not a directory: ${directory.relative}`, { path: directory.relative, reason: "not_a_directory" })
+  }
+  return directory
+}
+
+/**
+ * The files under a directory that git doesn't ignore, relative to the
+ * root and sorted. Outside a git repository, every file but git's own.
+ * Only regular files count: symlinks could lead out of the project.
+ */
+async function projectFiles(root: string, directory: ProjectPath): Promise<string[]> {
+  const pathspec = `:(literal)${directory.relative}`
+  const result = await $`git -C ${root} ls-files -z --cached --others --exclude-standard -- ${pathspec}`
+    .nothrow()
+    .quiet()
+
+  let listed: string[]
+  if (result.exitCode === 0) {
+    listed = result.stdout.toString().split("\0").filter(Boolean)
+  } else {
+    const scan = new Bun.Glob("**").scan({ cwd: directory.absolute, dot: true, followSymlinks: false })
+    listed = []
+    for await (const file of scan) {
+      const relative = path.posix.join(directory.relative, file.split(path.sep).join("/"))
+      if (relative !== ".git" && !relative.startsWith(".git/")) listed.push(relative)
+    }
+  }
+
+  // ls-files also lists tracked files that have since been deleted
+  const regular = await Promise.all(
+    listed.map(async (file) => ((await fs.lstat(path.join(root, file)).catch(() => null))?.isFile() ? file : null))
+  )
+  return regular.filter((file) => file !== null).sort()
+}
+
+/** A root-relative path, relative to a directory instead */
+function relativeTo(directory: ProjectPath, file: string): string {
+  return directory.relative === "." ? file : file.slice(directory.relative.length + 1)
+}
+
+// ─── Content Search ─────────────────────────────────────────────
+
+/**
+ * Search every line of the directory's text files. Counts all matches
+ * but only keeps those on the requested page.
+ */
+async function searchFiles(
+  root: string,
+  directory: ProjectPath,
+  regex: RegExp,
+  options: { include?: string; context: number; offset: number; pageSize: number }
+): Promise<{ matches: Match[]; total: number }> {
+  const { context, offset, pageSize } = options
+  const include = options.include ? new Bun.Glob(options.include) : null
+  const matches: Match[] = []
+  let total = 0
+
+  for (const file of await projectFiles(root, directory)) {
+    if (include && !include.match(relativeTo(directory, file))) continue
+
+    const handle = Bun.file(path.join(root, file))
+    if (handle.size > MAX_SEARCH_FILE_BYTES) continue
+    const bytes = await handle.bytes()
+    if (isBinary(bytes)) continue
+
+    const lines = new TextDecoder().decode(bytes).split("\n")
+    lines.forEach((line, i) => {
+      if (!regex.test(line)) return
+      total++
+      if (total <= offset || total > offset + pageSize) return
+      matches.push({
+        path: file,
+        line: i + 1,
+        text: clip(line),
+        ...(context > 0 && {
+          before: lines.slice(Math.max(0, i - context), i).map(clip),
+          after: lines.slice(i + 1, i + 1 + context).map(clip),
+        }),
+      })
+    })
+  }
+
+  return { matches, total }
+}
+
+/**
+ * Lines that declare `symbol` in the languages projects are usually
+ * written in: TypeScript and JavaScript, Python, Rust, Go and the like.
+ */
+function declarationPattern(symbol: string): RegExp {
+  const name = symbol.replace(/\$/g, "\\$")
+  const keywords = "function\\*?|class|interface|type|enum|namespace|module|const|let|var|def|fn|struct|trait|func(?:\\s*\\([^)]*\\))?"
+  const modifiers = "(?:(?:public|private|protected|static|async|readonly|override|abstract|get|set)\\s+)*"
+  return new RegExp(
+    // A keyword before the name: `export function name`, `def name`, `func (r *T) name`
+    `(?:^|[^\\w$])(?:${keywords})\\s+${name}(?![\\w$])` +
+    // Or a method: the name and its parameters, then the body on the same line
+    `|^\\s*${modifiers}${name}\\s*(?:<[^>]*>)?\\([^)]*\\)\\s*(?::[^{]*)?\\{\\s*$`
+  )
+}
+
+function clip(line: string): string {
+  return line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}…` : line
+}
+
+// ─── Tree ───────────────────────────────────────────────────────
+
+interface TreeDirectory {
+  directories: Map<string, TreeDirectory>
+  files: string[]
+}
+
+/**
+ * An indented outline of these paths, directories first. Directories
+ * below `depth` are collapsed to a count of the files they hold.
+ */
+function treeLines(files: string[], depth: number): string[] {
+  const tree: TreeDirectory = { directories: new Map(), files: [] }
+  for (const file of files) {
+    const parts = file.split("/")
+    let directory = tree
+    for (const part of parts.slice(0, -1)) {
+      let child = directory.directories.get(part)
+      if (!child) {
+        child = { directories: new Map(), files: [] }
+        directory.directories.set(part, child)
+      }
+      directory = child
+    }
+    directory.files.push(parts.at(-1)!)
+  }
+
+  const lines: string[] = []
+  const render = (directory: TreeDirectory, level: number) => {
+    const indent = "  ".repeat(level)
+    for (const [name, child] of [...directory.directories].sort(([a], [b]) => a.localeCompare(b))) {
+      if (level + 1 < depth) {
+        lines.push(`${indent}${name}/`)
+        render(child, level + 1)
+      } else {
+        const count = countFiles(child)
+        lines.push(`${indent}${name}/ (${count} ${count === 1 ? "file" : "files"})`)
+      }
+    }
+    for (const name of [...directory.files].sort((a, b) => a.localeCompare(b))) {
+      lines.push(`${indent}${name}`)
+    }
+  }
+  render(tree, 0)
+  return lines
+}
+
+function countFiles(directory: TreeDirectory): number {
+  let count = directory.files.length
+  for (const child of directory.directories.values()) count += countFiles(child)
+  return count
+}
+
+// ─── Paging ─────────────────────────────────────────────────────
+
+function page(total: number, offset: number, pageSize: number): Page {
+  const next = offset + pageSize
+  return { total, offset, ...(next < total && { nextOffset: next }) }
+}
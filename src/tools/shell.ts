@@ -0,0 +1,384 @@
+/**
+ * Shell Tool
+ *
+ * Lets the agent run commands — tests, builds, greps — inside the
+ * project. Commands run with bash, from the project root or below it,
+ * checked against the project's allow/deny patterns and killed when
+ * they run out of time.
+ */
+
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import { z } from "zod"
+import type { ShellToolConfig } from "@/infrastructure/config/index.ts"
+import { ConfigError, createError } from "@/util/error.ts"
+import { defineTool, type Tool } from "./registry.ts"
+
+const DEFAULT_TIMEOUT_MS = 120_000
+const DEFAULT_MAX_OUTPUT_BYTES = 30_000
+
+/** Grace period between the timeout's SIGTERM and SIGKILL */
+const KILL_AFTER_MS = 2000
+
+/** Exit status reported for commands stopped at the timeout, as coreutils' timeout does */
+const TIMED_OUT_STATUS = 124
+
+/** Output past which a command is killed: nobody reads that much, and it's only kept in part */
+const MAX_STREAMED_BYTES = 10_000_000
+
+/** Operators that start another command */
+const SEPARATORS = ["&&", "||", ";", "|", "&", "\n"]
+
+/**
+ * Thrown when a command is refused by the project's allow/deny patterns.
+ */
+export const CommandDeniedError = createError(
+  "CommandDeniedError",
+  z.object({
+    command: z.string(),
+    pattern: z.string().optional(),
+  })
+)
+
+export interface ShellToolOptions extends Omit<ShellToolConfig, "enabled"> {
+  /** Project root; commands run here or below */
+  root: string
+}
+
+/**
+ * A finished command, as stored in its ToolResult.
+ */
+export interface ShellResult {
+  exitCode: number
+  stdout: string
+  stderr: string
+  /** Set when the command ran out of time and was killed */
+  timedOut?: boolean
+  /** Set when stdout or stderr was cut to maxOutputBytes */
+  truncated?: boolean
+}
+
+type Sandbox = "bubblewrap" | "unshare" | "none"
+
+/** What each sandbox enforces, for the model */
+const SANDBOX_NOTES: Record<Sandbox, string> = {
+  bubblewrap: "Only the project is writable; the rest of the system is read-only and /tmp is private.",
+  unshare: "Runs without network access, but can read and write anywhere the user can.",
+  none: "Isn't sandboxed: cd and absolute paths reach anywhere the user can, so stay in the project.",
+}
+
+/**
+ * Create the shell tool for a project.
+ */
+export function createShellTool(options: ShellToolOptions): Tool<{ command: string; cwd?: string }> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES
+  let sandbox: Promise<Sandbox> | undefined
+
+  const allowed = options.allow?.length ? ` Only these commands are allowed: ${options.allow.join(", ")}.` : ""
+
+  return defineTool({
+    name: "shell",
+    description:
+      "Run a bash command in the project, e.g. to run tests, build or search files. " +
+      "Runs from the project root unless cwd, a directory inside the project, is given. " +
+      `${SANDBOX_NOTES[expectedSandbox(options.isolation ?? "none")]} ` +
+      `Commands are killed after ${timeoutMs / 1000}s. Returns the exit code, stdout and stderr.${allowed}`,
+    input: z.object({
+      command: z.string().min(1).describe("The command line to run with bash"),
+      cwd: z.string().optional().describe("Directory to run in, relative to the project root"),
+    }),
+    async execute({ command, cwd }, context): Promise<ShellResult> {
+      checkCommand(command, options)
+      const directory = await resolveDirectory(options.root, cwd)
+      sandbox ??= findSandbox(options.isolation ?? "none")
+      const prefix = sandboxArgs(await sandbox, options.root, directory)
+
+      if (context.signal?.aborted) throw new Error("Stopped before the command ran")
+      return run(["bash", "-c", command], prefix, directory, timeoutMs, maxOutputBytes, context.signal)
+    },
+  })
+}
+
+// ─── Allow/Deny ─────────────────────────────────────────────────
+
+/**
+ * Refuse a command that matches a deny pattern, or that has a part no
+ * allow pattern covers. With any patterns set, command substitution is
+ * refused too, since the commands inside it can't be checked.
+ */
+export function checkCommand(command: string, patterns: Pick<ShellToolConfig, "allow" | "deny">): void {
+  if (!patterns.allow?.length && !patterns.deny?.length) return
+
+  if (/\$\(|`|[<>]\(/.test(command)) {
+    throw new CommandDeniedError(
+      "Command not allowed: command substitution can't be checked against the allow/deny patterns",
+      { command }
+    )
+  }
+
+  const parts = splitCommand(command)
+
+  for (const part of parts) {
+    const pattern = patterns.deny?.find((p) => matchesPattern(part, p))
+    if (pattern) {
+      throw new CommandDeniedError(`Command not allowed: ${part} (denied by "${pattern}")`, { command, pattern })
+    }
+  }
+
+  if (!patterns.allow?.length) return
+
+  for (const part of parts) {
+    if (!patterns.allow.some((p) => matchesPattern(part, p))) {
+      throw new CommandDeniedError(`Command not allowed: ${part} (not in the allowlist)`, { command })
+    }
+  }
+}
+
+/**
+ * Whether a command matches a pattern: exactly, or up to a space, with
+ * `*` matching anything.
+ */
+function matchesPattern(command: string, pattern: string): boolean {
+  const source = pattern.trim().split("*").map(escapeRegExp).join(".*")
+  return new RegExp(`^${source}(\\s.*)?$`, "s").test(command)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Split a command line at the operators that chain commands, leaving
+ * quoted text alone.
+ */
+function splitCommand(command: string): string[] {
+  const parts: string[] = []
+  let current = ""
+  let quote: string | null = null
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i]!
+    if (quote) {
+      if (char === "\\" && quote === '"') {
+        current += char + (command[++i] ?? "")
+        continue
+      }
+      if (char === quote) quote = null
+      current += char
+      continue
+    }
+    if (char === "'" || char === '"') {
+      quote = char
+      current += char
+      continue
+    }
+    if (char === "\\") {
+      current += char + (command[++i] ?? "")
+      continue
+    }
+
+    // `&` in 2>&1 or &> is a redirection, not a separator
+    const redirect = char === "&" && (/[<>]/.test(command[i - 1] ?? "") || command[i + 1] === ">")
+    const separator = redirect ? undefined : SEPARATORS.find((s) => command.startsWith(s, i))
+    if (separator) {
+      parts.push(current)
+      current = ""
+      i += separator.length - 1
+      continue
+    }
+    current += char
+  }
+  parts.push(current)
+
+  return parts.map((part) => part.trim()).filter(Boolean)
+}
+
+// ─── Working Directory ──────────────────────────────────────────
+
+/**
+ * Resolve the directory to run in, refusing anything outside the root,
+ * including through symlinks.
+ */
+async function resolveDirectory(root: string, cwd = "."): Promise<string> {
+  const realRoot = await fs.realpath(root)
+  const directory = await fs.realpath(path.resolve(realRoot, cwd)).catch(() => {
+    throw new Error(`No such directory: ${cwd}`)
+  })
+
+  const relative = path.relative(realRoot, directory)
+  if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`Can't run commands outside the project: ${cwd}`)
+  }
+  return directory
+}
+
+// ─── Running ────────────────────────────────────────────────────
+
+/**
+ * Pick the sandbox for an isolation setting.
+ */
+async function findSandbox(isolation: NonNullable<ShellToolConfig["isolation"]>): Promise<Sandbox> {
+  switch (isolation) {
+    case "none":
+      return "none"
+    case "bubblewrap":
+    case "unshare": {
+      const bin = isolation === "bubblewrap" ? "bwrap" : "unshare"
+      if (!Bun.which(bin)) {
+        throw new ConfigError(`Shell isolation needs ${bin}, which isn't installed`, {
+          key: "tools.shell.isolation",
+        })
+      }
+      return isolation
+    }
+    case "auto":
+      return expectedSandbox(isolation)
+  }
+}
+
+/**
+ * The sandbox an isolation setting runs commands in; "auto" picks
+ * bubblewrap, then unshare, if installed.
+ */
+function expectedSandbox(isolation: NonNullable<ShellToolConfig["isolation"]>): Sandbox {
+  if (isolation !== "auto") return isolation
+  return Bun.which("bwrap") ? "bubblewrap" : Bun.which("unshare") ? "unshare" : "none"
+}
+
+/**
+ * The command that runs the rest inside a sandbox.
+ */
+function sandboxArgs(sandbox: Sandbox, root: string, directory: string): string[] {
+  switch (sandbox) {
+    case "bubblewrap":
+      // Read-only system, writable project, private /tmp and process tree
+      return [
+        "bwrap",
+        "--ro-bind", "/", "/",
+        "--bind", root, root,
+        "--dev", "/dev",
+        "--proc", "/proc",
+        "--tmpfs", "/tmp",
+        "--unshare-pid",
+        "--die-with-parent",
+        "--chdir", directory,
+      ]
+    case "unshare":
+      // No network, own process tree
+      return ["unshare", "--user", "--map-root-user", "--net", "--pid", "--fork"]
+    case "none":
+      return []
+  }
+}
+
+/**
+ * Run a command to completion, killing it at the timeout, when the
+ * signal aborts or when it floods its output.
+ */
+async function run(
+  command: string[],
+  sandbox: string[],
+  cwd: string,
+  timeoutMs: number,
+  maxOutputBytes: number,
+  signal?: AbortSignal
+): Promise<ShellResult> {
+  // Its own process group, so killing it takes whatever it started too
+  const child = Bun.spawn([...sandbox, ...command], {
+    cwd,
+    stdin: "ignore",
+    stdout: "pipe",
+    stderr: "pipe",
+    detached: true,
+  })
+  let stopped: "timeout" | "abort" | "flood" | null = null
+  let forceKill: ReturnType<typeof setTimeout> | undefined
+
+  const stop = (reason: NonNullable<typeof stopped>, hard: boolean) => {
+    if (stopped) return
+    stopped = reason
+    killGroup(child.pid, hard ? "SIGKILL" : "SIGTERM")
+    if (!hard) forceKill = setTimeout(() => killGroup(child.pid, "SIGKILL"), KILL_AFTER_MS)
+  }
+  const onAbort = () => stop("abort", true)
+  const timer = setTimeout(() => stop("timeout", false), timeoutMs)
+  signal?.addEventListener("abort", onAbort)
+  if (signal?.aborted) onAbort()
+
+  try {
+    const flood = () => stop("flood", true)
+    const [stdout, stderr, exitCode] = await Promise.all([
+      readCapped(child.stdout, maxOutputBytes, flood),
+      readCapped(child.stderr, maxOutputBytes, flood),
+      child.exited,
+    ])
+
+    if (stopped === "abort") throw new Error("Stopped by the user")
+    return {
+      exitCode: stopped === "timeout" ? TIMED_OUT_STATUS : exitCode,
+      stdout: stdout.text,
+      stderr: stderr.text,
+      ...(stopped === "timeout" && { timedOut: true }),
+      ...((stdout.truncated || stderr.truncated) && { truncated: true }),
+    }
+  } finally {
+    clearTimeout(timer)
+    clearTimeout(forceKill)
+    signal?.removeEventListener("abort", onAbort)
+  }
+}
+
+function killGroup(pid: number, signal: NodeJS.Signals): void {
+  try {
+    process.kill(-pid, signal)
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Read a stream, keeping only its start and end, where the useful parts
+ * (what ran, how it ended) usually are. Memory stays within maxBytes
+ * however much the command writes; past MAX_STREAMED_BYTES, `flood`
+ * is called to stop it.
+ */
+async function readCapped(
+  stream: ReadableStream<Uint8Array>,
+  maxBytes: number,
+  flood: () => void
+): Promise<{ text: string; truncated: boolean }> {
+  const headBytes = Math.floor(maxBytes / 2)
+  const tailBytes = maxBytes - headBytes
+  let head = Buffer.alloc(0)
+  let tail = Buffer.alloc(0)
+  let total = 0
+
+  const reader = stream.getReader()
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.length
+
+    let chunk = Buffer.from(value)
+    if (head.length < headBytes) {
+      const taken = chunk.subarray(0, headBytes - head.length)
+      head = Buffer.concat([head, taken])
+      chunk = chunk.subarray(taken.length)
+    }
+    if (chunk.length > 0) {
+      tail = Buffer.concat([tail, chunk])
+      tail = tail.subarray(Math.max(0, tail.length - tailBytes))
+    }
+
+    if (total > MAX_STREAMED_BYTES) {
+      flood()
+      await reader.cancel()
+      break
+    }
+  }
+
+  const omitted = total - head.length - tail.length
+  if (omitted === 0) return { text: Buffer.concat([head, tail]).toString(), truncated: false }
+  return { text: `${head}\n... [${omitted} bytes omitted] ...\n${tail}`, truncated: true }
+}
@@ -0,0 +1,187 @@
+/**
+ * Line diffs in unified format, as `diff -u` and `git diff` print them.
+ */
+
+/** Lines of unchanged text around each change (default) */
+const DEFAULT_CONTEXT = 3
+
+/** Above this many trace cells, a diff gives up and replaces the whole changed region */
+const MAX_TRACE_CELLS = 10_000_000
+
+const NO_NEWLINE = "\\ No newline at end of file"
+
+interface Edit {
+  type: "equal" | "delete" | "insert"
+  line: string
+  /** Lines of the old text before this one */
+  oldIndex: number
+  /** Lines of the new text before this one */
+  newIndex: number
+}
+
+/**
+ * A unified diff from `before` to `after`; empty when they're the same.
+ * A null `before` diffs a new file against /dev/null.
+ */
+export function unifiedDiff(
+  path: string,
+  before: string | null,
+  after: string,
+  context = DEFAULT_CONTEXT
+): string {
+  if (before === after) return ""
+
+  const edits = diffLines(splitLines(before ?? ""), splitLines(after))
+  const hunks = groupHunks(edits, context)
+  if (hunks.length === 0) return ""
+
+  const header = [before === null ? "--- /dev/null" : `--- a/${path}`, `+++ b/${path}`]
+  return [...header, ...hunks.flatMap(formatHunk)].join("\n") + "\n"
+}
+
+/**
+ * Split text into lines. A last line without a newline carries the
+ * marker diff prints for it, so it differs from the same line with one.
+ */
+function splitLines(text: string): string[] {
+  if (text === "") return []
+  const lines = text.split("\n")
+  if (lines[lines.length - 1] === "") {
+    lines.pop()
+  } else {
+    lines[lines.length - 1] += `\n${NO_NEWLINE}`
+  }
+  return lines
+}
+
+/**
+ * The shortest edit script between two line lists (Myers' algorithm),
+ * after setting aside the lines they start and end with in common.
+ */
+function diffLines(a: string[], b: string[]): Edit[] {
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const middle = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix))
+  const edits: Edit[] = []
+  let oldIndex = 0
+  let newIndex = 0
+  const push = (type: Edit["type"], line: string) => {
+    edits.push({ type, line, oldIndex, newIndex })
+    if (type !== "insert") oldIndex++
+    if (type !== "delete") newIndex++
+  }
+
+  for (const line of a.slice(0, prefix)) push("equal", line)
+  for (const { type, line } of middle) push(type, line)
+  for (const line of a.slice(a.length - suffix)) push("equal", line)
+  return edits
+}
+
+function myers(a: string[], b: string[]): Array<Pick<Edit, "type" | "line">> {
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  const trace: Int32Array[] = []
+
+  // Too different to trace affordably: replace the region outright
+  const replace = () => [
+    ...a.map((line) => ({ type: "delete" as const, line })),
+    ...b.map((line) => ({ type: "insert" as const, line })),
+  ]
+
+  for (let d = 0; d <= max; d++) {
+    if ((d + 1) * v.length > MAX_TRACE_CELLS) return replace()
+    trace.push(v.slice())
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+        ? v[offset + k + 1]!
+        : v[offset + k - 1]! + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+
+      if (x >= n && y >= m) return backtrack(a, b, trace, offset)
+    }
+  }
+  return replace()
+}
+
+function backtrack(
+  a: string[],
+  b: string[],
+  trace: Int32Array[],
+  offset: number
+): Array<Pick<Edit, "type" | "line">> {
+  const edits: Array<Pick<Edit, "type" | "line">> = []
+  let x = a.length
+  let y = b.length
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d]!
+    const k = x - y
+    const prevK = k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!) ? k + 1 : k - 1
+    const prevX = v[offset + prevK]!
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: "equal", line: a[--x]! })
+      y--
+    }
+    if (d > 0) {
+      if (x === prevX) edits.push({ type: "insert", line: b[--y]! })
+      else edits.push({ type: "delete", line: a[--x]! })
+    }
+  }
+  return edits.reverse()
+}
+
+/**
+ * Group edits into hunks: each run of changes with `context` unchanged
+ * lines either side, merging runs whose context would overlap.
+ */
+function groupHunks(edits: Edit[], context: number): Edit[][] {
+  const changes = edits.flatMap((edit, i) => (edit.type === "equal" ? [] : [i]))
+  const hunks: Edit[][] = []
+
+  let start = -1
+  let end = -1
+  for (const i of changes) {
+    if (start >= 0 && i - context <= end) {
+      end = Math.min(edits.length, i + context + 1)
+      continue
+    }
+    if (start >= 0) hunks.push(edits.slice(start, end))
+    start = Math.max(0, i - context)
+    end = Math.min(edits.length, i + context + 1)
+  }
+  if (start >= 0) hunks.push(edits.slice(start, end))
+  return hunks
+}
+
+function formatHunk(hunk: Edit[]): string[] {
+  const first = hunk[0]!
+  const oldCount = hunk.filter((edit) => edit.type !== "insert").length
+  const newCount = hunk.filter((edit) => edit.type !== "delete").length
+  const range = (index: number, count: number) => `${count === 0 ? index : index + 1},${count}`
+
+  const prefixes = { equal: " ", delete: "-", insert: "+" }
+  return [
+    `@@ -${range(first.oldIndex, oldCount)} +${range(first.newIndex, newCount)} @@`,
+    ...hunk.map((edit) => prefixes[edit.type] + edit.line),
+  ]
+}
@@ -65,3 +65,32 @@ export const StorageError = createError(
     key: z.string().optional(),
   })
 )
+
+// Provider errors — why a model API call failed, so callers can retry,
+// fail over or tell the user what to fix
+const ProviderErrorData = z.object({
+  provider: z.string(),
+  status: z.number().optional(),
+  /** How long the server asked us to wait before retrying */
+  retryAfterMs: z.number().optional(),
+})
+
+export const RateLimitError = createError("RateLimitError", ProviderErrorData)
+
+export const AuthError = createError("AuthError", ProviderErrorData)
+
+export const ContextLengthError = createError("ContextLengthError", ProviderErrorData)
+
+export const ServerError = createError("ServerError", ProviderErrorData)
+
+export const NetworkError = createError("NetworkError", ProviderErrorData)
+
+export const TimeoutError = createError(
+  "TimeoutError",
+  z.object({
+    provider: z.string(),
+    ms: z.number(),
+    /** Waiting for the first chunk, or for the next one mid-stream */
+    stage: z.enum(["start", "idle"]),
+  })
+)
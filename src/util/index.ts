@@ -5,6 +5,13 @@ export {
   ValidationError,
   ConfigError,
   StorageError,
+  RateLimitError,
+  AuthError,
+  ContextLengthError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
 } from "./error.ts"
 export { Log, createLogger } from "./log.ts"
 export { lazy, defer, LazyPromise } from "./lazy.ts"
+export { unifiedDiff } from "./diff.ts"
@@ -13,27 +13,218 @@ import "highlight.js/styles/github-dark.css"
 import { Settings } from "./settings.tsx"
 
 interface Message {
-  role: "user" | "agent" | "system"
+  /** Artifact ID, once stored (agent messages) */
+  id?: string
+  role: "user" | "agent" | "system" | "tool"
   content: string
+  /** Completion status of agent messages */
+  status?: "complete" | "token_limit" | "user_interrupted"
+  /** Tokens and cost of agent messages */
+  usage?: Usage
+  /** What the model thought before answering (agent messages) */
+  reasoning?: string
+  /** Images attached to user messages */
+  images?: Attachment[]
+  /** Answers from several models, until one is kept (agent messages) */
+  comparison?: Comparison
+  /** Other models' answers to the same prompt (agent messages) */
+  alternates?: Alternate[]
+  /** The call and, once it has run, its result (tool messages) */
+  tool?: ToolCall
+}
+
+interface ToolCall {
+  id: string
+  name: string
+  input: unknown
+  result?: unknown
+  isError?: boolean
+  /** Set while the call waits for the user: its input as edited so far, and why it'd be denied */
+  approval?: { input: string; reason: string }
+}
+
+/** A line grep or find_symbol matched */
+interface SearchMatch {
+  path: string
+  line: number
+  text: string
+}
+
+interface Comparison {
+  id: string
+  candidates: Candidate[]
+}
+
+/** One model's answer in a comparison */
+interface Candidate {
+  name: string
+  model: string
+  content: string
+  reasoning?: string
+  status?: Message["status"]
+  usage?: Usage
+  latencyMs?: number
+  error?: string
+  done: boolean
+}
+
+/** A stored answer that wasn't kept */
+interface Alternate {
+  provider: string
+  model: string
+  content: string
+  usage?: Usage
+  latencyMs: number
+  error?: string
+}
+
+interface Attachment {
+  mediaType: string
+  name?: string
+  /** Data URL, or the blob URL of a stored attachment */
+  src: string
+  /** Base64 bytes, until the attachment has been sent */
+  data?: string
+}
+
+/** Image types the server accepts */
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"]
+
+/** Read image files as attachments, skipping anything that isn't an image */
+function readImages(files: Iterable<File>): Promise<Attachment[]> {
+  const images = [...files].filter(file => IMAGE_TYPES.includes(file.type))
+  return Promise.all(images.map(file => new Promise<Attachment>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      const src = reader.result as string
+      resolve({ mediaType: file.type, name: file.name || undefined, src, data: src.split(",")[1] })
+    }
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })))
+}
+
+interface Usage {
+  promptTokens: number
+  completionTokens: number
+  cost?: number
 }
 
 interface SessionInfo {
   id: string
   title: string
   updatedAt: string
+  metadata?: { usage?: Usage }
+}
+
+/** "1,234 in · 56 out · $0.0012" */
+function formatUsage(usage: Usage): string {
+  const parts = [
+    `${usage.promptTokens.toLocaleString()} in`,
+    `${usage.completionTokens.toLocaleString()} out`,
+  ]
+  if (usage.cost !== undefined) parts.push(formatCost(usage.cost))
+  return parts.join(" · ")
+}
+
+function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+}
+
+/** "2.4s · 1,234 in · 56 out · $0.0012" */
+function formatAnswerStats(latencyMs?: number, usage?: Usage): string {
+  const parts = []
+  if (latencyMs !== undefined) parts.push(`${(latencyMs / 1000).toFixed(1)}s`)
+  if (usage) parts.push(formatUsage(usage))
+  return parts.join(" · ")
+}
+
+/** A tool call's one-line summary, e.g. "shell: bun test" or "edit_file: src/app.ts" */
+function describeToolCall(tool: ToolCall): string {
+  const input = tool.input as Record<string, unknown> | null
+  const detail =
+    typeof input?.command === "string" ? input.command
+    : typeof input?.pattern === "string" ? input.pattern
+    : typeof input?.symbol === "string" ? input.symbol
+    : typeof input?.path === "string" ? input.path
+    : JSON.stringify(tool.input)
+  return `${tool.name}: ${detail}`
+}
+
+/**
+ * A tool result as text: command output and exit code, file contents,
+ * directory entries, search results, or a refusal's message.
+ */
+function formatToolResult(result: unknown): string {
+  if (typeof result === "string") return result
+  const run = result as { exitCode?: number; stdout?: string; stderr?: string; timedOut?: boolean } | null
+  if (typeof run?.exitCode === "number") {
+    const ending = run.timedOut ? "timed out" : `exit ${run.exitCode}`
+    return [run.stdout, run.stderr, `[${ending}]`].filter(Boolean).join("\n")
+  }
+  const file = result as { error?: string; content?: string; entries?: string[]; diff?: string } | null
+  if (typeof file?.error === "string") return file.error
+  if (typeof file?.content === "string") return file.content
+  if (Array.isArray(file?.entries)) return file.entries.join("\n") || "(empty)"
+  if (file?.diff === "") return "No changes"
+  const search = result as { files?: string[]; tree?: string; matches?: SearchMatch[]; total?: number } | null
+  if (typeof search?.total === "number") {
+    const lines = search.files ?? search.tree?.split("\n")
+      ?? search.matches?.map((match) => `${match.path}:${match.line}: ${match.text}`) ?? []
+    const more = search.total - lines.length
+    return [...lines, ...(more > 0 ? [`(${search.total} in all)`] : [])].join("\n") || "No matches"
+  }
+  return JSON.stringify(result, null, 2)
+}
+
+/** The unified diff a file tool's result carries, if any */
+function toolResultDiff(result: unknown): string | undefined {
+  const diff = (result as { diff?: unknown } | null)?.diff
+  return typeof diff === "string" && diff !== "" ? diff : undefined
+}
+
+/** Class for one line of a unified diff */
+function diffLineClass(line: string): string {
+  if (line.startsWith("@@")) return "diff-hunk"
+  if (line.startsWith("+++") || line.startsWith("---")) return "diff-file"
+  if (line.startsWith("+")) return "diff-added"
+  if (line.startsWith("-")) return "diff-removed"
+  return "diff-context"
+}
+
+/** Apply a compare_* SSE event to the candidate it names */
+function applyCompareEvent(
+  comparison: Comparison,
+  event: { type: string; index: number; content?: string } & Partial<Candidate>
+): Comparison {
+  const candidates = comparison.candidates.map((candidate, i) => {
+    if (i !== event.index) return candidate
+    if (event.type === "compare_chunk") {
+      return { ...candidate, content: candidate.content + event.content }
+    }
+    if (event.type === "compare_reasoning") {
+      return { ...candidate, reasoning: (candidate.reasoning ?? "") + event.content }
+    }
+    const { status, usage, latencyMs, error } = event
+    return { ...candidate, status, usage, latencyMs, error, done: true }
+  })
+  return { ...comparison, candidates }
 }
 
 export function Dialogue() {
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState("")
+  const [pendingImages, setPendingImages] = useState<Attachment[]>([])
   const [isStreaming, setIsStreaming] = useState(false)
   const [status, setStatus] = useState("")
   const [settingsOpen, setSettingsOpen] = useState(false)
   const [sessionId, setSessionId] = useState<string | null>(null)
+  const [sessionUsage, setSessionUsage] = useState<Usage | null>(null)
   const [sessionPickerOpen, setSessionPickerOpen] = useState(false)
   const [availableSessions, setAvailableSessions] = useState<SessionInfo[]>([])
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
 
   // Auto-scroll to bottom when messages change
   useEffect(() => {
@@ -48,15 +239,138 @@ export function Dialogue() {
     }
   }, [input])
 
-  async function sendMessage(text: string, addUserMessage = true) {
-    if (!text || isStreaming) return
+  async function sendMessage(
+    text: string,
+    addUserMessage = true,
+    images: Attachment[] = [],
+    compare = false
+  ) {
+    if ((!text && images.length === 0) || isStreaming) return
 
     if (addUserMessage) {
-      setMessages(prev => [...prev, { role: "user", content: text }])
+      setMessages(prev => [...prev, { role: "user", content: text, images }])
+    }
+
+    const body = {
+      message: text,
+      sessionId,
+      images: images
+        .filter(image => image.data)
+        .map(({ data, mediaType, name }) => ({ data, mediaType, name })),
+    }
+
+    // Add empty agent message to update
+    await streamResponse(compare ? "/api/chat/compare" : "/api/chat", body, { content: "" }, () =>
+      setMessages(prev => [...prev, { role: "agent", content: "" }])
+    )
+  }
+
+  // Resume the last (truncated) agent message, appending to it
+  async function continueMessage() {
+    const last = messages[messages.length - 1]
+    if (isStreaming || !sessionId || last?.role !== "agent") return
+
+    await streamResponse("/api/chat/continue", { sessionId, artifactId: last.id }, last)
+  }
+
+  // Keep one answer of the last comparison; the server stores the rest as alternates
+  async function keepCandidate(index: number) {
+    const comparison = messages[messages.length - 1]?.comparison
+    const chosen = comparison?.candidates[index]
+    if (isStreaming || !sessionId || !comparison || !chosen) return
+
+    try {
+      const response = await fetch("/api/chat/compare/keep", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, comparisonId: comparison.id, index }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error ?? `HTTP ${response.status}`)
+
+      setMessages(prev => [
+        ...prev.slice(0, -1),
+        {
+          id: data.id,
+          role: "agent",
+          content: chosen.content,
+          reasoning: chosen.reasoning,
+          status: data.status,
+          usage: data.usage,
+          alternates: data.alternates,
+        },
+      ])
+      setStatus(`Kept ${chosen.name} (${chosen.model})`)
+    } catch (err) {
+      setStatus(`Couldn't keep answer: ${(err as Error).message}`)
+    }
+  }
+
+  function updateToolCall(id: string, update: Partial<ToolCall>) {
+    setMessages(prev => prev.map(m => m.tool && m.tool.id === id ? { ...m, tool: { ...m.tool, ...update } } : m))
+  }
+
+  // Answer a tool call waiting for approval; the paused chat stream then carries on
+  async function answerToolCall(tool: ToolCall, decision: "approve" | "deny") {
+    if (!sessionId || !tool.approval) return
+
+    const { input, reason } = tool.approval
+    let body: Record<string, unknown> = { sessionId, toolUseId: tool.id, decision, reason }
+    if (decision === "approve" && input !== JSON.stringify(tool.input, null, 2)) {
+      try {
+        body = { ...body, decision: "edit", input: JSON.parse(input) }
+      } catch {
+        setStatus("The edited input isn't valid JSON")
+        return
+      }
+    }
+
+    try {
+      const response = await fetch("/api/chat/tools/approve", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error ?? `HTTP ${response.status}`)
+
+      updateToolCall(tool.id, { approval: undefined })
+      setStatus(decision === "approve" ? `Running ${tool.name}...` : "Thinking...")
+    } catch (err) {
+      setStatus(`Couldn't answer ${tool.name}: ${(err as Error).message}`)
     }
+  }
+
+  /**
+   * POST to a streaming chat endpoint and render its SSE events into the
+   * last agent message, appending to `base`.
+   */
+  async function streamResponse(
+    url: string,
+    body: Record<string, unknown>,
+    base: Pick<Message, "content" | "reasoning">,
+    onStart?: () => void
+  ) {
     setIsStreaming(true)
     setStatus("Thinking...")
 
+    const abort = new AbortController()
+    abortRef.current = abort
+
+    // After a tool call, the agent's next words start a new message
+    function updateLastAgent(update: Partial<Message>) {
+      setMessages(prev => {
+        const updated = [...prev]
+        const last = updated[updated.length - 1]
+        if (last?.role === "agent") {
+          updated[updated.length - 1] = { ...last, ...update }
+        } else if (last?.role === "tool") {
+          updated.push({ role: "agent", content: "", ...update })
+        }
+        return updated
+      })
+    }
+
     try {
       // Call backend API with session ID
       const headers: Record<string, string> = { "Content-Type": "application/json" }
@@ -64,10 +378,11 @@ export function Dialogue() {
         headers["X-Session-ID"] = sessionId
       }
 
-      const response = await fetch("/api/chat", {
+      const response = await fetch(url, {
         method: "POST",
         headers,
-        body: JSON.stringify({ message: text, sessionId }),
+        body: JSON.stringify(body),
+        signal: abort.signal,
       })
 
       if (!response.ok) {
@@ -79,10 +394,11 @@ export function Dialogue() {
       if (!reader) throw new Error("No response body")
 
       const decoder = new TextDecoder()
-      let agentContent = ""
+      let agentContent = base.content
+      let agentReasoning = base.reasoning ?? ""
+      let comparison: Comparison | undefined
 
-      // Add empty agent message to update
-      setMessages(prev => [...prev, { role: "agent", content: "" }])
+      onStart?.()
 
       while (true) {
         const { done, value } = await reader.read()
@@ -104,39 +420,101 @@ export function Dialogue() {
                 setSessionId(event.sessionId)
               } else if (event.type === "chunk") {
                 agentContent += event.content
+                updateLastAgent({ content: agentContent })
+              } else if (event.type === "reasoning") {
+                agentReasoning += event.content
+                updateLastAgent({ reasoning: agentReasoning })
+              } else if (event.type === "response") {
+                // Stored artifact — status tells us if it was truncated
+                updateLastAgent({ id: event.id, status: event.status, usage: event.usage })
+              } else if (event.type === "usage") {
+                setStatus(`${event.total} tokens`)
+              } else if (event.type === "session_usage") {
+                setSessionUsage(event.usage)
+              } else if (event.type === "tool_call" || event.type === "tool_approval_required") {
+                agentContent = ""
+                agentReasoning = ""
+                const awaiting = event.type === "tool_approval_required"
+                const tool: ToolCall = {
+                  id: event.id,
+                  name: event.name,
+                  input: event.input,
+                  approval: awaiting ? { input: JSON.stringify(event.input, null, 2), reason: "" } : undefined,
+                }
                 setMessages(prev => {
-                  const updated = [...prev]
-                  const last = updated[updated.length - 1]
-                  if (last?.role === "agent") {
-                    updated[updated.length - 1] = { ...last, content: agentContent }
+                  // An approved call is already on screen; it runs with the input the user approved
+                  if (prev.some(m => m.tool?.id === tool.id)) {
+                    return prev.map(m => m.tool?.id === tool.id ? { ...m, tool } : m)
                   }
-                  return updated
+                  // Drop the placeholder if the agent went straight to the tool
+                  const last = prev[prev.length - 1]
+                  const unused = last?.role === "agent" && !last.content && !last.reasoning
+                  return [...(unused ? prev.slice(0, -1) : prev), { role: "tool", content: "", tool }]
                 })
-              } else if (event.type === "usage") {
-                setStatus(`${event.total} tokens`)
+                setStatus(awaiting ? `${event.name} is waiting for your approval` : `Running ${event.name}...`)
+              } else if (event.type === "tool_result") {
+                updateToolCall(event.id, { result: event.result, isError: event.isError })
+                setStatus("Thinking...")
+              } else if (event.type === "tool_limit") {
+                setMessages(prev => [...prev, {
+                  role: "system",
+                  content: `Stopped after ${event.iterations} tool rounds. Send a message to let the agent carry on.`,
+                }])
+              } else if (event.type === "compare_start") {
+                comparison = {
+                  id: event.comparisonId,
+                  candidates: event.providers.map((p: { name: string; model: string }) => ({
+                    name: p.name,
+                    model: p.model,
+                    content: "",
+                    done: false,
+                  })),
+                }
+                updateLastAgent({ comparison })
+                setStatus(`Comparing ${event.providers.length} models...`)
+              } else if (event.type.startsWith("compare_") && comparison) {
+                comparison = applyCompareEvent(comparison, event)
+                updateLastAgent({ comparison })
+              } else if (event.type === "error") {
+                throw Object.assign(new Error(event.message), { hint: event.hint })
               }
-            } catch {
-              // Ignore parse errors for partial chunks
+            } catch (err) {
+              if (err instanceof SyntaxError) continue // Ignore parse errors for partial chunks
+              throw err
             }
           }
         }
       }
 
-      setStatus("")
+      setStatus(comparison ? "Pick an answer to keep" : "")
     } catch (err) {
+      if (abort.signal.aborted) {
+        // Stopped by the user — the partial response stays on screen
+        updateLastAgent({ status: "user_interrupted" })
+        setStatus("Stopped")
+        return
+      }
+      const { message, hint } = err as Error & { hint?: string }
       setMessages(prev => [
         ...prev,
-        { role: "system", content: `Error: ${(err as Error).message}` }
+        { role: "system", content: hint ? `Error: ${message}\n${hint}` : `Error: ${message}` }
       ])
       setStatus("")
     } finally {
+      abortRef.current = null
       setIsStreaming(false)
     }
   }
 
+  // Stop the in-flight response; the server keeps what was generated
+  function stopGeneration() {
+    abortRef.current?.abort()
+  }
+
   // Start a new session
   async function startNewSession() {
     setSessionId(null)
+    setSessionUsage(null)
     setMessages([])
     setStatus("")
     setMessages([{ role: "system", content: "Started new session." }])
@@ -159,14 +537,25 @@ export function Dialogue() {
   async function resumeSession(id: string) {
     setSessionPickerOpen(false)
     setSessionId(id)
+    setSessionUsage(null)
     setMessages([{ role: "system", content: `Loading session ${id.slice(0, 8)}...` }])
 
     try {
       const response = await fetch(`/api/session/messages?id=${id}`)
       if (response.ok) {
         const data = await response.json()
+        setSessionUsage(data.usage ?? null)
         if (data.messages && data.messages.length > 0) {
-          setMessages(data.messages)
+          setMessages(data.messages.map((msg: Message & {
+            attachments?: Array<{ blobId: string; mediaType: string; name?: string }>
+          }) => ({
+            ...msg,
+            images: msg.attachments?.map(a => ({
+              mediaType: a.mediaType,
+              name: a.name,
+              src: `/api/blob?id=${a.blobId}&type=${encodeURIComponent(a.mediaType)}`,
+            })),
+          })))
         } else {
           setMessages([{ role: "system", content: `Resumed session ${id.slice(0, 8)} (empty)` }])
         }
@@ -194,12 +583,23 @@ export function Dialogue() {
       return true
     }
 
+    if (command === "/compare" || command.startsWith("/compare ")) {
+      const prompt = text.slice("/compare".length).trim()
+      if (prompt) {
+        sendMessage(prompt, true, [], true)
+      } else {
+        setMessages(prev => [...prev, { role: "system", content: "Usage: /compare <message>" }])
+      }
+      return true
+    }
+
     if (command === "/help") {
       setMessages(prev => [...prev, {
         role: "system",
         content: `**Available Commands**
 - \`/new\` — Start a new session
 - \`/resume\` — Resume a previous session
+- \`/compare <message>\` — Ask every model configured under \`compare\` and keep the best answer
 - \`/help\` — Show this help`
       }])
       return true
@@ -211,15 +611,39 @@ export function Dialogue() {
   function handleSubmit(e?: React.FormEvent) {
     e?.preventDefault()
     const text = input.trim()
-    if (!text) return
+    if (!text && pendingImages.length === 0) return
     setInput("")
 
     // Check for slash commands
-    if (text.startsWith("/")) {
+    if (text.startsWith("/") && pendingImages.length === 0) {
       if (handleCommand(text)) return
     }
 
-    sendMessage(text)
+    sendMessage(text, true, pendingImages)
+    setPendingImages([])
+  }
+
+  async function attachImages(files: Iterable<File>) {
+    try {
+      const images = await readImages(files)
+      setPendingImages(prev => [...prev, ...images])
+    } catch (err) {
+      setStatus(`Couldn't read image: ${(err as Error).message}`)
+    }
+  }
+
+  // Screenshots pasted from the clipboard arrive as files
+  function handlePaste(e: React.ClipboardEvent) {
+    const files = [...e.clipboardData.files]
+    if (files.some(file => IMAGE_TYPES.includes(file.type))) {
+      e.preventDefault()
+      attachImages(files)
+    }
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault()
+    attachImages(e.dataTransfer.files)
   }
 
   async function regenerate() {
@@ -241,6 +665,7 @@ export function Dialogue() {
     if (!lastUserMsg) return
 
     const lastUserContent = lastUserMsg.content
+    const lastUserImages = lastUserMsg.images ?? []
 
     // Truncate backend session to remove agent response
     if (sessionId) {
@@ -259,7 +684,7 @@ export function Dialogue() {
     setMessages(prev => prev.slice(0, lastUserIndex + 1))
 
     // Re-send without adding user message again
-    sendMessage(lastUserContent, false)
+    sendMessage(lastUserContent, false, lastUserImages)
   }
 
   function handleKeyDown(e: React.KeyboardEvent) {
@@ -275,6 +700,7 @@ export function Dialogue() {
         <h1>tinker</h1>
         <span className="session-indicator">
           {sessionId ? `session: ${sessionId.slice(0, 8)}` : "new session"}
+          {sessionUsage && ` · ${formatUsage(sessionUsage)}`}
         </span>
         <button className="settings-button" onClick={() => setSettingsOpen(true)}>
           settings
@@ -305,6 +731,8 @@ export function Dialogue() {
                         <span className="session-title">{session.title}</span>
                         <span className="session-meta">
                           {session.id.slice(0, 8)} · {new Date(session.updatedAt).toLocaleDateString()}
+                          {session.metadata?.usage?.cost !== undefined &&
+                            ` · ${formatCost(session.metadata.usage.cost)}`}
                         </span>
                       </button>
                     </li>
@@ -328,20 +756,141 @@ export function Dialogue() {
           messages.map((msg, i) => (
             <div key={i} className={`message ${msg.role}`}>
               <div className="message-role">
-                {msg.role === "user" ? "You" : msg.role === "agent" ? "Agent" : "System"}
-              </div>
-              <div className="message-content">
-                {msg.role === "agent" ? (
-                  <ReactMarkdown
-                    remarkPlugins={[remarkGfm]}
-                    rehypePlugins={[rehypeHighlight]}
-                  >
-                    {msg.content || (isStreaming ? "..." : "")}
-                  </ReactMarkdown>
-                ) : (
-                  msg.content || ""
-                )}
+                {msg.role === "user" ? "You" : msg.role === "agent" ? "Agent" : msg.role === "tool" ? "Tool" : "System"}
               </div>
+              {msg.images && msg.images.length > 0 && (
+                <div className="message-images">
+                  {msg.images.map((image, j) => (
+                    <img key={j} src={image.src} alt={image.name ?? "attached image"} />
+                  ))}
+                </div>
+              )}
+              {msg.role === "agent" && msg.reasoning && (
+                <details className="message-reasoning">
+                  <summary>thinking</summary>
+                  <div className="message-reasoning-content">{msg.reasoning}</div>
+                </details>
+              )}
+              {msg.comparison ? (
+                <div className="comparison">
+                  {msg.comparison.candidates.map((candidate, j) => (
+                    <div key={j} className="comparison-candidate">
+                      <div className="comparison-header">{candidate.name} · {candidate.model}</div>
+                      {candidate.reasoning && (
+                        <details className="message-reasoning">
+                          <summary>thinking</summary>
+                          <div className="message-reasoning-content">{candidate.reasoning}</div>
+                        </details>
+                      )}
+                      <div className="message-content">
+                        {candidate.error ? (
+                          <span className="comparison-error">{candidate.error}</span>
+                        ) : (
+                          <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeHighlight]}>
+                            {candidate.content || (candidate.done ? "" : "...")}
+                          </ReactMarkdown>
+                        )}
+                      </div>
+                      {candidate.done && (
+                        <div className="message-usage">
+                          {formatAnswerStats(candidate.latencyMs, candidate.usage)}
+                        </div>
+                      )}
+                      {i === messages.length - 1 && !isStreaming && !candidate.error && candidate.content && (
+                        <button type="button" className="comparison-keep" onClick={() => keepCandidate(j)}>
+                          keep
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : msg.tool ? (
+                <details className={`tool-call${msg.tool.isError ? " failed" : ""}`} open={msg.tool.approval ? true : undefined}>
+                  <summary>
+                    {describeToolCall(msg.tool)}
+                    {msg.tool.result === undefined && (
+                      <span className="tool-call-running">
+                        {msg.tool.approval ? " · waiting for approval" : " · running..."}
+                      </span>
+                    )}
+                  </summary>
+                  {msg.tool.approval && (
+                    <div className="tool-approval">
+                      <textarea
+                        value={msg.tool.approval.input}
+                        onChange={(e) => updateToolCall(msg.tool!.id, { approval: { ...msg.tool!.approval!, input: e.target.value } })}
+                        rows={Math.min(12, msg.tool.approval.input.split("\n").length)}
+                        spellCheck={false}
+                      />
+                      <input
+                        type="text"
+                        value={msg.tool.approval.reason}
+                        onChange={(e) => updateToolCall(msg.tool!.id, { approval: { ...msg.tool!.approval!, reason: e.target.value } })}
+                        placeholder="reason, if you deny it"
+                      />
+                      <div className="tool-approval-actions">
+                        <button type="button" onClick={() => answerToolCall(msg.tool!, "approve")}>approve</button>
+                        <button type="button" onClick={() => answerToolCall(msg.tool!, "deny")}>deny</button>
+                      </div>
+                    </div>
+                  )}
+                  {msg.tool.result !== undefined && (toolResultDiff(msg.tool.result) ? (
+                    <pre className="tool-call-result tool-call-diff">
+                      {toolResultDiff(msg.tool.result)!.trimEnd().split("\n").map((line, j) => (
+                        <span key={j} className={diffLineClass(line)}>{line}{"\n"}</span>
+                      ))}
+                    </pre>
+                  ) : (
+                    <pre className="tool-call-result">{formatToolResult(msg.tool.result)}</pre>
+                  ))}
+                </details>
+              ) : (
+                <div className="message-content">
+                  {msg.role === "agent" ? (
+                    <ReactMarkdown
+                      remarkPlugins={[remarkGfm]}
+                      rehypePlugins={[rehypeHighlight]}
+                    >
+                      {msg.content || (isStreaming ? "..." : "")}
+                    </ReactMarkdown>
+                  ) : (
+                    msg.content || ""
+                  )}
+                </div>
+              )}
+              {msg.role === "agent" && msg.usage && (
+                <div className="message-usage">{formatUsage(msg.usage)}</div>
+              )}
+              {msg.alternates && msg.alternates.length > 0 && (
+                <details className="message-alternates">
+                  <summary>
+                    {msg.alternates.length} {msg.alternates.length === 1 ? "alternate" : "alternates"}
+                  </summary>
+                  {msg.alternates.map((alternate, j) => (
+                    <div key={j} className="message-alternate">
+                      <div className="comparison-header">
+                        {alternate.provider} · {alternate.model} · {formatAnswerStats(alternate.latencyMs, alternate.usage)}
+                      </div>
+                      <div className="message-content">
+                        {alternate.error ? (
+                          <span className="comparison-error">{alternate.error}</span>
+                        ) : (
+                          <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeHighlight]}>
+                            {alternate.content}
+                          </ReactMarkdown>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </details>
+              )}
+              {msg.role === "agent" && i === messages.length - 1 && !isStreaming &&
+                (msg.status === "token_limit" || msg.status === "user_interrupted") && (
+                <div className="message-truncated">
+                  <span>{msg.status === "token_limit" ? "response hit the token limit" : "response stopped"}</span>
+                  <button type="button" onClick={continueMessage}>continue</button>
+                </div>
+              )}
             </div>
           ))
         )}
@@ -350,12 +899,35 @@ export function Dialogue() {
 
       {status && <div className="status-bar">{status}</div>}
 
-      <form className="input-area" onSubmit={handleSubmit}>
+      {pendingImages.length > 0 && (
+        <div className="pending-images">
+          {pendingImages.map((image, i) => (
+            <div key={i} className="pending-image">
+              <img src={image.src} alt={image.name ?? "attached image"} />
+              <button
+                type="button"
+                onClick={() => setPendingImages(prev => prev.filter((_, j) => j !== i))}
+                title="Remove image"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form
+        className="input-area"
+        onSubmit={handleSubmit}
+        onDragOver={e => e.preventDefault()}
+        onDrop={handleDrop}
+      >
         <textarea
           ref={textareaRef}
           value={input}
           onChange={e => setInput(e.target.value)}
           onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
           placeholder={isStreaming ? "Waiting for response..." : "Type a message... (Enter to send, Shift+Enter for newline)"}
           disabled={isStreaming}
           rows={1}
@@ -368,9 +940,15 @@ export function Dialogue() {
         >
           regen
         </button>
-        <button type="submit" disabled={isStreaming || !input.trim()}>
-          send
-        </button>
+        {isStreaming ? (
+          <button type="button" onClick={stopGeneration} title="Stop generating">
+            stop
+          </button>
+        ) : (
+          <button type="submit" disabled={!input.trim() && pendingImages.length === 0}>
+            send
+          </button>
+        )}
       </form>
     </>
   )
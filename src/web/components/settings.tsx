@@ -7,10 +7,52 @@
 import React, { useState, useEffect, useRef } from "react"
 
 interface ProviderConfig {
-  type: "openrouter" | "local" | "claude-code"
+  type: "openrouter" | "openai-compatible" | "local" | "claude-code" | "fallback"
   model: string
   baseUrl?: string
   apiKey?: string
+  /** openai-compatible only; edited in .tinker/config.json */
+  name?: string
+  headers?: Record<string, string>
+  capabilities?: Record<string, unknown>
+  runtime?: "ollama" | "lmstudio" | "llamacpp" | "other"
+  template?: "chatml" | "llama3" | "mistral" | "gemma"
+  providers?: ProviderConfig[]
+}
+
+interface ProviderKind {
+  type: Exclude<ProviderConfig["type"], "fallback">
+  name: string
+  description: string
+  fields: Array<"baseUrl" | "apiKey" | "runtime">
+  runtimes?: Array<{ runtime: NonNullable<ProviderConfig["runtime"]>; name: string; defaultBaseUrl?: string }>
+}
+
+interface ModelListing {
+  id: string
+  name?: string
+  description?: string
+  capabilities: { maxContextTokens?: number; tools?: boolean; vision?: boolean }
+}
+
+/** A failed request's message and what to do about it */
+interface Problem {
+  message: string
+  hint?: string
+}
+
+type TestResult = { ok: true; latencyMs: number; reply: string } | ({ ok: false; latencyMs: number } & Problem)
+
+/**
+ * Short labels for what a model can do, e.g. ["128k ctx", "tools"].
+ */
+function capabilityBadges(capabilities: ModelListing["capabilities"]): string[] {
+  const badges: string[] = []
+  const tokens = capabilities.maxContextTokens
+  if (tokens) badges.push(tokens >= 1000 ? `${Math.round(tokens / 1024)}k ctx` : `${tokens} ctx`)
+  if (capabilities.tools) badges.push("tools")
+  if (capabilities.vision) badges.push("vision")
+  return badges
 }
 
 interface SettingsProps {
@@ -24,9 +66,19 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
   const [model, setModel] = useState("")
   const [baseUrl, setBaseUrl] = useState("")
   const [apiKey, setApiKey] = useState("")
+  const [runtime, setRuntime] = useState<NonNullable<ProviderConfig["runtime"]>>("other")
+  const [template, setTemplate] = useState<ProviderConfig["template"] | "">("")
+  const [fallbackChain, setFallbackChain] = useState<string[]>([])
+  const [compareModels, setCompareModels] = useState<string[]>([])
+  const [kinds, setKinds] = useState<ProviderKind[]>([])
+  const [models, setModels] = useState<ModelListing[] | null>(null)
+  const [modelsProblem, setModelsProblem] = useState<Problem | null>(null)
+  const [testResult, setTestResult] = useState<TestResult | null>(null)
+  const [testing, setTesting] = useState(false)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const mouseDownOnOverlay = useRef(false)
+  const loadedProvider = useRef<ProviderConfig | null>(null)
 
   // Load settings on mount
   useEffect(() => {
@@ -35,6 +87,102 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
     }
   }, [isOpen])
 
+  // Provider kinds don't change while the server runs
+  useEffect(() => {
+    if (isOpen && kinds.length === 0) {
+      loadKinds()
+    }
+  }, [isOpen])
+
+  // List the chosen provider's models, waiting for typing to settle
+  useEffect(() => {
+    setTestResult(null)
+    if (!isOpen || loading || providerType === "fallback") {
+      setModels(null)
+      setModelsProblem(null)
+      return
+    }
+    const timer = setTimeout(loadModels, 400)
+    return () => clearTimeout(timer)
+  }, [isOpen, loading, providerType, runtime, baseUrl, apiKey])
+
+  const kind = kinds.find(k => k.type === providerType)
+  const runtimeInfo = kind?.runtimes?.find(r => r.runtime === runtime)
+  const selectedModel = models?.find(m => m.id === model)
+
+  async function loadKinds() {
+    try {
+      const res = await fetch("/api/providers")
+      const data = await res.json()
+      setKinds(data.kinds ?? [])
+    } catch (err) {
+      console.error("Failed to load provider kinds:", err)
+    }
+  }
+
+  async function loadModels() {
+    try {
+      const res = await fetch("/api/providers/models", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(buildProvider()),
+      })
+      const data = await res.json()
+      if (res.ok) {
+        setModels(data.models ?? [])
+        setModelsProblem(null)
+      } else {
+        setModels(null)
+        setModelsProblem({ message: data.message, hint: data.hint })
+      }
+    } catch (err) {
+      console.error("Failed to list models:", err)
+      setModels(null)
+      setModelsProblem({ message: (err as Error).message })
+    }
+  }
+
+  async function runTest() {
+    setTesting(true)
+    setTestResult(null)
+    try {
+      const res = await fetch("/api/providers/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(buildProvider()),
+      })
+      setTestResult(await res.json())
+    } catch (err) {
+      setTestResult({ ok: false, latencyMs: 0, message: (err as Error).message })
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  /**
+   * The provider config as edited. Fallback chains are edited in
+   * .tinker/config.json, so they have none.
+   */
+  function buildProvider(): ProviderConfig | undefined {
+    if (providerType === "fallback") return undefined
+    const loaded = loadedProvider.current
+    // Local runtimes need a URL; an empty field means the usual one
+    const url = providerType === "local" ? baseUrl || runtimeInfo?.defaultBaseUrl : baseUrl
+    return {
+      type: providerType,
+      model,
+      ...(url && { baseUrl: url }),
+      ...(apiKey && { apiKey }),
+      ...(providerType === "openai-compatible" && loaded?.type === "openai-compatible" && {
+        name: loaded.name,
+        headers: loaded.headers,
+        capabilities: loaded.capabilities,
+      }),
+      ...(providerType === "local" && { runtime }),
+      ...(providerType === "local" && runtime === "llamacpp" && template && { template }),
+    }
+  }
+
   async function loadSettings() {
     setLoading(true)
     try {
@@ -42,11 +190,18 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
       const data = await res.json()
       setSystemPrompt(data.systemPrompt ?? "")
       if (data.provider) {
+        loadedProvider.current = data.provider
         setProviderType(data.provider.type ?? "local")
         setModel(data.provider.model ?? "")
         setBaseUrl(data.provider.baseUrl ?? "")
         setApiKey(data.provider.apiKey ?? "")
+        setRuntime(data.provider.runtime ?? "other")
+        setTemplate(data.provider.template ?? "")
+        setFallbackChain(
+          (data.provider.providers ?? []).map((p: ProviderConfig) => `${p.type}:${p.model}`)
+        )
       }
+      setCompareModels((data.compare ?? []).map((p: ProviderConfig) => `${p.type}:${p.model}`))
     } catch (err) {
       console.error("Failed to load settings:", err)
     } finally {
@@ -57,12 +212,7 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
   async function saveSettings() {
     setSaving(true)
     try {
-      const provider: ProviderConfig = {
-        type: providerType,
-        model,
-        ...(baseUrl && { baseUrl }),
-        ...(apiKey && { apiKey }),
-      }
+      const provider = buildProvider()
       await fetch("/api/settings", {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
@@ -115,24 +265,65 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
                   value={providerType}
                   onChange={e => setProviderType(e.target.value as ProviderConfig["type"])}
                 >
-                  <option value="local">local (lm studio / ollama)</option>
-                  <option value="openrouter">openrouter</option>
-                  <option value="claude-code">debug server</option>
+                  {kinds.map(k => (
+                    <option key={k.type} value={k.type}>{k.name.toLowerCase()}</option>
+                  ))}
+                  {!kind && providerType !== "fallback" && (
+                    <option value={providerType}>{providerType}</option>
+                  )}
+                  {providerType === "fallback" && (
+                    <option value="fallback">fallback chain</option>
+                  )}
                 </select>
               </div>
 
-              <div className="settings-field">
-                <label htmlFor="model">model</label>
-                <input
-                  type="text"
-                  id="model"
-                  value={model}
-                  onChange={e => setModel(e.target.value)}
-                  placeholder="e.g. qwen/qwen3-coder-30b"
-                />
-              </div>
+              {kind && <div className="settings-hint">{kind.description}</div>}
 
-              {(providerType === "local" || providerType === "openrouter") && (
+              {providerType === "fallback" && (
+                <div className="settings-field">
+                  <label htmlFor="fallback-chain">chain (edit in .tinker/config.json)</label>
+                  <input
+                    type="text"
+                    id="fallback-chain"
+                    value={fallbackChain.join(" → ")}
+                    readOnly
+                  />
+                </div>
+              )}
+
+              {kind?.fields.includes("runtime") && (
+                <div className="settings-field">
+                  <label htmlFor="runtime">runtime</label>
+                  <select
+                    id="runtime"
+                    value={runtime}
+                    onChange={e => setRuntime(e.target.value as NonNullable<ProviderConfig["runtime"]>)}
+                  >
+                    {kind.runtimes?.map(r => (
+                      <option key={r.runtime} value={r.runtime}>{r.name.toLowerCase()}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {providerType === "local" && runtime === "llamacpp" && (
+                <div className="settings-field">
+                  <label htmlFor="template">chat template</label>
+                  <select
+                    id="template"
+                    value={template}
+                    onChange={e => setTemplate(e.target.value as ProviderConfig["template"] | "")}
+                  >
+                    <option value="">auto-detect</option>
+                    <option value="chatml">chatml</option>
+                    <option value="llama3">llama 3</option>
+                    <option value="mistral">mistral instruct</option>
+                    <option value="gemma">gemma</option>
+                  </select>
+                </div>
+              )}
+
+              {kind?.fields.includes("baseUrl") && (
                 <div className="settings-field">
                   <label htmlFor="base-url">base url</label>
                   <input
@@ -140,12 +331,12 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
                     id="base-url"
                     value={baseUrl}
                     onChange={e => setBaseUrl(e.target.value)}
-                    placeholder="e.g. http://192.168.4.247:1234/v1"
+                    placeholder={runtimeInfo?.defaultBaseUrl ?? "e.g. http://192.168.4.247:1234/v1"}
                   />
                 </div>
               )}
 
-              {providerType === "openrouter" && (
+              {kind?.fields.includes("apiKey") && (
                 <div className="settings-field">
                   <label htmlFor="api-key">api key</label>
                   <input
@@ -153,12 +344,100 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
                     id="api-key"
                     value={apiKey}
                     onChange={e => setApiKey(e.target.value)}
-                    placeholder="sk-..."
+                    placeholder={
+                      providerType === "claude-code"
+                        ? "defaults to ANTHROPIC_API_KEY"
+                        : providerType === "openai-compatible"
+                          ? "sk-... or $ENV_VAR (optional)"
+                          : "sk-..."
+                    }
                   />
                 </div>
               )}
+
+              {providerType !== "fallback" && (
+                <div className="settings-field">
+                  <label htmlFor="model">model</label>
+                  {models && models.length > 0 ? (
+                    <select
+                      id="model"
+                      value={model}
+                      onChange={e => setModel(e.target.value)}
+                    >
+                      {!selectedModel && (
+                        <option value={model}>{model ? `${model} (not offered)` : "select a model..."}</option>
+                      )}
+                      {models.map(m => (
+                        <option key={m.id} value={m.id}>
+                          {m.id}
+                          {m.description ? ` (${m.description})` : ""}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      id="model"
+                      value={model}
+                      onChange={e => setModel(e.target.value)}
+                      placeholder="e.g. qwen/qwen3-coder-30b"
+                    />
+                  )}
+                  {selectedModel && (
+                    <div className="model-badges">
+                      {capabilityBadges(selectedModel.capabilities).map(badge => (
+                        <span key={badge} className="model-badge">{badge}</span>
+                      ))}
+                    </div>
+                  )}
+                  {models && model && !selectedModel && (
+                    <div className="settings-hint settings-warning">this provider doesn't list {model}</div>
+                  )}
+                  {modelsProblem && (
+                    <div className="settings-hint settings-warning">
+                      couldn't list models: {modelsProblem.message}
+                      {modelsProblem.hint && <div>{modelsProblem.hint}</div>}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {providerType !== "fallback" && (
+                <div className="settings-test">
+                  <button onClick={runTest} disabled={testing || !model}>
+                    {testing ? "testing..." : "test connection"}
+                  </button>
+                  {testResult && (
+                    testResult.ok ? (
+                      <span className="settings-test-ok">
+                        ok · {testResult.latencyMs}ms · "{testResult.reply}"
+                      </span>
+                    ) : (
+                      <span className="settings-test-failed">
+                        {testResult.message}
+                        {testResult.hint && <div>{testResult.hint}</div>}
+                      </span>
+                    )
+                  )}
+                </div>
+              )}
             </div>
 
+            {compareModels.length > 0 && (
+              <div className="settings-section">
+                <div className="settings-section-title">compare</div>
+                <div className="settings-field">
+                  <label htmlFor="compare-models">providers for /compare (edit in .tinker/config.json)</label>
+                  <input
+                    type="text"
+                    id="compare-models"
+                    value={compareModels.join(", ")}
+                    readOnly
+                  />
+                </div>
+              </div>
+            )}
+
             <div className="settings-section">
               <div className="settings-section-title">system prompt</div>
               <div className="settings-field">
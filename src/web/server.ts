@@ -6,45 +6,43 @@
  * Uses Bun.serve() with HTML imports for React bundling.
  */
 
+import * as path from "node:path"
 import { SessionManager } from "@/application/session-manager.ts"
+import type { SessionEvent, ImageInput, ConversationService } from "@/application/conversation-service.ts"
+import { IMAGE_MEDIA_TYPES } from "@/domain/session.ts"
+import type { Provider } from "@/domain/provider.ts"
 import { ProjectStorage } from "@/infrastructure/persistence/index.ts"
 import { detectProject } from "@/infrastructure/project/index.ts"
 import { getDefaultEmbedder } from "@/infrastructure/embedding/index.ts"
-import { OpenRouterProvider, DebugProvider } from "@/infrastructure/provider/index.ts"
-import { ConfigService, type ProviderConfig } from "@/infrastructure/config/index.ts"
-import type { Provider } from "@/domain/provider.ts"
+import {
+  createProvider,
+  type ProviderOptions,
+  PROVIDER_KINDS,
+  listModels,
+  testConnection,
+} from "@/infrastructure/provider/index.ts"
+import { ConfigService, type ProviderConfig, type LocalRuntime } from "@/infrastructure/config/index.ts"
+import { McpClient, readMcpResources } from "@/infrastructure/mcp/index.ts"
+import {
+  createToolRegistry,
+  createShellTool,
+  createFileTools,
+  createSearchTools,
+  createMcpTools,
+  type ToolApprovalDecision,
+} from "@/tools/index.ts"
+import {
+  RateLimitError,
+  AuthError,
+  ContextLengthError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
+} from "@/util/error.ts"
 
 // Import HTML file — Bun bundles this with React/CSS automatically
 import index from "./index.html"
 
-/**
- * Create a provider instance from config.
- */
-function createProvider(config: ProviderConfig): Provider {
-  switch (config.type) {
-    case "openrouter":
-      return new OpenRouterProvider({
-        apiKey: config.apiKey,
-        model: config.model,
-        baseUrl: config.baseUrl,
-      })
-
-    case "local":
-      return new OpenRouterProvider({
-        apiKey: "not-needed",
-        model: config.model,
-        baseUrl: config.baseUrl,
-      })
-
-    case "claude-code":
-    default:
-      return new DebugProvider({
-        host: "localhost",
-        port: 7331,
-      })
-  }
-}
-
 /**
  * Handle chat request — streams response as SSE.
  *
@@ -57,24 +55,344 @@ function createProvider(config: ProviderConfig): Provider {
  */
 async function handleChat(
   request: Request,
-  sessionManager: SessionManager
+  sessionManager: SessionManager,
+  send: (
+    session: ConversationService,
+    message: string,
+    options: { signal: AbortSignal; images: ImageInput[] }
+  ) => AsyncIterable<SessionEvent> = (session, message, options) => session.send(message, options)
 ): Promise<Response> {
-  const body = await request.json() as { message: string; sessionId?: string }
-  const { message } = body
+  const body = await request.json().catch(() => null) as ChatRequest | null
+  if (!body) {
+    return Response.json({ error: "Request body must be JSON" }, { status: 400 })
+  }
+  const { message = "" } = body
 
   // Get session ID from header or body
   const sessionId = request.headers.get("X-Session-ID") || body.sessionId
 
-  if (!message?.trim()) {
+  if (!message.trim() && !body.images?.length) {
     return new Response(JSON.stringify({ error: "Message required" }), {
       status: 400,
       headers: { "Content-Type": "application/json" },
     })
   }
 
+  const images: ImageInput[] = (body.images ?? []).map((image) => ({
+    data: new Uint8Array(Buffer.from(image.data, "base64")),
+    mediaType: image.mediaType,
+    name: image.name,
+  }))
+
   // Get or create session
   const session = await sessionManager.getOrCreateSession(sessionId)
-  const currentSessionId = session.currentSession?.id
+
+  return streamEvents(request, session.currentSession?.id, (signal) =>
+    send(session, message, { signal, images })
+  )
+}
+
+interface ChatRequest {
+  message: string
+  sessionId?: string
+  /** Base64-encoded image attachments */
+  images?: Array<{ data: string; mediaType: ImageInput["mediaType"]; name?: string }>
+}
+
+/**
+ * Handle compare request — sends the message to several providers and
+ * streams their answers side by side. Only the configured compare
+ * providers are used: a request can't point the server, and the keys
+ * it holds, at providers of its own.
+ */
+async function handleCompare(
+  request: Request,
+  sessionManager: SessionManager,
+  configs: ProviderConfig[],
+  options: ProviderOptions
+): Promise<Response> {
+  if (configs.length < 2) {
+    return Response.json(
+      { error: "Configure at least two providers under \"compare\" in .tinker/config.json" },
+      { status: 400 }
+    )
+  }
+
+  let providers: Provider[]
+  try {
+    providers = await Promise.all(configs.map((config) => createProvider(config, options)))
+  } catch (err) {
+    return Response.json({ error: (err as Error).message }, { status: 400 })
+  }
+  return handleChat(request, sessionManager, (session, message, options) =>
+    session.compare(message, providers, options)
+  )
+}
+
+/**
+ * Handle keep request — stores one answer of the latest comparison as
+ * the agent response, with the others as its alternates.
+ */
+async function handleKeep(
+  request: Request,
+  sessionManager: SessionManager
+): Promise<Response> {
+  const body = await request.json() as { sessionId?: string; comparisonId?: string; index?: number }
+  const sessionId = request.headers.get("X-Session-ID") || body.sessionId
+
+  if (!sessionId || !body.comparisonId || typeof body.index !== "number") {
+    return Response.json({ error: "Missing sessionId, comparisonId or index" }, { status: 400 })
+  }
+
+  const session = await sessionManager.getSession(sessionId)
+  if (!session) {
+    return Response.json({ error: "Session not found" }, { status: 404 })
+  }
+
+  try {
+    const artifact = await session.keepCandidate(body.comparisonId, body.index)
+    return Response.json({
+      id: artifact.id,
+      status: artifact.status,
+      usage: artifact.usage,
+      alternates: artifact.alternates,
+    })
+  } catch (err) {
+    return Response.json({ error: (err as Error).message }, { status: 409 })
+  }
+}
+
+/**
+ * Handle tool approval — answers a tool call that /api/chat is paused
+ * on. The call then runs as asked, runs with the edited input, or is
+ * stored as denied, and the chat stream carries on.
+ */
+async function handleToolApproval(
+  request: Request,
+  sessionManager: SessionManager
+): Promise<Response> {
+  const body = await request.json() as ToolApprovalRequest
+  const sessionId = request.headers.get("X-Session-ID") || body.sessionId
+
+  if (!sessionId || !body.toolUseId) {
+    return Response.json({ error: "Missing sessionId or toolUseId" }, { status: 400 })
+  }
+
+  let decision: ToolApprovalDecision
+  switch (body.decision) {
+    case "approve":
+      decision = { action: "approve" }
+      break
+    case "edit":
+      if (body.input === undefined) {
+        return Response.json({ error: "Editing a call needs its new input" }, { status: 400 })
+      }
+      decision = { action: "edit", input: body.input }
+      break
+    case "deny":
+      decision = { action: "deny", reason: body.reason?.trim() || undefined }
+      break
+    default:
+      return Response.json({ error: "decision must be approve, edit or deny" }, { status: 400 })
+  }
+
+  const session = await sessionManager.getSession(sessionId)
+  if (!session) {
+    return Response.json({ error: "Session not found" }, { status: 404 })
+  }
+
+  try {
+    session.resolveToolApproval(body.toolUseId, decision)
+    return Response.json({ ok: true })
+  } catch (err) {
+    return Response.json({ error: (err as Error).message }, { status: 409 })
+  }
+}
+
+interface ToolApprovalRequest {
+  sessionId?: string
+  toolUseId?: string
+  decision?: "approve" | "edit" | "deny"
+  /** Replacement input, for "edit" */
+  input?: unknown
+  /** Why the call was denied, stored in its result */
+  reason?: string
+}
+
+/**
+ * Handle continue request — resumes a truncated agent response.
+ * Streams the same SSE events as /api/chat.
+ */
+async function handleContinue(
+  request: Request,
+  sessionManager: SessionManager
+): Promise<Response> {
+  const body = await request.json() as { sessionId?: string; artifactId?: string }
+  const sessionId = request.headers.get("X-Session-ID") || body.sessionId
+
+  if (!sessionId) {
+    return Response.json({ error: "Missing sessionId" }, { status: 400 })
+  }
+
+  const session = await sessionManager.getSession(sessionId)
+  if (!session) {
+    return Response.json({ error: "Session not found" }, { status: 404 })
+  }
+
+  return streamEvents(request, session.currentSession?.id, (signal) =>
+    session.continueResponse(body.artifactId, { signal })
+  )
+}
+
+/**
+ * Refuse a request another site's page could have made: it must be JSON,
+ * which browsers only send cross-origin after a CORS preflight, and come
+ * from a page this server served.
+ */
+function crossSiteError(request: Request): Response | undefined {
+  if (!/^application\/json\b/i.test(request.headers.get("Content-Type") ?? "")) {
+    return Response.json({ error: "Content-Type must be application/json" }, { status: 415 })
+  }
+  if (request.headers.get("Origin") !== new URL(request.url).origin) {
+    return Response.json({ error: "Requests must come from this server's own pages" }, { status: 403 })
+  }
+  return undefined
+}
+
+/**
+ * Why a provider config from a request can't be used, if it can't.
+ */
+function providerConfigError(value: unknown): string | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return "provider must be an object"
+  const config = value as Record<string, unknown>
+
+  const types = [...PROVIDER_KINDS.map((kind) => kind.type), "fallback"]
+  if (!types.includes(config.type as ProviderConfig["type"])) {
+    return `provider.type must be one of ${types.join(", ")}`
+  }
+  if (config.type === "fallback") {
+    if (!Array.isArray(config.providers) || config.providers.length === 0) {
+      return "provider.providers must list at least one provider"
+    }
+    return config.providers.map(providerConfigError).find(Boolean)
+  }
+
+  for (const key of ["model", "baseUrl", "apiKey", "name"]) {
+    if (config[key] !== undefined && typeof config[key] !== "string") return `provider.${key} must be a string`
+  }
+  if (typeof config.model !== "string") return "provider.model is required"
+  if (config.baseUrl === undefined) {
+    if (config.type === "openai-compatible" || config.type === "local") return "provider.baseUrl is required"
+  } else if (!/^https?:\/\//.test(config.baseUrl as string) || !URL.canParse(config.baseUrl as string)) {
+    return "provider.baseUrl must be an http(s) URL"
+  }
+  if (config.type === "openrouter" && !config.apiKey) return "provider.apiKey is required"
+  if (config.type === "local") {
+    const runtimes = PROVIDER_KINDS.find((kind) => kind.type === "local")?.runtimes?.map((r) => r.runtime) ?? []
+    if (!runtimes.includes(config.runtime as LocalRuntime)) {
+      return `provider.runtime must be one of ${runtimes.join(", ")}`
+    }
+  }
+  if (
+    config.headers !== undefined &&
+    (typeof config.headers !== "object" ||
+      config.headers === null ||
+      !Object.values(config.headers).every((header) => typeof header === "string"))
+  ) {
+    return "provider.headers must map header names to strings"
+  }
+  return undefined
+}
+
+/**
+ * Options for building a provider from a request's config. It may read
+ * the server's environment (default API keys, "$NAME" references) only
+ * when it talks to a configured provider's server with that provider's
+ * own credentials; anything else gets no environment, so a request can't
+ * send the server's keys to a host of its choosing.
+ */
+function requestProviderOptions(
+  config: ProviderConfig,
+  configured: ProviderConfig[],
+  options: ProviderOptions
+): ProviderOptions {
+  const stored = configured.some((c) => Bun.deepEquals(serverAndCredentials(c), serverAndCredentials(config)))
+  return stored ? options : { ...options, env: {} }
+}
+
+/**
+ * The parts of a config that decide where credentials go and which.
+ */
+function serverAndCredentials(config: ProviderConfig): unknown {
+  if (config.type === "fallback") return config.providers.map(serverAndCredentials)
+  return {
+    type: config.type,
+    baseUrl: config.baseUrl,
+    apiKey: "apiKey" in config ? config.apiKey : undefined,
+    headers: "headers" in config ? config.headers : undefined,
+  }
+}
+
+/**
+ * Read the provider config a discovery request asks about, or the
+ * response refusing it.
+ */
+async function readProviderConfig(request: Request): Promise<ProviderConfig | Response> {
+  const refused = crossSiteError(request)
+  if (refused) return refused
+
+  const config: unknown = await request.json().catch(() => undefined)
+  const problem = config === undefined ? "Request body must be JSON" : providerConfigError(config)
+  if (problem) return Response.json(errorEvent(new Error(problem)), { status: 400 })
+  return config as ProviderConfig
+}
+
+/**
+ * What the user can do about a failed completion, for typed provider errors.
+ */
+function errorHint(error: Error): string | undefined {
+  if (RateLimitError.is(error)) {
+    const wait = error.data?.retryAfterMs
+    return wait
+      ? `Rate limited — try again in ${Math.ceil(wait / 1000)}s, or pick another model in Settings.`
+      : "Rate limited — wait a moment and try again, or pick another model in Settings."
+  }
+  if (AuthError.is(error)) return "The API key was rejected — check it in Settings or your environment."
+  if (ContextLengthError.is(error)) {
+    return "The conversation is too long for this model — start a new session or pick a model with a larger context window."
+  }
+  if (ServerError.is(error)) return "The provider is having trouble — try again, or pick another model in Settings."
+  if (NetworkError.is(error)) {
+    return "Couldn't reach the provider — check your connection, or that the local model server is running."
+  }
+  if (TimeoutError.is(error)) return "The model stopped responding — try again."
+  return undefined
+}
+
+/**
+ * An SSE error event with a hint when there is one.
+ */
+function errorEvent(error: Error) {
+  return { type: "error", message: error.message, hint: errorHint(error) }
+}
+
+/** SSE comment interval, well inside the server's idle timeout */
+const KEEP_ALIVE_MS = 5000
+
+/**
+ * Stream session events to the client as SSE.
+ *
+ * Generation stops when the client disconnects (e.g. the stop button
+ * aborts its fetch); the partial response is kept as "user_interrupted".
+ */
+function streamEvents(
+  request: Request,
+  currentSessionId: string | undefined,
+  run: (signal: AbortSignal) => AsyncIterable<SessionEvent>
+): Response {
+  // Cancel generation when the client goes away
+  const abort = new AbortController()
+  request.signal.addEventListener("abort", () => abort.abort(), { once: true })
 
   // Create a streaming response
   const stream = new ReadableStream({
@@ -82,21 +400,32 @@ async function handleChat(
       const encoder = new TextEncoder()
 
       function sendEvent(data: unknown) {
+        if (abort.signal.aborted) return // Nobody left to read it
         controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`))
       }
 
+      // Keep quiet stretches, like a long-running tool call, from looking
+      // idle to the server or a proxy, which would drop the stream
+      const keepAlive = setInterval(() => {
+        if (!abort.signal.aborted) controller.enqueue(encoder.encode(": ping\n\n"))
+      }, KEEP_ALIVE_MS)
+
       // Send session ID as first event so client can track it
       if (currentSessionId) {
         sendEvent({ type: "session", sessionId: currentSessionId })
       }
 
       try {
-        for await (const event of session.send(message)) {
+        for await (const event of run(abort.signal)) {
           switch (event.type) {
             case "stream_chunk":
               sendEvent({ type: "chunk", content: event.content })
               break
 
+            case "reasoning_chunk":
+              sendEvent({ type: "reasoning", content: event.content })
+              break
+
             case "stream_end":
               if (event.usage) {
                 sendEvent({
@@ -108,19 +437,91 @@ async function handleChat(
               }
               break
 
+            case "agent_response":
+              sendEvent({
+                type: "response",
+                id: event.artifact.id,
+                status: event.artifact.status,
+                usage: event.artifact.usage,
+              })
+              break
+
+            case "session_usage":
+              sendEvent({ type: "session_usage", usage: event.usage })
+              break
+
+            case "tool_use":
+              sendEvent({
+                type: "tool_call",
+                id: event.artifact.toolUseId,
+                name: event.artifact.toolName,
+                input: event.artifact.input,
+              })
+              break
+
+            case "tool_result":
+              sendEvent({
+                type: "tool_result",
+                id: event.artifact.toolUseId,
+                result: event.artifact.result,
+                isError: event.artifact.isError,
+              })
+              break
+
+            case "tool_limit":
+              sendEvent({ type: "tool_limit", iterations: event.iterations })
+              break
+
+            case "tool_approval_required":
+              sendEvent({
+                type: "tool_approval_required",
+                id: event.toolUseId,
+                name: event.toolName,
+                input: event.input,
+              })
+              break
+
+            case "compare_start":
+              sendEvent({
+                type: "compare_start",
+                comparisonId: event.comparisonId,
+                providers: event.providers.map(({ id, name, model }) => ({ id, name, model })),
+              })
+              break
+
+            case "compare_chunk":
+              sendEvent({ type: "compare_chunk", index: event.index, content: event.content })
+              break
+
+            case "compare_reasoning_chunk":
+              sendEvent({ type: "compare_reasoning", index: event.index, content: event.content })
+              break
+
+            case "compare_end": {
+              const { status, usage, latencyMs, error } = event.candidate
+              sendEvent({ type: "compare_end", index: event.index, status, usage, latencyMs, error })
+              break
+            }
+
             case "error":
-              sendEvent({ type: "error", message: event.error.message })
+              sendEvent(errorEvent(event.error))
               break
           }
         }
 
-        controller.enqueue(encoder.encode("data: [DONE]\n\n"))
+        if (!abort.signal.aborted) {
+          controller.enqueue(encoder.encode("data: [DONE]\n\n"))
+        }
       } catch (err) {
-        sendEvent({ type: "error", message: (err as Error).message })
+        sendEvent(errorEvent(err as Error))
       } finally {
-        controller.close()
+        clearInterval(keepAlive)
+        if (!abort.signal.aborted) controller.close()
       }
     },
+    cancel() {
+      abort.abort()
+    },
   })
 
   const headers: Record<string, string> = {
@@ -158,7 +559,11 @@ async function main() {
   const storage = await ProjectStorage.open(projectRoot)
   const embedder = getDefaultEmbedder()
   let currentProviderConfig = config.provider
-  const provider = createProvider(currentProviderConfig)
+  const compareConfigs = config.compare ?? []
+  const providerOptions: ProviderOptions = { modelCacheDir: path.join(projectRoot, ".tinker", "cache", "models") }
+  // Configs from the project's files, whose credentials requests may reuse
+  const storedConfigs = [config.provider, ...compareConfigs]
+  const provider = await createProvider(currentProviderConfig, providerOptions)
 
   // Cleanup duplicate sessions from storage
   const duplicatesRemoved = await storage.cleanupDuplicateSessions()
@@ -168,6 +573,33 @@ async function main() {
 
   console.log(`Provider: ${provider.info.name} (${provider.info.model})`)
 
+  // MCP servers start with the project; one that fails to start is left out
+  const mcpServers = Object.entries(config.mcp?.servers ?? {}).filter(([, server]) => !server.disabled)
+  const mcpClients = mcpServers.map(([name, server]) => new McpClient({ ...server, name, root: project.root }))
+  const mcpTools = await Promise.all(
+    mcpClients.map((client) =>
+      createMcpTools(client).catch((error: Error) => {
+        console.warn(`[MCP] ${client.name} unavailable: ${error.message}`)
+        return null
+      })
+    )
+  )
+  const resourceClients = mcpClients.filter((_, i) => mcpTools[i] && mcpServers[i]![1].resources !== false)
+
+  // Tools are opt-in per project
+  const shellConfig = config.tools?.shell
+  const filesConfig = config.tools?.files
+  const searchConfig = config.tools?.search
+  const tools = createToolRegistry([
+    ...(shellConfig?.enabled ? [createShellTool({ ...shellConfig, root: project.root })] : []),
+    ...(filesConfig?.enabled ? createFileTools({ ...filesConfig, root: project.root }) : []),
+    ...(searchConfig?.enabled ? createSearchTools({ ...searchConfig, root: project.root }) : []),
+    ...mcpTools.flatMap((serverTools) => serverTools ?? []),
+  ])
+  if (tools.size > 0) {
+    console.log(`Tools: ${tools.list().map((tool) => tool.name).join(", ")}`)
+  }
+
   // Create session manager
   const sessionManager = new SessionManager(
     {
@@ -177,6 +609,10 @@ async function main() {
       systemPrompt: "You are a helpful coding assistant. Be concise and clear.",
       workingDirectory: projectRoot,
       responseReserve: 1024,
+      tools,
+      toolApproval: config.tools?.approval,
+      resources: resourceClients.length > 0 ? () => readMcpResources(resourceClients) : undefined,
+      resourceReserve: config.mcp?.resourceTokens,
     },
     provider
   )
@@ -184,6 +620,8 @@ async function main() {
   // Start server
   const server = Bun.serve({
     port,
+    // Connection tests may run their full 30s; streams send keep-alives
+    idleTimeout: 60,
     routes: {
       // Serve the web UI
       "/": index,
@@ -193,6 +631,22 @@ async function main() {
         POST: (req) => handleChat(req, sessionManager),
       },
 
+      "/api/chat/continue": {
+        POST: (req) => handleContinue(req, sessionManager),
+      },
+
+      "/api/chat/compare": {
+        POST: (req) => handleCompare(req, sessionManager, compareConfigs, providerOptions),
+      },
+
+      "/api/chat/compare/keep": {
+        POST: (req) => handleKeep(req, sessionManager),
+      },
+
+      "/api/chat/tools/approve": {
+        POST: (req) => handleToolApproval(req, sessionManager),
+      },
+
       // Session API
       "/api/session/new": {
         POST: async () => {
@@ -227,13 +681,55 @@ async function main() {
           }
           const artifacts = await storage.getArtifacts(id)
           // Convert to message format for frontend
+          const results = new Map(
+            artifacts.flatMap(a => (a.kind === "tool_result" ? [[a.toolUseId, a] as const] : []))
+          )
           const messages = artifacts
-            .filter(a => a.kind === "user_input" || a.kind === "agent_response")
-            .map(a => ({
+            .filter(a => a.kind === "user_input" || a.kind === "agent_response" || a.kind === "tool_use")
+            .map(a => a.kind === "tool_use" ? {
+              id: a.id,
+              role: "tool",
+              content: "",
+              tool: {
+                id: a.toolUseId,
+                name: a.toolName,
+                input: a.input,
+                result: results.get(a.toolUseId)?.result,
+                isError: results.get(a.toolUseId)?.isError,
+              },
+            } : {
+              id: a.id,
               role: a.kind === "user_input" ? "user" : "agent",
               content: a.content,
-            }))
-          return Response.json({ messages })
+              status: a.kind === "agent_response" ? a.status : undefined,
+              usage: a.kind === "agent_response" ? a.usage : undefined,
+              reasoning: a.kind === "agent_response" ? a.reasoning : undefined,
+              alternates: a.kind === "agent_response" ? a.alternates : undefined,
+              attachments: a.kind === "user_input" ? a.attachments : undefined,
+            })
+          const session = await storage.getSession(id)
+          return Response.json({ messages, usage: session?.metadata?.usage })
+        },
+      },
+
+      // Serve an attachment blob; type is the attachment's media type
+      "/api/blob": {
+        GET: async (req) => {
+          const url = new URL(req.url)
+          const id = url.searchParams.get("id") ?? ""
+          const type = url.searchParams.get("type") ?? ""
+          const data = await storage.getBlob(id)
+          if (!data) {
+            return Response.json({ error: "Blob not found" }, { status: 404 })
+          }
+          return new Response(data, {
+            headers: {
+              "Content-Type": (IMAGE_MEDIA_TYPES as readonly string[]).includes(type)
+                ? type
+                : "application/octet-stream",
+              "Cache-Control": "private, max-age=31536000, immutable",
+            },
+          })
         },
       },
 
@@ -266,28 +762,82 @@ async function main() {
         GET: () => Response.json({
           systemPrompt: sessionManager["config"].systemPrompt,
           provider: currentProviderConfig,
+          compare: compareConfigs,
         }),
         PUT: async (req) => {
-          const body = await req.json() as {
+          const refused = crossSiteError(req)
+          if (refused) return refused
+          const body = await req.json().catch(() => null) as {
             systemPrompt?: string
             provider?: ProviderConfig
+          } | null
+          if (!body) {
+            return Response.json({ error: "Request body must be JSON" }, { status: 400 })
           }
-          if (body.systemPrompt !== undefined) {
-            sessionManager["config"].systemPrompt = body.systemPrompt
+          if (body.systemPrompt !== undefined && typeof body.systemPrompt !== "string") {
+            return Response.json({ error: "systemPrompt must be a string" }, { status: 400 })
           }
+
+          // Switch only once the new provider is built, so a bad config changes nothing
           if (body.provider !== undefined) {
+            const problem = providerConfigError(body.provider)
+            if (problem) {
+              return Response.json({ error: problem }, { status: 400 })
+            }
+            let newProvider: Provider
+            try {
+              newProvider = await createProvider(
+                body.provider,
+                requestProviderOptions(body.provider, storedConfigs, providerOptions)
+              )
+            } catch (err) {
+              return Response.json({ error: (err as Error).message }, { status: 400 })
+            }
             currentProviderConfig = body.provider
-            const newProvider = createProvider(body.provider)
             sessionManager.setProvider(newProvider)
             console.log(`Provider switched to: ${newProvider.info.name} (${newProvider.info.model})`)
           }
+          if (body.systemPrompt !== undefined) {
+            sessionManager["config"].systemPrompt = body.systemPrompt
+          }
           return Response.json({
             systemPrompt: sessionManager["config"].systemPrompt,
             provider: currentProviderConfig,
+            compare: compareConfigs,
           })
         },
       },
 
+      // Provider discovery for the settings dialog
+      "/api/providers": {
+        GET: () => Response.json({ kinds: PROVIDER_KINDS }),
+      },
+
+      // List a provider's models; POST so API keys stay out of URLs
+      "/api/providers/models": {
+        POST: async (req) => {
+          const config = await readProviderConfig(req)
+          if (config instanceof Response) return config
+          try {
+            const options = requestProviderOptions(config, storedConfigs, providerOptions)
+            return Response.json({ models: await listModels(config, options) })
+          } catch (err) {
+            return Response.json(errorEvent(err as Error), { status: 502 })
+          }
+        },
+      },
+
+      // Run a tiny completion to check a config works before saving it
+      "/api/providers/test": {
+        POST: async (req) => {
+          const config = await readProviderConfig(req)
+          if (config instanceof Response) return config
+          const result = await testConnection(config, requestProviderOptions(config, storedConfigs, providerOptions))
+          if (result.ok) return Response.json(result)
+          return Response.json({ ok: false, latencyMs: result.latencyMs, ...errorEvent(result.error) })
+        },
+      },
+
       // Health check
       "/api/health": {
         GET: () => Response.json({ status: "ok" }),
@@ -304,6 +854,7 @@ async function main() {
   // Handle shutdown
   process.on("SIGINT", () => {
     console.log("\nShutting down...")
+    for (const client of mcpClients) void client.close()
     storage.close()
     server.stop()
     process.exit(0)
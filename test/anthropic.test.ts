@@ -0,0 +1,499 @@
+import { test, expect, describe, mock, beforeEach, afterEach } from "bun:test"
+import { AnthropicProvider } from "@/infrastructure/provider/index.ts"
+import type { Context, ContextItem } from "@/domain/context.ts"
+import { createTokenBudget } from "@/domain/context.ts"
+import type { SessionArtifact, UserInput, AgentResponse, ToolUse, ToolResult } from "@/domain/artifact.ts"
+import type { Embedding } from "@/domain/shared.ts"
+import { ConfigError } from "@/util/error.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+const MODEL = "claude-sonnet-4-20250514"
+
+function mockEmbedding(): Embedding {
+  return {
+    vector: Array(384).fill(0),
+    model: "test",
+    dimensions: 384,
+    createdAt: new Date(),
+  }
+}
+
+function base(id: string) {
+  return {
+    id,
+    sessionId: "session-1",
+    tokens: 10,
+    embedding: mockEmbedding(),
+    timestamp: new Date(),
+  }
+}
+
+function userInput(content: string): UserInput {
+  return { ...base("u"), kind: "user_input", content }
+}
+
+function agentResponse(content: string): AgentResponse {
+  return {
+    ...base("a"),
+    kind: "agent_response",
+    content,
+    provider: "anthropic",
+    model: MODEL,
+    status: "complete",
+  }
+}
+
+function toolUse(): ToolUse {
+  return {
+    ...base("tu"),
+    kind: "tool_use",
+    toolUseId: "toolu_1",
+    toolId: "calculator",
+    toolName: "calculator",
+    input: { expression: "2+2" },
+  }
+}
+
+function toolResult(): ToolResult {
+  return {
+    ...base("tr"),
+    kind: "tool_result",
+    toolUseId: "toolu_1",
+    result: "4",
+    isError: false,
+  }
+}
+
+function toItem(artifact: SessionArtifact): ContextItem {
+  return {
+    id: artifact.id,
+    type: "artifact",
+    content: "content" in artifact ? artifact.content : "",
+    tokens: artifact.tokens,
+    priority: "medium",
+    source: { type: "artifact", artifact },
+  }
+}
+
+function mockContext(items: ContextItem[] = [], systemPrompt?: string): Context {
+  return {
+    systemPrompt,
+    items,
+    budget: createTokenBudget({ total: 4096 }),
+    metadata: {
+      artifactsIncluded: items.length,
+      artifactsFiltered: 0,
+      knowledgeIncluded: 0,
+      assembledAt: new Date(),
+    },
+  }
+}
+
+/** Build a Messages API SSE body from a list of events */
+function createSSEResponse(events: Array<Record<string, unknown>>): Response {
+  const body = events
+    .map((e) => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`)
+    .join("")
+  return new Response(body, {
+    status: 200,
+    headers: { "Content-Type": "text/event-stream" },
+  })
+}
+
+function messageStart(inputTokens = 12) {
+  return {
+    type: "message_start",
+    message: {
+      id: "msg_1",
+      type: "message",
+      role: "assistant",
+      model: MODEL,
+      content: [],
+      stop_reason: null,
+      stop_sequence: null,
+      usage: { input_tokens: inputTokens, output_tokens: 1 },
+    },
+  }
+}
+
+function textEvents(text: string[], outputTokens = 7) {
+  return [
+    messageStart(),
+    { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+    ...text.map((t) => ({
+      type: "content_block_delta",
+      index: 0,
+      delta: { type: "text_delta", text: t },
+    })),
+    { type: "content_block_stop", index: 0 },
+    {
+      type: "message_delta",
+      delta: { stop_reason: "end_turn", stop_sequence: null },
+      usage: { output_tokens: outputTokens },
+    },
+    { type: "message_stop" },
+  ]
+}
+
+// ─── Tests ────────────────────────────────────────────────────────
+
+describe("AnthropicProvider", () => {
+  let originalFetch: typeof fetch
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  /** The SDK captures fetch on construction, so mock before creating */
+  function providerWithFetch(
+    handler: (url: string, init?: RequestInit) => Response | Promise<Response>
+  ): AnthropicProvider {
+    globalThis.fetch = mock(async (input: RequestInfo | URL, init?: RequestInit) =>
+      handler(String(input), init)
+    ) as unknown as typeof fetch
+    return new AnthropicProvider({
+      model: MODEL,
+      apiKey: "test-key",
+      retry: { maxAttempts: 1 },
+    })
+  }
+
+  describe("info", () => {
+    test("has correct provider info", () => {
+      const provider = new AnthropicProvider({ model: MODEL, apiKey: "test-key" })
+      expect(provider.info.id).toBe(`anthropic:${MODEL}`)
+      expect(provider.info.name).toContain("Anthropic")
+      expect(provider.info.capabilities.tools).toBe(true)
+      expect(provider.info.capabilities.maxContextTokens).toBe(200000)
+      expect(provider.info.capabilities.maxOutputTokens).toBe(64000)
+    })
+
+    test("uses default output limit for unknown models", () => {
+      const provider = new AnthropicProvider({ model: "claude-future", apiKey: "test-key" })
+      expect(provider.info.capabilities.maxOutputTokens).toBe(8192)
+    })
+  })
+
+  describe("translateArtifactKind", () => {
+    test("maps tool_result to user", () => {
+      const provider = new AnthropicProvider({ model: MODEL, apiKey: "test-key" })
+      expect(provider.translateArtifactKind("tool_result")).toBe("user")
+      expect(provider.translateArtifactKind("agent_response")).toBe("assistant")
+    })
+  })
+
+  describe("complete", () => {
+    test("sends system prompt as top-level param", async () => {
+      let captured: Record<string, unknown> | null = null
+      const provider = providerWithFetch((_url, init) => {
+        captured = JSON.parse(init?.body as string)
+        return createSSEResponse(textEvents(["Hi"]))
+      })
+
+      const context = mockContext([toItem(userInput("Hello"))], "Be brief")
+      for await (const _ of provider.complete(context)) {
+        // consume
+      }
+
+      expect(captured!.model).toBe(MODEL)
+      expect(captured!.stream).toBe(true)
+      expect(captured!.system).toBe("Be brief")
+      expect(captured!.messages).toEqual([
+        { role: "user", content: [{ type: "text", text: "Hello" }] },
+      ])
+    })
+
+    test("maps tool use and results to content blocks", async () => {
+      let captured: Record<string, unknown> | null = null
+      const provider = providerWithFetch((_url, init) => {
+        captured = JSON.parse(init?.body as string)
+        return createSSEResponse(textEvents(["ok"]))
+      })
+
+      const context = mockContext([
+        toItem(userInput("What is 2+2?")),
+        toItem(agentResponse("Let me calculate.")),
+        toItem(toolUse()),
+        toItem(toolResult()),
+      ])
+      for await (const _ of provider.complete(context)) {
+        // consume
+      }
+
+      const messages = captured!.messages as Array<{ role: string; content: unknown[] }>
+      expect(messages).toHaveLength(3)
+      expect(messages[1]!.role).toBe("assistant")
+      expect(messages[1]!.content).toEqual([
+        { type: "text", text: "Let me calculate." },
+        { type: "tool_use", id: "toolu_1", name: "calculator", input: { expression: "2+2" } },
+      ])
+      expect(messages[2]!.role).toBe("user")
+      expect(messages[2]!.content).toEqual([
+        { type: "tool_result", tool_use_id: "toolu_1", content: "4" },
+      ])
+    })
+
+    test("sends attached images as base64 image blocks before the text", async () => {
+      let captured: Record<string, unknown> | null = null
+      const provider = providerWithFetch((_url, init) => {
+        captured = JSON.parse(init?.body as string)
+        return createSSEResponse(textEvents(["A cat"]))
+      })
+
+      const item = toItem(userInput("What is this?"))
+      item.images = [{ mediaType: "image/png", data: "iVBORw0KGgo=" }]
+      for await (const _ of provider.complete(mockContext([item]))) {
+        // consume
+      }
+
+      expect(captured!.messages).toEqual([
+        {
+          role: "user",
+          content: [
+            { type: "image", source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo=" } },
+            { type: "text", text: "What is this?" },
+          ],
+        },
+      ])
+    })
+
+    test("streams text and reports usage", async () => {
+      const provider = providerWithFetch(() =>
+        createSSEResponse(textEvents(["Hello", " world"], 9))
+      )
+
+      const chunks: string[] = []
+      let finalChunk = null
+      for await (const chunk of provider.complete(mockContext([toItem(userInput("Hi"))]))) {
+        chunks.push(chunk.content)
+        if (chunk.done) finalChunk = chunk
+      }
+
+      expect(chunks.join("")).toBe("Hello world")
+      expect(finalChunk?.usage).toEqual({
+        promptTokens: 12,
+        completionTokens: 9,
+        totalTokens: 21,
+      })
+    })
+
+    test("maps stop_reason to finish reason", async () => {
+      const events = textEvents(["Once upon"])
+      events[events.length - 2] = {
+        type: "message_delta",
+        delta: { stop_reason: "max_tokens", stop_sequence: null },
+        usage: { output_tokens: 2 },
+      }
+      const provider = providerWithFetch(() => createSSEResponse(events))
+
+      let finalChunk = null
+      for await (const chunk of provider.complete(mockContext([toItem(userInput("Hi"))]))) {
+        if (chunk.done) finalChunk = chunk
+      }
+
+      expect(finalChunk?.finishReason).toBe("length")
+    })
+
+    test("streams thinking blocks as reasoning when enabled", async () => {
+      let body: Record<string, unknown> = {}
+      globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+        body = JSON.parse(init?.body as string)
+        return createSSEResponse([
+          messageStart(),
+          { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "" } },
+          { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "Let me see." } },
+          { type: "content_block_stop", index: 0 },
+          ...textEvents(["Hi"]).slice(1),
+        ])
+      }) as unknown as typeof fetch
+      const provider = new AnthropicProvider({ model: MODEL, apiKey: "test-key", thinkingBudget: 2048 })
+
+      let content = ""
+      let reasoning = ""
+      for await (const chunk of provider.complete(mockContext([toItem(userInput("Hi"))]), { temperature: 0.2 })) {
+        content += chunk.content
+        reasoning += chunk.reasoning ?? ""
+      }
+
+      expect(body.thinking).toEqual({ type: "enabled", budget_tokens: 2048 })
+      expect(body.temperature).toBeUndefined()
+      expect(reasoning).toBe("Let me see.")
+      expect(content).toBe("Hi")
+    })
+
+    test("keeps signed thinking with the tool call it led to", async () => {
+      globalThis.fetch = mock(async () =>
+        createSSEResponse([
+          messageStart(),
+          { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "", signature: "" } },
+          { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "Need the sum." } },
+          { type: "content_block_delta", index: 0, delta: { type: "signature_delta", signature: "sig-1" } },
+          { type: "content_block_stop", index: 0 },
+          { type: "content_block_start", index: 1, content_block: { type: "redacted_thinking", data: "opaque" } },
+          { type: "content_block_stop", index: 1 },
+          { type: "content_block_start", index: 2, content_block: { type: "tool_use", id: "toolu_1", name: "calculator", input: {} } },
+          { type: "content_block_delta", index: 2, delta: { type: "input_json_delta", partial_json: "{}" } },
+          { type: "content_block_stop", index: 2 },
+          { type: "message_delta", delta: { stop_reason: "tool_use", stop_sequence: null }, usage: { output_tokens: 4 } },
+          { type: "message_stop" },
+        ])
+      ) as unknown as typeof fetch
+      const provider = new AnthropicProvider({ model: MODEL, apiKey: "test-key", thinkingBudget: 2048 })
+
+      let toolChunk = null
+      for await (const chunk of provider.complete(mockContext([toItem(userInput("2+2?"))]))) {
+        if (chunk.toolUse) toolChunk = chunk
+      }
+
+      expect(toolChunk?.toolUse?.reasoningBlocks).toEqual([
+        { type: "thinking", thinking: "Need the sum.", signature: "sig-1" },
+        { type: "redacted_thinking", data: "opaque" },
+      ])
+    })
+
+    test("sends signed thinking back at the start of the turn that called a tool", async () => {
+      let body: Record<string, unknown> = {}
+      globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+        body = JSON.parse(init?.body as string)
+        return createSSEResponse(textEvents(["4"]))
+      }) as unknown as typeof fetch
+      const provider = new AnthropicProvider({ model: MODEL, apiKey: "test-key", thinkingBudget: 2048 })
+      const thinking = { type: "thinking" as const, thinking: "Need the sum.", signature: "sig-1" }
+
+      const context = mockContext([
+        toItem(userInput("What is 2+2?")),
+        toItem(agentResponse("Let me calculate.")),
+        toItem({ ...toolUse(), reasoningBlocks: [thinking] }),
+        toItem(toolResult()),
+      ])
+      for await (const _ of provider.complete(context)) {
+        // consume
+      }
+
+      const messages = body.messages as Array<{ role: string; content: unknown[] }>
+      expect(messages[1]!.content).toEqual([
+        thinking,
+        { type: "text", text: "Let me calculate." },
+        { type: "tool_use", id: "toolu_1", name: "calculator", input: { expression: "2+2" } },
+      ])
+    })
+
+    test("refuses a thinking budget that leaves no room under max_tokens", async () => {
+      globalThis.fetch = mock(async () => createSSEResponse(textEvents(["Hi"]))) as unknown as typeof fetch
+      const provider = new AnthropicProvider({ model: MODEL, apiKey: "test-key", thinkingBudget: 2048 })
+
+      const error = await (async () => {
+        for await (const _ of provider.complete(mockContext([toItem(userInput("Hi"))]), { maxTokens: 16 })) {
+          // consume
+        }
+      })().catch((e: unknown) => e)
+
+      expect(ConfigError.is(error)).toBe(true)
+      expect(globalThis.fetch).not.toHaveBeenCalled()
+    })
+
+    test("accumulates tool_use input deltas", async () => {
+      const provider = providerWithFetch(() =>
+        createSSEResponse([
+          messageStart(),
+          {
+            type: "content_block_start",
+            index: 0,
+            content_block: { type: "tool_use", id: "toolu_9", name: "get_weather", input: {} },
+          },
+          {
+            type: "content_block_delta",
+            index: 0,
+            delta: { type: "input_json_delta", partial_json: '{"city":' },
+          },
+          {
+            type: "content_block_delta",
+            index: 0,
+            delta: { type: "input_json_delta", partial_json: '"NYC"}' },
+          },
+          { type: "content_block_stop", index: 0 },
+          {
+            type: "message_delta",
+            delta: { stop_reason: "tool_use", stop_sequence: null },
+            usage: { output_tokens: 4 },
+          },
+          { type: "message_stop" },
+        ])
+      )
+
+      let toolChunk = null
+      for await (const chunk of provider.complete(mockContext([toItem(userInput("Weather?"))]))) {
+        if (chunk.toolUse) toolChunk = chunk
+      }
+
+      expect(toolChunk?.toolUse).toEqual({
+        id: "toolu_9",
+        name: "get_weather",
+        input: { city: "NYC" },
+      })
+    })
+
+    test("reports malformed tool_use input as an input error instead of failing", async () => {
+      const provider = providerWithFetch(() =>
+        createSSEResponse([
+          messageStart(),
+          { type: "content_block_start", index: 0, content_block: { type: "tool_use", id: "toolu_9", name: "get_weather", input: {} } },
+          { type: "content_block_delta", index: 0, delta: { type: "input_json_delta", partial_json: '{"city":' } },
+          { type: "content_block_stop", index: 0 },
+          { type: "message_delta", delta: { stop_reason: "tool_use", stop_sequence: null }, usage: { output_tokens: 4 } },
+          { type: "message_stop" },
+        ])
+      )
+
+      let toolChunk = null
+      for await (const chunk of provider.complete(mockContext([toItem(userInput("Weather?"))]))) {
+        if (chunk.toolUse) toolChunk = chunk
+      }
+
+      expect(toolChunk?.toolUse).toMatchObject({ id: "toolu_9", name: "get_weather", input: {} })
+      expect(toolChunk?.toolUse?.inputError).toStartWith("Invalid input for get_weather: arguments aren't valid JSON")
+    })
+
+    test("throws on API error", async () => {
+      const provider = providerWithFetch(
+        () =>
+          new Response(
+            JSON.stringify({ type: "error", error: { type: "authentication_error", message: "bad key" } }),
+            { status: 401, headers: { "Content-Type": "application/json" } }
+          )
+      )
+
+      await expect(async () => {
+        for await (const _ of provider.complete(mockContext([toItem(userInput("Hi"))]))) {
+          // consume
+        }
+      }).toThrow("Anthropic API error (401)")
+    })
+  })
+
+  describe("credentials", () => {
+    test("reads ANTHROPIC_API_KEY only from the environment it's given", async () => {
+      const keys: Array<string | null> = []
+      globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+        keys.push(new Headers(init?.headers).get("x-api-key"))
+        return createSSEResponse(textEvents(["Hi"]))
+      }) as unknown as typeof fetch
+      const complete = async (provider: AnthropicProvider) => {
+        for await (const _ of provider.complete(mockContext([toItem(userInput("Hi"))]))) {
+          // consume
+        }
+      }
+
+      await complete(new AnthropicProvider({ model: MODEL, env: { ANTHROPIC_API_KEY: "env-key" } }))
+      expect(keys).toEqual(["env-key"])
+
+      await expect(complete(new AnthropicProvider({ model: MODEL, env: {}, retry: { maxAttempts: 1 } }))).rejects.toThrow()
+      expect(keys).toHaveLength(1)
+    })
+  })
+})
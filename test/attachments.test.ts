@@ -0,0 +1,180 @@
+import { test, expect, beforeEach, afterEach, describe } from "bun:test"
+import {
+  createConversationService,
+  type SessionEvent,
+} from "@/application/conversation-service.ts"
+import { ProjectStorage } from "@/infrastructure/persistence/index.ts"
+import type { Provider, ProviderInfo, StreamChunk } from "@/domain/provider.ts"
+import type { Context } from "@/domain/context.ts"
+import { withImagePlaceholders } from "@/domain/context.ts"
+import type { UserInput } from "@/domain/artifact.ts"
+import type { Embedder } from "@/infrastructure/embedding/types.ts"
+import { DEFAULT_EMBEDDING_DIMENSIONS, type Embedding } from "@/domain/shared.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+function embedding(): Embedding {
+  return {
+    vector: Array(DEFAULT_EMBEDDING_DIMENSIONS).fill(0.1),
+    model: "mock-embedder",
+    dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+    createdAt: new Date(),
+  }
+}
+
+const embedder: Embedder = {
+  name: "mock-embedder",
+  dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+  async embed() {
+    return embedding()
+  },
+}
+
+/** The 8-byte PNG signature stands in for an image */
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+function createProvider(vision: boolean) {
+  const contexts: Context[] = []
+  const info: ProviderInfo = {
+    id: "mock-provider",
+    name: "Mock Provider",
+    model: "mock-model",
+    capabilities: {
+      streaming: true,
+      tools: false,
+      vision,
+      systemPrompt: true,
+      maxContextTokens: 4096,
+      maxOutputTokens: 1024,
+    },
+  }
+  const provider: Provider = {
+    info,
+    async *complete(context: Context): AsyncIterable<StreamChunk> {
+      contexts.push(context)
+      yield { content: "A screenshot.", done: false }
+      yield { content: "", done: true, finishReason: "stop" }
+    },
+    async countTokens(text: string) {
+      return Math.ceil(text.length / 4)
+    },
+    translateArtifactKind: () => "user",
+  }
+  return { provider, contexts }
+}
+
+async function collect(events: AsyncIterable<SessionEvent>): Promise<SessionEvent[]> {
+  const collected: SessionEvent[] = []
+  for await (const event of events) collected.push(event)
+  return collected
+}
+
+let storage: ProjectStorage
+
+beforeEach(async () => {
+  storage = await ProjectStorage.memory()
+})
+
+afterEach(() => {
+  storage.close()
+})
+
+// ─── Blob Storage ─────────────────────────────────────────────────
+
+describe("blob storage", () => {
+  test("stores bytes under their content hash, once", async () => {
+    const id = await storage.putBlob(PNG)
+
+    expect(id).toMatch(/^[0-9a-f]{64}$/)
+    expect(await storage.putBlob(PNG)).toBe(id)
+    expect(await storage.getBlob(id)).toEqual(PNG)
+  })
+
+  test("returns null for unknown or malformed IDs", async () => {
+    expect(await storage.getBlob("0".repeat(64))).toBeNull()
+    expect(await storage.getBlob("../lancedb")).toBeNull()
+  })
+
+  test("persists attachments on user inputs", async () => {
+    const session = await storage.createSession("test-project-attachments", "Images")
+    const blobId = await storage.putBlob(PNG)
+    await storage.addArtifact<UserInput>(session.id, {
+      kind: "user_input",
+      content: "Look",
+      attachments: [{ blobId, mediaType: "image/png", name: "shot.png" }],
+      embedding: embedding(),
+      tokens: 1,
+    })
+
+    const [stored] = await storage.getArtifacts(session.id)
+    expect(stored?.kind === "user_input" && stored.attachments).toEqual([
+      { blobId, mediaType: "image/png", name: "shot.png" },
+    ])
+  })
+})
+
+// ─── ConversationService ──────────────────────────────────────────
+
+describe("sending images", () => {
+  test("stores attachments and loads them into context for vision providers", async () => {
+    const { provider, contexts } = createProvider(true)
+    const service = createConversationService({ projectId: "test-project-attachments", provider, storage, embedder })
+
+    const events = await collect(
+      service.send("What's this?", { images: [{ data: PNG, mediaType: "image/png", name: "shot.png" }] })
+    )
+
+    const input = events.find((e) => e.type === "user_input")
+    const attachment = input?.type === "user_input" ? input.artifact.attachments?.[0] : undefined
+    expect(attachment?.mediaType).toBe("image/png")
+    expect(await storage.getBlob(attachment!.blobId)).toEqual(PNG)
+
+    const item = contexts[0]!.items.find((i) => i.content === "What's this?")
+    expect(item?.images).toEqual([
+      { mediaType: "image/png", name: "shot.png", data: Buffer.from(PNG).toString("base64") },
+    ])
+  })
+
+  test("refuses images when the provider has no vision", async () => {
+    const { provider, contexts } = createProvider(false)
+    const service = createConversationService({ projectId: "test-project-attachments", provider, storage, embedder })
+
+    const events = await collect(service.send("What's this?", { images: [{ data: PNG, mediaType: "image/png" }] }))
+
+    const error = events.find((e) => e.type === "error")
+    expect(error?.type === "error" && error.error.message).toBe("Mock Provider doesn't support image input")
+    expect(contexts).toHaveLength(0)
+    expect(await service.getArtifacts()).toHaveLength(0)
+  })
+
+  test("rejects unsupported image types", async () => {
+    const { provider } = createProvider(true)
+    const service = createConversationService({ projectId: "test-project-attachments", provider, storage, embedder })
+
+    const events = await collect(
+      service.send("Hi", { images: [{ data: PNG, mediaType: "image/tiff" as "image/png" }] })
+    )
+
+    const error = events.find((e) => e.type === "error")
+    expect(error?.type === "error" && error.error.message).toBe("Unsupported image type: image/tiff")
+  })
+})
+
+describe("withImagePlaceholders", () => {
+  test("notes each image after the text", () => {
+    const text = withImagePlaceholders({
+      id: "1",
+      type: "artifact",
+      content: "Look",
+      tokens: 1,
+      priority: "medium",
+      source: { type: "system", name: "test" },
+      images: [{ mediaType: "image/png", data: "", name: "a.png" }, { mediaType: "image/jpeg", data: "" }],
+    })
+
+    expect(text).toBe(
+      "Look\n\n[Image attached: a.png — not shown, this model doesn't support images]" +
+        "\n\n[Image attached: image/jpeg — not shown, this model doesn't support images]"
+    )
+  })
+})
@@ -0,0 +1,145 @@
+import { test, expect, beforeEach, afterEach, describe } from "bun:test"
+import {
+  ConversationService,
+  createConversationService,
+  type SessionEvent,
+} from "@/application/conversation-service.ts"
+import { ProjectStorage } from "@/infrastructure/persistence/index.ts"
+import type { Provider, CompletionOptions, StreamChunk } from "@/domain/provider.ts"
+import type { Context } from "@/domain/context.ts"
+import { createMockEmbedder, lastResponse, mockProviderInfo } from "./helpers.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+/**
+ * Streams words until done or aborted.
+ * `honorSignal` mimics a fetch-based provider that throws on abort.
+ */
+function createWordProvider(words: string[], honorSignal: boolean): Provider {
+  return {
+    info: mockProviderInfo(),
+    async *complete(_context: Context, options?: CompletionOptions): AsyncIterable<StreamChunk> {
+      for (const word of words) {
+        if (honorSignal && options?.signal?.aborted) {
+          throw new DOMException("The operation was aborted.", "AbortError")
+        }
+        yield { content: word, done: false }
+      }
+      yield { content: "", done: true }
+    },
+    async countTokens(text: string): Promise<number> {
+      return Math.ceil(text.length / 4)
+    },
+    translateArtifactKind: () => "user",
+  }
+}
+
+/**
+ * Drive send(), aborting once `abortAfter` chunks have arrived.
+ */
+async function sendAndAbort(service: ConversationService, abortAfter: number) {
+  const abort = new AbortController()
+  const events: SessionEvent[] = []
+  let chunks = 0
+
+  for await (const event of service.send("Tell me a story", { signal: abort.signal })) {
+    events.push(event)
+    if (event.type === "stream_chunk" && ++chunks === abortAfter) {
+      abort.abort()
+    }
+  }
+  return events
+}
+
+// ─── Tests ────────────────────────────────────────────────────────
+
+describe("ConversationService cancellation", () => {
+  let storage: ProjectStorage
+
+  beforeEach(async () => {
+    storage = await ProjectStorage.memory()
+  })
+
+  afterEach(() => {
+    storage.close()
+  })
+
+  function serviceWith(provider: Provider): ConversationService {
+    return createConversationService({
+      projectId: "test-project-cancel",
+      provider,
+      storage,
+      embedder: createMockEmbedder(),
+    })
+  }
+
+  test("stores partial response as user_interrupted when the provider throws on abort", async () => {
+    const service = serviceWith(createWordProvider(["Once ", "upon ", "a ", "time"], true))
+
+    const events = await sendAndAbort(service, 2)
+
+    expect(events.some((e) => e.type === "error")).toBe(false)
+    const response = events.find((e) => e.type === "agent_response")
+    expect(response?.type === "agent_response" && response.artifact.status).toBe("user_interrupted")
+
+    const stored = await lastResponse(service)
+    expect(stored.content).toBe("Once upon ")
+    expect(stored.status).toBe("user_interrupted")
+  })
+
+  test("cuts off providers that ignore the signal", async () => {
+    const service = serviceWith(createWordProvider(["Once ", "upon ", "a ", "time"], false))
+
+    const events = await sendAndAbort(service, 1)
+
+    const chunks = events.filter((e) => e.type === "stream_chunk")
+    expect(chunks).toHaveLength(1)
+
+    const stored = await lastResponse(service)
+    expect(stored.content).toBe("Once ")
+    expect(stored.status).toBe("user_interrupted")
+  })
+
+  test("stores nothing when aborted before any content", async () => {
+    const service = serviceWith(createWordProvider(["Hello"], true))
+    const abort = new AbortController()
+    abort.abort()
+
+    const events: SessionEvent[] = []
+    for await (const event of service.send("Hi", { signal: abort.signal })) {
+      events.push(event)
+    }
+
+    expect(events.map((e) => e.type)).toEqual([
+      "user_input",
+      "context_assembled",
+      "stream_start",
+      "stream_end",
+    ])
+    const artifacts = await service.getArtifacts()
+    expect(artifacts.map((a) => a.kind)).toEqual(["user_input"])
+  })
+
+  test("completes normally without a signal", async () => {
+    const service = serviceWith(createWordProvider(["Hello"], true))
+
+    for await (const _ of service.send("Hi")) {}
+
+    const stored = await lastResponse(service)
+    expect(stored.status).toBe("complete")
+  })
+
+  test("surfaces real provider errors", async () => {
+    const failing: Provider = {
+      ...createWordProvider([], true),
+      async *complete(): AsyncIterable<StreamChunk> {
+        throw new Error("boom")
+      },
+    }
+    const service = serviceWith(failing)
+
+    const events = await sendAndAbort(service, 1)
+    const error = events.find((e) => e.type === "error")
+    expect(error?.type === "error" && error.error.message).toBe("boom")
+  })
+})
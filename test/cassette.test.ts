@@ -0,0 +1,301 @@
+import { test, expect, beforeEach, afterEach, describe } from "bun:test"
+import * as path from "node:path"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import {
+  createRecordingProvider,
+  createReplayProvider,
+  loadCassette,
+  normalizeContext,
+  cassetteKey,
+} from "@/infrastructure/provider/index.ts"
+import {
+  createConversationService,
+  type SessionEvent,
+} from "@/application/conversation-service.ts"
+import { ProjectStorage } from "@/infrastructure/persistence/index.ts"
+import type { Provider, StreamChunk } from "@/domain/provider.ts"
+import type { Context, ContextItem } from "@/domain/context.ts"
+import { createTokenBudget } from "@/domain/context.ts"
+import type { UserInput, ToolUse, ToolResult } from "@/domain/artifact.ts"
+import type { Embedder } from "@/infrastructure/embedding/types.ts"
+import { DEFAULT_EMBEDDING_DIMENSIONS, type Embedding } from "@/domain/shared.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+function embedding(): Embedding {
+  return {
+    vector: Array(DEFAULT_EMBEDDING_DIMENSIONS).fill(0.1),
+    model: "mock-embedder",
+    dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+    createdAt: new Date(),
+  }
+}
+
+const embedder: Embedder = {
+  name: "mock-embedder",
+  dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+  async embed() {
+    return embedding()
+  },
+}
+
+/**
+ * A "live" provider that numbers its replies, so replays are distinguishable.
+ */
+function createCountingProvider() {
+  let calls = 0
+  const provider: Provider = {
+    info: {
+      id: "live:counting",
+      name: "Counting",
+      model: "gpt-4o",
+      capabilities: {
+        streaming: true,
+        tools: false,
+        vision: false,
+        systemPrompt: true,
+        maxContextTokens: 4096,
+        maxOutputTokens: 1024,
+      },
+    },
+    async *complete(): AsyncIterable<StreamChunk> {
+      calls++
+      yield { content: `reply `, done: false }
+      yield { content: `#${calls}`, done: false }
+      yield {
+        content: "",
+        done: true,
+        finishReason: "stop",
+        usage: { promptTokens: 10, completionTokens: 2, totalTokens: 12 },
+      }
+    },
+    async countTokens(text: string) {
+      return text.length
+    },
+    translateArtifactKind: (kind) => kind,
+  }
+  return { provider, calls: () => calls }
+}
+
+function userItem(content: string, overrides: Partial<UserInput> = {}): ContextItem {
+  const artifact: UserInput = {
+    id: `user-${Math.random().toString(36).slice(2)}`,
+    sessionId: "session-1",
+    kind: "user_input",
+    content,
+    tokens: content.length,
+    embedding: embedding(),
+    timestamp: new Date(),
+    ...overrides,
+  }
+  return {
+    id: artifact.id,
+    type: "artifact",
+    content,
+    tokens: artifact.tokens,
+    priority: "medium",
+    source: { type: "artifact", artifact },
+  }
+}
+
+function contextOf(...items: ContextItem[]): Context {
+  return {
+    systemPrompt: "You are helpful.",
+    items,
+    budget: createTokenBudget({ total: 1000 }),
+    metadata: { artifactsIncluded: items.length, artifactsFiltered: 0, knowledgeIncluded: 0, assembledAt: new Date() },
+  }
+}
+
+async function text(stream: AsyncIterable<StreamChunk>): Promise<string> {
+  let content = ""
+  for await (const chunk of stream) content += chunk.content
+  return content
+}
+
+let dir: string
+let cassettePath: string
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "tinker-cassette-"))
+  cassettePath = path.join(dir, "nested", "cassette.json")
+})
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+// ─── Keys ─────────────────────────────────────────────────────────
+
+describe("cassetteKey", () => {
+  test("ignores IDs, artifact metadata, budgets and surrounding whitespace", () => {
+    const a = contextOf(userItem("Hello"))
+    const b = contextOf(userItem("  Hello\r\n", { tokens: 99, timestamp: new Date(0) }))
+    b.budget = createTokenBudget({ total: 50 })
+
+    expect(cassetteKey(normalizeContext(a))).toBe(cassetteKey(normalizeContext(b)))
+  })
+
+  test("masks timestamps and the working directory in content", () => {
+    const at = (time: string) => ({
+      ...contextOf(userItem("Hello")),
+      systemPrompt: `The current time is: ${time}\nYour current working directory is: ${process.cwd()}`,
+    })
+
+    const a = normalizeContext(at("2025-01-01T10:00:00.000Z"))
+    const b = normalizeContext(at("2026-06-30T23:59:59.999Z"))
+
+    expect(a.systemPrompt).toBe("The current time is: <timestamp>\nYour current working directory is: <cwd>")
+    expect(cassetteKey(a)).toBe(cassetteKey(b))
+  })
+
+  test("changes with content, system prompt and options", () => {
+    const base = cassetteKey(normalizeContext(contextOf(userItem("Hello"))))
+
+    expect(cassetteKey(normalizeContext(contextOf(userItem("Goodbye"))))).not.toBe(base)
+    expect(cassetteKey(normalizeContext({ ...contextOf(userItem("Hello")), systemPrompt: "Be terse." }))).not.toBe(base)
+    expect(cassetteKey(normalizeContext(contextOf(userItem("Hello"))), { maxTokens: 10 })).not.toBe(base)
+  })
+
+  test("changes with tool call input and tool result payloads", () => {
+    const artifactItem = (artifact: ToolUse | ToolResult): ContextItem => ({
+      id: artifact.id,
+      type: "artifact",
+      content: "",
+      tokens: 1,
+      priority: "medium",
+      source: { type: "artifact", artifact },
+    })
+    const base = { sessionId: "session-1", tokens: 1, embedding: embedding(), timestamp: new Date() }
+    const key = (input: unknown, result: unknown) =>
+      cassetteKey(
+        normalizeContext(
+          contextOf(
+            artifactItem({ ...base, id: "tu", kind: "tool_use", toolUseId: "c1", toolId: "add", toolName: "add", input }),
+            artifactItem({ ...base, id: "tr", kind: "tool_result", toolUseId: "c1", result, isError: false })
+          )
+        )
+      )
+
+    expect(key({ a: 1 }, 2)).not.toBe(key({ a: 2 }, 2))
+    expect(key({ a: 1 }, 2)).not.toBe(key({ a: 1 }, 3))
+    expect(key({ path: `${process.cwd()}/a.ts` }, 2)).toBe(key({ path: "<cwd>/a.ts" }, 2))
+  })
+
+  test("changes with attached images", () => {
+    const withImage = (data: string) => {
+      const item = userItem("What is this?")
+      item.images = [{ mediaType: "image/png", data }]
+      return cassetteKey(normalizeContext(contextOf(item)))
+    }
+
+    expect(withImage("iVBORw0KGgo=")).not.toBe(withImage("R0lGODlh"))
+    expect(withImage("iVBORw0KGgo=")).not.toBe(cassetteKey(normalizeContext(contextOf(userItem("What is this?")))))
+  })
+})
+
+// ─── Record & Replay ──────────────────────────────────────────────
+
+describe("record and replay", () => {
+  test("records context, options and chunks to the cassette", async () => {
+    const live = createCountingProvider()
+    const recorder = await createRecordingProvider(live.provider, cassettePath)
+
+    expect(await text(recorder.complete(contextOf(userItem("Hello")), { maxTokens: 100 }))).toBe("reply #1")
+
+    const cassette = await loadCassette(cassettePath)
+    expect(cassette.provider.id).toBe("live:counting")
+    expect(cassette.entries).toHaveLength(1)
+    expect(cassette.entries[0]!.context.items[0]).toEqual({ type: "artifact", kind: "user_input", content: "Hello" })
+    expect(cassette.entries[0]!.options).toEqual({ maxTokens: 100 })
+    expect(cassette.entries[0]!.chunks.at(-1)?.usage?.totalTokens).toBe(12)
+  })
+
+  test("replays recorded chunks without calling the live provider", async () => {
+    const live = createCountingProvider()
+    const recorder = await createRecordingProvider(live.provider, cassettePath)
+    await text(recorder.complete(contextOf(userItem("Hello"))))
+
+    const replay = await createReplayProvider(cassettePath)
+    const chunks: StreamChunk[] = []
+    for await (const chunk of replay.complete(contextOf(userItem("Hello")))) chunks.push(chunk)
+
+    expect(chunks.map((c) => c.content).join("")).toBe("reply #1")
+    expect(chunks.at(-1)?.finishReason).toBe("stop")
+    expect(replay.info.id).toBe("live:counting")
+    expect(live.calls()).toBe(1)
+  })
+
+  test("replays identical requests in recorded order, then repeats the last", async () => {
+    const live = createCountingProvider()
+    const recorder = await createRecordingProvider(live.provider, cassettePath)
+    await text(recorder.complete(contextOf(userItem("Again"))))
+    await text(recorder.complete(contextOf(userItem("Again"))))
+
+    const replay = await createReplayProvider(cassettePath)
+    expect(await text(replay.complete(contextOf(userItem("Again"))))).toBe("reply #1")
+    expect(await text(replay.complete(contextOf(userItem("Again"))))).toBe("reply #2")
+    expect(await text(replay.complete(contextOf(userItem("Again"))))).toBe("reply #2")
+  })
+
+  test("fails on unrecorded requests", async () => {
+    const recorder = await createRecordingProvider(createCountingProvider().provider, cassettePath)
+    await text(recorder.complete(contextOf(userItem("Hello"))))
+
+    const replay = await createReplayProvider(cassettePath)
+    await expect(text(replay.complete(contextOf(userItem("Something new"))))).rejects.toThrow(
+      "No cassette entry"
+    )
+  })
+
+  test("appends to an existing cassette", async () => {
+    const first = await createRecordingProvider(createCountingProvider().provider, cassettePath)
+    await text(first.complete(contextOf(userItem("One"))))
+    const second = await createRecordingProvider(createCountingProvider().provider, cassettePath)
+    await text(second.complete(contextOf(userItem("Two"))))
+
+    expect((await loadCassette(cassettePath)).entries).toHaveLength(2)
+  })
+
+  test("doesn't record aborted completions", async () => {
+    const recorder = await createRecordingProvider(createCountingProvider().provider, cassettePath)
+    const controller = new AbortController()
+    controller.abort()
+
+    await text(recorder.complete(contextOf(userItem("Hello")), { signal: controller.signal }))
+
+    expect(await Bun.file(cassettePath).exists()).toBe(false)
+  })
+
+  test("reproduces a ConversationService session offline", async () => {
+    async function runSession(provider: Provider): Promise<string[]> {
+      const storage = await ProjectStorage.memory()
+      try {
+        const service = createConversationService({
+          projectId: "test-project-cassette",
+          provider,
+          storage,
+          embedder,
+          systemPrompt: "You are helpful.",
+        })
+        const replies: string[] = []
+        for (const input of ["Hi", "How are you?"]) {
+          const events: SessionEvent[] = []
+          for await (const event of service.send(input)) events.push(event)
+          const response = events.find((e) => e.type === "agent_response")
+          if (response?.type === "agent_response") replies.push(response.artifact.content)
+        }
+        return replies
+      } finally {
+        storage.close()
+      }
+    }
+
+    const recorded = await runSession(await createRecordingProvider(createCountingProvider().provider, cassettePath))
+    const replayed = await runSession(await createReplayProvider(cassettePath))
+
+    expect(recorded).toEqual(["reply #1", "reply #2"])
+    expect(replayed).toEqual(recorded)
+  })
+})
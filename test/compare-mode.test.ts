@@ -0,0 +1,188 @@
+import { test, expect, beforeEach, afterEach, describe } from "bun:test"
+import {
+  ConversationService,
+  createConversationService,
+  type SessionEvent,
+} from "@/application/conversation-service.ts"
+import { ProjectStorage } from "@/infrastructure/persistence/index.ts"
+import type { Context } from "@/domain/context.ts"
+import type { ModelPricing, Provider, ProviderInfo, StreamChunk } from "@/domain/provider.ts"
+import type { AgentResponse } from "@/domain/artifact.ts"
+import { collect, createMockEmbedder, mockProviderInfo } from "./helpers.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+/** $1 per million prompt tokens, $2 per million completion tokens */
+const pricing: ModelPricing = { prompt: 0.000001, completion: 0.000002 }
+
+function infoFor(id: string, maxContextTokens = 4096): ProviderInfo {
+  return mockProviderInfo(id, { maxContextTokens, pricing })
+}
+
+/**
+ * Streams `reply` in two chunks after `delayMs`, or fails with `error`,
+ * recording the contexts it receives.
+ */
+function createProvider(
+  info: ProviderInfo,
+  script: { reply?: string; error?: string; delayMs?: number }
+): Provider & { contexts: Context[] } {
+  const contexts: Context[] = []
+  return {
+    info,
+    contexts,
+    async *complete(context): AsyncIterable<StreamChunk> {
+      contexts.push(context)
+      await Bun.sleep(script.delayMs ?? 0)
+      if (script.error) throw new Error(script.error)
+      const reply = script.reply ?? ""
+      yield { content: reply.slice(0, 2), done: false }
+      yield { content: reply.slice(2), done: false }
+      yield {
+        content: "",
+        done: true,
+        finishReason: "stop",
+        usage: { promptTokens: 100, completionTokens: 10, totalTokens: 110 },
+      }
+    },
+    async countTokens(text: string) {
+      return Math.ceil(text.length / 4)
+    },
+    translateArtifactKind: () => "user",
+  }
+}
+
+function comparisonOf(events: SessionEvent[]) {
+  const event = events.find((e) => e.type === "comparison")
+  if (event?.type !== "comparison") throw new Error("No comparison event")
+  return event.comparison
+}
+
+// ─── Compare Mode ─────────────────────────────────────────────────
+
+describe("compare mode", () => {
+  let storage: ProjectStorage
+
+  beforeEach(async () => {
+    storage = await ProjectStorage.memory()
+  })
+
+  afterEach(() => {
+    storage.close()
+  })
+
+  function serviceWith(provider: Provider): ConversationService {
+    return createConversationService({
+      projectId: "test-project-compare",
+      provider,
+      storage,
+      embedder: createMockEmbedder(),
+    })
+  }
+
+  test("streams every provider's answer, tagged by index", async () => {
+    const slow = createProvider(infoFor("slow"), { reply: "Slow answer", delayMs: 20 })
+    const fast = createProvider(infoFor("fast"), { reply: "Fast answer" })
+    const service = serviceWith(slow)
+
+    const events = await collect(service.compare("Hello", [slow, fast]))
+
+    const chunks = events.flatMap((e) => (e.type === "compare_chunk" ? [e] : []))
+    expect(chunks.map((c) => c.index)).toEqual([1, 1, 0, 0])
+    expect(events.find((e) => e.type === "compare_start")).toMatchObject({
+      providers: [slow.info, fast.info],
+    })
+
+    const { candidates } = comparisonOf(events)
+    expect(candidates.map((c) => c.content)).toEqual(["Slow answer", "Fast answer"])
+    expect(candidates[0]!.latencyMs).toBeGreaterThanOrEqual(15)
+    expect(candidates[1]!.usage?.cost).toBeCloseTo(0.00012)
+  })
+
+  test("sends one context, sized for the smallest window", async () => {
+    const big = createProvider(infoFor("big", 100_000), { reply: "A" })
+    const small = createProvider(infoFor("small", 2048), { reply: "B" })
+    const service = serviceWith(big)
+
+    await collect(service.compare("Hello", [big, small]))
+
+    expect(big.contexts[0]).toBe(small.contexts[0]!)
+    expect(big.contexts[0]!.budget.total).toBe(2048)
+  })
+
+  test("stores nothing for the answers until one is kept", async () => {
+    const a = createProvider(infoFor("a"), { reply: "Answer A" })
+    const b = createProvider(infoFor("b"), { reply: "Answer B" })
+    const service = serviceWith(a)
+
+    const comparison = comparisonOf(await collect(service.compare("Hello", [a, b])))
+    expect((await service.getArtifacts()).map((x) => x.kind)).toEqual(["user_input"])
+
+    const kept = await service.keepCandidate(comparison.id, 1)
+
+    const stored = (await service.getArtifacts())[1] as AgentResponse
+    expect(stored.id).toBe(kept.id)
+    expect(stored).toMatchObject({ content: "Answer B", provider: "b", model: "b-model" })
+    expect(stored.latencyMs).toBeNumber()
+    expect(stored.alternates).toHaveLength(1)
+    expect(stored.alternates![0]).toMatchObject({
+      content: "Answer A",
+      provider: "a",
+      model: "a-model",
+      status: "complete",
+      usage: { promptTokens: 100, completionTokens: 10 },
+    })
+  })
+
+  test("counts every answer's usage toward the session", async () => {
+    const a = createProvider(infoFor("a"), { reply: "Answer A" })
+    const b = createProvider(infoFor("b"), { reply: "Answer B" })
+    const service = serviceWith(a)
+
+    const events = await collect(service.compare("Hello", [a, b]))
+
+    const update = events.find((e) => e.type === "session_usage")
+    expect(update?.type === "session_usage" && update.usage).toMatchObject({
+      promptTokens: 200,
+      completionTokens: 20,
+    })
+  })
+
+  test("keeps a failed provider as an errored candidate", async () => {
+    const ok = createProvider(infoFor("ok"), { reply: "Fine" })
+    const broken = createProvider(infoFor("broken"), { error: "OpenRouter API error (503): down" })
+    const service = serviceWith(ok)
+
+    const comparison = comparisonOf(await collect(service.compare("Hello", [ok, broken])))
+
+    expect(comparison.candidates[1]).toMatchObject({
+      content: "",
+      status: "error",
+      error: "OpenRouter API error (503): down",
+    })
+    await expect(service.keepCandidate(comparison.id, 1)).rejects.toThrow("failed")
+
+    const kept = await service.keepCandidate(comparison.id, 0)
+    expect(kept.alternates![0]).toMatchObject({ status: "error", error: "OpenRouter API error (503): down" })
+  })
+
+  test("only the latest comparison can be kept", async () => {
+    const a = createProvider(infoFor("a"), { reply: "Answer A" })
+    const b = createProvider(infoFor("b"), { reply: "Answer B" })
+    const service = serviceWith(a)
+
+    const comparison = comparisonOf(await collect(service.compare("Hello", [a, b])))
+    await collect(service.send("Never mind"))
+
+    await expect(service.keepCandidate(comparison.id, 0)).rejects.toThrow("Comparison not found")
+  })
+
+  test("needs at least two providers", async () => {
+    const a = createProvider(infoFor("a"), { reply: "Answer A" })
+    const service = serviceWith(a)
+
+    const events = await collect(service.compare("Hello", [a]))
+
+    expect(events.at(-1)).toMatchObject({ type: "error" })
+  })
+})
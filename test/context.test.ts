@@ -1,6 +1,6 @@
 import { test, expect, describe } from "bun:test"
 import { ContextAssembler } from "@/infrastructure/context/index.ts"
-import type { Message } from "@/domain/session.ts"
+import type { Message, SessionArtifact } from "@/domain/session.ts"
 import type { Embedding } from "@/domain/shared.ts"
 
 // Helper to create a mock embedding
@@ -61,6 +61,35 @@ describe("ContextAssembler", () => {
       expect(context.metadata.artifactsFiltered).toBe(1)
     })
 
+    test("keeps or drops a tool call and its result together", () => {
+      const base = { sessionId: "session-1", embedding: mockEmbedding(), timestamp: new Date() }
+      const artifacts: SessionArtifact[] = [
+        mockMessage({ content: "Add", tokens: 10 }),
+        { ...base, id: "tu", kind: "tool_use", toolUseId: "call_1", toolId: "add", toolName: "add", input: {}, tokens: 40 },
+        { ...base, id: "tr", kind: "tool_result", toolUseId: "call_1", result: 5, isError: false, tokens: 10 },
+        mockMessage({ content: "5", tokens: 30 }),
+      ]
+
+      // The result alone would fit, but not with its call
+      const context = assembler.assemble(artifacts, { maxTokens: 60 })
+
+      expect(context.items.map((item) => item.id)).toEqual([artifacts[0]!.id, artifacts[3]!.id])
+      expect(context.metadata.artifactsFiltered).toBe(2)
+    })
+
+    test("keeps or drops the calls of one turn together", () => {
+      const base = { sessionId: "session-1", embedding: mockEmbedding(), timestamp: new Date() }
+      const call = (id: string) =>
+        ({ ...base, id, kind: "tool_use", toolUseId: id, toolId: "add", toolName: "add", input: {}, tokens: 20 }) as const
+      const result = (id: string) =>
+        ({ ...base, id: `${id}-result`, kind: "tool_result", toolUseId: id, result: 5, isError: false, tokens: 10 }) as const
+      const artifacts: SessionArtifact[] = [call("call_1"), call("call_2"), result("call_1"), result("call_2")]
+
+      // The second call and its result would fit without the first
+      expect(assembler.assemble(artifacts, { maxTokens: 40 }).items).toHaveLength(0)
+      expect(assembler.assemble(artifacts, { maxTokens: 60 }).items).toHaveLength(4)
+    })
+
     test("reserves tokens for response", () => {
       const messages = [
         mockMessage({ content: "First", tokens: 40 }),
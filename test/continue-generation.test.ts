@@ -0,0 +1,123 @@
+import { test, expect, beforeEach, afterEach, describe } from "bun:test"
+import { ConversationService, createConversationService } from "@/application/conversation-service.ts"
+import { ProjectStorage } from "@/infrastructure/persistence/index.ts"
+import type { Provider } from "@/domain/provider.ts"
+import { collect, createMockEmbedder, createScriptedProvider, lastResponse } from "./helpers.ts"
+
+// ─── Tests ────────────────────────────────────────────────────────
+
+describe("truncated responses", () => {
+  let storage: ProjectStorage
+
+  beforeEach(async () => {
+    storage = await ProjectStorage.memory()
+  })
+
+  afterEach(() => {
+    storage.close()
+  })
+
+  function serviceWith(provider: Provider): ConversationService {
+    return createConversationService({
+      projectId: "test-project-continue",
+      provider,
+      storage,
+      embedder: createMockEmbedder(),
+    })
+  }
+
+  test("records token_limit when the provider stops on length", async () => {
+    const provider = createScriptedProvider([{ content: "Once upon", finishReason: "length" }])
+    const service = serviceWith(provider)
+
+    const events = await collect(service.send("Tell me a story"))
+
+    const end = events.find((e) => e.type === "stream_end")
+    expect(end?.type === "stream_end" && end.finishReason).toBe("length")
+    expect((await lastResponse(service)).status).toBe("token_limit")
+  })
+
+  test("records complete on a natural stop", async () => {
+    const provider = createScriptedProvider([{ content: "The end." }])
+    const service = serviceWith(provider)
+
+    await collect(service.send("Tell me a story"))
+
+    expect((await lastResponse(service)).status).toBe("complete")
+  })
+
+  test("continueResponse appends to the truncated response", async () => {
+    const provider = createScriptedProvider([
+      { content: "Once upon", finishReason: "length" },
+      { content: " a time." },
+    ])
+    const service = serviceWith(provider)
+    await collect(service.send("Tell me a story"))
+    const truncated = await lastResponse(service)
+
+    const events = await collect(service.continueResponse())
+
+    expect(events.some((e) => e.type === "error")).toBe(false)
+    expect(events.filter((e) => e.type === "stream_chunk").map((e) => e.type === "stream_chunk" && e.content))
+      .toEqual([" a time."])
+
+    const artifacts = await service.getArtifacts()
+    expect(artifacts).toHaveLength(2)
+    const updated = await lastResponse(service)
+    expect(updated.id).toBe(truncated.id)
+    expect(updated.content).toBe("Once upon a time.")
+    expect(updated.status).toBe("complete")
+
+    // The model saw its partial answer followed by a request to resume
+    const items = provider.calls[1]!.context.items
+    const last = items[items.length - 1]!
+    const previous = items[items.length - 2]!
+    expect(last.source.type === "artifact" && last.source.artifact.kind).toBe("user_input")
+    expect(previous.content).toBe("Once upon")
+  })
+
+  test("continueResponse stays token_limit if truncated again", async () => {
+    const provider = createScriptedProvider([
+      { content: "Once", finishReason: "length" },
+      { content: " upon", finishReason: "length" },
+    ])
+    const service = serviceWith(provider)
+    await collect(service.send("Tell me a story"))
+
+    await collect(service.continueResponse())
+
+    const updated = await lastResponse(service)
+    expect(updated.content).toBe("Once upon")
+    expect(updated.status).toBe("token_limit")
+  })
+
+  test("continueResponse rejects complete responses", async () => {
+    const provider = createScriptedProvider([{ content: "Done." }])
+    const service = serviceWith(provider)
+    await collect(service.send("Hi"))
+
+    const events = await collect(service.continueResponse())
+
+    const error = events.find((e) => e.type === "error")
+    expect(error?.type === "error" && error.error.message).toBe("Response is already complete")
+  })
+
+  test("continueResponse rejects responses that aren't the latest", async () => {
+    const provider = createScriptedProvider([
+      { content: "Once", finishReason: "length" },
+      { content: "Sure." },
+    ])
+    const service = serviceWith(provider)
+    await collect(service.send("Tell me a story"))
+    const truncated = await lastResponse(service)
+    await new Promise((r) => setTimeout(r, 5))
+    await collect(service.send("Never mind"))
+
+    const events = await collect(service.continueResponse(truncated.id))
+
+    const error = events.find((e) => e.type === "error")
+    expect(error?.type === "error" && error.error.message).toBe(
+      "Only the latest response can be continued"
+    )
+  })
+})
@@ -0,0 +1,152 @@
+import { test, expect, beforeEach, afterEach, describe } from "bun:test"
+import { ConversationService, createConversationService } from "@/application/conversation-service.ts"
+import { ProjectStorage } from "@/infrastructure/persistence/index.ts"
+import { FallbackProvider } from "@/infrastructure/provider/index.ts"
+import { calculateCost, type ModelPricing, type Provider, type StreamChunk } from "@/domain/provider.ts"
+import { addUsage, type AgentResponse } from "@/domain/artifact.ts"
+import { collect, createMockEmbedder, createScriptedProvider, mockProviderInfo } from "./helpers.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+/** $1 per million prompt tokens, $2 per million completion tokens */
+const pricing: ModelPricing = { prompt: 0.000001, completion: 0.000002 }
+
+async function responses(service: ConversationService): Promise<AgentResponse[]> {
+  const artifacts = await service.getArtifacts()
+  return artifacts.filter((a) => a.kind === "agent_response") as AgentResponse[]
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+describe("calculateCost and addUsage", () => {
+  test("prices prompt and completion tokens separately", () => {
+    expect(calculateCost(pricing, { promptTokens: 1000, completionTokens: 500 })).toBeCloseTo(0.002)
+  })
+
+  test("sums usage, keeping cost unknown only when neither side knows it", () => {
+    expect(addUsage(undefined, { promptTokens: 10, completionTokens: 5 })).toEqual({
+      promptTokens: 10,
+      completionTokens: 5,
+    })
+    expect(
+      addUsage({ promptTokens: 10, completionTokens: 5, cost: 0.5 }, { promptTokens: 1, completionTokens: 1 })
+    ).toEqual({ promptTokens: 11, completionTokens: 6, cost: 0.5 })
+  })
+})
+
+// ─── ConversationService ──────────────────────────────────────────
+
+describe("cost accounting", () => {
+  let storage: ProjectStorage
+
+  beforeEach(async () => {
+    storage = await ProjectStorage.memory()
+  })
+
+  afterEach(() => {
+    storage.close()
+  })
+
+  function serviceWith(provider: Provider): ConversationService {
+    return createConversationService({
+      projectId: "test-project-cost",
+      provider,
+      storage,
+      embedder: createMockEmbedder(),
+    })
+  }
+
+  test("stores usage and cost on each agent response", async () => {
+    const provider = createScriptedProvider(
+      [{ content: "Hi!", usage: { promptTokens: 1000, completionTokens: 500 } }],
+      mockProviderInfo("priced", { pricing })
+    )
+    const service = serviceWith(provider)
+
+    await collect(service.send("Hello"))
+
+    const [response] = await responses(service)
+    expect(response!.usage?.promptTokens).toBe(1000)
+    expect(response!.usage?.completionTokens).toBe(500)
+    expect(response!.usage?.cost).toBeCloseTo(0.002)
+  })
+
+  test("leaves cost out when pricing is unknown", async () => {
+    const provider = createScriptedProvider(
+      [{ content: "Hi!", usage: { promptTokens: 100, completionTokens: 10 } }],
+      mockProviderInfo("unpriced")
+    )
+    const service = serviceWith(provider)
+
+    await collect(service.send("Hello"))
+
+    const [response] = await responses(service)
+    expect(response!.usage).toEqual({ promptTokens: 100, completionTokens: 10 })
+  })
+
+  test("keeps running totals on the session", async () => {
+    const provider = createScriptedProvider(
+      [
+        { content: "One", usage: { promptTokens: 1000, completionTokens: 100 } },
+        { content: "Two", usage: { promptTokens: 2000, completionTokens: 200 } },
+      ],
+      mockProviderInfo("priced", { pricing })
+    )
+    const service = serviceWith(provider)
+
+    await collect(service.send("First"))
+    const events = await collect(service.send("Second"))
+
+    const update = events.find((e) => e.type === "session_usage")
+    expect(update?.type === "session_usage" && update.usage.promptTokens).toBe(3000)
+
+    const session = await storage.getSession(service.currentSession!.id)
+    expect(session?.projectId).toBe("test-project-cost")
+    expect(session?.metadata?.provider).toBe("priced")
+    expect(session?.metadata?.usage?.promptTokens).toBe(3000)
+    expect(session?.metadata?.usage?.completionTokens).toBe(300)
+    expect(session?.metadata?.usage?.cost).toBeCloseTo(0.0036)
+  })
+
+  test("adds continuation usage to the response it extends", async () => {
+    const provider = createScriptedProvider(
+      [
+        { content: "Once upon", usage: { promptTokens: 100, completionTokens: 50 }, finishReason: "length" },
+        { content: " a time", usage: { promptTokens: 200, completionTokens: 20 } },
+      ],
+      mockProviderInfo("priced", { pricing })
+    )
+    const service = serviceWith(provider)
+
+    await collect(service.send("Tell me a story"))
+    await collect(service.continueResponse())
+
+    const [response] = await responses(service)
+    expect(response!.content).toBe("Once upon a time")
+    expect(response!.usage?.promptTokens).toBe(300)
+    expect(response!.usage?.completionTokens).toBe(70)
+
+    const session = await storage.getSession(service.currentSession!.id)
+    expect(session?.metadata?.usage?.promptTokens).toBe(300)
+  })
+
+  test("prices fallback answers at the provider that answered", async () => {
+    const failing: Provider = {
+      ...createScriptedProvider([], mockProviderInfo("primary", { pricing: { prompt: 1, completion: 1 } })),
+      async *complete(): AsyncIterable<StreamChunk> {
+        throw new Error("OpenRouter API error (503): unavailable")
+      },
+    }
+    const backup = createScriptedProvider(
+      [{ content: "Backup", usage: { promptTokens: 1000, completionTokens: 500 } }],
+      mockProviderInfo("backup", { pricing })
+    )
+    const service = serviceWith(new FallbackProvider([failing, backup]))
+
+    await collect(service.send("Hello"))
+
+    const [response] = await responses(service)
+    expect(response!.provider).toBe("backup")
+    expect(response!.usage?.cost).toBeCloseTo(0.002)
+  })
+})
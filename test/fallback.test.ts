@@ -0,0 +1,229 @@
+import { test, expect, beforeEach, afterEach, describe } from "bun:test"
+import { FallbackProvider, isRetryableError } from "@/infrastructure/provider/index.ts"
+import { createConversationService } from "@/application/conversation-service.ts"
+import { ProjectStorage } from "@/infrastructure/persistence/index.ts"
+import type { Provider, ProviderCapabilities, StreamChunk } from "@/domain/provider.ts"
+import type { Context } from "@/domain/context.ts"
+import { createTokenBudget } from "@/domain/context.ts"
+import type { AgentResponse } from "@/domain/artifact.ts"
+import type { Embedder } from "@/infrastructure/embedding/types.ts"
+import { DEFAULT_EMBEDDING_DIMENSIONS, type Embedding } from "@/domain/shared.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+type Behavior =
+  | { reply: string }
+  | { error: Error }
+  | { errorAfter: string; error: Error }
+  | { hang: true }
+
+const capabilities: ProviderCapabilities = {
+  streaming: true,
+  tools: true,
+  vision: false,
+  systemPrompt: true,
+  maxContextTokens: 8192,
+  maxOutputTokens: 2048,
+}
+
+/**
+ * A provider that replies, fails, fails mid-stream or hangs until aborted.
+ */
+function mockProvider(id: string, behavior: Behavior, caps: Partial<ProviderCapabilities> = {}) {
+  const calls: Array<{ signal?: AbortSignal }> = []
+  const provider: Provider = {
+    info: { id, name: id, model: `${id}-model`, capabilities: { ...capabilities, ...caps } },
+    async *complete(_context, options): AsyncIterable<StreamChunk> {
+      calls.push({ signal: options?.signal })
+      if ("hang" in behavior) {
+        await new Promise((_, reject) => {
+          options?.signal?.addEventListener("abort", () => reject(options.signal!.reason), { once: true })
+        })
+      }
+      if ("errorAfter" in behavior) {
+        yield { content: behavior.errorAfter, done: false }
+        throw behavior.error
+      }
+      if ("error" in behavior) throw behavior.error
+      yield { content: behavior.reply, done: false }
+      yield { content: "", done: true, finishReason: "stop" }
+    },
+    async countTokens(text) {
+      return text.length
+    },
+    translateArtifactKind: () => id,
+  }
+  return { provider, calls }
+}
+
+const rateLimited = () => new Error("OpenRouter API error (429): Rate limit exceeded")
+const unauthorized = () => new Error("OpenRouter API error (401): Invalid API key")
+
+function emptyContext(): Context {
+  return {
+    items: [],
+    budget: createTokenBudget({ total: 1000 }),
+    metadata: { artifactsIncluded: 0, artifactsFiltered: 0, knowledgeIncluded: 0, assembledAt: new Date() },
+  }
+}
+
+async function collect(stream: AsyncIterable<StreamChunk>): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = []
+  for await (const chunk of stream) chunks.push(chunk)
+  return chunks
+}
+
+// ─── FallbackProvider ─────────────────────────────────────────────
+
+describe("FallbackProvider", () => {
+  test("answers from the primary when it succeeds", async () => {
+    const primary = mockProvider("primary", { reply: "hi" })
+    const backup = mockProvider("backup", { reply: "backup hi" })
+    const fallback = new FallbackProvider([primary.provider, backup.provider])
+
+    const chunks = await collect(fallback.complete(emptyContext()))
+
+    expect(chunks.map((c) => c.content).join("")).toBe("hi")
+    expect(chunks[0]!.source).toEqual({ providerId: "primary", model: "primary-model" })
+    expect(backup.calls).toHaveLength(0)
+  })
+
+  test("fails over on retryable errors", async () => {
+    const primary = mockProvider("primary", { error: rateLimited() })
+    const backup = mockProvider("backup", { reply: "backup hi" })
+    const fallback = new FallbackProvider([primary.provider, backup.provider])
+
+    const chunks = await collect(fallback.complete(emptyContext()))
+
+    expect(chunks.map((c) => c.content).join("")).toBe("backup hi")
+    expect(chunks.every((c) => c.source?.providerId === "backup")).toBe(true)
+  })
+
+  test("fails over when a provider doesn't start within the timeout", async () => {
+    const primary = mockProvider("primary", { hang: true })
+    const backup = mockProvider("backup", { reply: "backup hi" })
+    const fallback = new FallbackProvider([primary.provider, backup.provider], { timeoutMs: 20 })
+
+    const chunks = await collect(fallback.complete(emptyContext()))
+
+    expect(primary.calls[0]!.signal?.aborted).toBe(true)
+    expect(chunks[0]!.source?.providerId).toBe("backup")
+  })
+
+  test("does not fail over on non-retryable errors", async () => {
+    const primary = mockProvider("primary", { error: unauthorized() })
+    const backup = mockProvider("backup", { reply: "backup hi" })
+    const fallback = new FallbackProvider([primary.provider, backup.provider])
+
+    await expect(collect(fallback.complete(emptyContext()))).rejects.toThrow("(401)")
+    expect(backup.calls).toHaveLength(0)
+  })
+
+  test("does not fail over once output has streamed", async () => {
+    const primary = mockProvider("primary", { errorAfter: "partial", error: rateLimited() })
+    const backup = mockProvider("backup", { reply: "backup hi" })
+    const fallback = new FallbackProvider([primary.provider, backup.provider])
+
+    await expect(collect(fallback.complete(emptyContext()))).rejects.toThrow("(429)")
+    expect(backup.calls).toHaveLength(0)
+  })
+
+  test("does not fail over when the caller aborts", async () => {
+    const primary = mockProvider("primary", { hang: true })
+    const backup = mockProvider("backup", { reply: "backup hi" })
+    const fallback = new FallbackProvider([primary.provider, backup.provider])
+    const controller = new AbortController()
+
+    const pending = collect(fallback.complete(emptyContext(), { signal: controller.signal }))
+    controller.abort(new Error("stopped"))
+
+    await expect(pending).rejects.toThrow("stopped")
+    expect(backup.calls).toHaveLength(0)
+  })
+
+  test("throws the last error when every provider fails", async () => {
+    const primary = mockProvider("primary", { error: rateLimited() })
+    const backup = mockProvider("backup", { error: new Error("Ollama API error (503): loading model") })
+    const fallback = new FallbackProvider([primary.provider, backup.provider])
+
+    await expect(collect(fallback.complete(emptyContext()))).rejects.toThrow("(503)")
+  })
+
+  test("advertises only capabilities every provider shares", () => {
+    const primary = mockProvider("primary", { reply: "" }, { maxContextTokens: 200000, vision: true })
+    const backup = mockProvider("backup", { reply: "" }, { maxContextTokens: 32000, tools: false })
+    const fallback = new FallbackProvider([primary.provider, backup.provider])
+
+    expect(fallback.info.model).toBe("primary-model")
+    expect(fallback.info.capabilities.maxContextTokens).toBe(32000)
+    expect(fallback.info.capabilities.tools).toBe(false)
+    expect(fallback.info.capabilities.vision).toBe(false)
+  })
+
+  test("requires at least one provider", () => {
+    expect(() => new FallbackProvider([])).toThrow("at least one provider")
+  })
+})
+
+describe("isRetryableError", () => {
+  test("classifies rate limits, server errors and network failures as retryable", () => {
+    expect(isRetryableError(rateLimited())).toBe(true)
+    expect(isRetryableError(new Error("Anthropic API error (529): Overloaded"))).toBe(true)
+    expect(isRetryableError(Object.assign(new TypeError("Unable to connect"), { code: "ECONNREFUSED" }))).toBe(true)
+  })
+
+  test("classifies client errors as final", () => {
+    expect(isRetryableError(unauthorized())).toBe(false)
+    expect(isRetryableError(new Error("Something else"))).toBe(false)
+    expect(isRetryableError("not an error")).toBe(false)
+  })
+})
+
+// ─── Recording the answering provider ─────────────────────────────
+
+describe("ConversationService with fallback", () => {
+  let storage: ProjectStorage
+
+  beforeEach(async () => {
+    storage = await ProjectStorage.memory()
+  })
+
+  afterEach(() => {
+    storage.close()
+  })
+
+  function createMockEmbedder(): Embedder {
+    return {
+      name: "mock-embedder",
+      dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+      async embed(): Promise<Embedding> {
+        return {
+          vector: Array(DEFAULT_EMBEDDING_DIMENSIONS).fill(0.1),
+          model: "mock-embedder",
+          dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+          createdAt: new Date(),
+        }
+      },
+    }
+  }
+
+  test("stores the provider that actually answered", async () => {
+    const primary = mockProvider("primary", { error: rateLimited() })
+    const backup = mockProvider("backup", { reply: "backup hi" })
+    const service = createConversationService({
+      projectId: "test-project-fallback",
+      provider: new FallbackProvider([primary.provider, backup.provider]),
+      storage,
+      embedder: createMockEmbedder(),
+    })
+
+    for await (const _ of service.send("Hello")) {
+      // drain
+    }
+
+    const response = (await service.getArtifacts()).find((a) => a.kind === "agent_response") as AgentResponse
+    expect(response.content).toBe("backup hi")
+    expect(response.provider).toBe("backup")
+    expect(response.model).toBe("backup-model")
+  })
+})
@@ -0,0 +1,155 @@
+import { test, expect, describe, beforeAll, afterAll } from "bun:test"
+import { $ } from "bun"
+import * as fs from "node:fs/promises"
+import * as os from "node:os"
+import * as path from "node:path"
+import { createFileTools, createToolRegistry, FileToolError, type ToolRegistry } from "@/tools/index.ts"
+import { unifiedDiff } from "@/util/diff.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+let root: string
+let outside: string
+let registry: ToolRegistry
+const context = { workingDirectory: "/" }
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "tinker-files-"))
+  outside = await fs.mkdtemp(path.join(os.tmpdir(), "tinker-outside-"))
+  await $`git init -q ${root}`.quiet()
+  await fs.mkdir(path.join(root, "src"))
+  await fs.mkdir(path.join(root, "dist"))
+  await fs.writeFile(path.join(root, ".gitignore"), "dist/\n.env\n")
+  await fs.writeFile(path.join(root, ".env"), "SECRET=1\n")
+  await fs.writeFile(path.join(root, "dist", "app.js"), "built\n")
+  await fs.writeFile(path.join(root, "src", "main.ts"), "one\ntwo\nthree\nfour\nfive\n")
+  await fs.writeFile(path.join(root, "logo.png"), new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 0, 0, 0x0d]))
+  await fs.writeFile(path.join(outside, "secret.txt"), "outside\n")
+  await fs.symlink(outside, path.join(root, "escape"))
+  registry = createToolRegistry(createFileTools({ root }))
+})
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true })
+  await fs.rm(outside, { recursive: true, force: true })
+})
+
+async function run(name: string, input: unknown) {
+  return registry.execute(name, input, context)
+}
+
+// ─── Diffs ────────────────────────────────────────────────────────
+
+describe("unifiedDiff", () => {
+  test("prints changed lines with three lines of context", () => {
+    const before = "a\nb\nc\nd\ne\nf\ng\nh\n"
+    const after = "a\nb\nc\nd\nE\nf\ng\nh\n"
+
+    expect(unifiedDiff("x.txt", before, after)).toBe(
+      "--- a/x.txt\n+++ b/x.txt\n@@ -2,7 +2,7 @@\n b\n c\n d\n-e\n+E\n f\n g\n h\n"
+    )
+  })
+
+  test("diffs new files against /dev/null and marks a missing final newline", () => {
+    expect(unifiedDiff("new.txt", null, "hi")).toBe(
+      "--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,1 @@\n+hi\n\\ No newline at end of file\n"
+    )
+    expect(unifiedDiff("same.txt", "same\n", "same\n")).toBe("")
+  })
+})
+
+// ─── Reading ──────────────────────────────────────────────────────
+
+describe("read_file and list_directory", () => {
+  test("reads whole files or line ranges", async () => {
+    expect((await run("read_file", { path: "src/main.ts", startLine: 2, endLine: 3 })).result).toEqual({
+      path: "src/main.ts",
+      startLine: 2,
+      endLine: 3,
+      totalLines: 5,
+      content: "two\nthree",
+    })
+
+    const capped = createToolRegistry(createFileTools({ root, maxReadLines: 2 }))
+    const { result } = await capped.execute("read_file", { path: "src/main.ts" }, context)
+    expect(result).toMatchObject({ endLine: 2, totalLines: 5, content: "one\ntwo" })
+  })
+
+  test("lists directories without ignored entries", async () => {
+    expect((await run("list_directory", {})).result).toEqual({
+      path: ".",
+      entries: ["src/", ".gitignore", "escape", "logo.png"],
+    })
+  })
+
+  test("refuses paths outside the project, ignored files and binary files", async () => {
+    expect(await run("read_file", { path: "../x" })).toMatchObject({
+      result: { type: "FileToolError", reason: "outside_project", path: "../x" },
+      isError: true,
+    })
+    expect((await run("read_file", { path: "escape/secret.txt" })).result).toMatchObject({ reason: "outside_project" })
+    expect((await run("read_file", { path: ".env" })).result).toMatchObject({ reason: "ignored" })
+    expect((await run("list_directory", { path: "dist" })).result).toMatchObject({ reason: "ignored" })
+    expect((await run("read_file", { path: ".git/config" })).result).toMatchObject({ reason: "ignored" })
+    expect((await run("read_file", { path: "logo.png" })).result).toMatchObject({ reason: "binary" })
+    expect((await run("read_file", { path: "src" })).result).toMatchObject({ reason: "not_a_file" })
+  })
+})
+
+// ─── Writing ──────────────────────────────────────────────────────
+
+describe("write_file and edit_file", () => {
+  test("creates files and directories, with a diff of the new content", async () => {
+    const { result, isError } = await run("write_file", { path: "docs/notes.md", content: "# Notes\n" })
+
+    expect(isError).toBe(false)
+    expect(result).toEqual({
+      path: "docs/notes.md",
+      created: true,
+      diff: "--- /dev/null\n+++ b/docs/notes.md\n@@ -0,0 +1,1 @@\n+# Notes\n",
+    })
+    expect(await Bun.file(path.join(root, "docs", "notes.md")).text()).toBe("# Notes\n")
+  })
+
+  test("edits a unique match and reports what changed", async () => {
+    await fs.writeFile(path.join(root, "src", "edit.ts"), "let a = 1\nlet b = 2\n")
+
+    const { result } = await run("edit_file", { path: "src/edit.ts", oldText: "b = 2", newText: "b = 3" })
+
+    expect(result).toEqual({
+      path: "src/edit.ts",
+      replacements: 1,
+      diff: "--- a/src/edit.ts\n+++ b/src/edit.ts\n@@ -1,2 +1,2 @@\n let a = 1\n-let b = 2\n+let b = 3\n",
+    })
+    expect(await Bun.file(path.join(root, "src", "edit.ts")).text()).toBe("let a = 1\nlet b = 3\n")
+  })
+
+  test("refuses missing and ambiguous matches unless replacing all", async () => {
+    await fs.writeFile(path.join(root, "src", "twice.ts"), "x\nx\n")
+
+    expect((await run("edit_file", { path: "src/twice.ts", oldText: "y", newText: "z" })).result).toMatchObject({
+      reason: "no_match",
+    })
+    expect((await run("edit_file", { path: "src/twice.ts", oldText: "x", newText: "z" })).result).toMatchObject({
+      reason: "ambiguous_match",
+    })
+    expect((await run("edit_file", { path: "src/twice.ts", oldText: "x", newText: "z", replaceAll: true })).result)
+      .toMatchObject({ replacements: 2 })
+  })
+
+  test("never writes outside the project, to ignored files or over binary files", async () => {
+    for (const target of ["../evil.txt", "escape/evil.txt", ".env", "dist/new.js", "logo.png"]) {
+      expect((await run("write_file", { path: target, content: "x" })).isError).toBe(true)
+    }
+    expect(await fs.exists(path.join(outside, "evil.txt"))).toBe(false)
+    expect(await fs.exists(path.join(root, "dist", "new.js"))).toBe(false)
+    expect(await Bun.file(path.join(root, ".env")).text()).toBe("SECRET=1\n")
+  })
+
+  test("throws FileToolError when called directly", async () => {
+    const [, writeFile] = createFileTools({ root })
+    const error = await writeFile!.execute({ path: "/etc/passwd", content: "" }, context).catch((e: unknown) => e)
+
+    expect(FileToolError.is(error)).toBe(true)
+  })
+})
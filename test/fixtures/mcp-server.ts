@@ -0,0 +1,81 @@
+/**
+ * A small MCP server over stdio, for tests.
+ *
+ * Tools: echo (returns its text), fail (reports an error) and crash
+ * (exits mid-call). Resources: a note, and an image it can't offer as text.
+ */
+
+const tools = [
+  {
+    name: "echo",
+    description: "Echo some text",
+    inputSchema: { type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+  },
+  { name: "fail", description: "Always fails", inputSchema: { type: "object", properties: {} } },
+  { name: "crash", description: "Exits mid-call", inputSchema: { type: "object", properties: {} } },
+]
+
+const resources = [
+  { uri: "memo://notes", name: "Notes", mimeType: "text/plain" },
+  { uri: "memo://logo", name: "Logo", mimeType: "image/png" },
+]
+
+type Message = { id?: number; method?: string; params?: Record<string, unknown> }
+
+function reply(id: number, result: unknown) {
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id, result }) + "\n")
+}
+
+function handle(message: Message) {
+  const { id, method, params = {} } = message
+  if (id === undefined) return
+
+  switch (method) {
+    case "initialize":
+      return reply(id, {
+        protocolVersion: "2025-06-18",
+        capabilities: { tools: {}, resources: {} },
+        serverInfo: { name: "fixture", version: "1.0.0" },
+      })
+    case "tools/list":
+      // Two pages, to exercise pagination
+      return params.cursor
+        ? reply(id, { tools: tools.slice(2) })
+        : reply(id, { tools: tools.slice(0, 2), nextCursor: "page-2" })
+    case "tools/call": {
+      const args = params.arguments as { text?: string }
+      if (params.name === "echo") return reply(id, { content: [{ type: "text", text: args.text }] })
+      if (params.name === "fail") return reply(id, { content: [{ type: "text", text: "It broke" }], isError: true })
+      if (params.name === "crash") {
+        console.error("fixture: crashing on purpose")
+        process.exit(3)
+      }
+      return process.stdout.write(
+        JSON.stringify({ jsonrpc: "2.0", id, error: { code: -32602, message: `Unknown tool: ${params.name}` } }) + "\n"
+      )
+    }
+    case "resources/list":
+      return reply(id, { resources })
+    case "resources/read":
+      return reply(id, {
+        contents: params.uri === "memo://notes"
+          ? [{ uri: "memo://notes", mimeType: "text/plain", text: "Remember the milk" }]
+          : [{ uri: params.uri, mimeType: "image/png", blob: "iVBORw0KGgo=" }],
+      })
+  }
+}
+
+const reader = Bun.stdin.stream().getReader()
+const decoder = new TextDecoder()
+let buffer = ""
+while (true) {
+  const { done, value } = await reader.read()
+  if (done) break
+  buffer += decoder.decode(value, { stream: true })
+  let newline: number
+  while ((newline = buffer.indexOf("\n")) >= 0) {
+    const line = buffer.slice(0, newline).trim()
+    buffer = buffer.slice(newline + 1)
+    if (line) handle(JSON.parse(line) as Message)
+  }
+}
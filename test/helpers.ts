@@ -0,0 +1,107 @@
+import type { ConversationService } from "@/application/conversation-service.ts"
+import type {
+  CompletionOptions,
+  FinishReason,
+  Provider,
+  ProviderCapabilities,
+  ProviderInfo,
+  StreamChunk,
+} from "@/domain/provider.ts"
+import type { Context } from "@/domain/context.ts"
+import type { AgentResponse } from "@/domain/artifact.ts"
+import type { Embedder } from "@/infrastructure/embedding/types.ts"
+import { DEFAULT_EMBEDDING_DIMENSIONS, type Embedding } from "@/domain/shared.ts"
+
+// Helpers shared by the ConversationService tests
+
+export function createMockEmbedder(): Embedder {
+  return {
+    name: "mock-embedder",
+    dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+    async embed(): Promise<Embedding> {
+      return {
+        vector: Array(DEFAULT_EMBEDDING_DIMENSIONS).fill(0.1),
+        model: "mock-embedder",
+        dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+        createdAt: new Date(),
+      }
+    },
+  }
+}
+
+/**
+ * Info for a text-only provider with a 4096-token context,
+ * modelled as `${id}-model`.
+ */
+export function mockProviderInfo(id = "mock-provider", capabilities: Partial<ProviderCapabilities> = {}): ProviderInfo {
+  return {
+    id,
+    name: id,
+    model: `${id}-model`,
+    capabilities: {
+      streaming: true,
+      tools: false,
+      vision: false,
+      systemPrompt: true,
+      maxContextTokens: 4096,
+      maxOutputTokens: 1024,
+      ...capabilities,
+    },
+  }
+}
+
+export interface ScriptedReply {
+  reasoning?: string
+  content?: string
+  toolUses?: Array<{ name: string; input: unknown; inputError?: string }>
+  /** Default: "tool_use" when the reply calls tools, else "stop" */
+  finishReason?: FinishReason
+  /** Default: 10 prompt and 5 completion tokens */
+  usage?: { promptTokens: number; completionTokens: number }
+}
+
+/**
+ * Plays one scripted reply per completion, recording what it was sent.
+ * Repeats the last reply once the script runs out.
+ */
+export function createScriptedProvider(
+  replies: ScriptedReply[],
+  info: ProviderInfo = mockProviderInfo()
+): Provider & { calls: Array<{ context: Context; options?: CompletionOptions }> } {
+  const calls: Array<{ context: Context; options?: CompletionOptions }> = []
+  return {
+    info,
+    calls,
+    async *complete(context, options): AsyncIterable<StreamChunk> {
+      const reply = replies[Math.min(calls.length, replies.length - 1)]!
+      calls.push({ context, options })
+      if (reply.reasoning) yield { content: "", done: false, reasoning: reply.reasoning }
+      if (reply.content) yield { content: reply.content, done: false }
+      for (const [i, call] of (reply.toolUses ?? []).entries()) {
+        yield { content: "", done: false, toolUse: { id: `call_${calls.length}_${i}`, ...call } }
+      }
+      const { promptTokens, completionTokens } = reply.usage ?? { promptTokens: 10, completionTokens: 5 }
+      yield {
+        content: "",
+        done: true,
+        finishReason: reply.finishReason ?? (reply.toolUses ? "tool_use" : "stop"),
+        usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      }
+    },
+    async countTokens(text: string) {
+      return Math.ceil(text.length / 4)
+    },
+    translateArtifactKind: () => "user",
+  }
+}
+
+export async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = []
+  for await (const item of items) collected.push(item)
+  return collected
+}
+
+export async function lastResponse(service: ConversationService): Promise<AgentResponse> {
+  const artifacts = await service.getArtifacts()
+  return artifacts.filter((a) => a.kind === "agent_response").pop() as AgentResponse
+}
@@ -0,0 +1,285 @@
+import { test, expect, describe, mock, beforeEach, afterEach } from "bun:test"
+import {
+  LlamaCppProvider,
+  createLlamaCppProvider,
+  CHAT_TEMPLATES,
+  detectChatTemplate,
+} from "@/infrastructure/provider/index.ts"
+import type { Context, ContextItem } from "@/domain/context.ts"
+import { createTokenBudget } from "@/domain/context.ts"
+import type { SessionArtifact, UserInput, AgentResponse } from "@/domain/artifact.ts"
+import type { ToolDefinition } from "@/domain/provider.ts"
+import type { Embedding } from "@/domain/shared.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+function mockEmbedding(): Embedding {
+  return { vector: [], model: "test", dimensions: 384, createdAt: new Date() }
+}
+
+function userInput(content: string): UserInput {
+  return {
+    id: "u",
+    sessionId: "s1",
+    kind: "user_input",
+    content,
+    tokens: 5,
+    embedding: mockEmbedding(),
+    timestamp: new Date(),
+  }
+}
+
+function agentResponse(content: string): AgentResponse {
+  return {
+    id: "a",
+    sessionId: "s1",
+    kind: "agent_response",
+    content,
+    provider: "llamacpp",
+    model: "test",
+    status: "complete",
+    tokens: 5,
+    embedding: mockEmbedding(),
+    timestamp: new Date(),
+  }
+}
+
+function toItem(artifact: SessionArtifact): ContextItem {
+  return {
+    id: artifact.id,
+    type: "artifact",
+    content: "content" in artifact ? artifact.content : "",
+    tokens: artifact.tokens,
+    priority: "medium",
+    source: { type: "artifact", artifact },
+  }
+}
+
+function mockContext(items: ContextItem[] = [], systemPrompt?: string): Context {
+  return {
+    systemPrompt,
+    items,
+    budget: createTokenBudget({ total: 4096 }),
+    metadata: {
+      artifactsIncluded: items.length,
+      artifactsFiltered: 0,
+      knowledgeIncluded: 0,
+      assembledAt: new Date(),
+    },
+  }
+}
+
+/** SSE body in llama.cpp /completion format */
+function createSSEResponse(contents: string[], final: Record<string, unknown> = {}): Response {
+  const lines = [
+    ...contents.map((content) => ({ content, stop: false })),
+    { content: "", stop: true, stop_type: "eos", tokens_evaluated: 30, tokens_predicted: 6, ...final },
+  ]
+  return new Response(lines.map((l) => `data: ${JSON.stringify(l)}\n\n`).join(""), {
+    status: 200,
+    headers: { "Content-Type": "text/event-stream" },
+  })
+}
+
+const conversation = () =>
+  mockContext([toItem(userInput("Hi")), toItem(agentResponse("Hello!")), toItem(userInput("Bye"))], "Be brief")
+
+// ─── Templates ────────────────────────────────────────────────────
+
+describe("chat templates", () => {
+  test("renders ChatML", () => {
+    const prompt = CHAT_TEMPLATES.chatml.render([
+      { role: "system", content: "Be brief" },
+      { role: "user", content: "Hi" },
+    ])
+    expect(prompt).toBe(
+      "<|im_start|>system\nBe brief<|im_end|>\n<|im_start|>user\nHi<|im_end|>\n<|im_start|>assistant\n"
+    )
+  })
+
+  test("renders Llama 3", () => {
+    const prompt = CHAT_TEMPLATES.llama3.render([{ role: "user", content: "Hi" }])
+    expect(prompt).toBe(
+      "<|start_header_id|>user<|end_header_id|>\n\nHi<|eot_id|><|start_header_id|>assistant<|end_header_id|>\n\n"
+    )
+  })
+
+  test("renders Mistral with system folded into first user turn", () => {
+    const prompt = CHAT_TEMPLATES.mistral.render([
+      { role: "system", content: "Be brief" },
+      { role: "user", content: "Hi" },
+      { role: "assistant", content: "Hello!" },
+      { role: "user", content: "Bye" },
+    ])
+    expect(prompt).toBe("[INST] Be brief\n\nHi [/INST]Hello!</s>[INST] Bye [/INST]")
+  })
+
+  test("renders Gemma with model role", () => {
+    const prompt = CHAT_TEMPLATES.gemma.render([
+      { role: "user", content: "Hi" },
+      { role: "assistant", content: "Hello!" },
+      { role: "user", content: "Bye" },
+    ])
+    expect(prompt).toBe(
+      "<start_of_turn>user\nHi<end_of_turn>\n<start_of_turn>model\nHello!<end_of_turn>\n" +
+        "<start_of_turn>user\nBye<end_of_turn>\n<start_of_turn>model\n"
+    )
+  })
+
+  test("merges consecutive turns with the same role", () => {
+    const prompt = CHAT_TEMPLATES.gemma.render([
+      { role: "user", content: "One" },
+      { role: "user", content: "Two" },
+    ])
+    expect(prompt).toBe("<start_of_turn>user\nOne\n\nTwo<end_of_turn>\n<start_of_turn>model\n")
+  })
+
+  test("detects templates from GGUF Jinja markers", () => {
+    expect(detectChatTemplate("{{'<|im_start|>' + message['role']}}")).toBe("chatml")
+    expect(detectChatTemplate("{{'<|start_header_id|>' + role}}")).toBe("llama3")
+    expect(detectChatTemplate("{{ '[INST] ' + content + ' [/INST]' }}")).toBe("mistral")
+    expect(detectChatTemplate("{{'<start_of_turn>' + role}}")).toBe("gemma")
+    expect(detectChatTemplate("{{ content }}")).toBeUndefined()
+  })
+})
+
+// ─── Provider ─────────────────────────────────────────────────────
+
+describe("LlamaCppProvider", () => {
+  let originalFetch: typeof fetch
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  describe("model info", () => {
+    test("detects template and context size from /props", async () => {
+      globalThis.fetch = mock(async () =>
+        Response.json({
+          chat_template: "{% for m in messages %}<|start_header_id|>{{ m.role }}{% endfor %}",
+          default_generation_settings: { n_ctx: 16384 },
+        })
+      ) as unknown as typeof fetch
+
+      const provider = await createLlamaCppProvider({ model: "llama-3.1-8b" })
+
+      expect(provider.templateName).toBe("llama3")
+      expect(provider.info.capabilities.maxContextTokens).toBe(16384)
+    })
+
+    test("configured template takes precedence", async () => {
+      globalThis.fetch = mock(async () =>
+        Response.json({ chat_template: "<|im_start|>", default_generation_settings: { n_ctx: 8192 } })
+      ) as unknown as typeof fetch
+
+      const provider = await createLlamaCppProvider({ model: "m", template: "gemma" })
+      expect(provider.templateName).toBe("gemma")
+    })
+
+    test("falls back to ChatML when /props is unreachable", async () => {
+      globalThis.fetch = mock(async () => new Response("nope", { status: 404 })) as unknown as typeof fetch
+
+      const provider = await createLlamaCppProvider({ model: "m" })
+      expect(provider.templateName).toBe("chatml")
+      expect(provider.info.capabilities.maxContextTokens).toBe(4096)
+    })
+  })
+
+  describe("complete", () => {
+    test("sends rendered prompt with template and caller stop sequences", async () => {
+      let captured: Record<string, unknown> | null = null
+      globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+        captured = JSON.parse(init?.body as string)
+        return createSSEResponse(["Later"])
+      }) as unknown as typeof fetch
+
+      const provider = new LlamaCppProvider({ model: "m", template: "mistral" })
+      for await (const _ of provider.complete(conversation(), { stopSequences: ["\nUser:"] })) {
+        // consume
+      }
+
+      expect(captured!.prompt).toBe("[INST] Be brief\n\nHi [/INST]Hello!</s>[INST] Bye [/INST]")
+      expect(captured!.stop).toEqual(["</s>", "[INST]", "\nUser:"])
+      expect(captured!.stream).toBe(true)
+    })
+
+    test("streams content and reports usage", async () => {
+      globalThis.fetch = mock(async () => createSSEResponse(["Good", "bye"])) as unknown as typeof fetch
+
+      const provider = new LlamaCppProvider({ model: "m" })
+      const chunks = []
+      for await (const chunk of provider.complete(conversation())) {
+        chunks.push(chunk)
+      }
+
+      expect(chunks.map((c) => c.content).join("")).toBe("Goodbye")
+      expect(chunks[chunks.length - 1]!.usage).toEqual({
+        promptTokens: 30,
+        completionTokens: 6,
+        totalTokens: 36,
+      })
+    })
+
+    test("reports truncation when n_predict is hit", async () => {
+      globalThis.fetch = mock(async () =>
+        createSSEResponse(["Once upon"], { stop_type: "limit" })
+      ) as unknown as typeof fetch
+
+      const provider = new LlamaCppProvider({ model: "m" })
+      let finalChunk = null
+      for await (const chunk of provider.complete(conversation())) {
+        if (chunk.done) finalChunk = chunk
+      }
+
+      expect(finalChunk?.finishReason).toBe("length")
+    })
+
+    test("parses tool calls split across chunks", async () => {
+      let captured: Record<string, unknown> | null = null
+      globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+        captured = JSON.parse(init?.body as string)
+        return createSSEResponse(["Checking. <tool", "_call>\n", '{"name": "get_weather", ', '"arguments": {"city": "NYC"}}\n'])
+      }) as unknown as typeof fetch
+
+      const tools: ToolDefinition[] = [
+        { name: "get_weather", description: "Weather lookup", inputSchema: { type: "object" } },
+      ]
+      const provider = new LlamaCppProvider({ model: "m" })
+
+      let text = ""
+      let toolUse = null
+      let finishReason
+      for await (const chunk of provider.complete(conversation(), { tools })) {
+        text += chunk.content
+        if (chunk.toolUse) toolUse = chunk.toolUse
+        if (chunk.done) finishReason = chunk.finishReason
+      }
+
+      expect(text).toBe("Checking. ")
+      expect(toolUse?.name).toBe("get_weather")
+      expect(toolUse?.input).toEqual({ city: "NYC" })
+      expect(finishReason).toBe("tool_use")
+      expect(captured!.stop).toContain("</tool_call>")
+      expect(captured!.prompt as string).toContain('"name":"get_weather"')
+    })
+
+    test("keeps malformed tool calls as text", async () => {
+      globalThis.fetch = mock(async () => createSSEResponse(["<tool_call>not json"])) as unknown as typeof fetch
+
+      const tools: ToolDefinition[] = [{ name: "t", description: "", inputSchema: {} }]
+      const provider = new LlamaCppProvider({ model: "m" })
+
+      let text = ""
+      for await (const chunk of provider.complete(conversation(), { tools })) {
+        expect(chunk.toolUse).toBeUndefined()
+        text += chunk.content
+      }
+
+      expect(text).toBe("<tool_call>not json")
+    })
+  })
+})
@@ -0,0 +1,180 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test"
+import * as fs from "node:fs/promises"
+import * as os from "node:os"
+import * as path from "node:path"
+import { createProjectMcpServer } from "@/application/mcp-server.ts"
+import { McpClient, McpServer } from "@/infrastructure/mcp/index.ts"
+import { ProjectStorage } from "@/infrastructure/persistence/index.ts"
+import type { Embedder } from "@/infrastructure/embedding/types.ts"
+import { DEFAULT_EMBEDDING_DIMENSIONS, type Embedding } from "@/domain/shared.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+/** Embeds texts by their first letter, so searches match on it */
+function createLetterEmbedder(): Embedder {
+  const embed = async (text: string): Promise<Embedding> => {
+    const vector = Array(DEFAULT_EMBEDDING_DIMENSIONS).fill(0)
+    vector[text.toLowerCase().charCodeAt(0) % DEFAULT_EMBEDDING_DIMENSIONS] = 1
+    return { vector, model: "letter-embedder", dimensions: DEFAULT_EMBEDDING_DIMENSIONS, createdAt: new Date() }
+  }
+  return {
+    name: "letter-embedder",
+    dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+    embed,
+    embedBatch: (texts) => Promise.all(texts.map(embed)),
+  }
+}
+
+let storage: ProjectStorage
+let server: McpServer
+let nextId = 1
+
+beforeEach(async () => {
+  storage = await ProjectStorage.memory()
+  server = createProjectMcpServer({ root: "/", storage, embedder: createLetterEmbedder() })
+})
+
+afterEach(() => {
+  storage.close()
+})
+
+async function request(method: string, params?: unknown) {
+  return server.handle({ jsonrpc: "2.0", id: nextId++, method, params })
+}
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const response = await request("tools/call", { name, arguments: args })
+  const result = response!.result as { content: Array<{ text: string }>; isError: boolean }
+  const text = result.content[0]!.text
+  return { value: result.isError ? text : (JSON.parse(text) as unknown), isError: result.isError }
+}
+
+// ─── Protocol ─────────────────────────────────────────────────────
+
+describe("McpServer", () => {
+  test("completes the handshake and lists the memory tools", async () => {
+    const init = await request("initialize", { protocolVersion: "2025-06-18", capabilities: {} })
+    expect(init!.result).toMatchObject({
+      capabilities: { tools: {}, resources: {} },
+      serverInfo: { name: "tinker" },
+    })
+    expect(await server.handle({ jsonrpc: "2.0", method: "notifications/initialized" })).toBeNull()
+
+    const { tools } = (await request("tools/list"))!.result as { tools: Array<{ name: string }> }
+    expect(tools.map((tool) => tool.name)).toEqual([
+      "searchKnowledge",
+      "addKnowledge",
+      "listSessions",
+      "searchArtifacts",
+    ])
+  })
+
+  test("answers unknown methods and resources with errors", async () => {
+    expect((await request("prompts/list"))!.error).toEqual({ code: -32601, message: "Not supported: prompts/list" })
+    expect((await request("resources/read", { uri: "tinker://sessions/nope" }))!.error).toMatchObject({
+      code: -32002,
+    })
+  })
+
+  test("serves newline-delimited requests from a stream", async () => {
+    const lines: string[] = []
+    const input = new Response('{"jsonrpc":"2.0","id":1,"method":"ping"}\nnot json\n{"jsonrpc":"2.0","id":2,"method":"ping"}')
+
+    await server.serve(input.body!, (line) => lines.push(line))
+
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      { jsonrpc: "2.0", id: 1, result: {} },
+      { jsonrpc: "2.0", id: 2, result: {} },
+    ])
+  })
+
+  test("answers JSON that isn't a message object as an invalid request", async () => {
+    const lines: string[] = []
+    const input = new Response('null\n42\n[]\n{"jsonrpc":"2.0","id":1,"method":"ping"}')
+
+    await server.serve(input.body!, (line) => lines.push(line))
+
+    const invalid = { jsonrpc: "2.0", id: null, error: { code: -32600, message: "Expected a JSON-RPC message object" } }
+    expect(lines.map((line) => JSON.parse(line))).toEqual([invalid, invalid, invalid, { jsonrpc: "2.0", id: 1, result: {} }])
+  })
+})
+
+// ─── Knowledge and sessions ───────────────────────────────────────
+
+describe("project memory over MCP", () => {
+  test("adds knowledge and finds it again", async () => {
+    const added = await callTool("addKnowledge", { content: "Builds use bun", tags: ["build"] })
+    await callTool("addKnowledge", { content: "Tests live in test/" })
+    expect(added.value).toEqual({ id: expect.any(String) })
+
+    const { value } = await callTool("searchKnowledge", { query: "bundling", limit: 1 })
+
+    expect(value).toEqual([expect.objectContaining({ content: "Builds use bun", source: "user", tags: ["build"] })])
+  })
+
+  test("lists sessions and searches their artifacts", async () => {
+    const session = await storage.createSession("project", "Fix the parser")
+    const embedding = await createLetterEmbedder().embed("parser")
+    await storage.addArtifact(session.id, { kind: "user_input", content: "parser crashes", tokens: 3, embedding })
+
+    expect((await callTool("listSessions", {})).value).toEqual([
+      expect.objectContaining({ id: session.id, title: "Fix the parser" }),
+    ])
+    expect((await callTool("searchArtifacts", { query: "p", sessionId: session.id })).value).toEqual([
+      expect.objectContaining({ sessionId: session.id, kind: "user_input", content: "parser crashes" }),
+    ])
+    expect((await callTool("searchArtifacts", { query: "p", sessionId: "x' OR '1'='1" })).value).toMatch(
+      /^Invalid input for searchArtifacts: sessionId/
+    )
+  })
+
+  test("offers each session as a Markdown transcript", async () => {
+    const session = await storage.createSession("project", "Fix the parser")
+    const embedding = await createLetterEmbedder().embed("x")
+    await storage.addArtifact(session.id, { kind: "user_input", content: "Why does it crash?", tokens: 4, embedding })
+    await storage.addArtifact(session.id, {
+      kind: "tool_use",
+      toolUseId: "t1",
+      toolId: "read_file",
+      toolName: "read_file",
+      input: { path: "parser.ts" },
+      tokens: 4,
+      embedding,
+    })
+
+    const { resources } = (await request("resources/list"))!.result as { resources: Array<{ uri: string }> }
+    expect(resources).toEqual([expect.objectContaining({ uri: `tinker://sessions/${session.id}`, name: "Fix the parser" })])
+
+    const { contents } = (await request("resources/read", { uri: resources[0]!.uri }))!.result as {
+      contents: Array<{ text: string }>
+    }
+    expect(contents[0]!.text).toBe(
+      "# Fix the parser\n\n## User\n\nWhy does it crash?\n\n" +
+        '## Tool call: read_file\n\n```json\n{\n  "path": "parser.ts"\n}\n```\n'
+    )
+  })
+})
+
+// ─── CLI ──────────────────────────────────────────────────────────
+
+describe("tinker mcp", () => {
+  test("serves a project's sessions to MCP clients over stdio", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "tinker-mcp-"))
+    const client = new McpClient({
+      name: "tinker",
+      command: process.execPath,
+      args: [path.join(import.meta.dir, "..", "src", "cli", "tinker.ts"), "mcp", "--project", root],
+      timeoutMs: 20_000,
+    })
+
+    try {
+      expect((await client.listTools()).map((tool) => tool.name)).toContain("listSessions")
+      const result = await client.callTool("listSessions", {})
+      expect(result).toEqual({ content: [{ type: "text", text: "[]" }], isError: false })
+      expect(await client.listResources()).toEqual([])
+    } finally {
+      await client.close()
+      await fs.rm(root, { recursive: true, force: true })
+    }
+  }, 30_000)
+})
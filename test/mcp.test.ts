@@ -0,0 +1,129 @@
+import { test, expect, describe, afterEach } from "bun:test"
+import * as path from "node:path"
+import { McpClient, McpError, readMcpResources } from "@/infrastructure/mcp/index.ts"
+import { createContextAssembler } from "@/infrastructure/context/index.ts"
+import { createMcpTools, createToolRegistry, mcpToolName } from "@/tools/index.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+const FIXTURE = path.join(import.meta.dir, "fixtures", "mcp-server.ts")
+const context = { workingDirectory: "/" }
+
+let clients: McpClient[] = []
+
+afterEach(async () => {
+  await Promise.all(clients.map((client) => client.close()))
+  clients = []
+})
+
+function fixtureClient(name = "memo", command = process.execPath, args = [FIXTURE]): McpClient {
+  const client = new McpClient({ name, command, args, timeoutMs: 5000 })
+  clients.push(client)
+  return client
+}
+
+// ─── Tools ────────────────────────────────────────────────────────
+
+describe("MCP tools", () => {
+  test("offers every tool the server lists, with its JSON Schema", async () => {
+    const registry = createToolRegistry(await createMcpTools(fixtureClient()))
+
+    expect(registry.definitions().map((d) => d.name)).toEqual(["memo__echo", "memo__fail", "memo__crash"])
+    expect(registry.definitions()[0]!.inputSchema).toEqual({
+      type: "object",
+      properties: { text: { type: "string" } },
+      required: ["text"],
+    })
+  })
+
+  test("runs calls on the server and reports its errors", async () => {
+    const registry = createToolRegistry(await createMcpTools(fixtureClient()))
+
+    expect(await registry.execute("memo__echo", { text: "hello" }, context)).toEqual({ result: "hello", isError: false })
+    expect(await registry.execute("memo__fail", {}, context)).toEqual({
+      result: { error: "It broke", type: "McpError", server: "memo" },
+      isError: true,
+    })
+  })
+
+  test("names tools so providers accept them", () => {
+    expect(mcpToolName("memo", "echo")).toBe("memo__echo")
+    expect(mcpToolName("my.server", "get issue")).toMatch(/^my_server__get_issue_[0-9a-f]{8}$/)
+    expect(mcpToolName("s", "x".repeat(100))).toHaveLength(64)
+  })
+
+  test("keeps names unique when making them acceptable changes them", () => {
+    expect(mcpToolName("memo", "get.issue")).not.toBe(mcpToolName("memo", "get_issue"))
+    expect(mcpToolName("memo", "get.issue")).not.toBe(mcpToolName("memo", "get issue"))
+    expect(mcpToolName("s", `${"x".repeat(100)}a`)).not.toBe(mcpToolName("s", `${"x".repeat(100)}b`))
+  })
+})
+
+// ─── Resources ────────────────────────────────────────────────────
+
+describe("MCP resources", () => {
+  test("reads text resources and leaves out binary ones", async () => {
+    expect(await readMcpResources([fixtureClient()])).toEqual([
+      { uri: "memo://notes", mimeType: "text/plain", text: "Remember the milk" },
+    ])
+  })
+
+  test("skips servers that can't start", async () => {
+    const missing = fixtureClient("missing", "/nonexistent/mcp-server")
+
+    expect(await readMcpResources([missing, fixtureClient()])).toHaveLength(1)
+  })
+
+  test("become resource context items within their reservation", () => {
+    const assembler = createContextAssembler()
+    const resources = [
+      { uri: "memo://a", text: "a".repeat(40) },
+      { uri: "memo://b", text: "b".repeat(400) },
+      { uri: "memo://c", text: "c".repeat(40) },
+    ]
+
+    const context = assembler.assemble([], { maxTokens: 1000, resources, reservations: { resources: 30 } })
+
+    expect(context.items.map((item) => item.source)).toEqual([
+      { type: "resource", uri: "memo://a", mimeType: undefined },
+      { type: "resource", uri: "memo://c", mimeType: undefined },
+    ])
+    expect(context.budget.reserved.resources).toBe(20)
+  })
+})
+
+// ─── Crashes ──────────────────────────────────────────────────────
+
+describe("MCP server crashes", () => {
+  test("fail the call in flight and restart on the next one", async () => {
+    const client = fixtureClient()
+
+    const crash = await client.callTool("crash", {}).catch((error: unknown) => error)
+    expect(McpError.is(crash)).toBe(true)
+    expect((crash as Error).message).toBe("MCP server memo exited with code 3: fixture: crashing on purpose")
+
+    const result = await client.callTool("echo", { text: "back" })
+    expect(result.content).toEqual([{ type: "text", text: "back" }])
+  })
+
+  test("stop restarting a server that keeps crashing", async () => {
+    const client = fixtureClient()
+
+    for (let i = 0; i < 3; i++) {
+      await client.callTool("crash", {}).catch(() => {})
+    }
+
+    await expect(client.callTool("echo", { text: "hi" })).rejects.toThrow(
+      "MCP server memo crashed 3 times in the last minute; not restarting it"
+    )
+  })
+
+  test("are not reported for servers that were closed", async () => {
+    const client = fixtureClient()
+    await client.connect()
+
+    await client.close()
+
+    await expect(client.callTool("echo", { text: "hi" })).rejects.toThrow("MCP server memo is closed")
+  })
+})
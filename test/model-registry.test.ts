@@ -0,0 +1,165 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test"
+import * as path from "node:path"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import {
+  ModelRegistry,
+  createOpenRouterProvider,
+} from "@/infrastructure/provider/index.ts"
+import fixture from "./fixtures/openrouter-models.json"
+
+// ─── Fixture-backed /models ───────────────────────────────────────
+
+let originalFetch: typeof fetch
+let fetchCount = 0
+let offline = false
+let cacheDir: string
+
+function registry(ttlMs?: number): ModelRegistry {
+  return new ModelRegistry({ cachePath: path.join(cacheDir, "models.json"), ttlMs })
+}
+
+beforeEach(async () => {
+  cacheDir = await mkdtemp(path.join(tmpdir(), "tinker-models-"))
+  fetchCount = 0
+  offline = false
+  originalFetch = globalThis.fetch
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    fetchCount++
+    if (offline) throw new TypeError("fetch failed")
+    expect(String(input)).toBe("https://openrouter.ai/api/v1/models")
+    return Response.json(fixture)
+  }) as typeof fetch
+})
+
+afterEach(async () => {
+  globalThis.fetch = originalFetch
+  await rm(cacheDir, { recursive: true, force: true })
+})
+
+// ─── Capabilities ─────────────────────────────────────────────────
+
+describe("ModelRegistry capabilities", () => {
+  test("derives context, output, tools, vision, structured output and pricing", async () => {
+    const models = registry()
+    await models.load()
+
+    expect(models.capabilities("openai/gpt-4o")).toEqual({
+      tools: true,
+      vision: true,
+      structuredOutput: true,
+      maxContextTokens: 128000,
+      maxOutputTokens: 16384,
+      pricing: { prompt: 0.0000025, completion: 0.00001 },
+    })
+  })
+
+  test("omits fields the listing doesn't know", async () => {
+    const models = registry()
+    await models.load()
+
+    const qwen = models.capabilities("qwen/qwen3-14b:free")!
+    expect(qwen.maxContextTokens).toBe(40960)
+    expect(qwen.maxOutputTokens).toBeUndefined()
+    expect(qwen.pricing).toEqual({ prompt: 0, completion: 0 })
+
+    // Variable-price router
+    expect(models.capabilities("openrouter/auto")!.pricing).toBeUndefined()
+  })
+
+  test("falls back from a variant to its base model", async () => {
+    const models = registry()
+    await models.load()
+
+    expect(models.get("meta-llama/llama-3.2-3b-instruct:free")?.id).toBe(
+      "meta-llama/llama-3.2-3b-instruct"
+    )
+    expect(models.capabilities("unknown/model")).toBeUndefined()
+  })
+})
+
+// ─── Caching ──────────────────────────────────────────────────────
+
+describe("ModelRegistry cache", () => {
+  test("serves a fresh cache without fetching", async () => {
+    await registry().load()
+    expect(fetchCount).toBe(1)
+
+    const cached = registry()
+    await cached.load()
+    expect(fetchCount).toBe(1)
+    expect(cached.list()).toHaveLength(fixture.data.length)
+  })
+
+  test("refetches when the cache is stale", async () => {
+    await registry().load()
+
+    await registry(0).load()
+    expect(fetchCount).toBe(2)
+  })
+
+  test("refetches on demand", async () => {
+    const models = registry()
+    await models.load()
+    await models.load({ refresh: true })
+    expect(fetchCount).toBe(2)
+  })
+
+  test("works offline from a stale cache", async () => {
+    await registry().load()
+    offline = true
+
+    const models = registry(0)
+    await models.load()
+    expect(models.isFresh()).toBe(false)
+    expect(models.capabilities("openai/gpt-4o")?.maxContextTokens).toBe(128000)
+  })
+
+  test("throws offline with no cache", async () => {
+    offline = true
+    await expect(registry().load()).rejects.toThrow("fetch failed")
+  })
+
+  test("caches in the caller's directory, named after the host, or only in memory", async () => {
+    await new ModelRegistry({ cacheDir }).load()
+    expect(await Bun.file(path.join(cacheDir, "openrouter.ai.json")).exists()).toBe(true)
+
+    const uncached = new ModelRegistry()
+    await uncached.load()
+    await new ModelRegistry().load()
+    expect(fetchCount).toBe(3)
+    expect(uncached.list()).toHaveLength(fixture.data.length)
+  })
+})
+
+// ─── Provider integration ─────────────────────────────────────────
+
+describe("createOpenRouterProvider", () => {
+  test("fills capabilities from the registry", async () => {
+    const provider = await createOpenRouterProvider({ apiKey: "test", model: "openai/gpt-4o" }, registry())
+
+    expect(provider.info.capabilities.maxContextTokens).toBe(128000)
+    expect(provider.info.capabilities.tools).toBe(true)
+    expect(provider.info.capabilities.pricing?.completion).toBe(0.00001)
+    expect(provider.info.capabilities.streaming).toBe(true)
+  })
+
+  test("config overrides take precedence", async () => {
+    const provider = await createOpenRouterProvider(
+      { apiKey: "test", model: "openai/gpt-4o", capabilities: { maxContextTokens: 64000, vision: false } },
+      registry()
+    )
+
+    expect(provider.info.capabilities.maxContextTokens).toBe(64000)
+    expect(provider.info.capabilities.vision).toBe(false)
+    expect(provider.info.capabilities.maxOutputTokens).toBe(16384)
+  })
+
+  test("keeps defaults when the registry is unreachable", async () => {
+    offline = true
+    const provider = await createOpenRouterProvider({ apiKey: "test", model: "openai/gpt-4o" }, registry())
+
+    expect(provider.info.capabilities.maxContextTokens).toBe(32000)
+    expect(provider.info.capabilities.tools).toBe(false)
+  })
+})
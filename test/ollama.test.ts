@@ -0,0 +1,366 @@
+import { test, expect, describe, beforeAll, afterAll, beforeEach } from "bun:test"
+import type { Server } from "bun"
+import {
+  OllamaProvider,
+  createOllamaProvider,
+  listOllamaModels,
+} from "@/infrastructure/provider/index.ts"
+import type { Context, ContextItem } from "@/domain/context.ts"
+import { createTokenBudget } from "@/domain/context.ts"
+import type { SessionArtifact, UserInput, ToolUse, ToolResult } from "@/domain/artifact.ts"
+import type { Embedding } from "@/domain/shared.ts"
+import { NetworkError } from "@/util/error.ts"
+
+// ─── Stub Ollama Server ───────────────────────────────────────────
+
+/** Requests received by the stub, keyed by path */
+let requests: Array<{ path: string; body: Record<string, unknown> }> = []
+
+/** NDJSON lines the stub streams back from /api/chat */
+let chatLines: Array<Record<string, unknown>> = []
+
+let server: Server
+
+function chatLine(content: string, done = false, extra: Record<string, unknown> = {}) {
+  return {
+    model: "llama3.2",
+    created_at: new Date().toISOString(),
+    message: { role: "assistant", content },
+    done,
+    ...extra,
+  }
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url)
+      const body = req.method === "POST" ? ((await req.json()) as Record<string, unknown>) : {}
+      requests.push({ path: url.pathname, body })
+
+      switch (url.pathname) {
+        case "/api/tags":
+          return Response.json({
+            models: [
+              {
+                name: "llama3.2:latest",
+                model: "llama3.2:latest",
+                modified_at: "2025-01-01T00:00:00Z",
+                size: 2019393189,
+                digest: "abc",
+                details: { family: "llama", parameter_size: "3.2B", quantization_level: "Q4_K_M" },
+              },
+              {
+                name: "llava:7b",
+                model: "llava:7b",
+                modified_at: "2025-01-01T00:00:00Z",
+                size: 4733363377,
+                digest: "def",
+              },
+            ],
+          })
+
+        case "/api/show":
+          if (body.model === "missing") {
+            return new Response(JSON.stringify({ error: "model 'missing' not found" }), { status: 404 })
+          }
+          return Response.json({
+            details: { family: "llama" },
+            model_info: {
+              "general.architecture": "llama",
+              "llama.context_length": 131072,
+            },
+            capabilities: ["completion", "tools"],
+          })
+
+        case "/api/chat":
+          return new Response(chatLines.map((l) => JSON.stringify(l) + "\n").join(""), {
+            headers: { "Content-Type": "application/x-ndjson" },
+          })
+
+        default:
+          return new Response("not found", { status: 404 })
+      }
+    },
+  })
+})
+
+afterAll(() => {
+  server.stop(true)
+})
+
+beforeEach(() => {
+  requests = []
+  chatLines = []
+})
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+function baseUrl(): string {
+  return `http://localhost:${server.port}`
+}
+
+function mockEmbedding(): Embedding {
+  return { vector: [], model: "test", dimensions: 384, createdAt: new Date() }
+}
+
+function toItem(artifact: SessionArtifact): ContextItem {
+  return {
+    id: artifact.id,
+    type: "artifact",
+    content: "content" in artifact ? artifact.content : "",
+    tokens: artifact.tokens,
+    priority: "medium",
+    source: { type: "artifact", artifact },
+  }
+}
+
+function userInput(content: string): UserInput {
+  return {
+    id: "u1",
+    sessionId: "s1",
+    kind: "user_input",
+    content,
+    tokens: 5,
+    embedding: mockEmbedding(),
+    timestamp: new Date(),
+  }
+}
+
+function mockContext(items: ContextItem[] = [], systemPrompt?: string): Context {
+  return {
+    systemPrompt,
+    items,
+    budget: createTokenBudget({ total: 4096 }),
+    metadata: {
+      artifactsIncluded: items.length,
+      artifactsFiltered: 0,
+      knowledgeIncluded: 0,
+      assembledAt: new Date(),
+    },
+  }
+}
+
+async function collect(provider: OllamaProvider, context: Context) {
+  const chunks = []
+  for await (const chunk of provider.complete(context)) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+// ─── Tests ────────────────────────────────────────────────────────
+
+describe("listOllamaModels", () => {
+  test("lists installed models from /api/tags", async () => {
+    const models = await listOllamaModels(baseUrl())
+
+    expect(models).toHaveLength(2)
+    expect(models[0]).toEqual({
+      name: "llama3.2:latest",
+      size: 2019393189,
+      family: "llama",
+      parameterSize: "3.2B",
+      quantization: "Q4_K_M",
+    })
+    expect(models[1]!.name).toBe("llava:7b")
+  })
+
+  test("accepts an OpenAI-style /v1 base URL", async () => {
+    const models = await listOllamaModels(`${baseUrl()}/v1`)
+    expect(models).toHaveLength(2)
+  })
+
+  test("reports an unreachable server as a network error", async () => {
+    const error = await listOllamaModels("http://127.0.0.1:1").catch((e: unknown) => e)
+    expect(NetworkError.is(error)).toBe(true)
+  })
+})
+
+describe("OllamaProvider", () => {
+  describe("model info", () => {
+    test("reads context length and capabilities from /api/show, capping the window", async () => {
+      const provider = await createOllamaProvider({ model: "llama3.2", baseUrl: baseUrl() })
+
+      expect(provider.info.id).toBe("ollama:llama3.2")
+      expect(provider.info.capabilities.maxContextTokens).toBe(8192)
+      expect(provider.info.capabilities.tools).toBe(true)
+      expect(provider.info.capabilities.vision).toBe(false)
+      expect(requests[0]).toEqual({ path: "/api/show", body: { model: "llama3.2" } })
+    })
+
+    test("configured context length takes precedence", async () => {
+      const provider = await createOllamaProvider({
+        model: "llama3.2",
+        baseUrl: baseUrl(),
+        contextLength: 32768,
+      })
+      expect(provider.info.capabilities.maxContextTokens).toBe(32768)
+    })
+
+    test("falls back to defaults when the model is unknown", async () => {
+      const provider = await createOllamaProvider({ model: "missing", baseUrl: baseUrl() })
+      expect(provider.info.capabilities.maxContextTokens).toBe(4096)
+      expect(provider.info.capabilities.tools).toBe(false)
+    })
+  })
+
+  describe("complete", () => {
+    test("sends native chat request with num_ctx", async () => {
+      chatLines = [chatLine("Hi"), chatLine("", true, { done_reason: "stop" })]
+      const provider = new OllamaProvider({ model: "llama3.2", baseUrl: baseUrl(), contextLength: 8192 })
+
+      await collect(provider, mockContext([toItem(userInput("Hello"))], "Be brief"))
+
+      const chat = requests.find((r) => r.path === "/api/chat")!
+      expect(chat.body.model).toBe("llama3.2")
+      expect(chat.body.stream).toBe(true)
+      expect(chat.body.messages).toEqual([
+        { role: "system", content: "Be brief" },
+        { role: "user", content: "Hello" },
+      ])
+      expect((chat.body.options as Record<string, unknown>).num_ctx).toBe(8192)
+    })
+
+    test("streams content and reports usage", async () => {
+      chatLines = [
+        chatLine("Hello"),
+        chatLine(" world"),
+        chatLine("", true, { done_reason: "stop", prompt_eval_count: 20, eval_count: 3 }),
+      ]
+      const provider = new OllamaProvider({ model: "llama3.2", baseUrl: baseUrl() })
+
+      const chunks = await collect(provider, mockContext([toItem(userInput("Hi"))]))
+
+      expect(chunks.map((c) => c.content).join("")).toBe("Hello world")
+      expect(chunks[chunks.length - 1]).toEqual({
+        content: "",
+        done: true,
+        finishReason: "stop",
+        usage: { promptTokens: 20, completionTokens: 3, totalTokens: 23 },
+      })
+    })
+
+    test("reports truncation from done_reason", async () => {
+      chatLines = [chatLine("Once upon"), chatLine("", true, { done_reason: "length" })]
+      const provider = new OllamaProvider({ model: "llama3.2", baseUrl: baseUrl() })
+
+      const chunks = await collect(provider, mockContext([toItem(userInput("Hi"))]))
+
+      expect(chunks[chunks.length - 1]!.finishReason).toBe("length")
+    })
+
+    test("emits tool calls with generated IDs", async () => {
+      chatLines = [
+        {
+          ...chatLine(""),
+          message: {
+            role: "assistant",
+            content: "",
+            tool_calls: [{ function: { name: "get_weather", arguments: { city: "NYC" } } }],
+          },
+        },
+        chatLine("", true, { done_reason: "stop" }),
+      ]
+      const provider = new OllamaProvider({ model: "llama3.2", baseUrl: baseUrl() })
+
+      const chunks = await collect(provider, mockContext([toItem(userInput("Weather?"))]))
+      const toolChunk = chunks.find((c) => c.toolUse)
+
+      expect(toolChunk?.toolUse?.name).toBe("get_weather")
+      expect(toolChunk?.toolUse?.input).toEqual({ city: "NYC" })
+      expect(toolChunk?.toolUse?.id).toStartWith("call_")
+      expect(chunks[chunks.length - 1]!.finishReason).toBe("tool_use")
+    })
+
+    test("converts tool use and tool result artifacts", async () => {
+      chatLines = [chatLine("", true)]
+      const provider = new OllamaProvider({ model: "llama3.2", baseUrl: baseUrl() })
+
+      const toolUse: ToolUse = {
+        id: "tu",
+        sessionId: "s1",
+        kind: "tool_use",
+        toolUseId: "call_1",
+        toolId: "calculator",
+        toolName: "calculator",
+        input: { expression: "2+2" },
+        tokens: 5,
+        embedding: mockEmbedding(),
+        timestamp: new Date(),
+      }
+      const toolResult: ToolResult = {
+        id: "tr",
+        sessionId: "s1",
+        kind: "tool_result",
+        toolUseId: "call_1",
+        result: { value: 4 },
+        isError: false,
+        tokens: 5,
+        embedding: mockEmbedding(),
+        timestamp: new Date(),
+      }
+
+      await collect(provider, mockContext([toItem(toolUse), toItem(toolResult)]))
+
+      const chat = requests.find((r) => r.path === "/api/chat")!
+      expect(chat.body.messages).toEqual([
+        {
+          role: "assistant",
+          content: "",
+          tool_calls: [{ function: { name: "calculator", arguments: { expression: "2+2" } } }],
+        },
+        { role: "tool", content: '{"value":4}' },
+      ])
+    })
+
+    test("sends images as base64 for vision models, placeholders otherwise", async () => {
+      chatLines = [chatLine("", true)]
+      const item = toItem(userInput("What is this?"))
+      item.images = [{ mediaType: "image/png", data: "iVBORw0KGgo=", name: "cat.png" }]
+
+      const vision = new OllamaProvider({ model: "llava:7b", baseUrl: baseUrl() })
+      vision.info.capabilities = { ...vision.info.capabilities, vision: true }
+      await collect(vision, mockContext([item]))
+      const textOnly = new OllamaProvider({ model: "llama3.2", baseUrl: baseUrl() })
+      await collect(textOnly, mockContext([item]))
+
+      const [withImages, withPlaceholder] = requests.filter((r) => r.path === "/api/chat")
+      expect(withImages!.body.messages).toEqual([
+        { role: "user", content: "What is this?", images: ["iVBORw0KGgo="] },
+      ])
+      expect(withPlaceholder!.body.messages).toEqual([
+        {
+          role: "user",
+          content: "What is this?\n\n[Image attached: cat.png — not shown, this model doesn't support images]",
+        },
+      ])
+    })
+
+    test("sends the response schema as format and returns the parsed object", async () => {
+      chatLines = [chatLine('{"title":"Greetings"}'), chatLine("", true)]
+      const provider = new OllamaProvider({ model: "llama3.2", baseUrl: baseUrl() })
+      const schema = { type: "object", properties: { title: { type: "string" } }, required: ["title"] }
+
+      const chunks = []
+      for await (const chunk of provider.complete(mockContext([toItem(userInput("Hi"))]), {
+        responseFormat: { name: "title", schema },
+      })) {
+        chunks.push(chunk)
+      }
+
+      expect(requests.find((r) => r.path === "/api/chat")?.body.format).toEqual(schema)
+      expect(chunks.at(-1)?.parsed).toEqual({ title: "Greetings" })
+    })
+
+    test("throws on in-stream error", async () => {
+      chatLines = [{ error: "model requires more system memory" }]
+      const provider = new OllamaProvider({ model: "llama3.2", baseUrl: baseUrl() })
+
+      await expect(collect(provider, mockContext([toItem(userInput("Hi"))]))).rejects.toThrow(
+        "Ollama error: model requires more system memory"
+      )
+    })
+  })
+})
@@ -0,0 +1,183 @@
+import { test, expect, describe, mock, beforeEach, afterEach } from "bun:test"
+import {
+  OpenAICompatibleProvider,
+  OpenRouterProvider,
+  createProvider,
+} from "@/infrastructure/provider/index.ts"
+import type { Context } from "@/domain/context.ts"
+import { createTokenBudget } from "@/domain/context.ts"
+import { ConfigError } from "@/util/error.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+function contextOf(content: string): Context {
+  return {
+    items: [
+      {
+        id: "item-0",
+        type: "artifact",
+        content,
+        tokens: content.length,
+        priority: "medium",
+        source: { type: "system", name: "test" },
+      },
+    ],
+    budget: createTokenBudget({ total: 4096 }),
+    metadata: { artifactsIncluded: 1, artifactsFiltered: 0, knowledgeIncluded: 0, assembledAt: new Date() },
+  }
+}
+
+function sseResponse(events: string[]): Response {
+  return new Response(events.map((e) => `data: ${e}\n\n`).join(""), {
+    headers: { "Content-Type": "text/event-stream" },
+  })
+}
+
+/** Capture requests and answer each with "Hi" */
+function captureRequests(): Array<{ url: string; headers: Headers; body: Record<string, unknown> }> {
+  const requests: Array<{ url: string; headers: Headers; body: Record<string, unknown> }> = []
+  globalThis.fetch = mock(async (url: string | URL | Request, init?: RequestInit) => {
+    requests.push({ url: String(url), headers: new Headers(init?.headers), body: JSON.parse(String(init?.body)) })
+    return sseResponse([
+      JSON.stringify({ choices: [{ delta: { content: "Hi" }, finish_reason: null }] }),
+      JSON.stringify({ choices: [{ delta: {}, finish_reason: "stop" }] }),
+      "[DONE]",
+    ])
+  }) as unknown as typeof fetch
+  return requests
+}
+
+async function text(provider: { complete: OpenAICompatibleProvider["complete"] }): Promise<string> {
+  let content = ""
+  for await (const chunk of provider.complete(contextOf("Hello"))) content += chunk.content
+  return content
+}
+
+// ─── OpenAICompatibleProvider ─────────────────────────────────────
+
+describe("OpenAICompatibleProvider", () => {
+  let originalFetch: typeof fetch
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+    delete process.env.TINKER_TEST_KEY
+  })
+
+  test("streams from the server's /chat/completions without OpenRouter headers", async () => {
+    const requests = captureRequests()
+    const provider = new OpenAICompatibleProvider({ model: "qwen3-8b", baseUrl: "http://localhost:8000/v1/" })
+
+    expect(await text(provider)).toBe("Hi")
+    expect(requests[0]!.url).toBe("http://localhost:8000/v1/chat/completions")
+    expect(requests[0]!.body.model).toBe("qwen3-8b")
+    expect(requests[0]!.headers.has("Authorization")).toBe(false)
+    expect(requests[0]!.headers.has("HTTP-Referer")).toBe(false)
+    expect(requests[0]!.headers.has("X-Title")).toBe(false)
+  })
+
+  test("sends custom headers and reads $NAME references from the environment", async () => {
+    process.env.TINKER_TEST_KEY = "gsk_secret"
+    const requests = captureRequests()
+    const provider = new OpenAICompatibleProvider({
+      model: "llama-3.3-70b",
+      baseUrl: "https://api.groq.com/openai/v1",
+      apiKey: "$TINKER_TEST_KEY",
+      headers: { "X-Team": "tinker", "X-Key-Copy": "${TINKER_TEST_KEY}" },
+    })
+
+    await text(provider)
+
+    expect(requests[0]!.headers.get("Authorization")).toBe("Bearer gsk_secret")
+    expect(requests[0]!.headers.get("X-Team")).toBe("tinker")
+    expect(requests[0]!.headers.get("X-Key-Copy")).toBe("gsk_secret")
+  })
+
+  test("fails with a ConfigError when a referenced variable is unset", () => {
+    const error = (() => {
+      try {
+        new OpenAICompatibleProvider({ model: "m", baseUrl: "http://x/v1", apiKey: "$TINKER_TEST_KEY" })
+      } catch (e) {
+        return e
+      }
+    })()
+
+    expect(ConfigError.is(error)).toBe(true)
+    expect((error as Error).message).toBe("Environment variable TINKER_TEST_KEY (for apiKey) is not set")
+  })
+
+  test("reads $NAME references only from the environment it's given", async () => {
+    process.env.TINKER_TEST_KEY = "gsk_secret"
+    const requests = captureRequests()
+    const provider = new OpenAICompatibleProvider({
+      model: "m",
+      baseUrl: "http://x/v1",
+      apiKey: "$TINKER_OTHER_KEY",
+      env: { TINKER_OTHER_KEY: "allowed" },
+    })
+
+    await text(provider)
+
+    expect(requests[0]!.headers.get("Authorization")).toBe("Bearer allowed")
+    expect(() => new OpenAICompatibleProvider({ model: "m", baseUrl: "http://x/v1", apiKey: "$TINKER_TEST_KEY", env: {} })).toThrow(
+      "Environment variable TINKER_TEST_KEY (for apiKey) is not set"
+    )
+  })
+
+  test("names itself and applies capability overrides", () => {
+    const provider = new OpenAICompatibleProvider({
+      name: "Groq",
+      model: "llama-3.3-70b",
+      baseUrl: "https://api.groq.com/openai/v1",
+      capabilities: { maxContextTokens: 131072, tools: true },
+    })
+
+    expect(provider.info.id).toBe("groq:llama-3.3-70b")
+    expect(provider.info.name).toBe("Groq (llama-3.3-70b)")
+    expect(provider.info.capabilities.maxContextTokens).toBe(131072)
+    expect(provider.info.capabilities.tools).toBe(true)
+    expect(provider.info.capabilities.streaming).toBe(true)
+  })
+
+  test("uses its name in errors", async () => {
+    globalThis.fetch = mock(async () => new Response("bad key", { status: 401 })) as unknown as typeof fetch
+    const provider = new OpenAICompatibleProvider({ name: "vLLM", model: "m", baseUrl: "http://x/v1" })
+
+    await expect(text(provider)).rejects.toThrow("vLLM API error (401): bad key")
+  })
+
+  test("OpenRouter specializes it with its own headers", async () => {
+    const requests = captureRequests()
+    const provider = new OpenRouterProvider({ apiKey: "sk-or-test", model: "openai/gpt-4o" })
+
+    await text(provider)
+
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider)
+    expect(requests[0]!.url).toBe("https://openrouter.ai/api/v1/chat/completions")
+    expect(requests[0]!.headers.get("Authorization")).toBe("Bearer sk-or-test")
+    expect(requests[0]!.headers.get("X-Title")).toBe("tinker-ui")
+  })
+
+  test("serves the openai-compatible config and generic local runtimes", async () => {
+    const compatible = await createProvider({
+      type: "openai-compatible",
+      name: "LiteLLM",
+      model: "gpt-4o-mini",
+      baseUrl: "http://localhost:4000",
+    })
+    const local = await createProvider({
+      type: "local",
+      runtime: "lmstudio",
+      model: "qwen/qwen3-coder-30b",
+      baseUrl: "http://localhost:1234/v1",
+      contextLength: 65536,
+    })
+
+    expect(compatible.info.id).toBe("litellm:gpt-4o-mini")
+    expect(local.info.id).toBe("lm-studio:qwen/qwen3-coder-30b")
+    expect(local.info.capabilities.maxContextTokens).toBe(65536)
+  })
+})
@@ -1,5 +1,6 @@
 import { test, expect, describe, mock, beforeEach, afterEach } from "bun:test";
 import { OpenRouterProvider } from "@/infrastructure/provider/index.ts";
+import { AuthError, RateLimitError, ServerError } from "@/util/error.ts";
 import type { Context, ContextItem } from "@/domain/context.ts";
 import { createTokenBudget } from "@/domain/context.ts";
 import type {
@@ -205,10 +206,11 @@ describe("OpenRouterProvider", () => {
     });
 
     describe("countTokens", () => {
-        test("estimates tokens based on character count", async () => {
-            const text = "Hello, world!"; // 13 chars
+        test("counts tokens with the model's tokenizer", async () => {
+            const text = "Hello, world!"; // ["Hello", ",", " world", "!"]
             const tokens = await provider.countTokens(text);
-            expect(tokens).toBe(4); // ceil(13/4)
+            expect(tokens).toBe(4);
+            expect(provider.tokenizer.name).not.toBe("heuristic");
         });
 
         test("handles empty string", async () => {
@@ -323,14 +325,117 @@ describe("OpenRouterProvider", () => {
             });
         });
 
-        test("throws on API error", async () => {
-            // Use a provider with retries disabled for this test
-            const noRetryProvider = new OpenRouterProvider({
+        test("captures usage sent after the finish_reason chunk", async () => {
+            let capturedBody: Record<string, unknown> | null = null;
+            globalThis.fetch = mock(
+                async (_input: RequestInfo | URL, init?: RequestInit) => {
+                    capturedBody = JSON.parse(init?.body as string);
+                    return createSSEResponse([
+                        'data: {"id":"1","object":"chat.completion.chunk","created":1,"model":"test","choices":[{"index":0,"delta":{"content":"Hi"},"finish_reason":null}]}\n\n',
+                        'data: {"id":"1","object":"chat.completion.chunk","created":1,"model":"test","choices":[{"index":0,"delta":{},"finish_reason":"stop"}]}\n\n',
+                        'data: {"id":"1","object":"chat.completion.chunk","created":1,"model":"test","choices":[],"usage":{"prompt_tokens":12,"completion_tokens":3,"total_tokens":15}}\n\n',
+                        "data: [DONE]\n\n",
+                    ]);
+                },
+            ) as typeof fetch;
+
+            const context = mockContext([messageToContextItem(mockMessage())]);
+
+            const finals = [];
+            for await (const chunk of provider.complete(context)) {
+                if (chunk.done) finals.push(chunk);
+            }
+
+            expect(capturedBody!.stream_options).toEqual({ include_usage: true });
+            expect(finals).toHaveLength(1);
+            expect(finals[0]?.finishReason).toBe("stop");
+            expect(finals[0]?.usage).toEqual({
+                promptTokens: 12,
+                completionTokens: 3,
+                totalTokens: 15,
+            });
+        });
+
+        test("streams reasoning deltas separately from content", async () => {
+            globalThis.fetch = mock(async () => {
+                return createSSEResponse([
+                    'data: {"id":"1","object":"chat.completion.chunk","created":1,"model":"test","choices":[{"index":0,"delta":{"reasoning":"Thinking..."},"finish_reason":null}]}\n\n',
+                    'data: {"id":"1","object":"chat.completion.chunk","created":1,"model":"test","choices":[{"index":0,"delta":{"content":"Answer"},"finish_reason":null}]}\n\n',
+                    'data: {"id":"1","object":"chat.completion.chunk","created":1,"model":"test","choices":[{"index":0,"delta":{},"finish_reason":"stop"}]}\n\n',
+                ]);
+            }) as typeof fetch;
+
+            const context = mockContext([messageToContextItem(mockMessage())]);
+
+            let content = "";
+            let reasoning = "";
+            for await (const chunk of provider.complete(context)) {
+                content += chunk.content;
+                reasoning += chunk.reasoning ?? "";
+            }
+
+            expect(reasoning).toBe("Thinking...");
+            expect(content).toBe("Answer");
+        });
+
+        test("maps finish_reason length to a truncated finish", async () => {
+            globalThis.fetch = mock(async () => {
+                return createSSEResponse([
+                    'data: {"id":"1","object":"chat.completion.chunk","created":1,"model":"test","choices":[{"index":0,"delta":{"content":"Once upon"},"finish_reason":null}]}\n\n',
+                    'data: {"id":"1","object":"chat.completion.chunk","created":1,"model":"test","choices":[{"index":0,"delta":{},"finish_reason":"length"}]}\n\n',
+                ]);
+            }) as typeof fetch;
+
+            const context = mockContext([messageToContextItem(mockMessage())]);
+
+            let finalChunk = null;
+            for await (const chunk of provider.complete(context)) {
+                if (chunk.done) finalChunk = chunk;
+            }
+
+            expect(finalChunk?.finishReason).toBe("length");
+        });
+
+        test("sends response_format to models with structured outputs, instructions otherwise", async () => {
+            const bodies: Array<Record<string, unknown>> = [];
+            globalThis.fetch = mock(
+                async (_input: RequestInfo | URL, init?: RequestInit) => {
+                    bodies.push(JSON.parse(init?.body as string));
+                    return createSSEResponse([
+                        'data: {"id":"1","object":"chat.completion.chunk","created":1,"model":"test","choices":[{"index":0,"delta":{"content":"{\\"ok\\":true}"},"finish_reason":"stop"}]}\n\n',
+                        "data: [DONE]\n\n",
+                    ]);
+                },
+            ) as typeof fetch;
+
+            const schema = { type: "object", properties: { ok: { type: "boolean" } }, required: ["ok"] };
+            const context = mockContext([messageToContextItem(mockMessage())]);
+
+            const native = new OpenRouterProvider({
                 apiKey: "test-api-key",
-                model: "meta-llama/llama-3.2-3b-instruct:free",
-                retry: { maxAttempts: 1, initialDelayMs: 0, maxDelayMs: 0 },
+                model: "openai/gpt-4o",
+                capabilities: { structuredOutput: true },
+            });
+            let parsed: unknown;
+            for await (const chunk of native.complete(context, { responseFormat: { name: "check", schema } })) {
+                if (chunk.done) parsed = chunk.parsed;
+            }
+            for await (const _ of provider.complete(context, { responseFormat: { name: "check", schema } })) {
+                // consume
+            }
+
+            expect(parsed).toEqual({ ok: true });
+            expect(bodies[0]!.response_format).toEqual({
+                type: "json_schema",
+                json_schema: { name: "check", schema },
             });
+            expect(bodies[1]!.response_format).toBeUndefined();
+            const messages = bodies[1]!.messages as Array<{ role: string; content: string }>;
+            expect(messages[0]!.role).toBe("system");
+            expect(messages[0]!.content).toContain("matching this JSON Schema (check)");
+        });
 
+        test("throws on API error", async () => {
             globalThis.fetch = mock(async () => {
                 return new Response("Rate limit exceeded", { status: 429 });
             }) as typeof fetch;
@@ -338,12 +443,69 @@ describe("OpenRouterProvider", () => {
             const context = mockContext([messageToContextItem(mockMessage())]);
 
             await expect(async () => {
-                for await (const _ of noRetryProvider.complete(context)) {
+                for await (const _ of provider.complete(context)) {
                     // consume
                 }
             }).toThrow("OpenRouter API error (429)");
         });
 
+        test("types API errors and keeps Retry-After", async () => {
+            globalThis.fetch = mock(async () => {
+                return new Response("Rate limit exceeded", {
+                    status: 429,
+                    headers: { "Retry-After": "3" },
+                });
+            }) as typeof fetch;
+
+            const context = mockContext([messageToContextItem(mockMessage())]);
+            const error = await (async () => {
+                for await (const _ of provider.complete(context)) {
+                    // consume
+                }
+            })().catch((e: unknown) => e);
+
+            expect(RateLimitError.is(error)).toBe(true);
+            expect((error as InstanceType<typeof RateLimitError>).data).toMatchObject({
+                status: 429,
+                retryAfterMs: 3000,
+            });
+        });
+
+        test("throws errors sent inside the stream", async () => {
+            globalThis.fetch = mock(async () => {
+                return createSSEResponse([
+                    'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+                    'data: {"error":{"code":401,"message":"Key revoked"}}\n\n',
+                ]);
+            }) as typeof fetch;
+
+            const context = mockContext([messageToContextItem(mockMessage())]);
+            const error = await (async () => {
+                for await (const _ of provider.complete(context)) {
+                    // consume
+                }
+            })().catch((e: unknown) => e);
+
+            expect(AuthError.is(error)).toBe(true);
+            expect((error as Error).message).toBe("OpenRouter API error (401): Key revoked");
+        });
+
+        test("fails on malformed stream data instead of skipping it", async () => {
+            globalThis.fetch = mock(async () => {
+                return createSSEResponse(['data: {"choices":[{"delta":\n\n']);
+            }) as typeof fetch;
+
+            const context = mockContext([messageToContextItem(mockMessage())]);
+            const error = await (async () => {
+                for await (const _ of provider.complete(context)) {
+                    // consume
+                }
+            })().catch((e: unknown) => e);
+
+            expect(ServerError.is(error)).toBe(true);
+            expect((error as Error).message).toStartWith("OpenRouter sent malformed stream data");
+        });
+
         test("handles tool calls", async () => {
             globalThis.fetch = mock(async () => {
                 return createSSEResponse([
@@ -367,6 +529,25 @@ describe("OpenRouterProvider", () => {
                 input: { city: "NYC" },
             });
         });
+
+        test("reports malformed tool arguments as an input error instead of failing", async () => {
+            globalThis.fetch = mock(async () => {
+                return createSSEResponse([
+                    'data: {"id":"1","object":"chat.completion.chunk","created":1,"model":"test","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"id":"call_1","type":"function","function":{"name":"get_weather","arguments":"{\\"city\\":"}}]},"finish_reason":null}]}\n\n',
+                    'data: {"id":"1","object":"chat.completion.chunk","created":1,"model":"test","choices":[{"index":0,"delta":{},"finish_reason":"tool_calls"}]}\n\n',
+                ]);
+            }) as typeof fetch;
+
+            const context = mockContext([messageToContextItem(mockMessage())]);
+
+            let toolUseChunk = null;
+            for await (const chunk of provider.complete(context)) {
+                if (chunk.toolUse) toolUseChunk = chunk;
+            }
+
+            expect(toolUseChunk?.toolUse).toMatchObject({ id: "call_1", name: "get_weather", input: {} });
+            expect(toolUseChunk?.toolUse?.inputError).toStartWith("Invalid input for get_weather: arguments aren't valid JSON");
+        });
     });
 
     describe("context conversion", () => {
@@ -406,6 +587,35 @@ describe("OpenRouterProvider", () => {
             );
         });
 
+        test("sends the calls of one turn as one assistant message", async () => {
+            let capturedBody: Record<string, unknown> | null = null;
+
+            globalThis.fetch = mock(
+                async (_input: RequestInfo | URL, init?: RequestInit) => {
+                    capturedBody = JSON.parse(init?.body as string);
+                    return createSSEResponse([
+                        'data: {"id":"1","object":"chat.completion.chunk","created":1,"model":"test","choices":[{"index":0,"delta":{},"finish_reason":"stop"}]}\n\n',
+                    ]);
+                },
+            ) as typeof fetch;
+
+            const context = mockContext([
+                artifactToContextItem(mockToolUse({ id: "tu-1", toolUseId: "call_1", input: {} })),
+                artifactToContextItem(mockToolUse({ id: "tu-2", toolUseId: "call_2", input: {} })),
+            ]);
+
+            for await (const _ of provider.complete(context)) {
+                // consume
+            }
+
+            const messages = capturedBody!.messages as Array<{
+                role: string;
+                tool_calls?: Array<{ id: string }>;
+            }>;
+            expect(messages).toHaveLength(1);
+            expect(messages[0].tool_calls?.map((call) => call.id)).toEqual(["call_1", "call_2"]);
+        });
+
         test("converts tool_result to tool response", async () => {
             let capturedBody: Record<string, unknown> | null = null;
 
@@ -439,5 +649,54 @@ describe("OpenRouterProvider", () => {
             expect(messages[0].role).toBe("tool");
             expect(messages[0].tool_call_id).toBe("call_123");
         });
+
+        function captureMessages(): () => Array<{ role: string; content: unknown }> {
+            let capturedBody: Record<string, unknown> | null = null;
+            globalThis.fetch = mock(
+                async (_input: RequestInfo | URL, init?: RequestInit) => {
+                    capturedBody = JSON.parse(init?.body as string);
+                    return createSSEResponse([
+                        'data: {"id":"1","object":"chat.completion.chunk","created":1,"model":"test","choices":[{"index":0,"delta":{},"finish_reason":"stop"}]}\n\n',
+                    ]);
+                },
+            ) as typeof fetch;
+            return () => capturedBody!.messages as Array<{ role: string; content: unknown }>;
+        }
+
+        function imageItem(): ContextItem {
+            const item = messageToContextItem(mockMessage({ content: "What is this?" }));
+            item.images = [{ mediaType: "image/png", data: "iVBORw0KGgo=", name: "cat.png" }];
+            return item;
+        }
+
+        test("sends images as content parts to vision models", async () => {
+            const messages = captureMessages();
+            const visionProvider = new OpenRouterProvider({
+                apiKey: "test-api-key",
+                model: "openai/gpt-4o",
+                capabilities: { vision: true },
+            });
+
+            for await (const _ of visionProvider.complete(mockContext([imageItem()]))) {
+                // consume
+            }
+
+            expect(messages()[0].content).toEqual([
+                { type: "text", text: "What is this?" },
+                { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+            ]);
+        });
+
+        test("replaces images with a placeholder for models without vision", async () => {
+            const messages = captureMessages();
+
+            for await (const _ of provider.complete(mockContext([imageItem()]))) {
+                // consume
+            }
+
+            expect(messages()[0].content).toBe(
+                "What is this?\n\n[Image attached: cat.png — not shown, this model doesn't support images]",
+            );
+        });
     });
 });
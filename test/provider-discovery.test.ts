@@ -0,0 +1,158 @@
+import { test, expect, describe, mock, beforeEach, afterEach } from "bun:test"
+import {
+  PROVIDER_KINDS,
+  listModels,
+  testConnection,
+} from "@/infrastructure/provider/index.ts"
+import { AuthError } from "@/util/error.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+type Route = (body: Record<string, unknown>) => Response
+
+/** Answer requests by URL, recording each one */
+function serve(routes: Record<string, Route>): string[] {
+  const urls: string[] = []
+  globalThis.fetch = mock(async (url: string | URL | Request, init?: RequestInit) => {
+    urls.push(String(url))
+    const route = routes[String(url)]
+    if (!route) return new Response("not found", { status: 404 })
+    return route(init?.body ? JSON.parse(String(init.body)) : {})
+  }) as unknown as typeof fetch
+  return urls
+}
+
+function sseResponse(events: string[]): Response {
+  return new Response(events.map((e) => `data: ${e}\n\n`).join(""), {
+    headers: { "Content-Type": "text/event-stream" },
+  })
+}
+
+// ─── Provider Discovery ───────────────────────────────────────────
+
+describe("provider discovery", () => {
+  let originalFetch: typeof fetch
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  test("offers every configurable kind, but not fallback chains", () => {
+    expect(PROVIDER_KINDS.map((k) => k.type)).toEqual(["local", "openrouter", "openai-compatible", "claude-code"])
+    expect(PROVIDER_KINDS[0]!.runtimes?.find((r) => r.runtime === "ollama")?.defaultBaseUrl).toBe(
+      "http://localhost:11434"
+    )
+  })
+
+  test("lists an OpenAI-compatible server's models with their context windows", async () => {
+    serve({
+      "http://localhost:8000/v1/models": () =>
+        Response.json({
+          data: [
+            { id: "qwen3-8b", max_model_len: 32768 },
+            { id: "llama-3.3-70b", context_window: 131072 },
+            { id: "mystery" },
+          ],
+        }),
+    })
+
+    const models = await listModels({
+      type: "openai-compatible",
+      model: "",
+      baseUrl: "http://localhost:8000/v1",
+      capabilities: { tools: true },
+    })
+
+    expect(models).toEqual([
+      { id: "qwen3-8b", capabilities: { maxContextTokens: 32768, tools: true } },
+      { id: "llama-3.3-70b", capabilities: { maxContextTokens: 131072, tools: true } },
+      { id: "mystery", capabilities: { tools: true } },
+    ])
+  })
+
+  test("reads each Ollama model's capabilities from /api/show", async () => {
+    serve({
+      "http://localhost:11434/api/tags": () =>
+        Response.json({
+          models: [
+            {
+              name: "llava:7b",
+              size: 1,
+              details: { parameter_size: "7B", quantization_level: "Q4_0" },
+            },
+          ],
+        }),
+      "http://localhost:11434/api/show": () =>
+        Response.json({
+          capabilities: ["completion", "vision"],
+          model_info: { "general.architecture": "llama", "llama.context_length": 32768 },
+        }),
+    })
+
+    const [model] = await listModels({
+      type: "local",
+      runtime: "ollama",
+      model: "",
+      baseUrl: "http://localhost:11434",
+    })
+
+    expect(model).toMatchObject({
+      id: "llava:7b",
+      description: "7B, Q4_0",
+      // The model's own window, capped without a configured contextLength
+      capabilities: { maxContextTokens: 8192, vision: true, tools: false },
+    })
+  })
+
+  test("passes listing failures through", async () => {
+    serve({})
+
+    await expect(
+      listModels({ type: "openai-compatible", name: "vLLM", model: "", baseUrl: "http://localhost:8000/v1" })
+    ).rejects.toThrow("vLLM API error (404): not found")
+  })
+
+  test("doesn't list models for fallback chains", async () => {
+    await expect(listModels({ type: "fallback", providers: [] })).rejects.toThrow("Fallback chains")
+  })
+
+  test("a connection test runs a tiny completion", async () => {
+    const bodies: Array<Record<string, unknown>> = []
+    serve({
+      "http://localhost:8000/v1/chat/completions": (body) => {
+        bodies.push(body)
+        return sseResponse([
+          JSON.stringify({ choices: [{ delta: { content: "OK" }, finish_reason: "stop" }] }),
+          "[DONE]",
+        ])
+      },
+    })
+
+    const result = await testConnection({
+      type: "openai-compatible",
+      model: "qwen3-8b",
+      baseUrl: "http://localhost:8000/v1",
+    })
+
+    expect(result).toMatchObject({ ok: true, reply: "OK", model: "qwen3-8b" })
+    expect(result.latencyMs).toBeNumber()
+    expect(bodies[0]).toMatchObject({ max_tokens: 16, temperature: 0 })
+  })
+
+  test("a failed connection test reports the typed error after one attempt", async () => {
+    const urls = serve({
+      "https://openrouter.ai/api/v1/models": () => Response.json({ data: [] }),
+      "https://openrouter.ai/api/v1/chat/completions": () => new Response("Invalid API key", { status: 401 }),
+    })
+
+    const result = await testConnection({ type: "openrouter", model: "openai/gpt-4o", apiKey: "sk-or-bad" })
+
+    expect(result.ok).toBe(false)
+    expect(!result.ok && AuthError.is(result.error)).toBe(true)
+    expect(urls.filter((url) => url.endsWith("/chat/completions"))).toHaveLength(1)
+  })
+})
@@ -0,0 +1,76 @@
+import { test, expect, describe } from "bun:test"
+import {
+  isRetryableError,
+  networkError,
+  parseRetryAfter,
+  statusError,
+  streamError,
+} from "@/infrastructure/provider/index.ts"
+import {
+  AuthError,
+  ContextLengthError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+} from "@/util/error.ts"
+
+describe("statusError", () => {
+  test("maps statuses to typed errors", () => {
+    expect(AuthError.is(statusError("OpenRouter", 401, "Invalid API key"))).toBe(true)
+    expect(RateLimitError.is(statusError("OpenRouter", 429, "slow down"))).toBe(true)
+    expect(ServerError.is(statusError("OpenRouter", 503, "overloaded"))).toBe(true)
+    expect(
+      ContextLengthError.is(statusError("OpenRouter", 400, "This model's maximum context length is 8192 tokens"))
+    ).toBe(true)
+  })
+
+  test("keeps the familiar message and leaves other statuses untyped", () => {
+    const error = statusError("Ollama", 404, "model not found")
+
+    expect(error.message).toBe("Ollama API error (404): model not found")
+    expect(isRetryableError(error)).toBe(false)
+  })
+
+  test("carries the provider, status and requested wait", () => {
+    const error = statusError("OpenRouter", 429, "slow down", 1500)
+
+    expect((error as InstanceType<typeof RateLimitError>).data).toEqual({
+      provider: "OpenRouter",
+      status: 429,
+      retryAfterMs: 1500,
+    })
+  })
+})
+
+describe("streamError", () => {
+  test("types context-length failures only", () => {
+    expect(ContextLengthError.is(streamError("Ollama", "prompt is too long"))).toBe(true)
+    expect(streamError("Ollama", "model crashed").message).toBe("Ollama error: model crashed")
+  })
+})
+
+describe("networkError", () => {
+  test("wraps fetch network failures", async () => {
+    const refused = await fetch("http://127.0.0.1:1").catch((e: unknown) => networkError("llama.cpp", e))
+
+    expect(NetworkError.is(refused)).toBe(true)
+    expect(isRetryableError(refused)).toBe(true)
+  })
+
+  test("passes aborts through", () => {
+    const abort = new DOMException("The operation was aborted.", "AbortError")
+    expect(networkError("llama.cpp", abort)).toBe(abort)
+  })
+})
+
+describe("parseRetryAfter", () => {
+  test("reads delay-seconds and HTTP dates", () => {
+    expect(parseRetryAfter("2")).toBe(2000)
+    expect(parseRetryAfter(null)).toBeUndefined()
+    expect(parseRetryAfter("soon")).toBeUndefined()
+
+    const ms = parseRetryAfter(new Date(Date.now() + 10_000).toUTCString())!
+    expect(ms).toBeGreaterThan(8000)
+    expect(ms).toBeLessThanOrEqual(10_000)
+  })
+})
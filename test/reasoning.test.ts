@@ -0,0 +1,97 @@
+import { test, expect, beforeEach, afterEach, describe } from "bun:test"
+import { createConversationService, type ConversationServiceConfig } from "@/application/conversation-service.ts"
+import { ProjectStorage } from "@/infrastructure/persistence/index.ts"
+import type { Provider } from "@/domain/provider.ts"
+import { collect, createMockEmbedder, createScriptedProvider, lastResponse } from "./helpers.ts"
+
+// ─── Tests ────────────────────────────────────────────────────────
+
+describe("reasoning", () => {
+  let storage: ProjectStorage
+
+  beforeEach(async () => {
+    storage = await ProjectStorage.memory()
+  })
+
+  afterEach(() => {
+    storage.close()
+  })
+
+  function serviceWith(provider: Provider, config: Partial<ConversationServiceConfig> = {}) {
+    return createConversationService({
+      projectId: "test-project-reasoning",
+      provider,
+      storage,
+      embedder: createMockEmbedder(),
+      ...config,
+    })
+  }
+
+  test("streams reasoning as its own events, apart from the answer", async () => {
+    const provider = createScriptedProvider([{ reasoning: "Hmm.", content: "Hi!" }])
+    const service = serviceWith(provider)
+
+    const events = await collect(service.send("Hello"))
+
+    const reasoning = events.filter((e) => e.type === "reasoning_chunk")
+    const chunks = events.filter((e) => e.type === "stream_chunk")
+    expect(reasoning).toEqual([{ type: "reasoning_chunk", content: "Hmm." }])
+    expect(chunks).toEqual([{ type: "stream_chunk", content: "Hi!" }])
+  })
+
+  test("stores reasoning alongside the response", async () => {
+    const provider = createScriptedProvider([{ reasoning: "Hmm.", content: "Hi!" }])
+    const service = serviceWith(provider)
+
+    await collect(service.send("Hello"))
+
+    const response = await lastResponse(service)
+    expect(response.content).toBe("Hi!")
+    expect(response.reasoning).toBe("Hmm.")
+  })
+
+  test("leaves reasoning out of later contexts by default", async () => {
+    const provider = createScriptedProvider([
+      { reasoning: "Secret plan.", content: "Hi!" },
+      { reasoning: "", content: "Sure." },
+    ])
+    const service = serviceWith(provider)
+
+    await collect(service.send("Hello"))
+    await collect(service.send("Again"))
+
+    const contents = provider.calls[1]!.context.items.map((item) => item.content)
+    expect(contents).toContain("Hi!")
+    expect(contents.some((c) => c.includes("Secret plan."))).toBe(false)
+  })
+
+  test("includes reasoning in later contexts when asked", async () => {
+    const provider = createScriptedProvider([
+      { reasoning: "Secret plan.", content: "Hi!" },
+      { reasoning: "", content: "Sure." },
+    ])
+    const service = serviceWith(provider, { includeReasoning: true })
+
+    await collect(service.send("Hello"))
+    await collect(service.send("Again"))
+
+    const agentItem = provider.calls[1]!.context.items.find((item) => item.content.endsWith("Hi!"))
+    expect(agentItem?.content).toContain("<thinking>\nSecret plan.\n</thinking>")
+    expect(agentItem!.tokens).toBeGreaterThan((await lastResponse(service)).tokens)
+  })
+
+  test("appends continuation reasoning to the stored reasoning", async () => {
+    const provider = createScriptedProvider([
+      { reasoning: "First.", content: "Once upon", finishReason: "length" },
+      { reasoning: " Second.", content: " a time" },
+    ])
+    const service = serviceWith(provider)
+
+    await collect(service.send("Tell me a story"))
+    await collect(service.continueResponse())
+
+    const response = await lastResponse(service)
+    expect(response.content).toBe("Once upon a time")
+    expect(response.reasoning).toBe("First. Second.")
+  })
+})
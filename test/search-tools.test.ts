@@ -0,0 +1,161 @@
+import { test, expect, describe, beforeAll, afterAll } from "bun:test"
+import { $ } from "bun"
+import * as fs from "node:fs/promises"
+import * as os from "node:os"
+import * as path from "node:path"
+import { createSearchTools, createToolRegistry, type ToolRegistry } from "@/tools/index.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+let root: string
+let outside: string
+let registry: ToolRegistry
+const context = { workingDirectory: "/" }
+
+const files: Record<string, string> = {
+  ".gitignore": "dist/\n",
+  "README.md": "# Demo\n",
+  "src/parser.ts": "import { lex } from \"./lexer.ts\"\n\nexport function parse(text: string) {\n  return lex(text)\n}\n",
+  "src/lexer.ts": "export const lex = (text: string) => text.split(\" \")\n\nexport class Lexer {\n  tokenize(text: string) {\n    return lex(text)\n  }\n}\n",
+  "src/util/strings.ts": "export type Token = string\n",
+  "test/parser.test.ts": "import { parse } from \"../src/parser.ts\"\nparse(\"a b\")\n",
+  "dist/bundle.js": "function parse() {}\n",
+}
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "tinker-search-"))
+  outside = await fs.mkdtemp(path.join(os.tmpdir(), "tinker-outside-"))
+  await $`git init -q ${root}`.quiet()
+  for (const [file, content] of Object.entries(files)) {
+    await fs.mkdir(path.join(root, path.dirname(file)), { recursive: true })
+    await fs.writeFile(path.join(root, file), content)
+  }
+  await fs.writeFile(path.join(root, "logo.png"), new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 0x70, 0x61, 0x72]))
+  await fs.writeFile(path.join(outside, "secret.ts"), "export function parse() {}\n")
+  await fs.symlink(outside, path.join(root, "escape"))
+  registry = createToolRegistry(createSearchTools({ root }))
+})
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true })
+  await fs.rm(outside, { recursive: true, force: true })
+})
+
+async function run(name: string, input: unknown) {
+  return registry.execute(name, input, context)
+}
+
+// ─── glob ─────────────────────────────────────────────────────────
+
+describe("glob", () => {
+  test("finds files git doesn't ignore, relative to the root", async () => {
+    expect((await run("glob", { pattern: "**/*.ts" })).result).toEqual({
+      pattern: "**/*.ts",
+      files: ["src/lexer.ts", "src/parser.ts", "src/util/strings.ts", "test/parser.test.ts"],
+      total: 4,
+      offset: 0,
+    })
+    expect((await run("glob", { pattern: "*.js", path: "dist" })).result).toMatchObject({ reason: "ignored" })
+  })
+
+  test("matches relative to the searched directory", async () => {
+    expect((await run("glob", { pattern: "*.ts", path: "src" })).result).toMatchObject({
+      files: ["src/lexer.ts", "src/parser.ts"],
+    })
+  })
+
+  test("pages through results", async () => {
+    const paged = createToolRegistry(createSearchTools({ root, pageSize: 3 }))
+
+    const first = await paged.execute("glob", { pattern: "**" }, context)
+    expect(first.result).toMatchObject({ files: [".gitignore", "README.md", "logo.png"], total: 7, nextOffset: 3 })
+
+    const last = await paged.execute("glob", { pattern: "**", offset: 6 }, context)
+    expect(last.result).toEqual({ pattern: "**", files: ["test/parser.test.ts"], total: 7, offset: 6 })
+  })
+})
+
+// ─── grep ─────────────────────────────────────────────────────────
+
+describe("grep", () => {
+  test("finds matching lines in text files, with context", async () => {
+    const { result } = await run("grep", { pattern: "lex\\(", include: "**/*.ts", context: 1 })
+
+    expect(result).toEqual({
+      pattern: "lex\\(",
+      matches: [
+        { path: "src/lexer.ts", line: 5, text: "    return lex(text)", before: ["  tokenize(text: string) {"], after: ["  }"] },
+        { path: "src/parser.ts", line: 4, text: "  return lex(text)", before: ["export function parse(text: string) {"], after: ["}"] },
+      ],
+      total: 2,
+      offset: 0,
+    })
+  })
+
+  test("skips ignored and binary files and symlinks out of the project", async () => {
+    const { result } = await run("grep", { pattern: "function parse|par", ignoreCase: true })
+
+    expect((result as { matches: Array<{ path: string }> }).matches.map((m) => m.path)).toEqual([
+      "src/parser.ts",
+      "test/parser.test.ts",
+      "test/parser.test.ts",
+    ])
+  })
+
+  test("refuses invalid patterns and paths outside the project", async () => {
+    expect(await run("grep", { pattern: "(" })).toMatchObject({ isError: true })
+    expect((await run("grep", { pattern: "x", path: "../" })).result).toMatchObject({ reason: "outside_project" })
+    expect((await run("grep", { pattern: "x", path: "escape" })).result).toMatchObject({ reason: "outside_project" })
+  })
+})
+
+// ─── file_tree ────────────────────────────────────────────────────
+
+describe("file_tree", () => {
+  test("outlines the project, directories first", async () => {
+    expect((await run("file_tree", {})).result).toEqual({
+      path: ".",
+      tree: [
+        "src/",
+        "  util/",
+        "    strings.ts",
+        "  lexer.ts",
+        "  parser.ts",
+        "test/",
+        "  parser.test.ts",
+        ".gitignore",
+        "logo.png",
+        "README.md",
+      ].join("\n"),
+      total: 10,
+      offset: 0,
+    })
+  })
+
+  test("collapses directories below the depth", async () => {
+    expect((await run("file_tree", { path: "src", depth: 1 })).result).toMatchObject({
+      path: "src",
+      tree: "util/ (1 file)\nlexer.ts\nparser.ts",
+    })
+  })
+})
+
+// ─── find_symbol ──────────────────────────────────────────────────
+
+describe("find_symbol", () => {
+  test("finds declarations, not uses", async () => {
+    const declared = async (symbol: string) => {
+      const { result } = await run("find_symbol", { symbol })
+      return (result as { matches: Array<{ path: string; line: number }> }).matches
+    }
+
+    expect(await declared("parse")).toEqual([{ path: "src/parser.ts", line: 3, text: "export function parse(text: string) {" }])
+    expect(await declared("lex")).toEqual([expect.objectContaining({ path: "src/lexer.ts", line: 1 })])
+    expect(await declared("tokenize")).toEqual([expect.objectContaining({ path: "src/lexer.ts", line: 4 })])
+    expect(await declared("Token")).toEqual([expect.objectContaining({ path: "src/util/strings.ts" })])
+  })
+
+  test("only takes identifiers", async () => {
+    expect((await run("find_symbol", { symbol: "a.*" })).isError).toBe(true)
+  })
+})
@@ -230,6 +230,12 @@ test("gets knowledge by id", async () => {
   expect(found!.content).toBe("Test knowledge")
 })
 
+test("reads knowledge tags back", async () => {
+  const created = await storage.addKnowledge("Tagged", createEmbedding(), "user", {}, ["a", "b"])
+
+  expect((await storage.getKnowledge(created.id))!.tags).toEqual(["a", "b"])
+})
+
 test("lists knowledge by source", async () => {
   const emb = createEmbedding()
   await storage.addKnowledge("From conversation", emb, "conversation", {})
@@ -0,0 +1,208 @@
+import { test, expect, describe } from "bun:test"
+import { z } from "zod"
+import {
+  StructuredOutputError,
+  completeStructured,
+  parseJsonResponse,
+  streamStructured,
+  validateJsonSchema,
+  zodResponseFormat,
+} from "@/infrastructure/provider/index.ts"
+import type { CompletionOptions, Provider, ResponseFormat, StreamChunk } from "@/domain/provider.ts"
+import type { Context } from "@/domain/context.ts"
+import { createTokenBudget } from "@/domain/context.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+const titleSchema = {
+  type: "object",
+  properties: {
+    title: { type: "string", minLength: 1 },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["title"],
+  additionalProperties: false,
+}
+
+const titleFormat: ResponseFormat = { name: "title", schema: titleSchema }
+
+function contextOf(systemPrompt?: string): Context {
+  return {
+    systemPrompt,
+    items: [],
+    budget: createTokenBudget({ total: 1000 }),
+    metadata: { artifactsIncluded: 0, artifactsFiltered: 0, knowledgeIncluded: 0, assembledAt: new Date() },
+  }
+}
+
+/**
+ * A raw stream that plays back one scripted answer per call,
+ * recording the context and options each call received.
+ */
+function scriptedStream(answers: string[]) {
+  const calls: Array<{ context: Context; options: CompletionOptions }> = []
+  async function* stream(context: Context, options: CompletionOptions): AsyncIterable<StreamChunk> {
+    calls.push({ context, options })
+    const answer = answers[calls.length - 1]!
+    yield { content: answer.slice(0, 5), done: false }
+    yield { content: answer.slice(5), done: false }
+    yield {
+      content: "",
+      done: true,
+      finishReason: "stop",
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    }
+  }
+  return { stream, calls }
+}
+
+async function collect(chunks: AsyncIterable<StreamChunk>): Promise<StreamChunk[]> {
+  const collected: StreamChunk[] = []
+  for await (const chunk of chunks) collected.push(chunk)
+  return collected
+}
+
+// ─── Validation ───────────────────────────────────────────────────
+
+describe("validateJsonSchema", () => {
+  test("accepts matching values", () => {
+    expect(validateJsonSchema({ title: "Hi", tags: ["a"] }, titleSchema)).toEqual([])
+  })
+
+  test("reports each problem with its path", () => {
+    expect(validateJsonSchema({ tags: ["a", 2], extra: true }, titleSchema)).toEqual([
+      "$.title: required",
+      "$.tags[1]: expected string, got number",
+      "$.extra: unexpected property",
+    ])
+  })
+
+  test("checks enums, integers and alternatives", () => {
+    expect(validateJsonSchema("maybe", { enum: ["yes", "no"] })).toEqual(['$: must be one of "yes", "no"'])
+    expect(validateJsonSchema(1.5, { type: "integer" })).toEqual(["$: expected integer, got number"])
+    expect(validateJsonSchema(null, { anyOf: [{ type: "string" }, { type: "null" }] })).toEqual([])
+  })
+})
+
+describe("zodResponseFormat", () => {
+  const format = zodResponseFormat("facts", z.object({ facts: z.array(z.string()) }))
+
+  test("converts the schema to JSON Schema", () => {
+    expect(format.schema.type).toBe("object")
+    expect(format.schema.required).toEqual(["facts"])
+    expect(format.schema.$schema).toBeUndefined()
+  })
+
+  test("validates with the zod schema", () => {
+    expect(format.validate!({ facts: ["sky is blue"] })).toEqual([])
+    expect(format.validate!({ facts: [1] })[0]).toStartWith("$.facts[0]:")
+  })
+})
+
+describe("parseJsonResponse", () => {
+  test("tolerates a surrounding code fence", () => {
+    expect(parseJsonResponse('```json\n{"a": 1}\n```')).toEqual({ a: 1 })
+    expect(parseJsonResponse('  {"a": 1}\n')).toEqual({ a: 1 })
+  })
+})
+
+// ─── Structured Completion ────────────────────────────────────────
+
+describe("streamStructured", () => {
+  test("returns the text and parsed object on one final chunk", async () => {
+    const { stream } = scriptedStream(['{"title":"Greetings"}'])
+
+    const chunks = await collect(streamStructured(contextOf(), { responseFormat: titleFormat }, stream))
+
+    expect(chunks).toHaveLength(1)
+    expect(chunks[0]).toMatchObject({ content: '{"title":"Greetings"}', done: true, parsed: { title: "Greetings" } })
+  })
+
+  test("puts the schema in the system prompt when the provider can't enforce it", async () => {
+    const { stream, calls } = scriptedStream(['{"title":"Greetings"}'])
+
+    await collect(streamStructured(contextOf("Be brief."), { responseFormat: titleFormat }, stream))
+
+    expect(calls[0]!.context.systemPrompt).toStartWith("Be brief.\n\nRespond with only a JSON value")
+    expect(calls[0]!.context.systemPrompt).toContain('"additionalProperties": false')
+    expect(calls[0]!.options.responseFormat).toBeUndefined()
+  })
+
+  test("passes the format through to native providers", async () => {
+    const { stream, calls } = scriptedStream(['{"title":"Greetings"}'])
+
+    await collect(streamStructured(contextOf("Be brief."), { responseFormat: titleFormat }, stream, { native: true }))
+
+    expect(calls[0]!.context.systemPrompt).toBe("Be brief.")
+    expect(calls[0]!.options.responseFormat).toBe(titleFormat)
+  })
+
+  test("retries with the problems until the answer validates", async () => {
+    const { stream, calls } = scriptedStream(["Sure! Here you go.", '{"tags":[]}', '{"title":"Fixed"}'])
+
+    const [final] = await collect(streamStructured(contextOf(), { responseFormat: titleFormat }, stream))
+
+    expect(final!.parsed).toEqual({ title: "Fixed" })
+    expect(final!.usage).toEqual({ promptTokens: 30, completionTokens: 15, totalTokens: 45 })
+
+    const retry = calls[2]!.context.items.map((item) => item.content)
+    expect(retry).toHaveLength(4)
+    expect(retry[2]).toBe('{"tags":[]}')
+    expect(retry[3]).toContain("- $.title: required")
+    const rejected = calls[2]!.context.items[2]!.source
+    expect(rejected.type === "artifact" && rejected.artifact.kind).toBe("agent_response")
+  })
+
+  test("counts retry turns with the provider's tokenizer", async () => {
+    const { stream, calls } = scriptedStream(["nope", '{"title":"Fixed"}'])
+    const tokenizer = { name: "words", count: (text: string) => text.split(/\s+/).length }
+
+    await collect(streamStructured(contextOf(), { responseFormat: titleFormat }, stream, { tokenizer }))
+
+    const [rejected, correction] = calls[1]!.context.items.slice(-2)
+    expect(rejected!.tokens).toBe(1)
+    expect(correction!.tokens).toBe(tokenizer.count(correction!.content))
+  })
+
+  test("throws StructuredOutputError once attempts run out", async () => {
+    const { stream, calls } = scriptedStream(["nope", "still no"])
+
+    const error = await collect(streamStructured(contextOf(), { responseFormat: titleFormat }, stream, { maxAttempts: 2 })).catch(
+      (e: unknown) => e
+    )
+
+    expect(StructuredOutputError.is(error)).toBe(true)
+    expect((error as InstanceType<typeof StructuredOutputError>).data).toMatchObject({ format: "title", attempts: 2 })
+    expect(calls).toHaveLength(2)
+  })
+})
+
+describe("completeStructured", () => {
+  test("returns the validated object from a provider", async () => {
+    const { stream } = scriptedStream(['{"title":"Greetings"}'])
+    const provider: Provider = {
+      info: {
+        id: "mock",
+        name: "Mock",
+        model: "mock-model",
+        capabilities: {
+          streaming: true,
+          tools: false,
+          vision: false,
+          systemPrompt: true,
+          maxContextTokens: 4096,
+          maxOutputTokens: 1024,
+        },
+      },
+      complete: (context, options) =>
+        streamStructured(context, { ...options, responseFormat: options!.responseFormat! }, stream),
+      countTokens: async (text) => text.length,
+      translateArtifactKind: () => "user",
+    }
+
+    const result = await completeStructured<{ title: string }>(provider, contextOf(), titleFormat)
+
+    expect(result.value.title).toBe("Greetings")
+    expect(result.content).toBe('{"title":"Greetings"}')
+  })
+})
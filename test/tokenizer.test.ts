@@ -0,0 +1,105 @@
+import { test, expect, describe } from "bun:test"
+import {
+  getTokenizer,
+  tokenizerForModel,
+  tokenizerFamilyForModel,
+} from "@/infrastructure/tokenizer/index.ts"
+import { ContextAssembler } from "@/infrastructure/context/index.ts"
+import type { Tokenizer } from "@/domain/ports/tokenizer.ts"
+import type { Knowledge } from "@/domain/knowledge.ts"
+
+describe("tokenizerFamilyForModel", () => {
+  test("maps OpenAI models to their encodings", () => {
+    expect(tokenizerFamilyForModel("gpt-4o")).toBe("o200k")
+    expect(tokenizerFamilyForModel("openai/gpt-4o-mini")).toBe("o200k")
+    expect(tokenizerFamilyForModel("o3-mini")).toBe("o200k")
+    expect(tokenizerFamilyForModel("openai/gpt-4")).toBe("cl100k")
+    expect(tokenizerFamilyForModel("gpt-3.5-turbo")).toBe("cl100k")
+  })
+
+  test("maps Llama 3 models regardless of vendor prefix or tag", () => {
+    expect(tokenizerFamilyForModel("meta-llama/llama-3.1-8b-instruct")).toBe("llama3")
+    expect(tokenizerFamilyForModel("llama3.2:latest")).toBe("llama3")
+  })
+
+  test("maps Claude models", () => {
+    expect(tokenizerFamilyForModel("claude-sonnet-4-20250514")).toBe("claude")
+    expect(tokenizerFamilyForModel("anthropic/claude-3.5-haiku")).toBe("claude")
+  })
+
+  test("falls back to cl100k for unknown models", () => {
+    expect(tokenizerFamilyForModel("mistralai/mistral-7b-instruct")).toBe("cl100k")
+    expect(tokenizerFamilyForModel("")).toBe("cl100k")
+  })
+})
+
+describe("tokenizers", () => {
+  test("shares one instance per family", () => {
+    expect(tokenizerForModel("gpt-4o")).toBe(getTokenizer("o200k"))
+  })
+
+  test("counts known strings", () => {
+    expect(getTokenizer("o200k").count("Hello, world!")).toBe(4)
+    expect(getTokenizer("cl100k").count("Hello, world!")).toBe(4)
+    expect(getTokenizer("llama3").count("Hello, world!")).toBe(4)
+    expect(getTokenizer("heuristic").count("Hello, world!")).toBe(4)
+  })
+
+  test("returns zero for empty text", () => {
+    for (const family of ["o200k", "cl100k", "llama3", "claude", "heuristic"] as const) {
+      expect(getTokenizer(family).count("")).toBe(0)
+    }
+  })
+
+  test("counts special-token markup as text instead of throwing", () => {
+    const text = "The <|endoftext|> marker ends a document."
+    expect(getTokenizer("o200k").count(text)).toBeGreaterThan(1)
+    expect(getTokenizer("cl100k").count(text)).toBeGreaterThan(1)
+    expect(getTokenizer("llama3").count("<|begin_of_text|> hello")).toBeGreaterThan(1)
+  })
+
+  test("counts code denser than the chars/4 heuristic", () => {
+    const code = "if(a[i]!==b[j]){x+=(y<<2)|z;}"
+    expect(getTokenizer("cl100k").count(code)).toBeGreaterThan(
+      getTokenizer("heuristic").count(code)
+    )
+  })
+
+  test("claude approximation stays at or above cl100k", () => {
+    const text = "Claude tokenizes most text into slightly more pieces than cl100k does."
+    expect(getTokenizer("claude").count(text)).toBeGreaterThanOrEqual(
+      getTokenizer("cl100k").count(text)
+    )
+  })
+})
+
+describe("ContextAssembler with tokenizer", () => {
+  const fixed: Tokenizer = { name: "fixed", count: () => 25 }
+
+  test("reserves system prompt tokens using the provided tokenizer", () => {
+    const assembler = new ContextAssembler()
+    const context = assembler.assemble([], { maxTokens: 100, systemPrompt: "Be brief.", tokenizer: fixed })
+
+    expect(context.budget.reserved.system).toBe(25)
+    expect(context.budget.available).toBe(75)
+  })
+
+  test("counts knowledge tokens using the provided tokenizer", () => {
+    const assembler = new ContextAssembler()
+    const knowledge: Knowledge[] = [{
+      id: "k1",
+      content: "Project uses Bun.",
+      embedding: { vector: [], model: "test", dimensions: 0, createdAt: new Date() },
+      source: "user",
+      sourceMetadata: {},
+      tags: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }]
+
+    const context = assembler.assembleWithKnowledge([], knowledge, { maxTokens: 100, tokenizer: fixed })
+
+    expect(context.items[0]!.tokens).toBe(25)
+    expect(context.budget.reserved.knowledge).toBe(25)
+  })
+})
@@ -0,0 +1,395 @@
+import { test, expect, beforeEach, afterEach, describe } from "bun:test"
+import { z } from "zod"
+import {
+  createConversationService,
+  type ConversationServiceConfig,
+  type SessionEvent,
+} from "@/application/conversation-service.ts"
+import { ProjectStorage } from "@/infrastructure/persistence/index.ts"
+import { createToolRegistry, defineTool, type ToolApprovalDecision, type ToolRegistry } from "@/tools/index.ts"
+import type { Provider } from "@/domain/provider.ts"
+import type { ToolResult } from "@/domain/artifact.ts"
+import { collect, createMockEmbedder, createScriptedProvider, mockProviderInfo, type ScriptedReply } from "./helpers.ts"
+
+// ─── Test Helpers ─────────────────────────────────────────────────
+
+/** A scripted provider that can call tools */
+function toolProvider(turns: ScriptedReply[], tools = true) {
+  return createScriptedProvider(turns, mockProviderInfo("scripted", { tools }))
+}
+
+const add = defineTool({
+  name: "add",
+  description: "Add two numbers",
+  input: z.object({ a: z.number(), b: z.number() }),
+  async execute({ a, b }) {
+    return a + b
+  },
+})
+
+// ─── ToolRegistry ─────────────────────────────────────────────────
+
+describe("ToolRegistry", () => {
+  const context = { workingDirectory: "/tmp" }
+
+  test("describes its tools with JSON Schema", () => {
+    const [definition] = createToolRegistry([add]).definitions()
+
+    expect(definition).toMatchObject({
+      name: "add",
+      description: "Add two numbers",
+      inputSchema: {
+        type: "object",
+        properties: { a: { type: "number" }, b: { type: "number" } },
+        required: ["a", "b"],
+      },
+    })
+    expect(definition!.inputSchema.$schema).toBeUndefined()
+  })
+
+  test("runs valid calls", async () => {
+    expect(await createToolRegistry([add]).execute("add", { a: 2, b: 3 }, context)).toEqual({
+      result: 5,
+      isError: false,
+    })
+  })
+
+  test("reports bad calls as errors instead of running them", async () => {
+    const failing = defineTool({
+      name: "fail",
+      description: "Always fails",
+      input: z.object({}),
+      async execute() {
+        throw new Error("disk full")
+      },
+    })
+    const registry = createToolRegistry([add, failing])
+
+    expect(await registry.execute("subtract", {}, context)).toEqual({ result: "Unknown tool: subtract", isError: true })
+    const invalid = await registry.execute("add", { a: 2 }, context)
+    expect(invalid.isError).toBe(true)
+    expect(invalid.result as string).toStartWith("Invalid input for add: b:")
+    expect(await registry.execute("fail", {}, context)).toEqual({ result: "disk full", isError: true })
+  })
+
+  test("refuses duplicate names", () => {
+    expect(() => createToolRegistry([add, add])).toThrow("Tool already registered: add")
+  })
+})
+
+// ─── Tool Loop ────────────────────────────────────────────────────
+
+describe("tool-use loop", () => {
+  let storage: ProjectStorage
+
+  beforeEach(async () => {
+    storage = await ProjectStorage.memory()
+  })
+
+  afterEach(() => {
+    storage.close()
+  })
+
+  function serviceWith(provider: Provider, tools: ToolRegistry, config: Partial<ConversationServiceConfig> = {}) {
+    return createConversationService({
+      projectId: "test-project-tools",
+      provider,
+      storage,
+      embedder: createMockEmbedder(),
+      tools,
+      ...config,
+    })
+  }
+
+  test("runs the tools the model calls and lets it continue", async () => {
+    const provider = toolProvider([
+      { content: "Let me add those.", toolUses: [{ name: "add", input: { a: 2, b: 3 } }] },
+      { content: "2 + 3 = 5" },
+    ])
+    const service = serviceWith(provider, createToolRegistry([add]))
+
+    const events = await collect(service.send("What's 2 + 3?"))
+
+    expect(events.filter((e) => e.type.startsWith("tool_") || e.type === "agent_response").map((e) => e.type)).toEqual([
+      "agent_response",
+      "tool_use",
+      "tool_result",
+      "agent_response",
+    ])
+    expect((await service.getArtifacts()).map((a) => a.kind)).toEqual([
+      "user_input",
+      "agent_response",
+      "tool_use",
+      "tool_result",
+      "agent_response",
+    ])
+
+    const result = (await service.getArtifacts())[3] as ToolResult
+    expect(result).toMatchObject({ toolUseId: "call_1_0", result: 5, isError: false })
+
+    // The second completion sees the call and its result
+    const kinds = provider.calls[1]!.context.items.map((item) =>
+      item.source.type === "artifact" ? item.source.artifact.kind : item.source.type
+    )
+    expect(kinds).toEqual(["user_input", "agent_response", "tool_use", "tool_result"])
+    expect(provider.calls[0]!.options?.tools?.map((t) => t.name)).toEqual(["add"])
+  })
+
+  test("stores a turn's calls together before running them", async () => {
+    const provider = toolProvider([
+      { toolUses: [{ name: "add", input: { a: 1, b: 2 } }, { name: "add", input: { a: 3, b: 4 } }] },
+      { content: "3 and 7" },
+    ])
+    const service = serviceWith(provider, createToolRegistry([add]))
+
+    await collect(service.send("Add both"))
+
+    const artifacts = await service.getArtifacts()
+    expect(artifacts.map((a) => a.kind)).toEqual([
+      "user_input",
+      "tool_use",
+      "tool_use",
+      "tool_result",
+      "tool_result",
+      "agent_response",
+    ])
+    expect(artifacts.slice(3, 5)).toMatchObject([
+      { toolUseId: "call_1_0", result: 3 },
+      { toolUseId: "call_1_1", result: 7 },
+    ])
+  })
+
+  test("sends failed calls back to the model as errors", async () => {
+    const provider = toolProvider([
+      { toolUses: [{ name: "add", input: { a: "two" } }] },
+      { content: "Sorry, I couldn't." },
+    ])
+    const service = serviceWith(provider, createToolRegistry([add]))
+
+    const events = await collect(service.send("Add"))
+
+    const result = events.find((e) => e.type === "tool_result")
+    expect(result?.type === "tool_result" && result.artifact.isError).toBe(true)
+    expect(events.at(-1)?.type).toBe("session_usage")
+  })
+
+  test("answers calls with unreadable arguments with the reason, without running them", async () => {
+    let ran = false
+    const tracked = defineTool({
+      ...add,
+      async execute(input, context) {
+        ran = true
+        return add.execute(input, context)
+      },
+    })
+    const inputError = "Invalid input for add: arguments aren't valid JSON (Unexpected end of JSON input)"
+    const provider = toolProvider([
+      { toolUses: [{ name: "add", input: {}, inputError }] },
+      { content: "Let me try again." },
+    ])
+    const service = serviceWith(provider, createToolRegistry([tracked]), {
+      toolApproval: { default: "ask" },
+    })
+
+    const events = await collect(service.send("Add"))
+
+    expect(ran).toBe(false)
+    expect(events.some((e) => e.type === "tool_approval_required")).toBe(false)
+    const result = events.find((e) => e.type === "tool_result")
+    expect(result?.type === "tool_result" && result.artifact).toMatchObject({ result: inputError, isError: true })
+  })
+
+  test("stops at the iteration limit without leaving a call unanswered", async () => {
+    const provider = toolProvider([{ toolUses: [{ name: "add", input: { a: 1, b: 1 } }] }])
+    const service = serviceWith(provider, createToolRegistry([add]), { maxToolIterations: 2 })
+
+    const events = await collect(service.send("Keep adding"))
+
+    expect(provider.calls).toHaveLength(2)
+    expect(events.find((e) => e.type === "tool_limit")).toEqual({ type: "tool_limit", iterations: 2 })
+    const artifacts = await service.getArtifacts()
+    expect(artifacts.map((a) => a.kind)).toEqual(["user_input", "tool_use", "tool_result", "tool_use", "tool_result"])
+    expect(artifacts[4]).toMatchObject({
+      toolUseId: "call_2_0",
+      result: "Not run: reached the limit of 2 tool iterations",
+      isError: true,
+    })
+  })
+
+  test("reads resources once per send, not for every tool round", async () => {
+    let reads = 0
+    const provider = toolProvider([
+      { toolUses: [{ name: "add", input: { a: 1, b: 2 } }] },
+      { content: "3" },
+    ])
+    const service = serviceWith(provider, createToolRegistry([add]), {
+      resources: async () => {
+        reads++
+        return [{ uri: "memo://notes", text: "Remember the milk" }]
+      },
+    })
+
+    await collect(service.send("Add"))
+
+    expect(provider.calls).toHaveLength(2)
+    expect(reads).toBe(1)
+    expect(provider.calls[1]!.context.items.some((item) => item.source.type === "resource")).toBe(true)
+  })
+
+  test("doesn't offer tools to providers that can't use them", async () => {
+    const provider = toolProvider([{ content: "Hi" }], false)
+    const service = serviceWith(provider, createToolRegistry([add]))
+
+    await collect(service.send("Hello"))
+
+    expect(provider.calls[0]!.options?.tools).toBeUndefined()
+  })
+
+  test("stops running tools when the user stops generation", async () => {
+    const abort = new AbortController()
+    const stopper = defineTool({
+      name: "stop",
+      description: "Presses the stop button",
+      input: z.object({}),
+      async execute() {
+        abort.abort()
+        return "stopped"
+      },
+    })
+    const provider = toolProvider([
+      { toolUses: [{ name: "stop", input: {} }, { name: "add", input: { a: 1, b: 2 } }] },
+      { content: "Never sent" },
+    ])
+    const service = serviceWith(provider, createToolRegistry([add, stopper]))
+
+    await collect(service.send("Go", { signal: abort.signal }))
+
+    expect(provider.calls).toHaveLength(1)
+    const artifacts = await service.getArtifacts()
+    expect(artifacts.map((a) => a.kind)).toEqual(["user_input", "tool_use", "tool_use", "tool_result", "tool_result"])
+    expect(artifacts[4]).toMatchObject({ toolUseId: "call_1_1", result: "Not run: stopped by the user", isError: true })
+  })
+})
+
+// ─── Approval ─────────────────────────────────────────────────────
+
+describe("tool approval", () => {
+  let storage: ProjectStorage
+
+  beforeEach(async () => {
+    storage = await ProjectStorage.memory()
+  })
+
+  afterEach(() => {
+    storage.close()
+  })
+
+  function serviceWith(provider: Provider, tools: ToolRegistry, config: Partial<ConversationServiceConfig> = {}) {
+    return createConversationService({
+      projectId: "test-project-approval",
+      provider,
+      storage,
+      embedder: createMockEmbedder(),
+      tools,
+      toolApproval: { tools: { add: "ask" } },
+      ...config,
+    })
+  }
+
+  /** Collect events, answering each approval request with the next decision */
+  async function collectAnswering(
+    service: ReturnType<typeof serviceWith>,
+    events: AsyncIterable<SessionEvent>,
+    decisions: ToolApprovalDecision[]
+  ): Promise<SessionEvent[]> {
+    const collected: SessionEvent[] = []
+    for await (const event of events) {
+      collected.push(event)
+      if (event.type === "tool_approval_required") {
+        service.resolveToolApproval(event.toolUseId, decisions.shift()!)
+      }
+    }
+    return collected
+  }
+
+  const oneCall = () =>
+    toolProvider([{ toolUses: [{ name: "add", input: { a: 2, b: 3 } }] }, { content: "Done" }])
+
+  test("pauses on calls that need approval and runs them once approved", async () => {
+    const service = serviceWith(oneCall(), createToolRegistry([add]))
+
+    const events = await collectAnswering(service, service.send("Add"), [{ action: "approve" }])
+
+    expect(events.filter((e) => e.type.startsWith("tool_")).map((e) => e.type)).toEqual([
+      "tool_approval_required",
+      "tool_use",
+      "tool_result",
+    ])
+    expect(events.find((e) => e.type === "tool_approval_required")).toEqual({
+      type: "tool_approval_required",
+      toolUseId: "call_1_0",
+      toolName: "add",
+      input: { a: 2, b: 3 },
+    })
+    expect((await service.getArtifacts())[2]).toMatchObject({ kind: "tool_result", result: 5, isError: false })
+  })
+
+  test("runs and stores the call with the input the user edited", async () => {
+    const service = serviceWith(oneCall(), createToolRegistry([add]))
+
+    await collectAnswering(service, service.send("Add"), [{ action: "edit", input: { a: 2, b: 40 } }])
+
+    const [, toolUse, toolResult] = await service.getArtifacts()
+    expect(toolUse).toMatchObject({ kind: "tool_use", input: { a: 2, b: 40 } })
+    expect(toolResult).toMatchObject({ kind: "tool_result", result: 42 })
+  })
+
+  test("stores a denial as an error result with the user's reason", async () => {
+    let ran = false
+    const watched = defineTool({
+      ...add,
+      async execute(input) {
+        ran = true
+        return add.execute(input, { workingDirectory: "/" })
+      },
+    })
+    const provider = oneCall()
+    const service = serviceWith(provider, createToolRegistry([watched]))
+
+    await collectAnswering(service, service.send("Add"), [{ action: "deny", reason: "use a calculator" }])
+
+    expect(ran).toBe(false)
+    expect((await service.getArtifacts())[2]).toMatchObject({
+      kind: "tool_result",
+      result: { error: "Denied by the user", reason: "use a calculator" },
+      isError: true,
+    })
+    // The model hears about it and answers
+    expect(provider.calls).toHaveLength(2)
+  })
+
+  test("never offers tools whose policy is never, and refuses calls to them", async () => {
+    const provider = oneCall()
+    const service = serviceWith(provider, createToolRegistry([add]), { toolApproval: { default: "never" } })
+
+    await collect(service.send("Add"))
+
+    expect(provider.calls[0]!.options?.tools).toBeUndefined()
+    expect((await service.getArtifacts())[2]).toMatchObject({ result: "Tool not allowed: add", isError: true })
+  })
+
+  test("drops a waiting call when the user stops generation", async () => {
+    const abort = new AbortController()
+    const service = serviceWith(oneCall(), createToolRegistry([add]))
+
+    for await (const event of service.send("Add", { signal: abort.signal })) {
+      if (event.type === "tool_approval_required") abort.abort()
+    }
+
+    expect((await service.getArtifacts()).map((a) => a.kind)).toEqual(["user_input"])
+    expect(() => service.resolveToolApproval("call_1_0", { action: "approve" })).toThrow(
+      "No tool call waiting for approval: call_1_0"
+    )
+  })
+})
+